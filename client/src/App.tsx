@@ -1,5 +1,6 @@
 import Layout from '@/components/Layout';
 import Home from '@/pages/home';
+import Runs from '@/pages/runs';
 import Workflow from '@/pages/workflow';
 import { useEffect } from 'react';
 import { Route, BrowserRouter as Router, Routes } from 'react-router-dom';
@@ -43,6 +44,22 @@ function App() {
             </Layout>
           }
         />
+        <Route
+          path="/runs"
+          element={
+            <Layout>
+              <Runs />
+            </Layout>
+          }
+        />
+        <Route
+          path="/runs/:runId"
+          element={
+            <Layout>
+              <Runs />
+            </Layout>
+          }
+        />
       </Routes>
     </Router>
   );
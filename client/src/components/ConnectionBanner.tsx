@@ -0,0 +1,65 @@
+import { Button } from '@/components/ui/button';
+import { connectionManager } from '@/lib/connectionManager';
+import { useConnectionStore } from '@/store/useConnectionStore';
+import { AnimatePresence, motion } from 'framer-motion';
+import { WifiOff } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+// Shown while the WebSocket is down; the initial connect has its own loader
+export default function ConnectionBanner() {
+  const { status, attempt, nextRetryAt, queuedMessages } = useConnectionStore();
+  const [now, setNow] = useState(Date.now());
+
+  const isVisible = status === 'reconnecting';
+
+  // Tick once a second so the countdown stays current
+  useEffect(() => {
+    if (!isVisible) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isVisible]);
+
+  const secondsUntilRetry = nextRetryAt
+    ? Math.max(0, Math.ceil((nextRetryAt - now) / 1000))
+    : 0;
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          transition={{ duration: 0.2 }}
+          className="fixed top-[78px] left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-full border border-orange-300 bg-orange-50 dark:bg-gray-800 dark:border-orange-700 shadow-md text-sm"
+        >
+          <WifiOff className="w-4 h-4 text-orange-600" />
+          <span className="text-foreground">
+            {secondsUntilRetry > 0
+              ? `Connection lost. Reconnecting in ${secondsUntilRetry}s`
+              : 'Reconnecting...'}
+            {attempt > 1 && (
+              <span className="text-muted-foreground">
+                {' '}
+                (attempt {attempt})
+              </span>
+            )}
+          </span>
+          {queuedMessages > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {queuedMessages} message{queuedMessages === 1 ? '' : 's'} waiting
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 rounded-full"
+            onClick={() => connectionManager.retryNow()}
+          >
+            Retry now
+          </Button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button';
 import { useTheme } from '@/hooks/useTheme';
-import { Brain, Moon, Plus, Sun } from 'lucide-react';
+import { Brain, History, Moon, Plus, Sun, Workflow } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 
 export default function Header() {
@@ -9,6 +9,7 @@ export default function Header() {
 
   // Check if we're on the workflow page
   const isOnWorkflowPage = location.pathname.startsWith('/workflow');
+  const isOnRunsPage = location.pathname.startsWith('/runs');
 
   return (
     <header className="bg-background border-b border-border sticky top-0 z-50">
@@ -44,6 +45,34 @@ export default function Header() {
               </Button>
             )}
 
+            {/* Switch between the workflow and its run history */}
+            {isOnWorkflowPage && (
+              <Button
+                variant="outline"
+                size="sm"
+                asChild
+                className="flex items-center space-x-2 text-sm"
+              >
+                <Link to="/runs">
+                  <History className="w-4 h-4" />
+                  <span>Runs</span>
+                </Link>
+              </Button>
+            )}
+            {isOnRunsPage && (
+              <Button
+                variant="outline"
+                size="sm"
+                asChild
+                className="flex items-center space-x-2 text-sm"
+              >
+                <Link to="/workflow">
+                  <Workflow className="w-4 h-4" />
+                  <span>Workflow</span>
+                </Link>
+              </Button>
+            )}
+
             <Button
               variant="ghost"
               size="icon"
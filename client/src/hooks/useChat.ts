@@ -1,5 +1,16 @@
+import { describeColumnMapping } from '@/lib/columnMapping';
 import { useChatStore } from '@/store/useChatStore';
-import type { Message } from '@/types';
+import type {
+  CodeTarget,
+  ColumnMapping,
+  GraphEdit,
+  LayoutChange,
+  Message,
+  Question,
+  WorkflowSchedule,
+  WorkflowSpecFormat,
+  WorkflowVersionSummary,
+} from '@/types';
 import { useCallback } from 'react';
 
 export const useChat = () => {
@@ -12,6 +23,7 @@ export const useChat = () => {
     nodeData,
     nodeDataLoading,
     nodeDataError,
+    currentRun,
     addMessage,
     setWorkflowComplete,
     setLoading,
@@ -23,6 +35,15 @@ export const useChat = () => {
     setNodeDataLoading,
     setNodeDataError,
     clearNodeData,
+    setConnectionTestLoading,
+    setConnectionTestResult,
+    setSchemaLoading,
+    setNodeSchemas,
+    setPreviewLoading,
+    setNodePreview,
+    setSpecErrors,
+    setVersionDiff,
+    setNodePositions,
     resetStore,
   } = useChatStore();
 
@@ -45,6 +66,9 @@ export const useChat = () => {
           node_type: message.node_type || 'default',
           node_title: message.node_title || '',
           filled_values: message.filled_values || {},
+          secret_fields: message.secret_fields,
+          field_questions: message.field_questions,
+          validation_errors: message.validation_errors,
         });
         setNodeDataLoading(false);
       } else if (message.type === 'ERROR' && message.content.includes('node')) {
@@ -79,6 +103,405 @@ export const useChat = () => {
     [setNodeDataLoading, setNodeDataError]
   );
 
+  const sendRevealFieldRequest = useCallback(
+    (
+      nodeId: string,
+      field: string,
+      sendMessage: (message: Message) => void
+    ) => {
+      const message: Message = {
+        id: `reveal_${Date.now()}`,
+        role: 'user',
+        type: 'REVEAL_FIELD',
+        content: `Reveal ${field} for node ${nodeId}`,
+        timestamp: new Date().toISOString(),
+        node_id: nodeId,
+        field,
+      };
+
+      sendMessage(message);
+    },
+    []
+  );
+
+  const sendTestConnectionRequest = useCallback(
+    (nodeId: string, sendMessage: (message: Message) => void) => {
+      setConnectionTestResult(null);
+      setConnectionTestLoading(true);
+
+      const message: Message = {
+        id: `test_${Date.now()}`,
+        role: 'user',
+        type: 'TEST_CONNECTION',
+        content: `Test connection for node ${nodeId}`,
+        timestamp: new Date().toISOString(),
+        node_id: nodeId,
+      };
+
+      sendMessage(message);
+    },
+    [setConnectionTestLoading, setConnectionTestResult]
+  );
+
+  // Ask for the columns going into and out of a node; sources are sampled
+  const sendInferSchemaRequest = useCallback(
+    (nodeId: string, sendMessage: (message: Message) => void) => {
+      setNodeSchemas(null);
+      setSchemaLoading(true);
+
+      sendMessage({
+        id: `infer_schema_${Date.now()}`,
+        role: 'user',
+        type: 'INFER_SCHEMA',
+        content: `Infer the schema of node ${nodeId}`,
+        timestamp: new Date().toISOString(),
+        node_id: nodeId,
+      });
+    },
+    [setSchemaLoading, setNodeSchemas]
+  );
+
+  // Ask for the first rows going into and out of a node
+  const sendPreviewDataRequest = useCallback(
+    (
+      nodeId: string,
+      limit: number,
+      sendMessage: (message: Message) => void
+    ) => {
+      setNodePreview(null);
+      setPreviewLoading(true);
+
+      sendMessage({
+        id: `preview_data_${Date.now()}`,
+        role: 'user',
+        type: 'PREVIEW_DATA',
+        content: `Preview ${limit} rows of node ${nodeId}`,
+        timestamp: new Date().toISOString(),
+        node_id: nodeId,
+        limit,
+      });
+    },
+    [setPreviewLoading, setNodePreview]
+  );
+
+  const sendRunWorkflowRequest = useCallback(
+    (sendMessage: (message: Message) => void) => {
+      const message: Message = {
+        id: `run_${Date.now()}`,
+        role: 'user',
+        type: 'RUN_WORKFLOW',
+        content: 'Run workflow',
+        timestamp: new Date().toISOString(),
+      };
+
+      sendMessage(message);
+    },
+    []
+  );
+
+  const sendExportWorkflowRequest = useCallback(
+    (format: WorkflowSpecFormat, sendMessage: (message: Message) => void) => {
+      const message: Message = {
+        id: `export_${Date.now()}`,
+        role: 'user',
+        type: 'EXPORT_WORKFLOW',
+        content: `Export workflow as ${format}`,
+        timestamp: new Date().toISOString(),
+        spec_format: format,
+      };
+
+      sendMessage(message);
+    },
+    []
+  );
+
+  const sendImportWorkflowRequest = useCallback(
+    (spec: string, sendMessage: (message: Message) => void) => {
+      setSpecErrors(null);
+      setLoading(true);
+
+      const message: Message = {
+        id: `import_${Date.now()}`,
+        role: 'user',
+        type: 'IMPORT_WORKFLOW',
+        content: 'Import workflow spec',
+        timestamp: new Date().toISOString(),
+        spec,
+      };
+
+      sendMessage(message);
+    },
+    [setSpecErrors, setLoading]
+  );
+
+  const sendGenerateCodeRequest = useCallback(
+    (target: CodeTarget, sendMessage: (message: Message) => void) => {
+      const content =
+        target === 'airflow'
+          ? 'Generate an Airflow DAG'
+          : 'Generate a Dagster job';
+
+      // The code arrives as the assistant reply to this request
+      addUserMessage(content);
+      setLoading(true);
+
+      const message: Message = {
+        id: `code_${Date.now()}`,
+        role: 'user',
+        type: 'GENERATE_CODE',
+        content,
+        timestamp: new Date().toISOString(),
+        code_target: target,
+      };
+
+      sendMessage(message);
+    },
+    [addUserMessage, setLoading]
+  );
+
+  // A schedule in words ("every weekday at 6am UTC") or as an object; the
+  // server answers in the chat and sends the new SCHEDULE
+  const sendSetScheduleRequest = useCallback(
+    (
+      schedule: string | WorkflowSchedule,
+      sendMessage: (message: Message) => void
+    ) => {
+      const content =
+        typeof schedule === 'string'
+          ? `Schedule: ${schedule}`
+          : schedule.mode === 'manual'
+            ? 'Only run the workflow when started'
+            : 'Update the schedule';
+
+      addUserMessage(content);
+      setLoading(true);
+
+      sendMessage({
+        id: `set_schedule_${Date.now()}`,
+        role: 'user',
+        type: 'SET_SCHEDULE',
+        content,
+        timestamp: new Date().toISOString(),
+        ...(typeof schedule === 'string'
+          ? { schedule_text: schedule }
+          : { schedule }),
+      });
+    },
+    [addUserMessage, setLoading]
+  );
+
+  const sendListVersionsRequest = useCallback(
+    (sendMessage: (message: Message) => void) => {
+      sendMessage({
+        id: `versions_${Date.now()}`,
+        role: 'user',
+        type: 'LIST_VERSIONS',
+        content: 'List workflow versions',
+        timestamp: new Date().toISOString(),
+      });
+    },
+    []
+  );
+
+  const sendNameVersionRequest = useCallback(
+    (
+      versionId: string,
+      name: string,
+      sendMessage: (message: Message) => void
+    ) => {
+      sendMessage({
+        id: `name_version_${Date.now()}`,
+        role: 'user',
+        type: 'NAME_VERSION',
+        content: `Name version ${name}`,
+        timestamp: new Date().toISOString(),
+        version_id: versionId,
+        version_name: name,
+      });
+    },
+    []
+  );
+
+  const sendDiffVersionsRequest = useCallback(
+    (
+      versionId: string,
+      compareTo: string | undefined,
+      sendMessage: (message: Message) => void
+    ) => {
+      sendMessage({
+        id: `diff_${Date.now()}`,
+        role: 'user',
+        type: 'DIFF_VERSIONS',
+        content: 'Compare workflow versions',
+        timestamp: new Date().toISOString(),
+        version_id: versionId,
+        compare_to: compareTo,
+      });
+    },
+    []
+  );
+
+  const sendRestoreVersionRequest = useCallback(
+    (
+      version: WorkflowVersionSummary,
+      sendMessage: (message: Message) => void
+    ) => {
+      const content = version.name
+        ? `Restore version ${version.number} "${version.name}"`
+        : `Restore version ${version.number}`;
+
+      // The restored workflow arrives as the assistant reply to this request
+      setVersionDiff(null);
+      addUserMessage(content);
+      setLoading(true);
+
+      sendMessage({
+        id: `restore_${Date.now()}`,
+        role: 'user',
+        type: 'RESTORE_VERSION',
+        content,
+        timestamp: new Date().toISOString(),
+        version_id: version.id,
+      });
+    },
+    [setVersionDiff, addUserMessage, setLoading]
+  );
+
+  // A field edited or cleared in the node drawer; the assistant acknowledges
+  // it in the chat like an answer
+  const sendUpdateNodeFieldRequest = useCallback(
+    (
+      question: Question,
+      value: string | string[],
+      sendMessage: (message: Message) => void
+    ) => {
+      const values = [value].flat();
+      const content = values.every(item => !item.trim())
+        ? `Clear ${question.text}`
+        : question.type === 'password'
+          ? `Set ${question.text}`
+          : `Set ${question.text} to ${values.join(', ')}`;
+
+      addUserMessage(content);
+      setLoading(true);
+
+      sendMessage({
+        id: `update_field_${Date.now()}`,
+        role: 'user',
+        type: 'UPDATE_NODE_FIELD',
+        content,
+        timestamp: new Date().toISOString(),
+        answer: {
+          node_id: question.node_id,
+          field: question.field,
+          value,
+        },
+      });
+    },
+    [addUserMessage, setLoading]
+  );
+
+  // A column mapping built in the drawer; it becomes the transform's
+  // configuration and the assistant acknowledges it in the chat
+  const sendColumnMappingRequest = useCallback(
+    (
+      nodeId: string,
+      mapping: ColumnMapping[],
+      sendMessage: (message: Message) => void
+    ) => {
+      const name =
+        currentWorkflow.nodes.find(node => node.id === nodeId)?.name || nodeId;
+      const content = `Map the columns of ${name}: ${describeColumnMapping(
+        mapping
+      ).join(', ')}`;
+
+      addUserMessage(content);
+      setLoading(true);
+
+      sendMessage({
+        id: `column_mapping_${Date.now()}`,
+        role: 'user',
+        type: 'UPDATE_COLUMN_MAPPING',
+        content,
+        timestamp: new Date().toISOString(),
+        node_id: nodeId,
+        column_mapping: mapping,
+      });
+    },
+    [currentWorkflow.nodes, addUserMessage, setLoading]
+  );
+
+  // A step or connection added or removed on the canvas. The chat shows the
+  // same request the server records, and the reply asks for whatever the
+  // new graph still needs.
+  const sendGraphEditRequest = useCallback(
+    (edit: GraphEdit, sendMessage: (message: Message) => void) => {
+      const nameOf = (nodeId: string) =>
+        currentWorkflow.nodes.find(node => node.id === nodeId)?.name || nodeId;
+      let content: string;
+      switch (edit.action) {
+        case 'add_node':
+          content = `Add ${edit.node_type} ${edit.name.trim()}`;
+          break;
+        case 'remove_node':
+          content = `Remove ${nameOf(edit.node_id)}`;
+          break;
+        case 'add_connection':
+          content = `Connect ${nameOf(edit.source)} to ${nameOf(edit.target)}`;
+          break;
+        case 'remove_connection':
+          content = `Disconnect ${nameOf(edit.source)} from ${nameOf(edit.target)}`;
+          break;
+      }
+
+      addUserMessage(content);
+      setLoading(true);
+
+      sendMessage({
+        id: `graph_edit_${Date.now()}`,
+        role: 'user',
+        type: 'GRAPH_EDIT',
+        content,
+        timestamp: new Date().toISOString(),
+        graph_edit: edit,
+      });
+    },
+    [currentWorkflow.nodes, addUserMessage, setLoading]
+  );
+
+  // Nodes dragged or the canvas panned and zoomed; saved with the workflow
+  // without a reply
+  const sendUpdateLayoutRequest = useCallback(
+    (change: LayoutChange, sendMessage: (message: Message) => void) => {
+      if (change.node_positions) setNodePositions(change.node_positions);
+      sendMessage({
+        id: `update_layout_${Date.now()}`,
+        role: 'user',
+        type: 'UPDATE_LAYOUT',
+        content: '',
+        timestamp: new Date().toISOString(),
+        ...change,
+      });
+    },
+    [setNodePositions]
+  );
+
+  // Undo and redo take back or bring back whole chat turns; the reply
+  // replaces the conversation and canvas
+  const sendUndoRedoRequest = useCallback(
+    (type: 'UNDO' | 'REDO', sendMessage: (message: Message) => void) => {
+      setLoading(true);
+      sendMessage({
+        id: `${type.toLowerCase()}_${Date.now()}`,
+        role: 'user',
+        type,
+        content: type === 'UNDO' ? 'Undo' : 'Redo',
+        timestamp: new Date().toISOString(),
+      });
+    },
+    [setLoading]
+  );
+
   return {
     messages,
     isLoading,
@@ -88,6 +511,7 @@ export const useChat = () => {
     nodeData,
     nodeDataLoading,
     nodeDataError,
+    currentRun,
     addUserMessage,
     addDummyAssistantMessage,
     updateLastAssistantMessage,
@@ -104,5 +528,23 @@ export const useChat = () => {
     resetStore,
     handleNodeDataMessage,
     sendNodeDataRequest,
+    sendRevealFieldRequest,
+    sendTestConnectionRequest,
+    sendRunWorkflowRequest,
+    sendExportWorkflowRequest,
+    sendImportWorkflowRequest,
+    sendGenerateCodeRequest,
+    sendSetScheduleRequest,
+    sendListVersionsRequest,
+    sendNameVersionRequest,
+    sendDiffVersionsRequest,
+    sendRestoreVersionRequest,
+    sendUndoRedoRequest,
+    sendUpdateNodeFieldRequest,
+    sendGraphEditRequest,
+    sendUpdateLayoutRequest,
+    sendInferSchemaRequest,
+    sendColumnMappingRequest,
+    sendPreviewDataRequest,
   };
 };
@@ -1,12 +1,18 @@
+import { connectionManager } from '@/lib/connectionManager';
+import { storeSessionId } from '@/lib/session';
+import { downloadTextFile } from '@/lib/utils';
 import { useChatStore } from '@/store/useChatStore';
-import type { Message } from '@/types';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useConnectionStore } from '@/store/useConnectionStore';
+import type { Message, StructuredAnswer } from '@/types';
+import { useCallback, useEffect, useRef } from 'react';
 
 export const useWorkflowWebSocket = () => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const { status, error } = useConnectionStore();
+  const isConnected = status === 'open';
+  const isConnecting = status === 'connecting';
+
+  // Last chat message sent, so a reply lost during a reconnect can be recovered
+  const lastSentMessageId = useRef<string | null>(null);
 
   // Get store actions
   const {
@@ -15,6 +21,20 @@ export const useWorkflowWebSocket = () => {
     setNodeData,
     setNodeDataLoading,
     setNodeDataError,
+    setRevealedValue,
+    setCurrentRun,
+    setConnectionTestResult,
+    setNodeSchemas,
+    setNodePreview,
+    setSpecErrors,
+    setVersions,
+    setVersionDiff,
+    setUndoState,
+    setSchedule,
+    clearNodeData,
+    updateNodeStatus,
+    restoreSession,
+    appendAssistantDelta,
   } = useChatStore();
 
   // Handle node data messages
@@ -26,6 +46,9 @@ export const useWorkflowWebSocket = () => {
           node_type: message.node_type || 'default',
           node_title: message.node_title || '',
           filled_values: message.filled_values || {},
+          secret_fields: message.secret_fields,
+          field_questions: message.field_questions,
+          validation_errors: message.validation_errors,
         });
         setNodeDataLoading(false);
       } else if (message.type === 'ERROR' && message.content.includes('node')) {
@@ -39,7 +62,12 @@ export const useWorkflowWebSocket = () => {
   // Centralized message handler
   const handleServerMessage = useCallback(
     (message: Message) => {
-      console.log('📨 Received message:', message);
+      // A rejected spec upload or export; shown next to the spec controls
+      if (message.type === 'ERROR' && message.spec_errors) {
+        setSpecErrors(message.spec_errors);
+        setLoading(false);
+        return;
+      }
 
       // Handle node data messages
       if (
@@ -50,6 +78,128 @@ export const useWorkflowWebSocket = () => {
         return;
       }
 
+      // The server bound this connection to a session; restore any history
+      if (message.type === 'SESSION_STATE') {
+        if (message.session_id) storeSessionId(message.session_id);
+        setVersions(message.versions || []);
+        setUndoState(message.undo_labels || [], message.redo_labels || []);
+
+        const { messages, isLoading } = useChatStore.getState();
+        if (messages.length === 0) {
+          if (message.messages?.length) restoreSession(message);
+        } else if (isLoading) {
+          // Reconnected mid-conversation: the reply may have been sent to
+          // the old socket, in which case it is only in the stored session
+          const lostReply = message.messages?.find(
+            m =>
+              m.role === 'assistant' &&
+              m.type === 'MESSAGE' &&
+              m.response_to === lastSentMessageId.current
+          );
+          if (lostReply) {
+            addMessage(lostReply);
+            setLoading(false);
+          }
+        }
+        return;
+      }
+
+      // An imported spec replaces the whole conversation and canvas
+      if (message.type === 'WORKFLOW_IMPORTED') {
+        if (message.session_id) storeSessionId(message.session_id);
+        clearNodeData();
+        setCurrentRun(null);
+        setVersionDiff(null);
+        restoreSession(message);
+        return;
+      }
+
+      // Version history, sent on request and whenever a version is recorded
+      if (message.type === 'VERSIONS') {
+        setVersions(message.versions || []);
+        return;
+      }
+
+      // Undo/redo stacks, sent after every change. The reply to UNDO / REDO
+      // also replaces the conversation and canvas with the rewound ones.
+      if (message.type === 'UNDO_STATE') {
+        setUndoState(message.undo_labels || [], message.redo_labels || []);
+        if (message.messages) {
+          clearNodeData();
+          setVersionDiff(null);
+          restoreSession(message);
+        }
+        return;
+      }
+
+      // When the workflow runs on its own, sent with the session, after
+      // every change and after each scheduled run
+      if (message.type === 'SCHEDULE') {
+        setSchedule(
+          message.schedule ?? null,
+          message.content,
+          message.next_runs || []
+        );
+        return;
+      }
+
+      // Comparison of two versions, shown on the canvas until dismissed
+      if (message.type === 'VERSION_DIFF') {
+        if (message.version_diff) setVersionDiff(message.version_diff);
+        return;
+      }
+
+      // Exported spec arrives as text; hand it to the browser as a file
+      if (message.type === 'WORKFLOW_SPEC') {
+        downloadTextFile(
+          message.file_name || `workflow.${message.spec_format || 'json'}`,
+          message.spec || ''
+        );
+        return;
+      }
+
+      // Streamed reply tokens; the final MESSAGE replaces the whole content
+      if (message.type === 'MESSAGE_DELTA') {
+        appendAssistantDelta(message.content);
+        return;
+      }
+
+      // Revealed secrets live only in the drawer, never in the transcript
+      if (message.type === 'FIELD_VALUE') {
+        if (message.field) {
+          setRevealedValue(message.field, message.field_value ?? '');
+        }
+        return;
+      }
+
+      // Run progress updates replace the current run snapshot
+      if (message.type === 'RUN_STATUS') {
+        if (message.run) setCurrentRun(message.run);
+        return;
+      }
+
+      // Connection test outcome for the drawer; the node's status may change
+      if (message.type === 'CONNECTION_TEST_RESULT') {
+        setConnectionTestResult(message.connection_test ?? null);
+        const testedNode = message.nodes?.find(
+          node => node.id === message.node_id
+        );
+        if (testedNode) updateNodeStatus(testedNode.id, testedNode.status);
+        return;
+      }
+
+      // Inferred columns for the drawer
+      if (message.type === 'SCHEMA') {
+        setNodeSchemas(message.schemas ?? null);
+        return;
+      }
+
+      // Sample rows for the drawer
+      if (message.type === 'DATA_PREVIEW') {
+        setNodePreview(message.preview ?? null);
+        return;
+      }
+
       // Add non-thought messages to the store
       addMessage(message);
 
@@ -64,106 +214,48 @@ export const useWorkflowWebSocket = () => {
         setLoading(false);
       }
     },
-    [setLoading, addMessage, handleNodeDataMessage]
+    [
+      setLoading,
+      addMessage,
+      handleNodeDataMessage,
+      setRevealedValue,
+      setCurrentRun,
+      setConnectionTestResult,
+      setNodeSchemas,
+      setNodePreview,
+      setSpecErrors,
+      setVersions,
+      setVersionDiff,
+      setUndoState,
+      setSchedule,
+      clearNodeData,
+      updateNodeStatus,
+      restoreSession,
+      appendAssistantDelta,
+    ]
   );
 
-  const connect = useCallback((): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        resolve();
-        return;
-      }
-
-      setIsConnecting(true);
-      setError(null);
-
-      const wsUrl = 'wss://ai-workflow-interface-production.up.railway.app';
-
-      console.log('🔌 Connecting to WebSocket:', wsUrl);
-
-      try {
-        const ws = new WebSocket(wsUrl);
-        wsRef.current = ws;
+  // Route every server message through this hook's handler
+  useEffect(
+    () => connectionManager.subscribe(handleServerMessage),
+    [handleServerMessage]
+  );
 
-        ws.onopen = () => {
-          const connectionTime = new Date().toISOString();
-          console.log('🔌 WebSocket connected at:', connectionTime);
-          console.log('🔌 WebSocket URL:', wsUrl);
-          setIsConnected(true);
-          setIsConnecting(false);
-          resolve();
-        };
+  const connect = useCallback(() => connectionManager.connect(), []);
 
-        ws.onmessage = event => {
-          try {
-            const message: Message = JSON.parse(event.data);
-            console.log('📨 WebSocket message received:', message);
+  const disconnect = useCallback(() => connectionManager.disconnect(), []);
 
-            // Handle all messages directly here
-            handleServerMessage(message);
-          } catch (error) {
-            console.error('Error parsing WebSocket message:', error);
-          }
-        };
-
-        ws.onclose = event => {
-          console.log('🔌 WebSocket disconnected:', event.code, event.reason);
-          setIsConnected(false);
-          setIsConnecting(false);
-          setError(event.reason || 'Connection closed');
-          wsRef.current = null;
-        };
-
-        ws.onerror = error => {
-          console.error('WebSocket error:', error);
-          setIsConnecting(false);
-          setError('WebSocket connection failed');
-          reject(new Error('WebSocket connection failed'));
-        };
-      } catch (error) {
-        console.error('Error creating WebSocket connection:', error);
-        setIsConnecting(false);
-        setError('Failed to create WebSocket connection');
-        reject(error);
-      }
-    });
-  }, [handleServerMessage]);
-
-  const disconnect = useCallback(() => {
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-    setIsConnected(false);
-    setIsConnecting(false);
+  // Queued by the connection manager while the socket is down
+  const sendMessage = useCallback((message: Message): void => {
+    connectionManager.send(message);
   }, []);
 
-  const sendMessage = useCallback(
-    (message: Message): void => {
-      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-        console.log('🔌 WebSocket not connected, connecting...');
-        connect()
-          .then(() => {
-            sendMessage(message);
-          })
-          .catch(error => {
-            console.error('Failed to connect WebSocket:', error);
-          });
-        return;
-      }
-
-      try {
-        wsRef.current.send(JSON.stringify(message));
-        console.log('📤 WebSocket message sent:', message);
-      } catch (error) {
-        console.error('Error sending WebSocket message:', error);
-      }
-    },
-    [connect]
-  );
-
   const sendUserMessage = useCallback(
-    (content: string, responseTo?: string): string => {
+    (
+      content: string,
+      responseTo?: string,
+      answer?: StructuredAnswer
+    ): string => {
       const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const message: Message = {
         id: messageId,
@@ -172,8 +264,10 @@ export const useWorkflowWebSocket = () => {
         content,
         timestamp: new Date().toISOString(),
         ...(responseTo && { response_to: responseTo }),
+        ...(answer && { answer }),
       };
 
+      lastSentMessageId.current = messageId;
       sendMessage(message);
       return messageId;
     },
@@ -0,0 +1,40 @@
+import { WS_URL } from '@/lib/connectionManager';
+import type { PipelineRun, RunSummary } from '@/types';
+
+// REST endpoints live on the same server as the WebSocket, which holds the
+// sessions they read
+export const API_URL = WS_URL.replace(/^ws/, 'http');
+
+const getJson = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${API_URL}${path}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`);
+  }
+  return body as T;
+};
+
+export interface RunHistory {
+  workflow: { id: string; name: string };
+  runs: RunSummary[];
+}
+
+/**
+ * Past runs of the workflow in a session, newest first
+ */
+export function fetchRunHistory(sessionId: string): Promise<RunHistory> {
+  return getJson(`/api/ai/workflows/${encodeURIComponent(sessionId)}/runs`);
+}
+
+/**
+ * A single run with every node's logs
+ */
+export async function fetchRun(
+  sessionId: string,
+  runId: string
+): Promise<PipelineRun> {
+  const { run } = await getJson<{ run: PipelineRun }>(
+    `/api/ai/workflows/${encodeURIComponent(sessionId)}/runs/${encodeURIComponent(runId)}`
+  );
+  return run;
+}
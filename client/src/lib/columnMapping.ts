@@ -0,0 +1,31 @@
+import type { ColumnMapping, ColumnType } from '@/types';
+
+export const COLUMN_TYPES: ColumnType[] = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'datetime',
+  'json',
+];
+
+/**
+ * One readable line per mapping entry, the way the server records the
+ * mapping in the chat, e.g. "id → order_id as integer"
+ */
+export function describeColumnMapping(mapping: ColumnMapping[]): string[] {
+  return mapping.map(entry => {
+    const cast = 'cast' in entry && entry.cast ? ` as ${entry.cast}` : '';
+    switch (entry.action) {
+      case 'map':
+        return entry.source === entry.target
+          ? `${entry.cast ? 'cast' : 'keep'} ${entry.source}${cast}`
+          : `${entry.source} → ${entry.target}${cast}`;
+      case 'drop':
+        return `drop ${entry.source}`;
+      case 'derive':
+        return `${entry.target} = ${entry.expression}${cast}`;
+    }
+  });
+}
@@ -0,0 +1,281 @@
+import { getStoredSessionId } from '@/lib/session';
+import {
+  useConnectionStore,
+  type ConnectionStatus,
+} from '@/store/useConnectionStore';
+import type { Message } from '@/types';
+
+const DEFAULT_WS_URL = 'wss://ai-workflow-interface-production.up.railway.app';
+
+// Set VITE_WS_URL (e.g. ws://localhost:3001) to point at another backend
+export const WS_URL = import.meta.env.VITE_WS_URL || DEFAULT_WS_URL;
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const HEARTBEAT_TIMEOUT_MS = 10_000;
+const BASE_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+const MAX_QUEUED_MESSAGES = 100;
+
+type MessageListener = (message: Message) => void;
+
+const createControlMessage = (
+  type: Message['type'],
+  extra: Partial<Message> = {}
+): Message => ({
+  id: `${type.toLowerCase()}_${Date.now()}`,
+  role: 'user',
+  type,
+  content: '',
+  timestamp: new Date().toISOString(),
+  ...extra,
+});
+
+/**
+ * Owns the single WebSocket to the backend: reconnects with exponential
+ * backoff, detects dead connections with a PING/PONG heartbeat, queues
+ * outbound messages while disconnected and resumes the server session on
+ * every (re)connect. Connection state is mirrored into useConnectionStore.
+ */
+class ConnectionManager {
+  private ws: WebSocket | null = null;
+  private queue: Message[] = [];
+  private listeners = new Set<MessageListener>();
+  private attempt = 0;
+  private shouldReconnect = false;
+  private opening: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  subscribe(listener: MessageListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  connect(): Promise<void> {
+    this.shouldReconnect = true;
+
+    if (this.ws?.readyState === WebSocket.OPEN) return Promise.resolve();
+    if (this.opening) return this.opening;
+
+    this.clearRetryTimer();
+    this.setStatus(this.attempt > 0 ? 'reconnecting' : 'connecting');
+
+    this.opening = new Promise((resolve, reject) => {
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(this.url);
+      } catch (error) {
+        this.opening = null;
+        this.scheduleReconnect('Failed to create WebSocket connection');
+        reject(error);
+        return;
+      }
+      this.ws = ws;
+
+      ws.onopen = () => {
+        this.opening = null;
+        this.attempt = 0;
+        useConnectionStore.getState().setConnectionState({
+          status: 'open',
+          attempt: 0,
+          nextRetryAt: null,
+          error: null,
+        });
+
+        // The session must be resumed before any queued message is handled
+        const sessionId = getStoredSessionId();
+        this.sendNow(
+          createControlMessage(
+            'RESUME_SESSION',
+            sessionId ? { session_id: sessionId } : {}
+          )
+        );
+        this.flushQueue();
+        this.startHeartbeat();
+        resolve();
+      };
+
+      ws.onmessage = event => {
+        try {
+          const message: Message = JSON.parse(event.data);
+          if (message.type === 'PONG') {
+            this.clearPongTimer();
+            return;
+          }
+          this.listeners.forEach(listener => listener(message));
+        } catch {
+          // Not a JSON message; nothing to hand to the listeners
+        }
+      };
+
+      ws.onclose = event => {
+        if (this.ws === ws && this.opening) {
+          this.opening = null;
+          reject(new Error('WebSocket connection failed'));
+        }
+        this.handleDrop(ws, event.reason || 'Connection closed');
+      };
+
+      // No onerror handler: onclose always follows and takes care of
+      // reconnecting
+    });
+
+    return this.opening;
+  }
+
+  // Close for good (e.g. when the workflow page unmounts)
+  disconnect() {
+    this.shouldReconnect = false;
+    this.clearRetryTimer();
+    this.stopHeartbeat();
+    this.queue = [];
+
+    const ws = this.ws;
+    this.ws = null;
+    this.opening = null;
+    ws?.close();
+
+    useConnectionStore.getState().setConnectionState({
+      status: 'closed',
+      nextRetryAt: null,
+      queuedMessages: 0,
+    });
+  }
+
+  // Skip the remaining backoff delay
+  retryNow() {
+    this.connect().catch(() => undefined);
+  }
+
+  send(message: Message) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.sendNow(message);
+      return;
+    }
+
+    // Keep the most recent messages if the queue overflows
+    this.queue.push(message);
+    if (this.queue.length > MAX_QUEUED_MESSAGES) {
+      this.queue.shift();
+    }
+    useConnectionStore
+      .getState()
+      .setConnectionState({ queuedMessages: this.queue.length });
+
+    if (!this.opening && !this.retryTimer) {
+      this.connect().catch(() => undefined);
+    }
+  }
+
+  // Messages are never logged: answers may carry passwords and secrets
+  private sendNow(message: Message) {
+    try {
+      this.ws!.send(JSON.stringify(message));
+    } catch {
+      // The socket is closing; send it again once reconnected
+      this.queue.push(message);
+      useConnectionStore
+        .getState()
+        .setConnectionState({ queuedMessages: this.queue.length });
+    }
+  }
+
+  private flushQueue() {
+    const queued = this.queue;
+    this.queue = [];
+    useConnectionStore.getState().setConnectionState({ queuedMessages: 0 });
+    queued.forEach(message => this.sendNow(message));
+  }
+
+  // Forget the socket and, unless disconnect() was called, schedule a retry
+  private handleDrop(ws: WebSocket, reason: string) {
+    if (this.ws !== ws) return;
+
+    this.ws = null;
+    this.stopHeartbeat();
+
+    if (this.shouldReconnect) {
+      this.scheduleReconnect(reason);
+    } else {
+      this.setStatus('closed');
+    }
+  }
+
+  private scheduleReconnect(reason: string) {
+    this.attempt += 1;
+
+    // 1s, 2s, 4s ... capped at 30s, with up to 20% jitter
+    const backoff = Math.min(
+      MAX_RETRY_DELAY_MS,
+      BASE_RETRY_DELAY_MS * 2 ** (this.attempt - 1)
+    );
+    const delay = backoff + Math.random() * backoff * 0.2;
+
+    useConnectionStore.getState().setConnectionState({
+      status: 'reconnecting',
+      attempt: this.attempt,
+      nextRetryAt: Date.now() + delay,
+      error: reason,
+    });
+
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect().catch(() => undefined);
+    }, delay);
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    const ws = this.ws;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+      ws.send(JSON.stringify(createControlMessage('PING')));
+      this.clearPongTimer();
+      this.pongTimer = setTimeout(() => {
+        // No PONG: the connection is dead even if the browser has not noticed
+        this.handleDrop(ws, 'Heartbeat timed out');
+        ws.close();
+      }, HEARTBEAT_TIMEOUT_MS);
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer() {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    useConnectionStore.getState().setConnectionState({ status });
+  }
+}
+
+export const connectionManager = new ConnectionManager(WS_URL);
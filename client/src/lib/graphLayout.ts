@@ -0,0 +1,339 @@
+// Layered (Sugiyama-style) layout for workflow graphs: steps are placed in
+// ranks along the flow, ordered within each rank to keep connections from
+// crossing, then spread so each step sits near the steps it connects to.
+
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  nodeWidth: number;
+  nodeHeight: number;
+  // Space between ranks, and between neighbours within a rank
+  rankGap?: number;
+  nodeGap?: number;
+  // Where the nodes were last placed; keeps the order within each rank
+  // stable when the graph changes a little
+  previousPositions?: Map<string, LayoutPosition>;
+}
+
+interface LayoutNode {
+  id: string;
+  isVirtual: boolean;
+  rank: number;
+}
+
+const ORDERING_SWEEPS = 8;
+const POSITIONING_SWEEPS = 4;
+
+/**
+ * Reverse the edges that close a cycle, so ranks can be assigned. The
+ * server rejects cycles, but a half-edited graph may still have one.
+ */
+function breakCycles(nodeIds: string[], edges: LayoutEdge[]): LayoutEdge[] {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const acyclic: LayoutEdge[] = [];
+  const outgoing = (id: string) => edges.filter(edge => edge.source === id);
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    outgoing(id).forEach(edge => {
+      const next = state.get(edge.target);
+      if (next === 'visiting') {
+        acyclic.push({ source: edge.target, target: edge.source });
+        return;
+      }
+      acyclic.push(edge);
+      if (!next) visit(edge.target);
+    });
+    state.set(id, 'done');
+  };
+
+  nodeIds.forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+  return acyclic;
+}
+
+/**
+ * Longest-path ranking: every node sits one rank after its furthest
+ * upstream node. Nodes with nothing upstream are then pulled forward to sit
+ * right before their first consumer, so a late source is not stranded.
+ */
+function assignRanks(
+  nodeIds: string[],
+  edges: LayoutEdge[]
+): Map<string, number> {
+  const ranks = new Map(nodeIds.map(id => [id, 0]));
+  const inDegree = new Map(nodeIds.map(id => [id, 0]));
+  edges.forEach(edge =>
+    inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1)
+  );
+
+  const queue = nodeIds.filter(id => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    edges
+      .filter(edge => edge.source === id)
+      .forEach(edge => {
+        ranks.set(
+          edge.target,
+          Math.max(ranks.get(edge.target) || 0, (ranks.get(id) || 0) + 1)
+        );
+        const remaining = (inDegree.get(edge.target) || 0) - 1;
+        inDegree.set(edge.target, remaining);
+        if (remaining === 0) queue.push(edge.target);
+      });
+  }
+
+  nodeIds.forEach(id => {
+    const hasIncoming = edges.some(edge => edge.target === id);
+    const targetRanks = edges
+      .filter(edge => edge.source === id)
+      .map(edge => ranks.get(edge.target) || 0);
+    if (!hasIncoming && targetRanks.length > 0) {
+      ranks.set(id, Math.min(...targetRanks) - 1);
+    }
+  });
+
+  return ranks;
+}
+
+/**
+ * Count the crossings between two adjacent ranks
+ */
+function countCrossings(
+  edges: Array<[string, string]>,
+  order: Map<string, number>
+): number {
+  let crossings = 0;
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const [a1, b1] = edges[i];
+      const [a2, b2] = edges[j];
+      const upper = order.get(a1)! - order.get(a2)!;
+      const lower = order.get(b1)! - order.get(b2)!;
+      if (upper * lower < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Place the nodes of a graph in layers. Returns the top-left corner of
+ * every node, with the whole graph starting at (0, 0).
+ */
+export function layoutGraph(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  {
+    direction,
+    nodeWidth,
+    nodeHeight,
+    rankGap = 120,
+    nodeGap = 60,
+    previousPositions,
+  }: LayoutOptions
+): Map<string, LayoutPosition> {
+  const positions = new Map<string, LayoutPosition>();
+  if (nodeIds.length === 0) return positions;
+
+  const known = new Set(nodeIds);
+  const seen = new Set<string>();
+  const validEdges = edges.filter(edge => {
+    const key = `${edge.source}→${edge.target}`;
+    if (
+      !known.has(edge.source) ||
+      !known.has(edge.target) ||
+      edge.source === edge.target ||
+      seen.has(key)
+    ) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const ranks = assignRanks(nodeIds, breakCycles(nodeIds, validEdges));
+  const minRank = Math.min(...ranks.values());
+
+  // Long connections pass through a virtual node on every rank they cross,
+  // so they take part in ordering and keep room for themselves
+  const nodes = new Map<string, LayoutNode>(
+    nodeIds.map(id => [
+      id,
+      { id, isVirtual: false, rank: ranks.get(id)! - minRank },
+    ])
+  );
+  const segments: Array<[string, string]> = [];
+  validEdges.forEach(edge => {
+    let from = nodes.get(edge.source)!;
+    let to = nodes.get(edge.target)!;
+    // Reversed (cycle-closing) edges are routed the other way round
+    if (from.rank > to.rank) [from, to] = [to, from];
+    let previous = from.id;
+    for (let rank = from.rank + 1; rank < to.rank; rank++) {
+      const id = `${edge.source}→${edge.target}#${rank}`;
+      nodes.set(id, { id, isVirtual: true, rank });
+      segments.push([previous, id]);
+      previous = id;
+    }
+    segments.push([previous, to.id]);
+  });
+
+  const rankCount = Math.max(...[...nodes.values()].map(node => node.rank)) + 1;
+  const layers: string[][] = Array.from({ length: rankCount }, () => []);
+
+  // Start from the previous placement where there is one, else from the
+  // order the nodes were given in
+  const crossAxis = direction === 'LR' ? 'y' : 'x';
+  const initialKey = (id: string) => {
+    const layoutNode = nodes.get(id)!;
+    const sourceId = layoutNode.isVirtual ? id.split('→')[0] : id;
+    const previous = previousPositions?.get(sourceId);
+    return previous ? previous[crossAxis] : nodeIds.indexOf(sourceId) * 1000;
+  };
+  nodes.forEach(node => layers[node.rank].push(node.id));
+  layers.forEach(layer => layer.sort((a, b) => initialKey(a) - initialKey(b)));
+
+  const upstream = new Map<string, string[]>();
+  const downstream = new Map<string, string[]>();
+  segments.forEach(([from, to]) => {
+    downstream.set(from, [...(downstream.get(from) || []), to]);
+    upstream.set(to, [...(upstream.get(to) || []), from]);
+  });
+
+  const indexOf = (layerList: string[][]) => {
+    const order = new Map<string, number>();
+    layerList.forEach(layer => layer.forEach((id, i) => order.set(id, i)));
+    return order;
+  };
+  const totalCrossings = (layerList: string[][]) => {
+    const order = indexOf(layerList);
+    return layerList.slice(1).reduce(
+      (sum, layer) =>
+        sum +
+        countCrossings(
+          segments.filter(([, to]) => layer.includes(to)),
+          order
+        ),
+      0
+    );
+  };
+
+  // Crossing reduction: order each rank by the average position of its
+  // neighbours in the rank before it, sweeping down and up in turn
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = totalCrossings(best);
+  let current = layers;
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const isDown = sweep % 2 === 0;
+    const next = current.map(layer => [...layer]);
+    const rankOrder = isDown
+      ? next.map((_, i) => i).slice(1)
+      : next
+          .map((_, i) => i)
+          .reverse()
+          .slice(1);
+    rankOrder.forEach(rank => {
+      const order = indexOf(next);
+      const neighbours = isDown ? upstream : downstream;
+      const barycenter = (id: string) => {
+        const adjacent = neighbours.get(id) || [];
+        return adjacent.length > 0
+          ? adjacent.reduce((sum, n) => sum + order.get(n)!, 0) /
+              adjacent.length
+          : order.get(id)!;
+      };
+      const keys = new Map(next[rank].map(id => [id, barycenter(id)]));
+      next[rank].sort((a, b) => keys.get(a)! - keys.get(b)!);
+    });
+
+    const crossings = totalCrossings(next);
+    if (crossings < bestCrossings) {
+      best = next.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+    current = next;
+  }
+
+  // Coordinates across the ranks: pack each rank, then repeatedly pull
+  // every node towards its neighbours without letting any two overlap
+  const crossSize = direction === 'LR' ? nodeHeight : nodeWidth;
+  const mainSize = direction === 'LR' ? nodeWidth : nodeHeight;
+  const sizeOf = (id: string) => (nodes.get(id)!.isVirtual ? 0 : crossSize);
+  const separation = (a: string, b: string) =>
+    (sizeOf(a) + sizeOf(b)) / 2 + nodeGap;
+
+  const center = new Map<string, number>();
+  best.forEach(layer => {
+    let offset = 0;
+    layer.forEach((id, i) => {
+      if (i > 0) offset += separation(layer[i - 1], id);
+      center.set(id, offset);
+    });
+    layer.forEach(id => center.set(id, center.get(id)! - offset / 2));
+  });
+
+  const placeLayer = (layer: string[], desired: number[]) => {
+    // Sweep both ways, then average: each sweep keeps the spacing, so their
+    // average does too
+    const forward = [...desired];
+    for (let i = 1; i < layer.length; i++) {
+      forward[i] = Math.max(
+        forward[i],
+        forward[i - 1] + separation(layer[i - 1], layer[i])
+      );
+    }
+    const backward = [...desired];
+    for (let i = layer.length - 2; i >= 0; i--) {
+      backward[i] = Math.min(
+        backward[i],
+        backward[i + 1] - separation(layer[i], layer[i + 1])
+      );
+    }
+    layer.forEach((id, i) => center.set(id, (forward[i] + backward[i]) / 2));
+  };
+
+  for (let sweep = 0; sweep < POSITIONING_SWEEPS; sweep++) {
+    const isDown = sweep % 2 === 0;
+    const neighbours = isDown ? upstream : downstream;
+    const rankOrder = isDown
+      ? best.map((_, i) => i)
+      : best.map((_, i) => i).reverse();
+    rankOrder.forEach(rank => {
+      const layer = best[rank];
+      const desired = layer.map(id => {
+        const adjacent = neighbours.get(id) || [];
+        return adjacent.length > 0
+          ? adjacent.reduce((sum, n) => sum + center.get(n)!, 0) /
+              adjacent.length
+          : center.get(id)!;
+      });
+      placeLayer(layer, desired);
+    });
+  }
+
+  const minCenter = Math.min(
+    ...nodeIds.map(id => center.get(id)! - crossSize / 2)
+  );
+  nodeIds.forEach(id => {
+    const main = nodes.get(id)!.rank * (mainSize + rankGap);
+    const cross = center.get(id)! - crossSize / 2 - minCenter;
+    positions.set(
+      id,
+      direction === 'LR' ? { x: main, y: cross } : { x: cross, y: main }
+    );
+  });
+
+  return positions;
+}
@@ -0,0 +1,14 @@
+import type { LayoutDirection } from './graphLayout';
+
+const LAYOUT_DIRECTION_KEY = 'workflow_layout_direction';
+
+/**
+ * Direction the canvas lays workflows out in, left to right by default
+ */
+export function getStoredLayoutDirection(): LayoutDirection {
+  return localStorage.getItem(LAYOUT_DIRECTION_KEY) === 'TB' ? 'TB' : 'LR';
+}
+
+export function storeLayoutDirection(direction: LayoutDirection) {
+  localStorage.setItem(LAYOUT_DIRECTION_KEY, direction);
+}
@@ -0,0 +1,20 @@
+const SESSION_STORAGE_KEY = 'workflow_session_id';
+
+/**
+ * ID of the server session this browser last worked in, used to resume the
+ * conversation after a refresh or reconnect
+ */
+export function getStoredSessionId(): string | null {
+  return localStorage.getItem(SESSION_STORAGE_KEY);
+}
+
+export function storeSessionId(sessionId: string) {
+  localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+}
+
+/**
+ * Forget the current session so the next connection starts a new one
+ */
+export function clearStoredSessionId() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
@@ -85,3 +85,15 @@ export function generateNodeNames(description: string): {
 
   return {};
 }
+
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadTextFile(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
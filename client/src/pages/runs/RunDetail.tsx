@@ -0,0 +1,102 @@
+import { getRunStatusIcon } from '@/pages/workflow/chat/RunProgress';
+import { cn } from '@/lib/utils';
+import type { PipelineRun, RunLogEntry } from '@/types';
+import { formatDateTime, formatDuration, getDurationMs } from './format';
+
+interface RunDetailProps {
+  run: PipelineRun;
+}
+
+const LOG_LEVEL_STYLES: Record<RunLogEntry['level'], string> = {
+  info: 'text-muted-foreground',
+  warn: 'text-amber-600 dark:text-amber-400',
+  error: 'text-red-600 dark:text-red-400',
+};
+
+const formatLogTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+// One run step by step: rows, timing, errors and everything each step logged
+export default function RunDetail({ run }: RunDetailProps) {
+  return (
+    <div className="p-6 space-y-6">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2 text-lg font-semibold text-foreground">
+          {getRunStatusIcon(run.status)}
+          <span>
+            {run.trigger === 'schedule' ? 'Scheduled run' : 'Manual run'}{' '}
+            {run.status}
+          </span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Started {formatDateTime(run.started_at)}
+          {run.finished_at &&
+            ` · ended ${formatDateTime(run.finished_at)} · took ${formatDuration(
+              getDurationMs(run.started_at, run.finished_at)
+            )}`}
+        </p>
+        {run.error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{run.error}</p>
+        )}
+      </div>
+
+      {run.node_runs.map(state => (
+        <section
+          key={state.node_id}
+          className="rounded-lg border border-border bg-background/80 overflow-hidden"
+        >
+          <header className="flex items-center gap-2 px-4 py-2 border-b border-border text-sm">
+            {getRunStatusIcon(state.status)}
+            <span className="font-medium text-foreground">
+              {state.node_name || state.node_id}
+            </span>
+            <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+              {state.rows_read !== undefined &&
+                `${state.rows_read} read · ${state.rows_written ?? state.rows_read} written · `}
+              {formatDuration(
+                getDurationMs(state.started_at, state.finished_at)
+              )}
+            </span>
+          </header>
+
+          {state.error && (
+            <div className="px-4 py-2 text-xs text-red-800 bg-red-50 border-b border-red-200">
+              {state.error}
+            </div>
+          )}
+
+          {state.logs.length > 0 ? (
+            <ol className="px-4 py-2 space-y-0.5 font-mono text-xs">
+              {state.logs.map((entry, index) => (
+                <li key={index} className="flex gap-3">
+                  <span className="text-muted-foreground shrink-0">
+                    {formatLogTime(entry.timestamp)}
+                  </span>
+                  <span
+                    className={cn(
+                      'uppercase w-10 shrink-0',
+                      LOG_LEVEL_STYLES[entry.level]
+                    )}
+                  >
+                    {entry.level}
+                  </span>
+                  <span className="text-foreground break-all">
+                    {entry.message}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="px-4 py-2 text-xs text-muted-foreground">
+              No logs for this step
+            </p>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
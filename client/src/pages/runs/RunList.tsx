@@ -0,0 +1,95 @@
+import { getRunStatusIcon } from '@/pages/workflow/chat/RunProgress';
+import { cn } from '@/lib/utils';
+import type { RunSummary } from '@/types';
+import { CalendarClock, MessageSquare } from 'lucide-react';
+import { formatDateTime, formatDuration } from './format';
+
+interface RunListProps {
+  runs: RunSummary[];
+  selectedRunId?: string;
+  onSelectRun: (runId: string) => void;
+}
+
+// Past runs, newest first, with the rows each step read and wrote
+export default function RunList({
+  runs,
+  selectedRunId,
+  onSelectRun,
+}: RunListProps) {
+  if (runs.length === 0) {
+    return (
+      <div className="p-6 text-sm text-muted-foreground text-center">
+        This workflow has not run yet. Start it from the chat or give it a
+        schedule.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-border">
+      {runs.map(run => (
+        <li key={run.id}>
+          <button
+            type="button"
+            onClick={() => onSelectRun(run.id)}
+            className={cn(
+              'w-full text-left px-4 py-3 space-y-2 hover:bg-muted/50 transition-colors',
+              run.id === selectedRunId && 'bg-muted'
+            )}
+          >
+            <div className="flex items-center gap-2 text-sm">
+              {getRunStatusIcon(run.status)}
+              <span className="font-medium text-foreground">
+                {formatDateTime(run.started_at)}
+              </span>
+              <span
+                className="ml-auto flex items-center gap-1 text-xs text-muted-foreground"
+                title={
+                  run.trigger === 'schedule'
+                    ? 'Started by the schedule'
+                    : 'Started from the chat'
+                }
+              >
+                {run.trigger === 'schedule' ? (
+                  <CalendarClock className="w-3 h-3" />
+                ) : (
+                  <MessageSquare className="w-3 h-3" />
+                )}
+                {run.trigger === 'schedule' ? 'Scheduled' : 'Manual'}
+              </span>
+            </div>
+
+            <div className="flex gap-3 pl-6 text-xs text-muted-foreground">
+              <span>
+                {run.finished_at
+                  ? `Ended ${formatDateTime(run.finished_at)}`
+                  : 'Still running'}
+              </span>
+              <span>{formatDuration(run.duration_ms)}</span>
+            </div>
+
+            <div className="pl-6 space-y-0.5">
+              {run.node_runs.map(state => (
+                <div
+                  key={state.node_id}
+                  className="flex items-center justify-between gap-2 text-xs"
+                >
+                  <span className="truncate text-foreground">
+                    {state.node_name || state.node_id}
+                  </span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {state.status === 'failed'
+                      ? 'failed'
+                      : state.rows_read !== undefined
+                        ? `${state.rows_read} in / ${state.rows_written ?? state.rows_read} out`
+                        : state.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
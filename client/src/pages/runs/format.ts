@@ -0,0 +1,22 @@
+export const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+export const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const getDurationMs = (startedAt?: string, finishedAt?: string) =>
+  startedAt && finishedAt
+    ? new Date(finishedAt).getTime() - new Date(startedAt).getTime()
+    : undefined;
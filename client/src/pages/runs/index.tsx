@@ -0,0 +1,158 @@
+import { Button } from '@/components/ui/button';
+import { fetchRun, fetchRunHistory, type RunHistory } from '@/lib/api';
+import { getStoredSessionId } from '@/lib/session';
+import type { PipelineRun } from '@/types';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import RunDetail from './RunDetail';
+import RunList from './RunList';
+
+// How often the list refreshes while a run is still going
+const ACTIVE_RUN_POLL_MS = 3_000;
+
+export default function Runs() {
+  const { runId } = useParams();
+  const navigate = useNavigate();
+  const sessionId = getStoredSessionId();
+
+  const [history, setHistory] = useState<RunHistory | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<PipelineRun | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    if (!sessionId) return;
+    setIsRefreshing(true);
+    try {
+      setHistory(await fetchRunHistory(sessionId));
+      setHistoryError(null);
+    } catch (error) {
+      setHistoryError(
+        error instanceof Error ? error.message : 'Could not load runs'
+      );
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Without a run in the URL, open the latest one
+  const selectedRunId = runId || history?.runs[0]?.id;
+  const selectedSummary = history?.runs.find(run => run.id === selectedRunId);
+
+  // Load the selected run's logs, again whenever its listed state changes
+  useEffect(() => {
+    if (!sessionId || !selectedRunId) {
+      setSelectedRun(null);
+      return;
+    }
+    let cancelled = false;
+    fetchRun(sessionId, selectedRunId)
+      .then(run => {
+        if (cancelled) return;
+        setSelectedRun(run);
+        setRunError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setSelectedRun(null);
+        setRunError(
+          error instanceof Error ? error.message : 'Could not load the run'
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    sessionId,
+    selectedRunId,
+    selectedSummary?.status,
+    selectedSummary?.finished_at,
+  ]);
+
+  const hasActiveRun = !!history?.runs.some(run => run.status === 'running');
+  useEffect(() => {
+    if (!hasActiveRun) return;
+    const timer = setInterval(loadHistory, ACTIVE_RUN_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveRun, loadHistory]);
+
+  if (!sessionId) {
+    return (
+      <div className="flex h-[calc(100vh-70px)] items-center justify-center">
+        <div className="text-center space-y-2">
+          <p className="text-sm text-muted-foreground">
+            There is no workflow to show runs for yet.
+          </p>
+          <Link to="/workflow" className="text-sm text-primary underline">
+            Build a workflow
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-70px)]">
+      <div className="w-1/3 border-r border-border bg-background/50 flex flex-col">
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+          <div className="min-w-0">
+            <h2 className="text-sm font-semibold text-foreground truncate">
+              {history?.workflow.name || 'Workflow'}
+            </h2>
+            <p className="text-xs text-muted-foreground">Run history</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={loadHistory}
+            disabled={isRefreshing}
+            className="ml-auto w-8 h-8"
+            title="Refresh"
+          >
+            <RefreshCw
+              className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`}
+            />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {historyError ? (
+            <p className="p-6 text-sm text-red-600 text-center">
+              {historyError}
+            </p>
+          ) : history ? (
+            <RunList
+              runs={history.runs}
+              selectedRunId={selectedRunId}
+              onSelectRun={id => navigate(`/runs/${id}`)}
+            />
+          ) : (
+            <div className="flex justify-center p-6">
+              <Loader2 className="w-5 h-5 text-primary animate-spin" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {runError ? (
+          <p className="p-6 text-sm text-red-600">{runError}</p>
+        ) : selectedRun ? (
+          <RunDetail run={selectedRun} />
+        ) : (
+          selectedRunId && (
+            <div className="flex justify-center p-6">
+              <Loader2 className="w-5 h-5 text-primary animate-spin" />
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { COLUMN_TYPES } from '@/lib/columnMapping';
+import { cn } from '@/lib/utils';
+import type { ColumnMapping, ColumnType, SchemaColumn } from '@/types';
+import { Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface ColumnMappingEditorProps {
+  // Columns flowing into the transform, when they have been inferred
+  inputColumns: SchemaColumn[];
+  initialMapping: ColumnMapping[];
+  disabled?: boolean;
+  onSave: (mapping: ColumnMapping[]) => void;
+}
+
+interface EditorRow {
+  key: string;
+  // Derived rows have no source column
+  source?: string;
+  target: string;
+  cast: ColumnType | '';
+  drop: boolean;
+  expression: string;
+  // Shown for inferred columns so a cast can be chosen knowingly
+  type?: ColumnType;
+}
+
+const toRows = (
+  inputColumns: SchemaColumn[],
+  mapping: ColumnMapping[]
+): EditorRow[] => {
+  const entryFor = (source: string) =>
+    mapping.find(entry => entry.action !== 'derive' && entry.source === source);
+  const row = (source: string, type?: ColumnType): EditorRow => {
+    const entry = entryFor(source);
+    return {
+      key: `column:${source}`,
+      source,
+      target: entry?.action === 'map' ? entry.target : source,
+      cast: (entry?.action === 'map' && entry.cast) || '',
+      drop: entry?.action === 'drop',
+      expression: '',
+      type,
+    };
+  };
+
+  // Inferred columns first, then mapped columns the input no longer has
+  const inputNames = inputColumns.map(column => column.name);
+  const missing = mapping.flatMap(entry =>
+    entry.action !== 'derive' && !inputNames.includes(entry.source)
+      ? [entry.source]
+      : []
+  );
+  const derived = mapping.flatMap((entry, index) =>
+    entry.action === 'derive'
+      ? [
+          {
+            key: `derive:${index}`,
+            target: entry.target,
+            cast: entry.cast || '',
+            drop: false,
+            expression: entry.expression,
+          } as EditorRow,
+        ]
+      : []
+  );
+
+  return [
+    ...inputColumns.map(column => row(column.name, column.type)),
+    ...missing.map(source => row(source)),
+    ...derived,
+  ];
+};
+
+const toMapping = (rows: EditorRow[]): ColumnMapping[] =>
+  rows.flatMap((row): ColumnMapping[] => {
+    const cast = row.cast || undefined;
+    if (row.source === undefined) {
+      return row.target.trim() && row.expression.trim()
+        ? [
+            {
+              action: 'derive',
+              target: row.target.trim(),
+              expression: row.expression.trim(),
+              ...(cast && { cast }),
+            },
+          ]
+        : [];
+    }
+    if (row.drop) return [{ action: 'drop', source: row.source }];
+    return [
+      {
+        action: 'map',
+        source: row.source,
+        target: row.target.trim() || row.source,
+        ...(cast && { cast }),
+      },
+    ];
+  });
+
+const selectClassName =
+  'h-8 rounded-md border border-input bg-background px-1 text-xs disabled:opacity-50';
+
+// Rename, cast, drop and derive columns for a "map" transform. Every input
+// column gets a row; derived columns are added below them.
+export default function ColumnMappingEditor({
+  inputColumns,
+  initialMapping,
+  disabled = false,
+  onSave,
+}: ColumnMappingEditorProps) {
+  const [rows, setRows] = useState<EditorRow[]>(() =>
+    toRows(inputColumns, initialMapping)
+  );
+
+  const updateRow = (key: string, change: Partial<EditorRow>) =>
+    setRows(current =>
+      current.map(row => (row.key === key ? { ...row, ...change } : row))
+    );
+
+  const addDerivedRow = () =>
+    setRows(current => [
+      ...current,
+      {
+        key: `derive:${Date.now()}`,
+        target: '',
+        cast: '',
+        drop: false,
+        expression: '',
+      },
+    ]);
+
+  const mapping = toMapping(rows);
+
+  return (
+    <div className="space-y-2">
+      {rows.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Infer the columns first, or add a derived column.
+        </p>
+      )}
+
+      {rows.map(row => (
+        <div
+          key={row.key}
+          className={cn('flex items-center gap-1.5', row.drop && 'opacity-50')}
+        >
+          {row.source !== undefined ? (
+            <span
+              className={cn(
+                'w-28 flex-shrink-0 truncate text-xs font-mono',
+                row.drop && 'line-through'
+              )}
+              title={row.type ? `${row.source} (${row.type})` : row.source}
+            >
+              {row.source}
+            </span>
+          ) : (
+            <Input
+              value={row.expression}
+              disabled={disabled}
+              onChange={event =>
+                updateRow(row.key, { expression: event.target.value })
+              }
+              placeholder="price * quantity"
+              className="h-8 w-28 flex-shrink-0 text-xs font-mono"
+              title="Expression over input columns: + - * / and parentheses"
+            />
+          )}
+          <span className="text-xs text-muted-foreground">→</span>
+          <Input
+            value={row.target}
+            disabled={disabled || row.drop}
+            onChange={event =>
+              updateRow(row.key, { target: event.target.value })
+            }
+            placeholder={row.source ?? 'new_column'}
+            className="h-8 min-w-0 flex-1 text-xs font-mono"
+          />
+          <select
+            value={row.cast}
+            disabled={disabled || row.drop}
+            onChange={event =>
+              updateRow(row.key, {
+                cast: event.target.value as ColumnType | '',
+              })
+            }
+            className={selectClassName}
+            title="Cast to"
+          >
+            <option value="">{row.type ? `(${row.type})` : 'as is'}</option>
+            {COLUMN_TYPES.map(type => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          {row.source !== undefined ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={disabled}
+              onClick={() => updateRow(row.key, { drop: !row.drop })}
+              className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
+              title={row.drop ? 'Keep this column' : 'Drop this column'}
+            >
+              {row.drop ? (
+                <RotateCcw className="h-3 w-3" />
+              ) : (
+                <X className="h-3 w-3" />
+              )}
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={disabled}
+              onClick={() =>
+                setRows(current => current.filter(r => r.key !== row.key))
+              }
+              className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-red-500"
+              title="Remove this derived column"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          onClick={addDerivedRow}
+          className="h-7 gap-1 text-xs"
+        >
+          <Plus className="h-3 w-3" />
+          Derive column
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled || mapping.length === 0}
+          onClick={() => onSave(mapping)}
+          className="h-7 text-xs"
+        >
+          Save mapping
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { X } from 'lucide-react';
+import {
+  BaseEdge,
+  EdgeLabelRenderer,
+  getSmoothStepPath,
+  type EdgeProps,
+} from 'reactflow';
+
+interface DeletableEdgeData {
+  onDelete?: (source: string, target: string) => void;
+}
+
+// Connection with a remove button halfway along, shown on hover
+export default function DeletableEdge({
+  id,
+  source,
+  target,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  data,
+}: EdgeProps<DeletableEdgeData>) {
+  const [edgePath, labelX, labelY] = getSmoothStepPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  });
+
+  return (
+    <>
+      <BaseEdge id={id} path={edgePath} style={style} markerEnd={markerEnd} />
+      {data?.onDelete && (
+        <EdgeLabelRenderer>
+          <button
+            onClick={() => data.onDelete?.(source, target)}
+            className="nodrag nopan absolute flex items-center justify-center w-5 h-5 rounded-full border border-border bg-background text-muted-foreground opacity-40 hover:opacity-100 hover:text-red-500 hover:border-red-500 transition-opacity pointer-events-auto"
+            style={{
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+            }}
+            title="Remove this connection"
+            aria-label="Remove connection"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+}
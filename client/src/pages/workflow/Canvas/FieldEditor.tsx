@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import type { Question } from '@/types';
+import { Check } from 'lucide-react';
+import { useState, type FormEvent } from 'react';
+
+interface FieldEditorProps {
+  question: Question;
+  initialValue: string | string[];
+  disabled?: boolean;
+  onSave: (value: string | string[]) => void;
+  onCancel: () => void;
+}
+
+// Inline editor for one field in the node drawer, using the same kind of
+// input the chat offers for the field's question
+export default function FieldEditor({
+  question,
+  initialValue,
+  disabled = false,
+  onSave,
+  onCancel,
+}: FieldEditorProps) {
+  const [value, setValue] = useState<string | string[]>(initialValue);
+  const selected = [value].flat();
+
+  const toggleOption = (option: string) => {
+    if (question.type === 'select') {
+      setValue(option);
+      return;
+    }
+    setValue(
+      selected.includes(option)
+        ? selected.filter(item => item !== option)
+        : [...selected, option]
+    );
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSave(value);
+  };
+
+  const hasOptions =
+    (question.type === 'select' || question.type === 'multiselect') &&
+    !!question.options?.length;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {hasOptions ? (
+        <div className="flex flex-wrap gap-2">
+          {question.options!.map(option => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                disabled={disabled}
+                onClick={() => toggleOption(option)}
+                className={cn(
+                  'px-3 py-1 rounded-full text-xs border transition-colors duration-200 disabled:opacity-50 flex items-center gap-1',
+                  isSelected
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background text-foreground border-border hover:border-primary'
+                )}
+              >
+                {isSelected && <Check className="w-3 h-3" />}
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      ) : question.type === 'textarea' ? (
+        <Textarea
+          autoFocus
+          value={String(value)}
+          disabled={disabled}
+          onChange={event => setValue(event.target.value)}
+          placeholder={`Enter ${question.text}...`}
+          className="text-sm font-mono"
+        />
+      ) : (
+        <Input
+          autoFocus
+          type={question.type === 'password' ? 'password' : 'text'}
+          value={String(value)}
+          disabled={disabled}
+          onChange={event => setValue(event.target.value)}
+          placeholder={`Enter ${question.text}...`}
+          className="h-8 text-sm"
+        />
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button type="submit" size="sm" disabled={disabled} className="h-7">
+          Save
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onCancel}
+          className="h-7"
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
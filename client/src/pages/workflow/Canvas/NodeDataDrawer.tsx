@@ -1,6 +1,7 @@
 import { Button } from '@/components/ui/button';
 import Drawer from '@/components/ui/drawer';
 import { useChatStore } from '@/store/useChatStore';
+import type { ColumnMapping, Question } from '@/types';
 import {
   AlertCircle,
   CheckCheck,
@@ -8,23 +9,111 @@ import {
   Circle,
   Clock,
   Copy,
+  Eraser,
+  Eye,
+  EyeOff,
+  Loader2,
+  Pencil,
+  Plug,
   Settings,
   X,
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import FieldEditor from './FieldEditor';
+import NodePreviewPanel from './NodePreviewPanel';
+import NodeSchemaPanel from './NodeSchemaPanel';
 
 interface NodeDataDrawerProps {
   onClose: () => void;
+  onInferSchema: (nodeId: string) => void;
+  onRevealField: (nodeId: string, field: string) => void;
+  onTestConnection: (nodeId: string) => void;
+  onUpdateField: (question: Question, value: string | string[]) => void;
+  onUpdateColumnMapping: (nodeId: string, mapping: ColumnMapping[]) => void;
+  onPreviewData: (nodeId: string, limit: number) => void;
 }
 
-export default function NodeDataDrawer({ onClose }: NodeDataDrawerProps) {
-  const { nodeData, nodeDataLoading, nodeDataError, currentWorkflow } =
-    useChatStore();
+export default function NodeDataDrawer({
+  onClose,
+  onInferSchema,
+  onRevealField,
+  onTestConnection,
+  onUpdateField,
+  onUpdateColumnMapping,
+  onPreviewData,
+}: NodeDataDrawerProps) {
+  const {
+    nodeData,
+    nodeDataLoading,
+    nodeDataError,
+    currentWorkflow,
+    revealedValues,
+    connectionTestLoading,
+    connectionTestResult,
+    isLoading,
+  } = useChatStore();
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [visibleFields, setVisibleFields] = useState<string[]>([]);
+  const [editingField, setEditingField] = useState<string | null>(null);
+
+  // An open editor belongs to the node it was opened on
+  useEffect(() => {
+    setEditingField(null);
+  }, [nodeData?.node_id]);
+
+  const isSecretField = (field: string) =>
+    !!nodeData?.secret_fields?.includes(field);
+
+  // Secrets arrive masked; the real value is only fetched on explicit reveal
+  const toggleSecretVisibility = (field: string) => {
+    if (!nodeData) return;
+
+    if (visibleFields.includes(field)) {
+      setVisibleFields(fields => fields.filter(f => f !== field));
+      return;
+    }
+
+    if (revealedValues[field] === undefined) {
+      onRevealField(nodeData.node_id, field);
+    }
+    setVisibleFields(fields => [...fields, field]);
+  };
+
+  // The value shown and copied for a field, or null while a secret is hidden
+  const getVisibleValue = (field: string, value: string) => {
+    if (!isSecretField(field)) return value;
+    if (!visibleFields.includes(field)) return null;
+    return revealedValues[field] ?? null;
+  };
+
+  // Secrets and unfilled fields start empty; the rest start from their value
+  const getInitialValue = (question: Question, value: unknown) => {
+    if (question.type === 'multiselect') {
+      return Array.isArray(value) ? value.map(String) : [];
+    }
+    if (value === 'Not filled' || isSecretField(question.field)) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  };
+
+  const handleSaveField = (question: Question, value: string | string[]) => {
+    setEditingField(null);
+    onUpdateField(question, value);
+  };
 
   // Only show drawer when node data is present or there's an error
   const isVisible = !!nodeData || !!nodeDataError;
 
+  const workflowNode = currentWorkflow.nodes.find(
+    n => n.id === nodeData?.node_id
+  );
+
+  // Sources and destinations connect to something; transforms don't
+  const canTestConnection = workflowNode?.type !== 'transform';
+
+  // The column mapping editor stands in for the raw field
+  const isShownField = (field: string) =>
+    !(field === 'column_mapping' && workflowNode?.type === 'transform');
+
   // Get node color from current workflow
   const getNodeColorFromWorkflow = (nodeId: string) => {
     const node = currentWorkflow.nodes.find(n => n.id === nodeId);
@@ -54,12 +143,16 @@ export default function NodeDataDrawer({ onClose }: NodeDataDrawerProps) {
     }
   };
 
-  // Calculate overall node status based on filled values
+  // Calculate overall node status based on filled values; optional fields
+  // such as a declared schema don't count
   const getNodeStatus = (filledValues: Record<string, string>) => {
-    const totalFields = Object.keys(filledValues).length;
-    const filledFields = Object.values(filledValues).filter(
-      value => value !== 'Not filled'
-    ).length;
+    const values = Object.entries(filledValues)
+      .filter(
+        ([field]) => nodeData?.field_questions?.[field]?.required !== false
+      )
+      .map(([, value]) => value);
+    const totalFields = values.length;
+    const filledFields = values.filter(value => value !== 'Not filled').length;
 
     if (filledFields === 0) return 'pending';
     if (filledFields === totalFields) return 'complete';
@@ -160,66 +253,214 @@ export default function NodeDataDrawer({ onClose }: NodeDataDrawerProps) {
               {/* Node Status Pill */}
             </div>
 
+            {/* Test Connection */}
+            {canTestConnection && (
+              <div className="space-y-2 pb-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={connectionTestLoading}
+                  onClick={() => onTestConnection(nodeData.node_id)}
+                  className="gap-2"
+                >
+                  {connectionTestLoading ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <Plug className="h-3 w-3" />
+                  )}
+                  {connectionTestLoading ? 'Testing...' : 'Test connection'}
+                </Button>
+
+                {connectionTestResult?.node_id === nodeData.node_id && (
+                  <div
+                    className={`p-3 rounded-lg border text-sm space-y-1 ${
+                      connectionTestResult.ok
+                        ? 'border-green-200 bg-green-50 text-green-800'
+                        : 'border-red-200 bg-red-50 text-red-700'
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {connectionTestResult.ok ? (
+                        <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      )}
+                      <p className="break-words">
+                        {connectionTestResult.message}
+                      </p>
+                    </div>
+                    <p className="text-xs opacity-80">
+                      {connectionTestResult.latency_ms} ms
+                      {connectionTestResult.tables &&
+                        connectionTestResult.tables.length > 0 &&
+                        ` · ${connectionTestResult.tables.join(', ')}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Columns */}
+            {workflowNode && (
+              <NodeSchemaPanel
+                node={workflowNode}
+                disabled={isLoading}
+                onInferSchema={onInferSchema}
+                onUpdateColumnMapping={onUpdateColumnMapping}
+              />
+            )}
+
+            {/* Sample Data */}
+            {workflowNode && (
+              <NodePreviewPanel
+                node={workflowNode}
+                onPreviewData={onPreviewData}
+              />
+            )}
+
             {/* Filled Values */}
             <div className="space-y-3">
               <div className="space-y-3">
-                {Object.entries(nodeData.filled_values).map(
-                  ([field, value]) => (
-                    <div
-                      key={field}
-                      className="relative p-4 rounded-lg border border-border bg-card transition-colors duration-200"
-                    >
-                      {/* Field Name Label - Top Left */}
-                      <div className="absolute top-2 left-3">
-                        <span className="text-xs font-medium text-primary bg-background px-1.5 py-0.5 rounded">
-                          {field.replace(/_/g, ' ')}
-                        </span>
-                      </div>
+                {Object.entries(nodeData.filled_values)
+                  .filter(([field]) => isShownField(field))
+                  .map(([field, value]) => {
+                    const question = nodeData.field_questions?.[field];
+                    const validationError = nodeData.validation_errors?.[field];
+                    return (
+                      <div
+                        key={field}
+                        className="relative p-4 rounded-lg border border-border bg-card transition-colors duration-200"
+                      >
+                        {/* Field Name Label - Top Left */}
+                        <div className="absolute top-2 left-3">
+                          <span className="text-xs font-medium text-primary bg-background px-1.5 py-0.5 rounded">
+                            {field.replace(/_/g, ' ')}
+                          </span>
+                        </div>
 
-                      {/* Field Content - Below Label */}
-                      <div className="pt-6">
-                        <div
-                          className={`text-sm leading-relaxed ${
-                            value === 'Not filled'
-                              ? 'text-muted-foreground'
-                              : 'text-foreground'
-                          }`}
-                        >
-                          {value === 'Not filled' ? (
-                            <span>Not configured</span>
+                        {/* Field Content - Below Label */}
+                        <div className="pt-6">
+                          {editingField === field && question ? (
+                            <FieldEditor
+                              question={question}
+                              initialValue={getInitialValue(question, value)}
+                              disabled={isLoading}
+                              onSave={newValue =>
+                                handleSaveField(question, newValue)
+                              }
+                              onCancel={() => setEditingField(null)}
+                            />
                           ) : (
-                            <div className="flex items-start justify-between gap-2">
-                              <div className="whitespace-pre-wrap break-words flex-1">
-                                {value}
-                              </div>
-                              <div className="flex items-center gap-1">
-                                {copiedField === field ? (
-                                  <p className="flex items-center gap-1 h-[24px]">
-                                    <span className="text-xs text-green-500 font-light">
-                                      Copied
-                                    </span>
-                                    <CheckCheck className="h-3 w-3 text-green-500" />
-                                  </p>
-                                ) : (
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() =>
-                                      copyToClipboard(value, field)
-                                    }
-                                    className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
-                                  >
-                                    <Copy className="h-3 w-3" />
-                                  </Button>
-                                )}
-                              </div>
+                            <div
+                              className={`text-sm leading-relaxed ${
+                                value === 'Not filled'
+                                  ? 'text-muted-foreground'
+                                  : 'text-foreground'
+                              }`}
+                            >
+                              {value === 'Not filled' ? (
+                                <div className="flex items-center justify-between gap-2">
+                                  <span>Not configured</span>
+                                  {question && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      disabled={isLoading}
+                                      onClick={() => setEditingField(field)}
+                                      className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                                      title="Fill in"
+                                    >
+                                      <Pencil className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                </div>
+                              ) : (
+                                <div className="flex items-start justify-between gap-2">
+                                  <div className="whitespace-pre-wrap break-words flex-1">
+                                    {getVisibleValue(field, value) ?? value}
+                                  </div>
+                                  <div className="flex items-center gap-1">
+                                    {question && (
+                                      <>
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          disabled={isLoading}
+                                          onClick={() => setEditingField(field)}
+                                          className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                                          title="Edit"
+                                        >
+                                          <Pencil className="h-3 w-3" />
+                                        </Button>
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          disabled={isLoading}
+                                          onClick={() =>
+                                            onUpdateField(question, '')
+                                          }
+                                          className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                                          title="Clear"
+                                        >
+                                          <Eraser className="h-3 w-3" />
+                                        </Button>
+                                      </>
+                                    )}
+                                    {isSecretField(field) && (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() =>
+                                          toggleSecretVisibility(field)
+                                        }
+                                        className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                                      >
+                                        {visibleFields.includes(field) ? (
+                                          <EyeOff className="h-3 w-3" />
+                                        ) : (
+                                          <Eye className="h-3 w-3" />
+                                        )}
+                                      </Button>
+                                    )}
+                                    {getVisibleValue(field, value) !== null &&
+                                      (copiedField === field ? (
+                                        <p className="flex items-center gap-1 h-[24px]">
+                                          <span className="text-xs text-green-500 font-light">
+                                            Copied
+                                          </span>
+                                          <CheckCheck className="h-3 w-3 text-green-500" />
+                                        </p>
+                                      ) : (
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          onClick={() =>
+                                            copyToClipboard(
+                                              getVisibleValue(field, value)!,
+                                              field
+                                            )
+                                          }
+                                          className="h-6 w-6 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                                        >
+                                          <Copy className="h-3 w-3" />
+                                        </Button>
+                                      ))}
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           )}
+
+                          {validationError && (
+                            <p className="mt-2 flex items-start gap-1 text-xs text-red-600">
+                              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                              {validationError}
+                            </p>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  )
-                )}
+                    );
+                  })}
               </div>
             </div>
           </>
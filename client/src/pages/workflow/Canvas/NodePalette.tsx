@@ -0,0 +1,85 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { DataFlowNode } from '@/types';
+import { Database, Settings, Zap } from 'lucide-react';
+import { useState, type DragEvent } from 'react';
+
+interface NodePaletteProps {
+  disabled?: boolean;
+  onAddNode: (nodeType: DataFlowNode['type'], name: string) => void;
+}
+
+// Data type the canvas reads when a palette step is dropped on it
+export const PALETTE_DRAG_TYPE = 'application/x-workflow-step';
+
+const STEP_TYPES = [
+  { type: 'source', label: 'Source', icon: Database },
+  { type: 'transform', label: 'Transform', icon: Settings },
+  { type: 'destination', label: 'Destination', icon: Zap },
+] as const;
+
+const DEFAULT_NAMES: Record<DataFlowNode['type'], string> = {
+  source: 'New Source',
+  transform: 'New Transform',
+  destination: 'New Destination',
+};
+
+// New steps for the workflow: click one, or drag it onto the canvas. Naming
+// a step after a connector ("Postgres", "S3") lets the assistant ask for
+// that connector's fields straight away.
+export default function NodePalette({
+  disabled = false,
+  onAddNode,
+}: NodePaletteProps) {
+  const [name, setName] = useState('');
+
+  const stepName = (nodeType: DataFlowNode['type']) =>
+    name.trim() || DEFAULT_NAMES[nodeType];
+
+  const handleAdd = (nodeType: DataFlowNode['type']) => {
+    onAddNode(nodeType, stepName(nodeType));
+    setName('');
+  };
+
+  const handleDragStart = (
+    event: DragEvent<HTMLButtonElement>,
+    nodeType: DataFlowNode['type']
+  ) => {
+    event.dataTransfer.setData(
+      PALETTE_DRAG_TYPE,
+      JSON.stringify({ node_type: nodeType, name: stepName(nodeType) })
+    );
+    event.dataTransfer.effectAllowed = 'copy';
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-border bg-background p-2 shadow-lg">
+      <Input
+        value={name}
+        disabled={disabled}
+        onChange={event => setName(event.target.value)}
+        placeholder="Step name, e.g. Postgres"
+        className="h-8 w-48 text-xs"
+      />
+      {STEP_TYPES.map(({ type, label, icon: Icon }) => (
+        <Button
+          key={type}
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          draggable={!disabled}
+          onClick={() => handleAdd(type)}
+          onDragStart={event => handleDragStart(event, type)}
+          onDragEnd={event => {
+            if (event.dataTransfer.dropEffect !== 'none') setName('');
+          }}
+          className="h-8 gap-1 text-xs cursor-grab"
+          title={`Add a ${type}, or drag it onto the canvas`}
+        >
+          <Icon className="h-3 w-3" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { Button } from '@/components/ui/button';
+import { useChatStore } from '@/store/useChatStore';
+import type { DataFlowNode, RowSample } from '@/types';
+import { AlertCircle, Loader2, Table } from 'lucide-react';
+import { useState } from 'react';
+
+interface NodePreviewPanelProps {
+  node: DataFlowNode;
+  onPreviewData: (nodeId: string, limit: number) => void;
+}
+
+const ROW_LIMITS = [10, 20, 50, 100];
+
+const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || value === '';
+
+const formatValue = (value: unknown) =>
+  typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+function PreviewTable({ title, sample }: { title: string; sample: RowSample }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-xs font-medium text-muted-foreground">{title}</p>
+        <p className="text-[11px] text-muted-foreground">
+          {sample.rows.length} row{sample.rows.length === 1 ? '' : 's'}
+        </p>
+      </div>
+      {sample.rows.length === 0 ? (
+        <p className="rounded-md border border-border bg-card px-2 py-1 text-xs text-muted-foreground">
+          No rows
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-auto rounded-md border border-border bg-card">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-muted">
+              <tr>
+                {sample.columns.map(column => (
+                  <th
+                    key={column.name}
+                    className="px-2 py-1 text-left font-medium align-top whitespace-nowrap"
+                  >
+                    <span className="font-mono">{column.name}</span>
+                    <span className="block font-normal text-muted-foreground">
+                      {column.type}
+                      {column.null_count > 0 &&
+                        ` · ${column.null_count} null${column.null_count === 1 ? '' : 's'}`}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {sample.rows.map((row, index) => (
+                <tr key={index}>
+                  {sample.columns.map(column => (
+                    <td
+                      key={column.name}
+                      className="max-w-[12rem] truncate px-2 py-1 font-mono"
+                      title={
+                        isEmptyValue(row[column.name])
+                          ? undefined
+                          : formatValue(row[column.name])
+                      }
+                    >
+                      {isEmptyValue(row[column.name]) ? (
+                        <span className="italic text-muted-foreground">
+                          null
+                        </span>
+                      ) : (
+                        formatValue(row[column.name])
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-[11px] text-muted-foreground">{sample.detail}</p>
+    </div>
+  );
+}
+
+// The first rows going into and coming out of the node, read without
+// running the workflow
+export default function NodePreviewPanel({
+  node,
+  onPreviewData,
+}: NodePreviewPanelProps) {
+  const { previewLoading, nodePreview } = useChatStore();
+  const [limit, setLimit] = useState(ROW_LIMITS[1]);
+  const preview = nodePreview?.node_id === node.id ? nodePreview : null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-background p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-foreground">Sample data</p>
+        <div className="flex items-center gap-1.5">
+          <select
+            value={limit}
+            disabled={previewLoading}
+            onChange={event => setLimit(Number(event.target.value))}
+            className="h-7 rounded-md border border-input bg-background px-1 text-xs disabled:opacity-50"
+            title="Rows to preview"
+          >
+            {ROW_LIMITS.map(rowLimit => (
+              <option key={rowLimit} value={rowLimit}>
+                {rowLimit} rows
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={previewLoading}
+            onClick={() => onPreviewData(node.id, limit)}
+            className="h-7 gap-2 text-xs"
+          >
+            {previewLoading ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Table className="h-3 w-3" />
+            )}
+            {preview ? 'Refresh' : 'Preview'}
+          </Button>
+        </div>
+      </div>
+
+      {preview?.errors.map(error => (
+        <p
+          key={error}
+          className="flex items-start gap-1 text-xs text-red-600 break-words"
+        >
+          <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {error}
+        </p>
+      ))}
+
+      {preview?.input && (
+        <PreviewTable
+          title={node.type === 'transform' ? 'Before' : 'Incoming'}
+          sample={preview.input}
+        />
+      )}
+      {preview?.output && (
+        <PreviewTable
+          title={node.type === 'transform' ? 'After' : 'Rows'}
+          sample={preview.output}
+        />
+      )}
+    </div>
+  );
+}
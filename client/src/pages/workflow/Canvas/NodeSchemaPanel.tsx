@@ -0,0 +1,139 @@
+import { Button } from '@/components/ui/button';
+import { useChatStore } from '@/store/useChatStore';
+import type { ColumnMapping, DataFlowNode, InferredSchema } from '@/types';
+import { AlertCircle, Loader2, TableProperties } from 'lucide-react';
+import ColumnMappingEditor from './ColumnMappingEditor';
+
+interface NodeSchemaPanelProps {
+  node: DataFlowNode;
+  disabled?: boolean;
+  onInferSchema: (nodeId: string) => void;
+  onUpdateColumnMapping: (nodeId: string, mapping: ColumnMapping[]) => void;
+}
+
+function SchemaTable({
+  title,
+  schema,
+}: {
+  title: string;
+  schema: InferredSchema;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      <div className="rounded-md border border-border bg-card divide-y divide-border">
+        {schema.columns.map(column => (
+          <div
+            key={column.name}
+            className="flex items-center justify-between gap-2 px-2 py-1 text-xs"
+          >
+            <span className="truncate font-mono">{column.name}</span>
+            <span className="flex-shrink-0 text-muted-foreground">
+              {column.type}
+              {column.nullable && '?'}
+            </span>
+          </div>
+        ))}
+        {schema.columns.length === 0 && (
+          <p className="px-2 py-1 text-xs text-muted-foreground">No columns</p>
+        )}
+      </div>
+      <p className="text-[11px] text-muted-foreground">{schema.detail}</p>
+    </div>
+  );
+}
+
+// Columns going into and coming out of the node, and for transforms the
+// column mapping built on top of them
+export default function NodeSchemaPanel({
+  node,
+  disabled = false,
+  onInferSchema,
+  onUpdateColumnMapping,
+}: NodeSchemaPanelProps) {
+  const { schemaLoading, nodeSchemas } = useChatStore();
+  const schemas = nodeSchemas?.node_id === node.id ? nodeSchemas : null;
+  const isMapping =
+    node.type === 'transform' && node.config?.operation_type === 'map';
+  const mapping = Array.isArray(node.config?.column_mapping)
+    ? (node.config.column_mapping as ColumnMapping[])
+    : [];
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-background p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground">
+          {isMapping ? 'Column mapping' : 'Columns'}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={schemaLoading}
+          onClick={() => onInferSchema(node.id)}
+          className="h-7 gap-2 text-xs"
+        >
+          {schemaLoading ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <TableProperties className="h-3 w-3" />
+          )}
+          {schemas ? 'Refresh columns' : 'Infer columns'}
+        </Button>
+      </div>
+
+      {schemas?.errors.map(error => (
+        <p
+          key={error}
+          className="flex items-start gap-1 text-xs text-red-600 break-words"
+        >
+          <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {error}
+        </p>
+      ))}
+
+      {isMapping ? (
+        <ColumnMappingEditor
+          // Start over from the server's mapping whenever either side changes
+          key={`${JSON.stringify(mapping)}:${schemas?.input?.columns
+            .map(column => column.name)
+            .join(',')}`}
+          inputColumns={schemas?.input?.columns || []}
+          initialMapping={mapping}
+          disabled={disabled}
+          onSave={newMapping => onUpdateColumnMapping(node.id, newMapping)}
+        />
+      ) : (
+        schemas && (
+          <>
+            {schemas.input && (
+              <SchemaTable title="Incoming" schema={schemas.input} />
+            )}
+            {schemas.output ? (
+              <SchemaTable
+                title={
+                  node.type === 'destination'
+                    ? 'Target'
+                    : node.type === 'transform'
+                      ? 'Produces'
+                      : 'Columns'
+                }
+                schema={schemas.output}
+              />
+            ) : (
+              node.type === 'destination' &&
+              schemas.errors.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  The target does not exist yet; it is created on the first run.
+                </p>
+              )
+            )}
+          </>
+        )
+      )}
+
+      {isMapping && schemas?.output && (
+        <SchemaTable title="Produces" schema={schemas.output} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Button } from '@/components/ui/button';
+import { useChatStore } from '@/store/useChatStore';
+import { Redo2, Undo2 } from 'lucide-react';
+
+interface UndoRedoControlsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const isMac =
+  typeof navigator !== 'undefined' && /mac/i.test(navigator.platform);
+const modifier = isMac ? '⌘' : 'Ctrl+';
+
+// Take back the last change to the workflow, or bring it back
+export default function UndoRedoControls({
+  onUndo,
+  onRedo,
+}: UndoRedoControlsProps) {
+  const { undoStack, redoStack, isLoading } = useChatStore();
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!nextUndo || isLoading}
+        onClick={onUndo}
+        className="px-2"
+        title={nextUndo ? `Undo ${nextUndo} (${modifier}Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo2 className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!nextRedo || isLoading}
+        onClick={onRedo}
+        className="px-2"
+        title={
+          nextRedo
+            ? `Redo ${nextRedo} (${modifier}${isMac ? '⇧Z' : 'Y'})`
+            : 'Nothing to redo'
+        }
+        aria-label="Redo"
+      >
+        <Redo2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import type { WorkflowVersionDiff, WorkflowVersionSummary } from '@/types';
+import { X } from 'lucide-react';
+
+interface VersionDiffBannerProps {
+  diff: WorkflowVersionDiff;
+  onClose: () => void;
+}
+
+const versionTitle = (version: WorkflowVersionSummary) =>
+  version.name ? `v${version.number} "${version.name}"` : `v${version.number}`;
+
+const LEGEND = [
+  { change: 'added', label: 'added', color: 'bg-green-500' },
+  { change: 'removed', label: 'removed', color: 'bg-red-500' },
+  { change: 'changed', label: 'changed', color: 'bg-amber-400' },
+] as const;
+
+// Explains the diff shown on the canvas and leads back to the live workflow
+export default function VersionDiffBanner({
+  diff,
+  onClose,
+}: VersionDiffBannerProps) {
+  const count = (change: string) =>
+    diff.nodes.filter(node => node.change === change).length;
+
+  return (
+    <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-4 px-4 py-2 rounded-lg border border-border bg-background shadow-lg text-sm">
+      <span className="font-medium whitespace-nowrap">
+        {versionTitle(diff.from)} → {versionTitle(diff.to)}
+      </span>
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        {LEGEND.map(({ change, label, color }) => (
+          <span key={change} className="flex items-center gap-1">
+            <span className={`size-2.5 rounded-full ${color}`} />
+            {count(change)} {label}
+          </span>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onClose}
+        className="h-7 px-2 gap-1 text-xs"
+        title="Back to the current workflow"
+      >
+        <X className="h-3 w-3" />
+        Exit diff
+      </Button>
+    </div>
+  );
+}
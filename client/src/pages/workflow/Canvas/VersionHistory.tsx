@@ -0,0 +1,229 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useChatStore } from '@/store/useChatStore';
+import type { WorkflowVersionSummary } from '@/types';
+import { GitCompare, History, Pencil, RotateCcw, X } from 'lucide-react';
+import { useState, type FormEvent } from 'react';
+
+interface VersionHistoryProps {
+  onListVersions: () => void;
+  onNameVersion: (versionId: string, name: string) => void;
+  onDiffVersions: (versionId: string, compareTo?: string) => void;
+  onRestoreVersion: (version: WorkflowVersionSummary) => void;
+}
+
+const formatCreatedAt = (createdAt: string) =>
+  new Date(createdAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Saved versions of the workflow: name them, compare two of them on the
+// canvas or bring an earlier one back
+export default function VersionHistory({
+  onListVersions,
+  onNameVersion,
+  onDiffVersions,
+  onRestoreVersion,
+}: VersionHistoryProps) {
+  const { versions, isLoading } = useChatStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const latest = versions[versions.length - 1];
+  const newestFirst = [...versions].reverse();
+
+  const handleToggle = () => {
+    if (!isOpen) onListVersions();
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = (versionId: string) => {
+    setSelectedIds(current =>
+      current.includes(versionId)
+        ? current.filter(id => id !== versionId)
+        : // Keep the two most recent picks
+          [...current, versionId].slice(-2)
+    );
+  };
+
+  const handleCompareSelected = () => {
+    const [from, to] = versions.filter(version =>
+      selectedIds.includes(version.id)
+    );
+    if (from && to) onDiffVersions(from.id, to.id);
+  };
+
+  const startEditing = (version: WorkflowVersionSummary) => {
+    setEditingId(version.id);
+    setDraftName(version.name || '');
+  };
+
+  const handleNameSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (editingId) onNameVersion(editingId, draftName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleToggle}
+        className="gap-2"
+        title="Show the saved versions of this workflow"
+      >
+        <History className="h-3 w-3" />
+        History ({versions.length})
+      </Button>
+
+      {isOpen && (
+        <div className="w-80 rounded-lg border border-border bg-background shadow-lg">
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+            <span className="text-sm font-medium">Versions</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedIds.length !== 2}
+                onClick={handleCompareSelected}
+                className="h-7 px-2 gap-1 text-xs"
+                title="Compare the two checked versions"
+              >
+                <GitCompare className="h-3 w-3" />
+                Compare
+              </Button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label="Close version history"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {versions.length === 0 ? (
+            <p className="px-3 py-4 text-xs text-muted-foreground">
+              A version is saved every time the workflow changes.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+              {newestFirst.map(version => {
+                const isLatest = version.id === latest?.id;
+                return (
+                  <li
+                    key={version.id}
+                    className={cn(
+                      'px-3 py-2 text-xs space-y-1',
+                      selectedIds.includes(version.id) && 'bg-blue-50'
+                    )}
+                  >
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(version.id)}
+                        onChange={() => handleSelect(version.id)}
+                        className="mt-0.5"
+                        aria-label={`Select version ${version.number}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1">
+                          <span className="font-medium">v{version.number}</span>
+                          {version.name && (
+                            <span className="font-medium truncate">
+                              {version.name}
+                            </span>
+                          )}
+                          {isLatest && (
+                            <span className="px-1.5 rounded-full bg-green-100 text-green-700">
+                              current
+                            </span>
+                          )}
+                        </div>
+                        <p
+                          className="text-muted-foreground truncate"
+                          title={version.label}
+                        >
+                          {version.label}
+                        </p>
+                        <p className="text-muted-foreground">
+                          {formatCreatedAt(version.created_at)} ·{' '}
+                          {version.node_count} node
+                          {version.node_count === 1 ? '' : 's'}
+                          {version.workflow_complete && ' · complete'}
+                        </p>
+                      </div>
+                    </div>
+
+                    {editingId === version.id ? (
+                      <form
+                        onSubmit={handleNameSubmit}
+                        className="flex items-center gap-1 pl-5"
+                      >
+                        <Input
+                          autoFocus
+                          value={draftName}
+                          onChange={event => setDraftName(event.target.value)}
+                          placeholder="Version name"
+                          className="h-7 text-xs"
+                        />
+                        <Button type="submit" size="sm" className="h-7 px-2">
+                          Save
+                        </Button>
+                      </form>
+                    ) : (
+                      <div className="flex items-center gap-1 pl-5">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => startEditing(version)}
+                          className="h-6 px-2 gap-1 text-xs"
+                          title="Name this version"
+                        >
+                          <Pencil className="h-3 w-3" />
+                          Name
+                        </Button>
+                        {!isLatest && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onDiffVersions(version.id)}
+                              className="h-6 px-2 gap-1 text-xs"
+                              title="Show what changed since this version"
+                            >
+                              <GitCompare className="h-3 w-3" />
+                              Diff
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={isLoading}
+                              onClick={() => onRestoreVersion(version)}
+                              className="h-6 px-2 gap-1 text-xs"
+                              title="Make this version the current workflow"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              Restore
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
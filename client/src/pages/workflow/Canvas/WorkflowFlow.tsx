@@ -1,8 +1,45 @@
-import type { DataFlowConnection, DataFlowNode } from '@/types';
-import { useCallback, useEffect, useMemo, useRef } from 'react';
-import type { Edge, EdgeMarkerType, Node, NodeTypes } from 'reactflow';
-import ReactFlow, { Background, Controls } from 'reactflow';
+import {
+  layoutGraph,
+  type LayoutDirection,
+  type LayoutPosition,
+} from '@/lib/graphLayout';
+import {
+  getStoredLayoutDirection,
+  storeLayoutDirection,
+} from '@/lib/layoutPreferences';
+import type {
+  DataFlowConnection,
+  DataFlowNode,
+  GraphEdit,
+  LayoutChange,
+  WorkflowVersionDiff,
+  WorkflowViewport,
+} from '@/types';
+import { ArrowDown, ArrowRight, LayoutGrid } from 'lucide-react';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type DragEvent,
+} from 'react';
+import type {
+  Connection,
+  Edge,
+  EdgeMarkerType,
+  EdgeTypes,
+  Node,
+  NodeChange,
+  NodeTypes,
+  ReactFlowInstance,
+  Viewport,
+  XYPosition,
+} from 'reactflow';
+import ReactFlow, { Background, ControlButton, Controls } from 'reactflow';
 import 'reactflow/dist/style.css';
+import DeletableEdge from './DeletableEdge';
+import { PALETTE_DRAG_TYPE } from './NodePalette';
 import WorkflowNode from './WorkflowNode';
 
 interface WorkflowFlowProps {
@@ -11,6 +48,15 @@ interface WorkflowFlowProps {
     connections: DataFlowConnection[];
   };
   onNodeClick?: (nodeId: string, nodeType: string) => void;
+  // Highlights added, removed and changed nodes and connections
+  versionDiff?: WorkflowVersionDiff | null;
+  // Lets steps and connections be added and removed on the canvas
+  onGraphEdit?: (edit: GraphEdit) => void;
+  // Pan and zoom saved with the workflow, shown instead of fitting the view
+  // when the workflow is loaded
+  viewport?: WorkflowViewport | null;
+  // Lets nodes be dragged; moves and pan/zoom are reported for saving
+  onLayoutChange?: (change: LayoutChange) => void;
 }
 
 // Node types configuration
@@ -18,9 +64,50 @@ const nodeTypes: NodeTypes = {
   workflowNode: WorkflowNode,
 };
 
-function WorkflowFlow({ currentWorkflow, onNodeClick }: WorkflowFlowProps) {
-  const reactFlowRef = useRef<any>(null);
+const edgeTypes: EdgeTypes = {
+  deletable: DeletableEdge,
+};
+
+// Rendered size of a WorkflowNode card
+const NODE_WIDTH = 320;
+const NODE_HEIGHT = 272;
+
+const FIT_VIEW_OPTIONS = {
+  padding: 0.1,
+  includeHiddenNodes: false,
+  minZoom: 0.5,
+  maxZoom: 1.2,
+};
+
+// Wait for the user to stop panning and zooming before saving the viewport
+const VIEWPORT_SAVE_DELAY_MS = 500;
+
+const DIFF_EDGE_COLORS = {
+  added: '#10b981',
+  removed: '#ef4444',
+  unchanged: '#9ca3af',
+};
+
+function WorkflowFlow({
+  currentWorkflow,
+  onNodeClick,
+  versionDiff,
+  onGraphEdit,
+  viewport,
+  onLayoutChange,
+}: WorkflowFlowProps) {
+  const reactFlowRef = useRef<ReactFlowInstance | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [direction, setDirection] = useState<LayoutDirection>(
+    getStoredLayoutDirection
+  );
+  const isVerticalLayout = direction === 'TB';
+
+  const toggleDirection = () => {
+    const next = direction === 'LR' ? 'TB' : 'LR';
+    storeLayoutDirection(next);
+    setDirection(next);
+  };
 
   // Stabilize the onNodeClick function to prevent unnecessary re-renders
   const stableOnNodeClick = useCallback(
@@ -30,85 +117,190 @@ function WorkflowFlow({ currentWorkflow, onNodeClick }: WorkflowFlowProps) {
     [onNodeClick]
   );
 
-  // Effect to fit view when nodes change
+  const handleDeleteNode = useCallback(
+    (nodeId: string) =>
+      onGraphEdit?.({ action: 'remove_node', node_id: nodeId }),
+    [onGraphEdit]
+  );
+
+  const handleDeleteConnection = useCallback(
+    (source: string, target: string) =>
+      onGraphEdit?.({ action: 'remove_connection', source, target }),
+    [onGraphEdit]
+  );
+
+  // Only offer connections the server would accept: data flows out of
+  // sources and into destinations, without loops or duplicates
+  const isValidConnection = useCallback(
+    ({ source, target }: Connection) => {
+      const sourceNode = currentWorkflow.nodes.find(n => n.id === source);
+      const targetNode = currentWorkflow.nodes.find(n => n.id === target);
+      return (
+        !!sourceNode &&
+        !!targetNode &&
+        sourceNode.id !== targetNode.id &&
+        sourceNode.type !== 'destination' &&
+        targetNode.type !== 'source' &&
+        !currentWorkflow.connections.some(
+          c => c.source === source && c.target === target
+        )
+      );
+    },
+    [currentWorkflow]
+  );
+
+  const handleConnect = useCallback(
+    ({ source, target }: Connection) => {
+      if (source && target) {
+        onGraphEdit?.({ action: 'add_connection', source, target });
+      }
+    },
+    [onGraphEdit]
+  );
+
+  const handleDragOver = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      const isPaletteStep =
+        event.dataTransfer.types.includes(PALETTE_DRAG_TYPE);
+      if (!onGraphEdit || !isPaletteStep) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+    },
+    [onGraphEdit]
+  );
+
+  // A step dragged in from the palette
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      const step = event.dataTransfer.getData(PALETTE_DRAG_TYPE);
+      if (!onGraphEdit || !step) return;
+      event.preventDefault();
+      const { node_type, name } = JSON.parse(step);
+      onGraphEdit({ action: 'add_node', node_type, name });
+    },
+    [onGraphEdit]
+  );
+
+  const nodeDiffs = useMemo(
+    () => new Map(versionDiff?.nodes.map(diff => [diff.node.id, diff])),
+    [versionDiff]
+  );
+
+  // Only the graph's shape affects the layout, not node statuses or values
+  const structureKey = JSON.stringify([
+    currentWorkflow.nodes.map(node => node.id),
+    currentWorkflow.connections.map(({ source, target }) => [source, target]),
+  ]);
+
+  // Layered layout that handles branches and merges. It is recomputed only
+  // when the shape or the direction changes, starting from the previous
+  // placement so existing nodes keep their order.
+  const previousPositions = useRef<Map<string, LayoutPosition>>();
+  const positions = useMemo(
+    () =>
+      layoutGraph(
+        currentWorkflow.nodes.map(node => node.id),
+        currentWorkflow.connections,
+        {
+          direction,
+          nodeWidth: NODE_WIDTH,
+          nodeHeight: NODE_HEIGHT,
+          previousPositions: previousPositions.current,
+        }
+      ),
+    [structureKey, direction]
+  );
+  useEffect(() => {
+    previousPositions.current = positions;
+  }, [positions]);
+
+  // Fit the view whenever the layout changes, except right after a
+  // workflow with a saved viewport is loaded
+  const appliedViewport = useRef<WorkflowViewport | null>(null);
   useEffect(() => {
-    if (reactFlowRef.current && currentWorkflow.nodes.length > 0) {
-      // Use a longer timeout to ensure DOM updates are complete
-      const timeoutId = setTimeout(() => {
-        reactFlowRef.current?.fitView({
-          padding: 0.1,
-          includeHiddenNodes: false,
-          minZoom: 0.8,
-          maxZoom: 1.2,
-        });
-      }, 150);
-
-      return () => clearTimeout(timeoutId);
-    }
-  }, [currentWorkflow.nodes.length]);
+    if (currentWorkflow.nodes.length === 0) return;
+    // Wait for React Flow to measure the new nodes
+    const timeoutId = setTimeout(() => {
+      if (viewport && viewport !== appliedViewport.current) {
+        appliedViewport.current = viewport;
+        reactFlowRef.current?.setViewport(viewport);
+      } else {
+        reactFlowRef.current?.fitView(FIT_VIEW_OPTIONS);
+      }
+    }, 150);
+    return () => clearTimeout(timeoutId);
+  }, [positions, currentWorkflow.nodes.length, viewport]);
 
-  // Calculate node positions with fixed dimensions and layout-based responsiveness
-  const calculateNodePositions = useMemo(() => {
-    // Fixed node sizing - no responsive sizing
-    const nodeWidth = 320;
-    const nodeSpacing = 100;
+  // Where nodes are while being dragged, until the move is saved
+  const [dragPositions, setDragPositions] = useState<
+    Record<string, XYPosition>
+  >({});
 
-    const totalNodes = currentWorkflow.nodes.length;
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    const moved: Record<string, XYPosition> = {};
+    changes.forEach(change => {
+      if (change.type === 'position' && change.position) {
+        moved[change.id] = change.position;
+      }
+    });
+    if (Object.keys(moved).length > 0) {
+      setDragPositions(current => ({ ...current, ...moved }));
+    }
+  }, []);
 
-    if (totalNodes === 0) return [];
+  const handleNodeDragStop = useCallback(
+    (_event: unknown, _node: Node, draggedNodes: Node[]) => {
+      onLayoutChange?.({
+        node_positions: Object.fromEntries(
+          draggedNodes.map(({ id, position }) => [
+            id,
+            { x: Math.round(position.x), y: Math.round(position.y) },
+          ])
+        ),
+      });
+      setDragPositions({});
+    },
+    [onLayoutChange]
+  );
 
-    // Simple layout: use vertical layout for 1-2 nodes, horizontal for 3+ nodes
-    const isVerticalLayout = totalNodes <= 2;
+  const viewportSaveTimeout = useRef<ReturnType<typeof setTimeout>>();
+  useEffect(() => () => clearTimeout(viewportSaveTimeout.current), []);
 
-    if (isVerticalLayout) {
-      // Vertical layout: nodes stacked top to bottom
-      const nodeHeight = nodeWidth * 0.6;
-      const verticalSpacing = 120;
+  // Only pans and zooms by the user are saved, not fitting the view
+  const handleMoveEnd = useCallback(
+    (event: MouseEvent | TouchEvent | null, movedTo: Viewport) => {
+      if (!event || !onLayoutChange) return;
+      clearTimeout(viewportSaveTimeout.current);
+      viewportSaveTimeout.current = setTimeout(
+        () => onLayoutChange({ viewport: movedTo }),
+        VIEWPORT_SAVE_DELAY_MS
+      );
+    },
+    [onLayoutChange]
+  );
 
-      // Calculate total height needed
-      const totalHeight =
-        totalNodes * nodeHeight + (totalNodes - 1) * verticalSpacing;
+  const hasManualPositions = currentWorkflow.nodes.some(node => node.position);
 
-      // Fixed container height for calculations
-      const containerHeight = 600;
-      const startY = Math.max(80, (containerHeight - totalHeight) / 2);
+  // Hand every node back to the automatic layout
+  const handleAutoArrange = () => {
+    onLayoutChange?.({
+      node_positions: Object.fromEntries(
+        currentWorkflow.nodes.map(node => [node.id, null])
+      ),
+      viewport: null,
+    });
+    setTimeout(() => reactFlowRef.current?.fitView(FIT_VIEW_OPTIONS), 150);
+  };
 
-      return currentWorkflow.nodes.map((node, index) => ({
-        id: node.id,
-        type: 'workflowNode' as const,
-        position: {
-          x: 50, // Fixed horizontal position
-          y: startY + index * (nodeHeight + verticalSpacing),
-        },
-        data: {
-          id: node.id,
-          type: node.type,
-          name: node.name,
-          status: node.status,
-          config: node.config,
-          data_requirements: node.data_requirements,
-          onNodeClick,
-          nodeWidth,
-          isVerticalLayout,
-        },
-      }));
-    } else {
-      // Horizontal layout: nodes arranged left to right
-      // Calculate total width needed
-      const totalWidth =
-        totalNodes * nodeWidth + (totalNodes - 1) * nodeSpacing;
-
-      // Fixed container width for calculations
-      const containerWidth = 1200;
-      const startX = Math.max(50, (containerWidth - totalWidth) / 2);
-
-      return currentWorkflow.nodes.map((node, index) => ({
+  // Convert workflow nodes to React Flow nodes at their laid out positions
+  const nodes: Node[] = useMemo(
+    () =>
+      currentWorkflow.nodes.map(node => ({
         id: node.id,
-        type: 'workflowNode' as const,
-        position: {
-          x: startX + index * (nodeWidth + nodeSpacing),
-          y: 50, // Fixed vertical position
-        },
+        type: 'workflowNode',
+        // Dragged, then placed by the user, then laid out automatically
+        position:
+          dragPositions[node.id] || node.position || positions.get(node.id)!,
         data: {
           id: node.id,
           type: node.type,
@@ -116,38 +308,64 @@ function WorkflowFlow({ currentWorkflow, onNodeClick }: WorkflowFlowProps) {
           status: node.status,
           config: node.config,
           data_requirements: node.data_requirements,
-          onNodeClick,
-          nodeWidth,
+          validation_errors: node.validation_errors,
+          onNodeClick: stableOnNodeClick,
+          nodeWidth: NODE_WIDTH,
           isVerticalLayout,
+          diff: nodeDiffs.get(node.id),
+          onDelete: onGraphEdit ? handleDeleteNode : undefined,
         },
-      }));
-    }
-  }, [currentWorkflow.nodes, stableOnNodeClick]);
-
-  // Convert workflow nodes to React Flow nodes with dynamic positioning
-  const nodes: Node[] = useMemo(() => {
-    return calculateNodePositions.map(node => ({
-      ...node,
-      data: {
-        ...node.data,
-        // Ensure stable references for functions
-        onNodeClick: onNodeClick || (() => {}),
-      },
-    }));
-  }, [calculateNodePositions, stableOnNodeClick]);
-
-  // Determine layout direction for connections and workflow key
-  const isVerticalLayout = currentWorkflow.nodes.length <= 2;
-  const layoutKey = isVerticalLayout ? 'vertical' : 'horizontal';
+      })),
+    [
+      currentWorkflow.nodes,
+      positions,
+      dragPositions,
+      stableOnNodeClick,
+      isVerticalLayout,
+      nodeDiffs,
+      onGraphEdit,
+      handleDeleteNode,
+    ]
+  );
 
   // Convert workflow connections to React Flow edges
   const edges: Edge[] = useMemo(() => {
     return currentWorkflow.connections.map(connection => {
+      if (versionDiff) {
+        const change =
+          versionDiff.connections.find(
+            diff =>
+              diff.source === connection.source &&
+              diff.target === connection.target
+          )?.change || 'unchanged';
+        const color = DIFF_EDGE_COLORS[change];
+        return {
+          id: connection.id,
+          source: connection.source,
+          target: connection.target,
+          type: 'smoothstep',
+          sourceHandle: isVerticalLayout ? 'bottom' : 'right',
+          targetHandle: isVerticalLayout ? 'top' : 'left',
+          style: {
+            stroke: color,
+            strokeWidth: change === 'unchanged' ? 2 : 3,
+            ...(change === 'removed' && { strokeDasharray: '6 4' }),
+          },
+          markerEnd: {
+            type: 'arrowclosed',
+            width: 20,
+            height: 20,
+            color,
+          } as EdgeMarkerType,
+        };
+      }
+
       return {
         id: connection.id,
         source: connection.source,
         target: connection.target,
-        type: 'smoothstep',
+        type: onGraphEdit ? 'deletable' : 'smoothstep',
+        data: onGraphEdit ? { onDelete: handleDeleteConnection } : undefined,
         sourceHandle: isVerticalLayout ? 'bottom' : 'right',
         targetHandle: isVerticalLayout ? 'top' : 'left',
         style: {
@@ -172,37 +390,42 @@ function WorkflowFlow({ currentWorkflow, onNodeClick }: WorkflowFlowProps) {
         } as EdgeMarkerType,
       };
     });
-  }, [currentWorkflow.connections, isVerticalLayout]);
-
-  // Create a stable key for React Flow to prevent unnecessary re-renders
-  // Only change key when node count or node IDs change, not on status updates
-  const nodeIds = currentWorkflow.nodes
-    .map(n => n.id)
-    .sort()
-    .join('-');
-  const workflowKey =
-    currentWorkflow.nodes.length > 0
-      ? `nodes-${currentWorkflow.nodes.length}-ids-${nodeIds}-layout-${layoutKey}`
-      : 'empty';
+  }, [
+    currentWorkflow.connections,
+    isVerticalLayout,
+    versionDiff,
+    onGraphEdit,
+    handleDeleteConnection,
+  ]);
 
   return (
     <div
       ref={containerRef}
       className="h-full bg-background rounded-lg border border-border"
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
     >
       <ReactFlow
-        key={workflowKey}
-        ref={reactFlowRef}
+        onInit={instance => {
+          reactFlowRef.current = instance;
+        }}
         nodes={nodes}
         edges={edges}
         nodeTypes={nodeTypes}
-        fitView
-        fitViewOptions={{
-          padding: 0.1,
-          includeHiddenNodes: false,
-          minZoom: 0.8,
-          maxZoom: 1.2,
-        }}
+        edgeTypes={edgeTypes}
+        nodesConnectable={!!onGraphEdit}
+        isValidConnection={isValidConnection}
+        onConnect={handleConnect}
+        // Removals go through the buttons on nodes and connections, so the
+        // server hears about every edit
+        deleteKeyCode={null}
+        nodesDraggable={!!onLayoutChange}
+        onNodesChange={handleNodesChange}
+        onNodeDragStop={handleNodeDragStop}
+        onMoveEnd={handleMoveEnd}
+        fitView={!viewport}
+        fitViewOptions={FIT_VIEW_OPTIONS}
+        defaultViewport={viewport || undefined}
         attributionPosition="bottom-left"
         className="bg-background"
       >
@@ -230,7 +453,28 @@ function WorkflowFlow({ currentWorkflow, onNodeClick }: WorkflowFlowProps) {
           size={1}
           className="opacity-20"
         />
-        <Controls />
+        <Controls>
+          <ControlButton
+            onClick={toggleDirection}
+            title={
+              isVerticalLayout
+                ? 'Lay out left to right'
+                : 'Lay out top to bottom'
+            }
+            aria-label="Switch layout direction"
+          >
+            {isVerticalLayout ? <ArrowRight /> : <ArrowDown />}
+          </ControlButton>
+          {onLayoutChange && hasManualPositions && (
+            <ControlButton
+              onClick={handleAutoArrange}
+              title="Arrange all nodes automatically"
+              aria-label="Arrange automatically"
+            >
+              <LayoutGrid />
+            </ControlButton>
+          )}
+        </Controls>
       </ReactFlow>
     </div>
   );
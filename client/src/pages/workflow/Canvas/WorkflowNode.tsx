@@ -1,11 +1,13 @@
 import { cn } from '@/lib/utils';
-import type { DataFlowNode } from '@/types';
+import type { DataFlowNode, FieldChange, NodeDiff } from '@/types';
 import {
+  AlertCircle,
   CheckCheck,
   Circle,
   Database,
   HelpCircle,
   Settings,
+  Trash2,
   Zap,
 } from 'lucide-react';
 import { Handle, Position } from 'reactflow';
@@ -16,12 +18,46 @@ interface WorkflowNodeProps {
     onNodeClick?: (nodeId: string, nodeType: string) => void;
     nodeWidth?: number;
     isVerticalLayout?: boolean;
+    // Set when the canvas shows the changes between two versions
+    diff?: NodeDiff;
+    // Set while the graph can be edited on the canvas
+    onDelete?: (nodeId: string) => void;
   };
 }
 
+const DIFF_RINGS: Record<NodeDiff['change'], string> = {
+  added: 'ring-4 ring-green-500',
+  removed: 'ring-4 ring-red-500 opacity-60',
+  changed: 'ring-4 ring-amber-400',
+  unchanged: '',
+};
+
+const DIFF_BADGES: Partial<Record<NodeDiff['change'], string>> = {
+  added: 'bg-green-500 text-white',
+  removed: 'bg-red-500 text-white',
+  changed: 'bg-amber-400 text-gray-900',
+};
+
+const formatFieldValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '∅';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const formatFieldChange = (change: FieldChange) =>
+  `${formatFieldValue(change.before)} → ${formatFieldValue(change.after)}`;
+
 export default function WorkflowNode({ data }: WorkflowNodeProps) {
   const nodeWidth = data.nodeWidth || 320; // Default to 320px if not provided
   const isVerticalLayout = data.isVerticalLayout || false;
+  const diff = data.diff;
+  const isEditable = !!data.onDelete;
+  const handleClassName = cn(
+    'w-3 h-3 bg-gray-400 border-2 border-white opacity-0',
+    // Drag from a visible handle to draw a connection
+    isEditable && 'group-hover:opacity-100 hover:bg-primary'
+  );
+  const hasDiffDetails =
+    !!diff && (diff.fields.length > 0 || diff.status_before !== undefined);
   const getNodeIcon = (type: string) => {
     const iconSize =
       nodeWidth < 300 ? 'size-5' : nodeWidth > 340 ? 'size-7' : 'size-6';
@@ -55,12 +91,12 @@ export default function WorkflowNode({ data }: WorkflowNodeProps) {
   };
 
   return (
-    <div className="relative">
+    <div className="relative group">
       {/* Input Handle - Dynamic based on layout */}
       <Handle
         type="target"
         position={isVerticalLayout ? Position.Top : Position.Left}
-        className="w-3 h-3 bg-gray-400 border-2 border-white opacity-0"
+        className={handleClassName}
       />
 
       {/* Node Type Label - Dynamic positioning based on layout */}
@@ -81,9 +117,39 @@ export default function WorkflowNode({ data }: WorkflowNodeProps) {
         </p>
       </div>
 
+      {/* Version diff badge */}
+      {diff && DIFF_BADGES[diff.change] && (
+        <div
+          className={cn(
+            'absolute -top-3 -right-3 z-10 px-2 py-0.5 rounded-full text-xs font-medium capitalize shadow',
+            DIFF_BADGES[diff.change]
+          )}
+        >
+          {diff.change}
+        </div>
+      )}
+
+      {/* Remove the step and its connections */}
+      {isEditable && (
+        <button
+          onClick={event => {
+            event.stopPropagation();
+            data.onDelete?.(data.id);
+          }}
+          className="nodrag absolute -top-3 -right-3 z-10 flex items-center justify-center w-7 h-7 rounded-full border border-border bg-background text-muted-foreground shadow opacity-0 group-hover:opacity-100 hover:text-red-500 hover:border-red-500 transition-opacity"
+          title={`Remove ${data.name}`}
+          aria-label={`Remove ${data.name}`}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+
       {/* Node Content */}
       <div
-        className="rounded-lg shadow-md bg-background border border-border overflow-hidden cursor-pointer hover:shadow-lg transition-shadow duration-200"
+        className={cn(
+          'rounded-lg shadow-md bg-background border border-border overflow-hidden hover:shadow-lg transition-shadow duration-200',
+          diff ? DIFF_RINGS[diff.change] : 'cursor-pointer'
+        )}
         style={{ width: `${nodeWidth}px` }}
         onClick={() => data.onNodeClick?.(data.id, data.type)}
       >
@@ -126,52 +192,90 @@ export default function WorkflowNode({ data }: WorkflowNodeProps) {
               nodeWidth < 300 ? '160px' : nodeWidth > 340 ? '200px' : '192px',
           }}
         >
-          <div className="space-y-3">
-            {/* Data Requirements List */}
-            <div className="flex flex-col items-start gap-3">
-              {data.data_requirements?.required_fields &&
-              data.data_requirements.required_fields.length > 0 ? (
-                data.data_requirements.required_fields.map((field: string) => {
-                  const isProvided =
-                    data.data_requirements?.provided_fields.includes(field);
-                  return (
-                    <div
-                      key={`field-${data.id}-${field}`}
-                      className="flex h-6 items-center justify-start space-x-1"
-                    >
-                      <div className="flex items-center space-x-1">
-                        <div className="flex items-center">
-                          {isProvided ? (
-                            <CheckCheck className="size-5 text-green-500 flex-shrink-0 transition-all duration-200 ease-in-out" />
-                          ) : (
-                            <Circle className="size-4 text-gray-400 flex-shrink-0 mr-1 transition-all duration-200 ease-in-out" />
-                          )}
-                        </div>
-                        <span
-                          className={`text-[16px] truncate font-light max-w-full leading-none transition-colors duration-200 ease-in-out ${
-                            isProvided ? 'text-gray-900' : 'text-gray-400'
-                          }`}
+          {hasDiffDetails ? (
+            <div className="h-full overflow-y-auto space-y-1.5 text-[13px]">
+              {/* Status transition and changed fields between versions */}
+              {diff.status_before !== undefined && (
+                <div className="flex items-center gap-1">
+                  <span className="font-medium text-gray-900">status:</span>
+                  <span className="text-muted-foreground capitalize">
+                    {diff.status_before} → {data.status}
+                  </span>
+                </div>
+              )}
+              {diff.fields.map(change => (
+                <div
+                  key={`diff-${data.id}-${change.field}`}
+                  className="flex items-start gap-1"
+                  title={formatFieldChange(change)}
+                >
+                  <span className="font-medium text-gray-900 whitespace-nowrap">
+                    {change.field.replace(/_/g, ' ')}:
+                  </span>
+                  <span className="text-muted-foreground truncate">
+                    {formatFieldChange(change)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {/* Data Requirements List */}
+              <div className="flex flex-col items-start gap-3">
+                {data.data_requirements?.required_fields &&
+                data.data_requirements.required_fields.length > 0 ? (
+                  data.data_requirements.required_fields.map(
+                    (field: string) => {
+                      const isProvided =
+                        data.data_requirements?.provided_fields.includes(field);
+                      const validationError = data.validation_errors?.[field];
+                      return (
+                        <div
+                          key={`field-${data.id}-${field}`}
+                          className="flex h-6 items-center justify-start space-x-1"
+                          title={validationError}
                         >
-                          {field.includes('_')
-                            ? field.replace(/_/g, ' ')
-                            : field}
-                        </span>
-                      </div>
+                          <div className="flex items-center space-x-1">
+                            <div className="flex items-center">
+                              {validationError ? (
+                                <AlertCircle className="size-4 text-red-500 flex-shrink-0 mr-1 transition-all duration-200 ease-in-out" />
+                              ) : isProvided ? (
+                                <CheckCheck className="size-5 text-green-500 flex-shrink-0 transition-all duration-200 ease-in-out" />
+                              ) : (
+                                <Circle className="size-4 text-gray-400 flex-shrink-0 mr-1 transition-all duration-200 ease-in-out" />
+                              )}
+                            </div>
+                            <span
+                              className={`text-[16px] truncate font-light max-w-full leading-none transition-colors duration-200 ease-in-out ${
+                                validationError
+                                  ? 'text-red-500'
+                                  : isProvided
+                                    ? 'text-gray-900'
+                                    : 'text-gray-400'
+                              }`}
+                            >
+                              {field.includes('_')
+                                ? field.replace(/_/g, ' ')
+                                : field}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    }
+                  )
+                ) : (
+                  <div className="flex items-center justify-center h-full">
+                    <div className="text-center">
+                      <HelpCircle className="w-4 h-4 text-gray-400 mx-auto mb-1" />
+                      <p className="text-[9px] text-muted-foreground">
+                        No data required
+                      </p>
                     </div>
-                  );
-                })
-              ) : (
-                <div className="flex items-center justify-center h-full">
-                  <div className="text-center">
-                    <HelpCircle className="w-4 h-4 text-gray-400 mx-auto mb-1" />
-                    <p className="text-[9px] text-muted-foreground">
-                      No data required
-                    </p>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
 
@@ -179,7 +283,7 @@ export default function WorkflowNode({ data }: WorkflowNodeProps) {
       <Handle
         type="source"
         position={isVerticalLayout ? Position.Bottom : Position.Right}
-        className="w-3 h-3 bg-gray-400 border-2 border-white opacity-0"
+        className={handleClassName}
       />
     </div>
   );
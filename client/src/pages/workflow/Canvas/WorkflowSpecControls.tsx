@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import { useChatStore } from '@/store/useChatStore';
+import type { WorkflowSpecFormat } from '@/types';
+import { AlertCircle, Download, Upload, X } from 'lucide-react';
+import { useRef, type ChangeEvent } from 'react';
+
+interface WorkflowSpecControlsProps {
+  canExport: boolean;
+  onExportWorkflow: (format: WorkflowSpecFormat) => void;
+  onImportWorkflow: (spec: string) => void;
+}
+
+// Download the workflow as a JSON/YAML spec, or upload one to replace it
+export default function WorkflowSpecControls({
+  canExport,
+  onExportWorkflow,
+  onImportWorkflow,
+}: WorkflowSpecControlsProps) {
+  const { specErrors, setSpecErrors, isLoading } = useChatStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onImportWorkflow(await file.text());
+    } catch (error) {
+      setSpecErrors([
+        `Could not read ${file.name}: ${error instanceof Error ? error.message : error}`,
+      ]);
+    }
+  };
+
+  return (
+    <div className="absolute top-3 right-3 z-10 flex flex-col items-end gap-2 max-w-sm">
+      <div className="flex items-center gap-2">
+        {canExport &&
+          (['json', 'yaml'] as const).map(format => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => onExportWorkflow(format)}
+              className="gap-2"
+              title={`Download the workflow as a ${format.toUpperCase()} spec (credentials are left out)`}
+            >
+              <Download className="h-3 w-3" />
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isLoading}
+          onClick={() => fileInputRef.current?.click()}
+          className="gap-2"
+          title="Replace the conversation with a workflow from a JSON/YAML spec"
+        >
+          <Upload className="h-3 w-3" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml,application/json,text/yaml"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {specErrors && (
+        <div className="w-full p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              The workflow spec could not be used
+            </div>
+            <button
+              onClick={() => setSpecErrors(null)}
+              className="text-red-500 hover:text-red-700"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5 break-words">
+            {specErrors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
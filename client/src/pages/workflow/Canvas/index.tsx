@@ -1,9 +1,23 @@
 import { useChatStore } from '@/store/useChatStore';
-import type { DataFlowConnection, DataFlowNode } from '@/types';
-import { useCallback } from 'react';
+import type {
+  ColumnMapping,
+  DataFlowConnection,
+  DataFlowNode,
+  GraphEdit,
+  LayoutChange,
+  Question,
+  WorkflowSpecFormat,
+  WorkflowVersionSummary,
+} from '@/types';
+import { useCallback, useMemo } from 'react';
 import EmptyState from './EmptyState';
 import NodeDataDrawer from './NodeDataDrawer';
+import NodePalette from './NodePalette';
+import UndoRedoControls from './UndoRedoControls';
+import VersionDiffBanner from './VersionDiffBanner';
+import VersionHistory from './VersionHistory';
 import WorkflowFlow from './WorkflowFlow';
+import WorkflowSpecControls from './WorkflowSpecControls';
 
 interface CanvasProps {
   currentWorkflow: {
@@ -12,14 +26,66 @@ interface CanvasProps {
   };
   isConnecting?: boolean;
   onNodeDataRequest: (nodeId: string, nodeType: string) => void;
+  onRevealField: (nodeId: string, field: string) => void;
+  onTestConnection: (nodeId: string) => void;
+  onUpdateNodeField: (question: Question, value: string | string[]) => void;
+  onInferSchema: (nodeId: string) => void;
+  onUpdateColumnMapping: (nodeId: string, mapping: ColumnMapping[]) => void;
+  onPreviewData: (nodeId: string, limit: number) => void;
+  onGraphEdit: (edit: GraphEdit) => void;
+  onUpdateLayout: (change: LayoutChange) => void;
+  onExportWorkflow: (format: WorkflowSpecFormat) => void;
+  onImportWorkflow: (spec: string) => void;
+  onListVersions: () => void;
+  onNameVersion: (versionId: string, name: string) => void;
+  onDiffVersions: (versionId: string, compareTo?: string) => void;
+  onRestoreVersion: (version: WorkflowVersionSummary) => void;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 export default function Canvas({
   currentWorkflow,
   isConnecting = false,
   onNodeDataRequest,
+  onRevealField,
+  onTestConnection,
+  onUpdateNodeField,
+  onInferSchema,
+  onUpdateColumnMapping,
+  onPreviewData,
+  onGraphEdit,
+  onUpdateLayout,
+  onExportWorkflow,
+  onImportWorkflow,
+  onListVersions,
+  onNameVersion,
+  onDiffVersions,
+  onRestoreVersion,
+  onUndo,
+  onRedo,
 }: CanvasProps) {
-  const { nodeData, clearNodeData, isLoading } = useChatStore();
+  const { clearNodeData, isLoading, versionDiff, setVersionDiff, viewport } =
+    useChatStore();
+
+  // While comparing versions the canvas shows both versions' nodes merged
+  const displayedWorkflow = useMemo(
+    () =>
+      versionDiff
+        ? {
+            nodes: versionDiff.nodes.map(diff => diff.node),
+            connections: versionDiff.connections.map(
+              ({ source, target }): DataFlowConnection => ({
+                id: `${source}-${target}`,
+                source,
+                target,
+                status: 'pending',
+              })
+            ),
+          }
+        : currentWorkflow,
+    [versionDiff, currentWorkflow]
+  );
 
   const handleNodeClick = useCallback(
     (nodeId: string, nodeType: string) => {
@@ -34,13 +100,38 @@ export default function Canvas({
 
   return (
     <div className="w-2/3 bg-background/30 relative">
+      {!isConnecting && (
+        <div className="absolute top-3 left-3 z-10 flex items-start gap-2">
+          <VersionHistory
+            onListVersions={onListVersions}
+            onNameVersion={onNameVersion}
+            onDiffVersions={onDiffVersions}
+            onRestoreVersion={onRestoreVersion}
+          />
+          <UndoRedoControls onUndo={onUndo} onRedo={onRedo} />
+        </div>
+      )}
+
+      {!isConnecting && (
+        <WorkflowSpecControls
+          canExport={currentWorkflow.nodes.length > 0}
+          onExportWorkflow={onExportWorkflow}
+          onImportWorkflow={onImportWorkflow}
+        />
+      )}
+
       <div className="h-full">
-        {currentWorkflow.nodes.length > 0 ? (
+        {displayedWorkflow.nodes.length > 0 ? (
           <div className="h-full">
             {/* React Flow Canvas - Full Height */}
             <WorkflowFlow
-              currentWorkflow={currentWorkflow}
-              onNodeClick={handleNodeClick}
+              currentWorkflow={displayedWorkflow}
+              onNodeClick={versionDiff ? undefined : handleNodeClick}
+              versionDiff={versionDiff}
+              // The merged versions of a diff are not the workflow itself
+              onGraphEdit={versionDiff ? undefined : onGraphEdit}
+              viewport={viewport}
+              onLayoutChange={versionDiff ? undefined : onUpdateLayout}
             />
           </div>
         ) : (
@@ -48,8 +139,34 @@ export default function Canvas({
         )}
       </div>
 
+      {!isConnecting && !versionDiff && currentWorkflow.nodes.length > 0 && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10">
+          <NodePalette
+            disabled={isLoading}
+            onAddNode={(nodeType, name) =>
+              onGraphEdit({ action: 'add_node', node_type: nodeType, name })
+            }
+          />
+        </div>
+      )}
+
+      {versionDiff && (
+        <VersionDiffBanner
+          diff={versionDiff}
+          onClose={() => setVersionDiff(null)}
+        />
+      )}
+
       {/* Always render the drawer, but only show when node data is present */}
-      <NodeDataDrawer onClose={handleCloseDrawer} />
+      <NodeDataDrawer
+        onClose={handleCloseDrawer}
+        onRevealField={onRevealField}
+        onTestConnection={onTestConnection}
+        onUpdateField={onUpdateNodeField}
+        onInferSchema={onInferSchema}
+        onUpdateColumnMapping={onUpdateColumnMapping}
+        onPreviewData={onPreviewData}
+      />
     </div>
   );
 }
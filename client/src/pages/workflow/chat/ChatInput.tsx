@@ -1,33 +1,87 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import type { Question } from '@/types';
 import { motion } from 'framer-motion';
-import { Send } from 'lucide-react';
-import React, { forwardRef } from 'react';
+import { Check, Send } from 'lucide-react';
+import React, { forwardRef, useEffect, useState } from 'react';
 
 interface ChatInputProps {
   inputValue: string;
   isLoading: boolean;
+  question?: Question | null;
   onInputChange: (value: string) => void;
   onSubmit: () => void;
+  onSubmitAnswer?: (value: string | string[]) => void;
 }
 
 const ChatInput = forwardRef<HTMLInputElement, ChatInputProps>(
-  ({ inputValue, isLoading, onInputChange, onSubmit }, ref) => {
+  (
+    {
+      inputValue,
+      isLoading,
+      question,
+      onInputChange,
+      onSubmit,
+      onSubmitAnswer,
+    },
+    ref
+  ) => {
+    const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+
+    // Start each multi-select question with an empty selection
+    useEffect(() => {
+      setSelectedOptions([]);
+    }, [question?.id]);
+
+    // Password and textarea answers are tied to the question's field
+    const isStructuredInput =
+      !!onSubmitAnswer &&
+      (question?.type === 'password' || question?.type === 'textarea');
+    const hasOptions =
+      !!onSubmitAnswer &&
+      (question?.type === 'select' || question?.type === 'multiselect') &&
+      !!question.options?.length;
+
+    const submit = () => {
+      if (isStructuredInput) {
+        onSubmitAnswer?.(inputValue);
+        onInputChange('');
+      } else {
+        onSubmit();
+      }
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (inputValue.trim() && !isLoading) {
-        onSubmit();
+        submit();
       }
     };
 
     const handleKeyPress = (e: React.KeyboardEvent) => {
       if (e.key === 'Enter' && !e.shiftKey && inputValue.trim() && !isLoading) {
         e.preventDefault();
-        onSubmit();
+        submit();
       }
     };
 
+    const toggleOption = (option: string) => {
+      if (question?.type === 'select') {
+        onSubmitAnswer?.(option);
+        return;
+      }
+      setSelectedOptions(current =>
+        current.includes(option)
+          ? current.filter(o => o !== option)
+          : [...current, option]
+      );
+    };
+
     const isSubmitDisabled = !inputValue.trim() || isLoading;
+    const inputClassName =
+      'w-full pr-12 rounded-lg border border-border focus:border-primary focus:shadow-[0_0_0_4px_hsla(24,95%,53%,0.4)] focus-visible:ring-0 focus-visible:ring-offset-0 transition-all duration-300 group-hover:border-border/80 group-hover:shadow-sm';
 
     return (
       <motion.div
@@ -36,20 +90,76 @@ const ChatInput = forwardRef<HTMLInputElement, ChatInputProps>(
         transition={{ duration: 0.3, delay: 0.2 }}
         className="p-4 border-t border-border bg-background/50 backdrop-blur-sm"
       >
+        {/* Choices for select / multi-select questions */}
+        {hasOptions && question && (
+          <div className="mb-3 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {question.options!.map(option => {
+                const isSelected = selectedOptions.includes(option);
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    disabled={isLoading}
+                    onClick={() => toggleOption(option)}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-xs border transition-colors duration-200 disabled:opacity-50 flex items-center gap-1',
+                      isSelected
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'bg-background text-foreground border-border hover:border-primary'
+                    )}
+                  >
+                    {isSelected && <Check className="w-3 h-3" />}
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+            {question.type === 'multiselect' && (
+              <Button
+                type="button"
+                size="sm"
+                disabled={selectedOptions.length === 0 || isLoading}
+                onClick={() => onSubmitAnswer?.(selectedOptions)}
+              >
+                Send selection ({selectedOptions.length})
+              </Button>
+            )}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="relative">
           <div className="relative group">
-            <Input
-              ref={ref}
-              type="text"
-              placeholder={
-                isLoading ? 'AI is thinking...' : 'Type your answer...'
-              }
-              value={inputValue}
-              onChange={e => onInputChange(e.target.value)}
-              onKeyPress={handleKeyPress}
-              disabled={isLoading}
-              className="w-full h-12 pr-12 rounded-lg border border-border focus:border-primary focus:shadow-[0_0_0_4px_hsla(24,95%,53%,0.4)] focus-visible:ring-0 focus-visible:ring-offset-0 transition-all duration-300 group-hover:border-border/80 group-hover:shadow-sm"
-            />
+            {isStructuredInput && question?.type === 'textarea' ? (
+              <Textarea
+                placeholder={
+                  isLoading ? 'AI is thinking...' : `Enter ${question.text}...`
+                }
+                value={inputValue}
+                onChange={e => onInputChange(e.target.value)}
+                onKeyPress={handleKeyPress}
+                disabled={isLoading}
+                className={cn(inputClassName, 'font-mono text-xs')}
+              />
+            ) : (
+              <Input
+                ref={ref}
+                type={isStructuredInput ? 'password' : 'text'}
+                autoComplete={isStructuredInput ? 'off' : undefined}
+                placeholder={
+                  isLoading
+                    ? 'AI is thinking...'
+                    : isStructuredInput && question
+                      ? `Enter ${question.text}...`
+                      : 'Type your answer...'
+                }
+                value={inputValue}
+                onChange={e => onInputChange(e.target.value)}
+                onKeyPress={handleKeyPress}
+                disabled={isLoading}
+                className={cn(inputClassName, 'h-12')}
+              />
+            )}
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               <Button
                 type="submit"
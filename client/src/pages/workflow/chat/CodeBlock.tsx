@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import { downloadTextFile } from '@/lib/utils';
+import { Check, Copy, Download } from 'lucide-react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { useState } from 'react';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+  fileName: string;
+}
+
+// Generated code in the chat: highlighted, scrollable and downloadable
+export default function CodeBlock({
+  code,
+  language,
+  fileName,
+}: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="rounded-md overflow-hidden border border-slate-700 bg-slate-900">
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-slate-800 text-slate-200">
+        <span className="text-xs font-mono truncate">{fileName}</span>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleCopy}
+            className="h-7 px-2 text-slate-200 hover:text-white hover:bg-slate-700"
+            title="Copy to clipboard"
+          >
+            {copied ? (
+              <Check className="h-3 w-3" />
+            ) : (
+              <Copy className="h-3 w-3" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => downloadTextFile(fileName, code)}
+            className="h-7 px-2 gap-1 text-slate-200 hover:text-white hover:bg-slate-700"
+            title={`Download ${fileName}`}
+          >
+            <Download className="h-3 w-3" />
+            Download
+          </Button>
+        </div>
+      </div>
+
+      <Highlight
+        code={code.trimEnd()}
+        language={language}
+        theme={themes.vsDark}
+      >
+        {({ style, tokens, getLineProps, getTokenProps }) => (
+          <pre
+            className="text-xs leading-relaxed p-3 max-h-96 overflow-auto"
+            style={style}
+          >
+            {tokens.map((line, lineIndex) => (
+              <div key={lineIndex} {...getLineProps({ line })}>
+                {line.map((token, tokenIndex) => (
+                  <span key={tokenIndex} {...getTokenProps({ token })} />
+                ))}
+              </div>
+            ))}
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  );
+}
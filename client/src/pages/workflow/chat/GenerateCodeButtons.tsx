@@ -0,0 +1,39 @@
+import { Button } from '@/components/ui/button';
+import type { CodeTarget } from '@/types';
+import { Code2 } from 'lucide-react';
+
+interface GenerateCodeButtonsProps {
+  isLoading: boolean;
+  onGenerateCode: (target: CodeTarget) => void;
+}
+
+const TARGETS: Array<{ target: CodeTarget; label: string }> = [
+  { target: 'airflow', label: 'Airflow DAG' },
+  { target: 'dagster', label: 'Dagster job' },
+];
+
+// Turn the completed workflow into orchestrator code, answered in the chat
+export default function GenerateCodeButtons({
+  isLoading,
+  onGenerateCode,
+}: GenerateCodeButtonsProps) {
+  return (
+    <div className="flex items-center justify-center gap-2 px-4 pb-3 text-xs text-muted-foreground bg-gradient-to-r from-green-50/50 to-blue-50/50">
+      <span>Generate code:</span>
+      {TARGETS.map(({ target, label }) => (
+        <Button
+          key={target}
+          variant="outline"
+          size="sm"
+          disabled={isLoading}
+          onClick={() => onGenerateCode(target)}
+          className="gap-1 h-7 text-xs"
+          title={`Generate a runnable ${label} for this workflow (credentials are referenced, not included)`}
+        >
+          <Code2 className="h-3 w-3" />
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import type { Message as MessageType } from '@/types';
 import { motion } from 'framer-motion';
 import { AlertCircle, Brain, RotateCcw, User } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import CodeBlock from './CodeBlock';
 import WaveLoader from './WaveLoader';
 
 interface MessageProps {
@@ -17,6 +18,7 @@ export default function Message({
   isLastMessage,
 }: MessageProps) {
   const isUser = message.role === 'user';
+  const isCode = message.message_type === 'code';
 
   // Different styles based on message type
   let messageStyle = '';
@@ -75,7 +77,7 @@ export default function Message({
       )}
 
       <div
-        className={`flex flex-col ${isUser ? 'max-w-md items-end' : 'max-w-xs items-start'}`}
+        className={`flex flex-col ${isUser ? 'max-w-md items-end' : isCode ? 'min-w-0 flex-1 items-start' : 'max-w-xs items-start'}`}
       >
         {/* Show label above for AI messages, below for user messages */}
         {!isUser && (
@@ -93,8 +95,8 @@ export default function Message({
           </motion.div>
         )}
         <motion.div
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
+          whileHover={isCode ? undefined : { scale: 1.02 }}
+          whileTap={isCode ? undefined : { scale: 0.98 }}
           className={`w-full px-4 py-2 ${messageStyle} relative transition-all duration-200 rounded-lg ${
             isUser
               ? 'rounded-l-lg rounded-br-lg rounded-tr-lg rounded-br-none' // Sharp edge on right bottom for user
@@ -102,7 +104,7 @@ export default function Message({
           }`}
         >
           <motion.div
-            key={message.content} // This triggers animation when content changes
+            key={message.content ? 'content' : 'loading'} // Animate in once content arrives, not on every streamed token
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{
@@ -110,13 +112,19 @@ export default function Message({
               ease: [0.4, 0.0, 0.2, 1], // Gentle ease-out
             }}
           >
-            {message.type === 'DUMMY_ASSISTANT' ? (
+            {message.type === 'DUMMY_ASSISTANT' && !message.message_type ? (
               // Loading state for dummy assistant message - use WaveLoader
               <WaveLoader size="sm" />
             ) : (
               // Normal message content
               <>
-                {message.message_type === 'markdown' ? (
+                {isCode ? (
+                  <CodeBlock
+                    code={message.content}
+                    language={message.code_language || 'python'}
+                    fileName={message.file_name || 'workflow.py'}
+                  />
+                ) : message.message_type === 'markdown' ? (
                   <div className="text-sm prose prose-sm max-w-none break-words overflow-hidden">
                     <ReactMarkdown>{message.content}</ReactMarkdown>
                   </div>
@@ -0,0 +1,85 @@
+import type { DataFlowNode, PipelineRun } from '@/types';
+import { motion } from 'framer-motion';
+import {
+  CheckCircle,
+  Circle,
+  Loader2,
+  MinusCircle,
+  XCircle,
+} from 'lucide-react';
+
+interface RunProgressProps {
+  run: PipelineRun;
+  nodes: DataFlowNode[];
+}
+
+export const getRunStatusIcon = (status: string) => {
+  switch (status) {
+    case 'succeeded':
+      return <CheckCircle className="w-4 h-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-500" />;
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-primary animate-spin" />;
+    case 'skipped':
+      return <MinusCircle className="w-4 h-4 text-muted-foreground" />;
+    default:
+      return <Circle className="w-4 h-4 text-muted-foreground" />;
+  }
+};
+
+const getRunTitle = (run: PipelineRun) => {
+  const subject = run.trigger === 'schedule' ? 'Scheduled run' : 'Workflow run';
+  switch (run.status) {
+    case 'succeeded':
+      return `${subject} completed`;
+    case 'failed':
+      return `${subject} failed`;
+    default:
+      return run.trigger === 'schedule'
+        ? 'Running scheduled workflow...'
+        : 'Running workflow...';
+  }
+};
+
+export default function RunProgress({ run, nodes }: RunProgressProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="px-4 py-3 border-t border-border bg-background/50 space-y-2"
+    >
+      <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+        {getRunStatusIcon(run.status)}
+        <span>{getRunTitle(run)}</span>
+      </div>
+
+      <div className="space-y-1">
+        {run.node_runs.map(state => {
+          const node = nodes.find(n => n.id === state.node_id);
+          return (
+            <div
+              key={state.node_id}
+              className="flex items-center justify-between gap-2 text-xs"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                {getRunStatusIcon(state.status)}
+                <span className="truncate text-foreground">
+                  {node?.name || state.node_name || state.node_id}
+                </span>
+              </div>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {state.error
+                  ? state.error
+                  : state.rows_read !== undefined
+                    ? `${state.rows_read} in / ${state.rows_written ?? state.rows_read} out`
+                    : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
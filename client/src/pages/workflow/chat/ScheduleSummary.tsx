@@ -0,0 +1,111 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useChatStore } from '@/store/useChatStore';
+import type { WorkflowSchedule } from '@/types';
+import { CalendarClock, Pencil } from 'lucide-react';
+import { useState } from 'react';
+
+interface ScheduleSummaryProps {
+  onSetSchedule: (schedule: string | WorkflowSchedule) => void;
+}
+
+const formatRunTime = (run: string) =>
+  new Date(run).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// When the completed workflow runs on its own and its next few run times,
+// shown in the browser's timezone. The schedule is edited in words, the same
+// way it can be asked for in the chat.
+export default function ScheduleSummary({
+  onSetSchedule,
+}: ScheduleSummaryProps) {
+  const { schedule, scheduleDescription, nextRuns, isLoading } = useChatStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [scheduleText, setScheduleText] = useState('');
+
+  // The list is only refreshed after changes and runs, so drop passed times
+  const upcoming = nextRuns.filter(run => new Date(run).getTime() > Date.now());
+  const isScheduled = !!schedule && schedule.mode !== 'manual';
+
+  const handleSubmit = () => {
+    if (!scheduleText.trim()) return;
+    onSetSchedule(scheduleText.trim());
+    setScheduleText('');
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="px-4 py-2 space-y-2 text-xs text-muted-foreground bg-gradient-to-r from-green-50/50 to-blue-50/50">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-3 w-3 shrink-0" />
+        <span className="flex-1 text-foreground">
+          {scheduleDescription || 'Runs only when started'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isLoading}
+          onClick={() => setIsEditing(editing => !editing)}
+          className="gap-1 h-6 px-2 text-xs"
+          title="Change when the workflow runs"
+        >
+          <Pencil className="h-3 w-3" />
+          Schedule
+        </Button>
+      </div>
+
+      {isScheduled && upcoming.length > 0 && (
+        <div className="pl-5">
+          Next runs: {upcoming.map(formatRunTime).join(' · ')}
+        </div>
+      )}
+
+      {isEditing && (
+        <form
+          className="flex items-center gap-2 pl-5"
+          onSubmit={event => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <Input
+            autoFocus
+            value={scheduleText}
+            onChange={event => setScheduleText(event.target.value)}
+            placeholder='e.g. "every weekday at 6am UTC" or "0 6 * * 1-5"'
+            className="h-7 text-xs"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={isLoading || !scheduleText.trim()}
+            className="h-7 text-xs"
+          >
+            Save
+          </Button>
+          {isScheduled && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isLoading}
+              onClick={() => {
+                onSetSchedule({ mode: 'manual' });
+                setIsEditing(false);
+              }}
+              className="h-7 text-xs whitespace-nowrap"
+              title="Stop running the workflow on a schedule"
+            >
+              Manual only
+            </Button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
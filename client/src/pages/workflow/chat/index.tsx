@@ -1,14 +1,21 @@
 import { useChat } from '@/hooks/useChat';
+import type { CodeTarget, StructuredAnswer, WorkflowSchedule } from '@/types';
 import { useEffect, useRef, useState } from 'react';
 import ChatInput from './ChatInput';
+import GenerateCodeButtons from './GenerateCodeButtons';
 import Messages from './Messages';
+import RunProgress from './RunProgress';
+import ScheduleSummary from './ScheduleSummary';
 import StartWorkflowButton from './StartWorkflowButton';
 import WorkflowSetup from './WorkflowSetup';
 
 interface ChatProps {
   onStartConversation: (description: string) => Promise<void>;
   onSendMessage: (content: string) => void;
+  onSendAnswer?: (answer: StructuredAnswer, displayContent: string) => void;
   onStartWorkflow?: () => void;
+  onGenerateCode?: (target: CodeTarget) => void;
+  onSetSchedule?: (schedule: string | WorkflowSchedule) => void;
   onEditWorkflow?: () => void;
   onCreateNewWorkflow?: () => void;
 }
@@ -16,11 +23,15 @@ interface ChatProps {
 export default function Chat({
   onStartConversation,
   onSendMessage,
+  onSendAnswer,
   onStartWorkflow,
+  onGenerateCode,
+  onSetSchedule,
   onEditWorkflow,
   onCreateNewWorkflow,
 }: ChatProps) {
-  const { messages, isLoading, workflowComplete } = useChat();
+  const { messages, isLoading, workflowComplete, currentRun, currentWorkflow } =
+    useChat();
   const [description, setDescription] = useState('');
   const [inputValue, setInputValue] = useState('');
   const [isEditMode, setIsEditMode] = useState(false);
@@ -45,12 +56,40 @@ export default function Chat({
     await onStartConversation(description);
   };
 
+  // The question attached to the latest assistant reply, if still unanswered
+  const lastMessage = messages[messages.length - 1];
+  const pendingQuestion =
+    lastMessage?.role === 'assistant' && lastMessage.type === 'MESSAGE'
+      ? lastMessage.question
+      : undefined;
+
   const handleSubmit = () => {
     if (!inputValue.trim()) return;
     onSendMessage(inputValue);
     setInputValue('');
   };
 
+  const handleSubmitAnswer = (value: string | string[]) => {
+    if (!pendingQuestion || !onSendAnswer) return;
+
+    // Never echo secrets into the transcript
+    const displayContent =
+      pendingQuestion.type === 'password'
+        ? '••••••••'
+        : Array.isArray(value)
+          ? value.join(', ')
+          : value;
+
+    onSendAnswer(
+      {
+        node_id: pendingQuestion.node_id,
+        field: pendingQuestion.field,
+        value,
+      },
+      displayContent
+    );
+  };
+
   const handleStartWorkflow = () => {
     if (onStartWorkflow) {
       onStartWorkflow();
@@ -106,6 +145,16 @@ export default function Chat({
         onCreateNewWorkflow={handleCreateNewWorkflow}
       />
 
+      {/* Live progress of the latest workflow run */}
+      {currentRun && (
+        <RunProgress run={currentRun} nodes={currentWorkflow.nodes} />
+      )}
+
+      {/* When the completed workflow runs on its own */}
+      {workflowComplete && !isEditMode && onSetSchedule && (
+        <ScheduleSummary onSetSchedule={onSetSchedule} />
+      )}
+
       {/* Start Workflow Button - shows when configuration is complete */}
       {workflowComplete && !isEditMode && (
         <StartWorkflowButton
@@ -114,13 +163,23 @@ export default function Chat({
         />
       )}
 
+      {/* Orchestrator code for the completed workflow */}
+      {workflowComplete && !isEditMode && onGenerateCode && (
+        <GenerateCodeButtons
+          isLoading={isLoading}
+          onGenerateCode={onGenerateCode}
+        />
+      )}
+
       {/* Chat Input - fixed at bottom */}
       <ChatInput
         ref={inputRef}
         inputValue={inputValue}
         isLoading={isLoading}
+        question={pendingQuestion}
         onInputChange={setInputValue}
         onSubmit={handleSubmit}
+        onSubmitAnswer={onSendAnswer ? handleSubmitAnswer : undefined}
       />
     </div>
   );
@@ -1,8 +1,23 @@
+import ConnectionBanner from '@/components/ConnectionBanner';
 import { useChat } from '@/hooks/useChat';
+import type {
+  CodeTarget,
+  ColumnMapping,
+  GraphEdit,
+  LayoutChange,
+  Question,
+  StructuredAnswer,
+  WorkflowSchedule,
+  WorkflowSpecFormat,
+  WorkflowVersionSummary,
+} from '@/types';
+import { useUndoRedoShortcuts } from '@/hooks/useUndoRedoShortcuts';
 import { useWorkflowWebSocket } from '@/hooks/useWorkflowWebSocket';
+import { clearStoredSessionId } from '@/lib/session';
+import { useChatStore } from '@/store/useChatStore';
 import { motion } from 'framer-motion';
-import { useEffect, useRef } from 'react';
-import { useLocation, useParams } from 'react-router-dom';
+import { useCallback, useEffect, useRef } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import Canvas from './Canvas';
 import Chat from './chat';
 
@@ -10,6 +25,7 @@ export default function Workflow() {
   const hasInitialized = useRef(false);
   const hasStartedConversation = useRef(false);
   const location = useLocation();
+  const navigate = useNavigate();
   const { templateId } = useParams();
 
   const {
@@ -17,11 +33,29 @@ export default function Workflow() {
     addUserMessage,
     setLoadingState,
     sendNodeDataRequest,
+    sendRevealFieldRequest,
+    sendTestConnectionRequest,
+    sendRunWorkflowRequest,
+    sendExportWorkflowRequest,
+    sendImportWorkflowRequest,
+    sendGenerateCodeRequest,
+    sendSetScheduleRequest,
+    sendListVersionsRequest,
+    sendNameVersionRequest,
+    sendDiffVersionsRequest,
+    sendRestoreVersionRequest,
+    sendUndoRedoRequest,
+    sendUpdateNodeFieldRequest,
+    sendGraphEditRequest,
+    sendUpdateLayoutRequest,
+    sendInferSchemaRequest,
+    sendColumnMappingRequest,
+    sendPreviewDataRequest,
     clearConversation,
   } = useChat();
 
   // Initialize WebSocket (now handles all message processing internally)
-  const { connect, sendUserMessage, sendMessage, isConnecting } =
+  const { connect, sendUserMessage, sendMessage, isConnecting, isConnected } =
     useWorkflowWebSocket();
 
   // Connect to WebSocket and clear previous session when component mounts
@@ -31,11 +65,18 @@ export default function Workflow() {
     // Clear any previous conversation data to ensure fresh start
     clearConversation();
 
+    // A new workflow request starts a new session; otherwise the stored
+    // session is resumed once the socket connects
+    if (templateId || location.state?.initialMessage) {
+      clearStoredSessionId();
+    }
+
     const initializeWebSocket = async () => {
       try {
-        await connect();
         hasInitialized.current = true;
+        await connect();
       } catch (error) {
+        // The connection manager keeps retrying in the background
         console.error('Failed to connect WebSocket:', error);
       }
     };
@@ -52,7 +93,7 @@ export default function Workflow() {
 
   // Handle initial message from navigation (URL template or route state)
   useEffect(() => {
-    if (!hasInitialized.current || hasStartedConversation.current) return;
+    if (!isConnected || hasStartedConversation.current) return;
 
     let initialMessage: string | undefined;
 
@@ -68,8 +109,11 @@ export default function Workflow() {
     if (initialMessage) {
       hasStartedConversation.current = true;
       handleStartConversation(initialMessage);
+
+      // Drop the template/state so a refresh resumes instead of restarting
+      navigate('/workflow', { replace: true });
     }
-  }, [templateId, location.state, hasInitialized.current]);
+  }, [templateId, location.state, isConnected]);
 
   const handleStartConversation = async (description: string) => {
     setLoadingState(true);
@@ -104,21 +148,126 @@ export default function Workflow() {
     }
   };
 
+  const handleSendAnswer = (
+    answer: StructuredAnswer,
+    displayContent: string
+  ) => {
+    setLoadingState(true);
+
+    try {
+      // Show a display-safe version of the answer in the transcript
+      addUserMessage(displayContent, answer);
+
+      // Send the structured answer, tied to its node and field
+      sendUserMessage(displayContent, undefined, answer);
+    } catch (error) {
+      console.error('Error sending answer:', error);
+      setLoadingState(false);
+    }
+  };
+
   const handleStartWorkflow = () => {
-    console.log('🚀 Starting workflow with configuration:', currentWorkflow);
-    // TODO: Implement workflow execution logic
-    alert(
-      'Workflow started! This would trigger the actual data pipeline execution.'
-    );
+    // The server runs its own copy of the workflow and streams RUN_STATUS back
+    sendRunWorkflowRequest(sendMessage);
   };
 
   const handleNodeDataRequest = (nodeId: string, nodeType: string) => {
     sendNodeDataRequest(nodeId, nodeType, sendMessage);
   };
 
+  const handleRevealField = (nodeId: string, field: string) => {
+    sendRevealFieldRequest(nodeId, field, sendMessage);
+  };
+
+  const handleTestConnection = (nodeId: string) => {
+    sendTestConnectionRequest(nodeId, sendMessage);
+  };
+
+  const handleUpdateNodeField = (
+    question: Question,
+    value: string | string[]
+  ) => {
+    sendUpdateNodeFieldRequest(question, value, sendMessage);
+  };
+
+  const handleInferSchema = (nodeId: string) => {
+    sendInferSchemaRequest(nodeId, sendMessage);
+  };
+
+  const handleUpdateColumnMapping = (
+    nodeId: string,
+    mapping: ColumnMapping[]
+  ) => {
+    sendColumnMappingRequest(nodeId, mapping, sendMessage);
+  };
+
+  const handlePreviewData = (nodeId: string, limit: number) => {
+    sendPreviewDataRequest(nodeId, limit, sendMessage);
+  };
+
+  const handleGraphEdit = (edit: GraphEdit) => {
+    sendGraphEditRequest(edit, sendMessage);
+  };
+
+  const handleUpdateLayout = (change: LayoutChange) => {
+    sendUpdateLayoutRequest(change, sendMessage);
+  };
+
+  const handleExportWorkflow = (format: WorkflowSpecFormat) => {
+    sendExportWorkflowRequest(format, sendMessage);
+  };
+
+  const handleImportWorkflow = (spec: string) => {
+    // The server replies with the rebuilt conversation and canvas
+    hasStartedConversation.current = true;
+    sendImportWorkflowRequest(spec, sendMessage);
+  };
+
+  const handleGenerateCode = (target: CodeTarget) => {
+    sendGenerateCodeRequest(target, sendMessage);
+  };
+
+  const handleSetSchedule = (schedule: string | WorkflowSchedule) => {
+    sendSetScheduleRequest(schedule, sendMessage);
+  };
+
+  const handleListVersions = () => {
+    sendListVersionsRequest(sendMessage);
+  };
+
+  const handleNameVersion = (versionId: string, name: string) => {
+    sendNameVersionRequest(versionId, name, sendMessage);
+  };
+
+  const handleDiffVersions = (versionId: string, compareTo?: string) => {
+    sendDiffVersionsRequest(versionId, compareTo, sendMessage);
+  };
+
+  const handleRestoreVersion = (version: WorkflowVersionSummary) => {
+    sendRestoreVersionRequest(version, sendMessage);
+  };
+
+  // Shortcuts fire whether or not there is anything to undo, so check here
+  const handleUndo = useCallback(() => {
+    const { undoStack, isLoading } = useChatStore.getState();
+    if (undoStack.length > 0 && !isLoading) {
+      sendUndoRedoRequest('UNDO', sendMessage);
+    }
+  }, [sendUndoRedoRequest, sendMessage]);
+
+  const handleRedo = useCallback(() => {
+    const { redoStack, isLoading } = useChatStore.getState();
+    if (redoStack.length > 0 && !isLoading) {
+      sendUndoRedoRequest('REDO', sendMessage);
+    }
+  }, [sendUndoRedoRequest, sendMessage]);
+
+  useUndoRedoShortcuts(handleUndo, handleRedo);
+
   const handleCreateNewWorkflow = () => {
-    // Reset the conversation state
+    // Reset the conversation state and forget the server session
     clearConversation();
+    clearStoredSessionId();
 
     // Reset the initialization flags
     hasInitialized.current = false;
@@ -139,6 +288,8 @@ export default function Workflow() {
 
   return (
     <>
+      <ConnectionBanner />
+
       {/* Main Content - Split Layout */}
       <div className="flex h-[calc(100vh-70px)]">
         {isConnecting ? (
@@ -162,15 +313,33 @@ export default function Workflow() {
           <Chat
             onStartConversation={handleStartConversation}
             onSendMessage={handleSendMessage}
+            onSendAnswer={handleSendAnswer}
             onStartWorkflow={handleStartWorkflow}
+            onGenerateCode={handleGenerateCode}
+            onSetSchedule={handleSetSchedule}
             onCreateNewWorkflow={handleCreateNewWorkflow}
           />
         )}
         <Canvas
-          key={JSON.stringify(currentWorkflow)}
           currentWorkflow={currentWorkflow}
           isConnecting={isConnecting}
           onNodeDataRequest={handleNodeDataRequest}
+          onRevealField={handleRevealField}
+          onTestConnection={handleTestConnection}
+          onUpdateNodeField={handleUpdateNodeField}
+          onInferSchema={handleInferSchema}
+          onUpdateColumnMapping={handleUpdateColumnMapping}
+          onPreviewData={handlePreviewData}
+          onGraphEdit={handleGraphEdit}
+          onUpdateLayout={handleUpdateLayout}
+          onExportWorkflow={handleExportWorkflow}
+          onImportWorkflow={handleImportWorkflow}
+          onListVersions={handleListVersions}
+          onNameVersion={handleNameVersion}
+          onDiffVersions={handleDiffVersions}
+          onRestoreVersion={handleRestoreVersion}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
         />
       </div>
     </>
@@ -1,4 +1,19 @@
-import type { DataFlowConnection, DataFlowNode, Message } from '@/types';
+import type {
+  ConnectionTestResult,
+  DataFlowConnection,
+  DataFlowNode,
+  Message,
+  NodePreview,
+  NodeSchemas,
+  PipelineRun,
+  Question,
+  StructuredAnswer,
+  LayoutChange,
+  WorkflowVersionDiff,
+  WorkflowSchedule,
+  WorkflowVersionSummary,
+  WorkflowViewport,
+} from '@/types';
 import { create } from 'zustand';
 
 interface ChatState {
@@ -11,6 +26,8 @@ interface ChatState {
   workflowComplete: boolean;
   isLoading: boolean;
   error: string | null;
+  // Pending assistant message that streamed tokens are being written into
+  streamingMessageId: string | null;
 
   // Node data state
   nodeData: {
@@ -18,9 +35,48 @@ interface ChatState {
     node_type: string;
     node_title: string;
     filled_values: Record<string, string>;
+    secret_fields?: string[];
+    field_questions?: Record<string, Question>;
+    validation_errors?: Record<string, string>;
   } | null;
   nodeDataLoading: boolean;
   nodeDataError: string | null;
+  // Decrypted secret values the user chose to reveal, keyed by field name
+  revealedValues: Record<string, string>;
+  // "Test connection" for the node shown in the drawer
+  connectionTestLoading: boolean;
+  connectionTestResult: ConnectionTestResult | null;
+  // Columns going into and out of the node shown in the drawer
+  schemaLoading: boolean;
+  nodeSchemas: NodeSchemas | null;
+  // Sample rows before and after the node shown in the drawer
+  previewLoading: boolean;
+  nodePreview: NodePreview | null;
+
+  // Latest workflow execution, updated live while it runs
+  currentRun: PipelineRun | null;
+
+  // Problems the server found in an uploaded workflow spec
+  specErrors: string[] | null;
+
+  // Version history of the workflow, oldest first, and the comparison
+  // currently shown on the canvas
+  versions: WorkflowVersionSummary[];
+  versionDiff: WorkflowVersionDiff | null;
+
+  // Mirror of the server's undo/redo stacks: labels of the chat turns undo
+  // would take back and redo would bring back, most recent last
+  undoStack: string[];
+  redoStack: string[];
+
+  // Pan and zoom saved with the workflow, applied when it is loaded
+  viewport: WorkflowViewport | null;
+
+  // When the workflow runs on its own, described in words, and its next
+  // run times (ISO strings; none until the workflow is complete)
+  schedule: WorkflowSchedule | null;
+  scheduleDescription: string;
+  nextRuns: string[];
 
   // Actions
   addMessage: (message: Message) => void;
@@ -28,8 +84,10 @@ interface ChatState {
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   clearMessages: () => void;
-  addUserMessage: (content: string) => void;
+  restoreSession: (session: Message) => void;
+  addUserMessage: (content: string, answer?: StructuredAnswer) => void;
   addDummyAssistantMessage: () => void;
+  appendAssistantDelta: (delta: string) => void;
   updateLastAssistantMessage: (
     content: string,
     messageType?: 'text' | 'markdown'
@@ -48,11 +106,32 @@ interface ChatState {
       node_type: string;
       node_title: string;
       filled_values: Record<string, string>;
+      secret_fields?: string[];
+      field_questions?: Record<string, Question>;
+      validation_errors?: Record<string, string>;
     } | null
   ) => void;
   setNodeDataLoading: (loading: boolean) => void;
   setNodeDataError: (error: string | null) => void;
   clearNodeData: () => void;
+  setRevealedValue: (field: string, value: string) => void;
+  setConnectionTestLoading: (loading: boolean) => void;
+  setConnectionTestResult: (result: ConnectionTestResult | null) => void;
+  setSchemaLoading: (loading: boolean) => void;
+  setNodeSchemas: (schemas: NodeSchemas | null) => void;
+  setPreviewLoading: (loading: boolean) => void;
+  setNodePreview: (preview: NodePreview | null) => void;
+  setCurrentRun: (run: PipelineRun | null) => void;
+  setSpecErrors: (errors: string[] | null) => void;
+  setVersions: (versions: WorkflowVersionSummary[]) => void;
+  setVersionDiff: (diff: WorkflowVersionDiff | null) => void;
+  setUndoState: (undoStack: string[], redoStack: string[]) => void;
+  setSchedule: (
+    schedule: WorkflowSchedule | null,
+    description: string,
+    nextRuns: string[]
+  ) => void;
+  setNodePositions: (positions: LayoutChange['node_positions']) => void;
   resetStore: () => void;
 }
 
@@ -66,11 +145,35 @@ export const useChatStore = create<ChatState>((set, get) => ({
   workflowComplete: false,
   isLoading: false,
   error: null,
+  streamingMessageId: null,
 
   // Node data state
   nodeData: null,
   nodeDataLoading: false,
   nodeDataError: null,
+  revealedValues: {},
+  connectionTestLoading: false,
+  connectionTestResult: null,
+  schemaLoading: false,
+  nodeSchemas: null,
+  previewLoading: false,
+  nodePreview: null,
+
+  currentRun: null,
+
+  specErrors: null,
+
+  versions: [],
+  versionDiff: null,
+
+  undoStack: [],
+  redoStack: [],
+
+  viewport: null,
+
+  schedule: null,
+  scheduleDescription: '',
+  nextRuns: [],
 
   // Actions
   addMessage: message =>
@@ -91,10 +194,14 @@ export const useChatStore = create<ChatState>((set, get) => ({
             content: message.content,
             type: 'MESSAGE',
             message_type: message.message_type || 'text',
+            code_target: message.code_target,
+            code_language: message.code_language,
+            file_name: message.file_name,
             nodes: message.nodes,
             connections: message.connections,
             workflow_complete: message.workflow_complete,
             node_status_updates: message.node_status_updates,
+            question: message.question,
           };
         } else {
           // No dummy message found, add normally
@@ -140,9 +247,30 @@ export const useChatStore = create<ChatState>((set, get) => ({
         messages: newMessages,
         currentWorkflow: newWorkflow,
         workflowComplete: newWorkflowComplete,
+        // The final reply ends any stream into the dummy message
+        streamingMessageId:
+          message.role === 'assistant' && message.type === 'MESSAGE'
+            ? null
+            : state.streamingMessageId,
       };
     }),
 
+  // Rebuild the transcript and canvas from a SESSION_STATE message
+  restoreSession: session =>
+    set({
+      messages: (session.messages || []).filter(
+        message => message.type === 'MESSAGE' || message.type === 'ERROR'
+      ),
+      currentWorkflow: {
+        nodes: session.nodes || [],
+        connections: session.connections || [],
+      },
+      workflowComplete: session.workflow_complete || false,
+      // Undo and redo keep the current viewport
+      ...(session.viewport !== undefined && { viewport: session.viewport }),
+      isLoading: false,
+    }),
+
   setWorkflowComplete: complete => set({ workflowComplete: complete }),
 
   setLoading: loading => set({ isLoading: loading }),
@@ -155,12 +283,30 @@ export const useChatStore = create<ChatState>((set, get) => ({
       currentWorkflow: { nodes: [], connections: [] },
       workflowComplete: false,
       error: null,
+      streamingMessageId: null,
       nodeData: null,
       nodeDataLoading: false,
       nodeDataError: null,
+      revealedValues: {},
+      connectionTestLoading: false,
+      connectionTestResult: null,
+      schemaLoading: false,
+      nodeSchemas: null,
+      previewLoading: false,
+      nodePreview: null,
+      currentRun: null,
+      specErrors: null,
+      versions: [],
+      versionDiff: null,
+      undoStack: [],
+      redoStack: [],
+      viewport: null,
+      schedule: null,
+      scheduleDescription: '',
+      nextRuns: [],
     }),
 
-  addUserMessage: content =>
+  addUserMessage: (content, answer) =>
     set(state => {
       const userMessage: Message = {
         id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -168,6 +314,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         type: 'MESSAGE',
         content,
         timestamp: new Date().toISOString(),
+        ...(answer && { answer }),
       };
 
       // Add dummy assistant message immediately after user message
@@ -199,6 +346,26 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }));
   },
 
+  // Streamed tokens go into the pending dummy message. The first token
+  // replaces the placeholder text; later ones are appended.
+  appendAssistantDelta: delta =>
+    set(state => {
+      const dummyIndex = state.messages.findIndex(
+        msg => msg.role === 'assistant' && msg.type === 'DUMMY_ASSISTANT'
+      );
+      if (dummyIndex === -1) return state;
+
+      const dummy = state.messages[dummyIndex];
+      const updatedMessages = [...state.messages];
+      updatedMessages[dummyIndex] = {
+        ...dummy,
+        content:
+          state.streamingMessageId === dummy.id ? dummy.content + delta : delta,
+        message_type: 'markdown',
+      };
+      return { messages: updatedMessages, streamingMessageId: dummy.id };
+    }),
+
   updateLastAssistantMessage: (
     content: string,
     messageType: 'text' | 'markdown' = 'text'
@@ -216,7 +383,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
           type: 'MESSAGE',
           message_type: messageType,
         };
-        return { messages: updatedMessages };
+        return { messages: updatedMessages, streamingMessageId: null };
       }
       return state;
     });
@@ -241,11 +408,81 @@ export const useChatStore = create<ChatState>((set, get) => ({
   getCurrentWorkflowState: () => get().currentWorkflow,
 
   // Node data actions
-  setNodeData: data => set({ nodeData: data, nodeDataError: null }),
+  setNodeData: data =>
+    set(state => ({
+      nodeData: data,
+      nodeDataError: null,
+      revealedValues: {},
+      // Keep the last test result while the same node is being shown
+      connectionTestResult:
+        state.connectionTestResult?.node_id === data?.node_id
+          ? state.connectionTestResult
+          : null,
+      nodeSchemas:
+        state.nodeSchemas?.node_id === data?.node_id ? state.nodeSchemas : null,
+      nodePreview:
+        state.nodePreview?.node_id === data?.node_id ? state.nodePreview : null,
+    })),
   setNodeDataLoading: loading => set({ nodeDataLoading: loading }),
-  setNodeDataError: error => set({ nodeDataError: error, nodeData: null }),
+  setNodeDataError: error =>
+    set({ nodeDataError: error, nodeData: null, revealedValues: {} }),
   clearNodeData: () =>
-    set({ nodeData: null, nodeDataError: null, nodeDataLoading: false }),
+    set({
+      nodeData: null,
+      nodeDataError: null,
+      nodeDataLoading: false,
+      revealedValues: {},
+      connectionTestLoading: false,
+      connectionTestResult: null,
+      schemaLoading: false,
+      nodeSchemas: null,
+      previewLoading: false,
+      nodePreview: null,
+    }),
+  setRevealedValue: (field, value) =>
+    set(state => ({
+      revealedValues: { ...state.revealedValues, [field]: value },
+    })),
+  setConnectionTestLoading: loading => set({ connectionTestLoading: loading }),
+  setConnectionTestResult: result =>
+    set({ connectionTestResult: result, connectionTestLoading: false }),
+
+  setSchemaLoading: loading => set({ schemaLoading: loading }),
+  setNodeSchemas: schemas =>
+    set({ nodeSchemas: schemas, schemaLoading: false }),
+
+  setPreviewLoading: loading => set({ previewLoading: loading }),
+  setNodePreview: preview =>
+    set({ nodePreview: preview, previewLoading: false }),
+
+  setCurrentRun: run => set({ currentRun: run }),
+
+  setSpecErrors: errors => set({ specErrors: errors }),
+
+  setVersions: versions => set({ versions }),
+  setVersionDiff: diff => set({ versionDiff: diff }),
+  setUndoState: (undoStack, redoStack) => set({ undoStack, redoStack }),
+  setSchedule: (schedule, scheduleDescription, nextRuns) =>
+    set({ schedule, scheduleDescription, nextRuns }),
+
+  // Apply node moves right away instead of waiting for the server
+  setNodePositions: positions =>
+    set(state => ({
+      currentWorkflow: {
+        ...state.currentWorkflow,
+        nodes: state.currentWorkflow.nodes.map(node => {
+          if (!positions || !(node.id in positions)) return node;
+          const moved = { ...node };
+          const position = positions[node.id];
+          if (position) {
+            moved.position = position;
+          } else {
+            delete moved.position;
+          }
+          return moved;
+        }),
+      },
+    })),
 
   // Reset entire store to initial state
   resetStore: () =>
@@ -255,8 +492,26 @@ export const useChatStore = create<ChatState>((set, get) => ({
       workflowComplete: false,
       isLoading: false,
       error: null,
+      streamingMessageId: null,
       nodeData: null,
       nodeDataLoading: false,
       nodeDataError: null,
+      revealedValues: {},
+      connectionTestLoading: false,
+      connectionTestResult: null,
+      schemaLoading: false,
+      nodeSchemas: null,
+      previewLoading: false,
+      nodePreview: null,
+      currentRun: null,
+      specErrors: null,
+      versions: [],
+      versionDiff: null,
+      undoStack: [],
+      redoStack: [],
+      viewport: null,
+      schedule: null,
+      scheduleDescription: '',
+      nextRuns: [],
     }),
 }));
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+
+export type ConnectionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed';
+
+interface ConnectionState {
+  status: ConnectionStatus;
+  // Consecutive failed attempts since the last successful connection
+  attempt: number;
+  // When the next reconnect attempt is scheduled (epoch ms)
+  nextRetryAt: number | null;
+  // Outbound messages waiting for the socket to open
+  queuedMessages: number;
+  error: string | null;
+
+  setConnectionState: (
+    state: Partial<Omit<ConnectionState, 'setConnectionState'>>
+  ) => void;
+}
+
+export const useConnectionStore = create<ConnectionState>(set => ({
+  status: 'idle',
+  attempt: 0,
+  nextRetryAt: null,
+  queuedMessages: 0,
+  error: null,
+
+  setConnectionState: state => set(state),
+}));
@@ -1,3 +1,14 @@
+import type {
+  ColumnMapping,
+  GraphEdit,
+  NodePreview,
+  NodeSchemas,
+  Question,
+  StructuredAnswer,
+  WorkflowSchedule,
+  WorkflowViewport,
+} from './workflow';
+
 export interface Message {
   id: string; // Unique message ID
   response_to?: string; // ID of message this responds to (for conversation threading)
@@ -9,10 +20,45 @@ export interface Message {
     | 'STATUS'
     | 'NODE_DATA'
     | 'GET_NODE_DATA'
+    | 'RUN_WORKFLOW'
+    | 'RUN_STATUS'
+    | 'REVEAL_FIELD'
+    | 'FIELD_VALUE'
+    | 'RESUME_SESSION'
+    | 'SESSION_STATE'
+    | 'PING'
+    | 'PONG'
+    | 'MESSAGE_DELTA'
+    | 'TEST_CONNECTION'
+    | 'CONNECTION_TEST_RESULT'
+    | 'EXPORT_WORKFLOW'
+    | 'WORKFLOW_SPEC'
+    | 'IMPORT_WORKFLOW'
+    | 'WORKFLOW_IMPORTED'
+    | 'GENERATE_CODE'
+    | 'LIST_VERSIONS'
+    | 'VERSIONS'
+    | 'NAME_VERSION'
+    | 'DIFF_VERSIONS'
+    | 'VERSION_DIFF'
+    | 'RESTORE_VERSION'
+    | 'UNDO'
+    | 'REDO'
+    | 'UNDO_STATE'
+    | 'UPDATE_NODE_FIELD'
+    | 'GRAPH_EDIT'
+    | 'UPDATE_LAYOUT'
+    | 'INFER_SCHEMA'
+    | 'SCHEMA'
+    | 'UPDATE_COLUMN_MAPPING'
+    | 'PREVIEW_DATA'
+    | 'DATA_PREVIEW'
+    | 'SET_SCHEDULE'
+    | 'SCHEDULE'
     | 'DUMMY_ASSISTANT';
   content: string; // Main message content (or thought content)
   timestamp: string; // ISO timestamp
-  message_type?: 'text' | 'markdown'; // Type of message content
+  message_type?: 'text' | 'markdown' | 'code'; // Type of message content
 
   // For assistant MESSAGE responses - only include if workflow state changed
   nodes?: DataFlowNode[];
@@ -33,8 +79,88 @@ export interface Message {
   node_type?: string;
   node_title?: string;
   filled_values?: Record<string, string>;
+  secret_fields?: string[]; // Fields whose values are masked in filled_values
+  field_questions?: Record<string, Question>; // How each field is edited
+  validation_errors?: Record<string, string>; // Why a field's value was rejected
+
+  // For REVEAL_FIELD requests and FIELD_VALUE responses
+  field?: string;
+  field_value?: string;
+
+  // For RESUME_SESSION requests and SESSION_STATE responses
+  session_id?: string;
+  messages?: Message[];
+
+  // For RUN_STATUS updates while a workflow is executing
+  run?: PipelineRun;
+
+  // For CONNECTION_TEST_RESULT responses to TEST_CONNECTION
+  connection_test?: ConnectionTestResult;
+
+  // For EXPORT_WORKFLOW / WORKFLOW_SPEC and IMPORT_WORKFLOW; spec_errors
+  // lists everything wrong with a rejected spec
+  spec?: string;
+  spec_format?: WorkflowSpecFormat;
+  spec_errors?: string[];
+  file_name?: string;
+
+  // For GENERATE_CODE requests and the 'code' messages answering them
+  code_target?: CodeTarget;
+  code_language?: string;
+
+  // For the workflow version history: VERSIONS lists the versions (also
+  // sent whenever a new one is recorded), NAME_VERSION / RESTORE_VERSION act
+  // on version_id, and DIFF_VERSIONS compares version_id with compare_to
+  // (the latest version by default)
+  versions?: WorkflowVersionSummary[];
+  version_id?: string;
+  version_name?: string;
+  compare_to?: string;
+  version_diff?: WorkflowVersionDiff;
+
+  // For UNDO / REDO and the UNDO_STATE sent after every change: what undo
+  // and redo would take back or bring back, most recent last. The reply to
+  // UNDO / REDO also carries the rewound conversation in messages and nodes.
+  undo_labels?: string[];
+  redo_labels?: string[];
+
+  // For GRAPH_EDIT requests: a step or connection added or removed on the
+  // canvas
+  graph_edit?: GraphEdit;
+
+  // For UPDATE_LAYOUT requests, and the saved viewport in SESSION_STATE and
+  // WORKFLOW_IMPORTED
+  node_positions?: Record<string, { x: number; y: number } | null>;
+  viewport?: WorkflowViewport | null;
+
+  // For SCHEMA responses to INFER_SCHEMA
+  schemas?: NodeSchemas;
+
+  // For PREVIEW_DATA requests (rows to sample) and DATA_PREVIEW responses
+  limit?: number;
+  preview?: NodePreview;
+
+  // For UPDATE_COLUMN_MAPPING requests: the mapping built in the drawer
+  column_mapping?: ColumnMapping[];
+
+  // For SET_SCHEDULE requests (the schedule in words or as an object) and
+  // the SCHEDULE sent with the session and after every change; content
+  // describes the schedule
+  schedule?: WorkflowSchedule;
+  schedule_text?: string;
+  next_runs?: string[];
+
+  // Pending question (assistant) and structured answer to it (user). An
+  // UPDATE_NODE_FIELD request carries the edited value as its answer; an
+  // empty value clears the field.
+  question?: Question;
+  answer?: StructuredAnswer;
 }
 
+export type WorkflowSpecFormat = 'json' | 'yaml';
+
+export type CodeTarget = 'airflow' | 'dagster';
+
 export interface GetNodeDataEvent {
   type: 'GET_NODE_DATA';
   node_id: string;
@@ -46,6 +172,9 @@ export interface NodeDataResponse {
   node_title: string;
   node_status?: 'pending' | 'partial' | 'complete' | 'error';
   filled_values: Record<string, string>; // field_name -> value or "Not filled"
+  secret_fields?: string[];
+  field_questions?: Record<string, Question>;
+  validation_errors?: Record<string, string>;
 }
 
 export interface DataFlowNode {
@@ -53,6 +182,7 @@ export interface DataFlowNode {
   type: 'source' | 'transform' | 'destination';
   name: string;
   status: 'pending' | 'partial' | 'complete' | 'error';
+  connector?: string; // ID of the registry connector backing this node
   config?: Record<string, any>;
   position?: { x: number; y: number };
   data_requirements?: {
@@ -60,6 +190,19 @@ export interface DataFlowNode {
     provided_fields: string[];
     missing_fields: string[];
   };
+  // Where each configured value came from, keyed by field name
+  provenance?: Record<string, FieldProvenance>;
+  // Why the last answer for a field was rejected, keyed by field name
+  validation_errors?: Record<string, string>;
+  connection_test?: ConnectionTestResult;
+}
+
+export interface FieldProvenance {
+  message_id: string;
+  method: 'widget' | 'direct' | 'extracted' | 'edited';
+  // The user's message, with any secrets masked
+  raw_text: string;
+  timestamp: string;
 }
 
 export interface DataFlowConnection {
@@ -69,6 +212,92 @@ export interface DataFlowConnection {
   status: 'pending' | 'complete' | 'error';
 }
 
+export interface RunLogEntry {
+  timestamp: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface NodeRunState {
+  node_id: string;
+  // Name when the run started, so history still reads after a rename
+  node_name: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+  rows_read?: number;
+  rows_written?: number;
+  error?: string;
+  started_at?: string;
+  finished_at?: string;
+  // What the step did, in order
+  logs: RunLogEntry[];
+}
+
+export interface PipelineRun {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed';
+  // Started from the chat or by the workflow's schedule
+  trigger: 'manual' | 'schedule';
+  started_at: string;
+  finished_at?: string;
+  node_runs: NodeRunState[];
+  error?: string;
+}
+
+// A past run as listed in the run history, without its logs
+export interface RunSummary extends Omit<PipelineRun, 'node_runs'> {
+  node_runs: Omit<NodeRunState, 'logs'>[];
+  duration_ms?: number;
+}
+
+export interface ConnectionTestResult {
+  node_id: string;
+  ok: boolean;
+  latency_ms: number;
+  tables?: string[];
+  message: string;
+  tested_at: string;
+}
+
+export interface WorkflowVersionSummary {
+  id: string;
+  number: number;
+  name?: string;
+  // What produced the version, e.g. the chat message that changed it
+  label: string;
+  created_at: string;
+  node_count: number;
+  workflow_complete: boolean;
+}
+
+export interface FieldChange {
+  field: string;
+  // Missing when the field was added or removed; masked for credentials
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeDiff {
+  // Node from the later version, or from the earlier one when removed
+  node: DataFlowNode;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  fields: FieldChange[];
+  // Set when the status changed; the new status is node.status
+  status_before?: DataFlowNode['status'];
+}
+
+export interface ConnectionDiff {
+  source: string;
+  target: string;
+  change: 'added' | 'removed' | 'unchanged';
+}
+
+export interface WorkflowVersionDiff {
+  from: WorkflowVersionSummary;
+  to: WorkflowVersionSummary;
+  nodes: NodeDiff[];
+  connections: ConnectionDiff[];
+}
+
 export interface WebSocketState {
   isConnected: boolean;
   isConnecting: boolean;
@@ -1,8 +1,11 @@
+import type { ConnectionTestResult, FieldProvenance } from './websocket';
+
 export interface DataFlowNode {
   id: string;
   type: 'source' | 'transform' | 'destination';
   name: string;
   status: 'pending' | 'partial' | 'complete' | 'error';
+  connector?: string; // ID of the registry connector backing this node
   config?: Record<string, unknown>;
   position?: { x: number; y: number };
   data_requirements?: {
@@ -10,8 +13,32 @@ export interface DataFlowNode {
     provided_fields: string[];
     missing_fields: string[];
   };
+  provenance?: Record<string, FieldProvenance>;
+  validation_errors?: Record<string, string>;
+  connection_test?: ConnectionTestResult;
+}
+
+// Pan and zoom of the canvas, saved with the workflow
+export interface WorkflowViewport {
+  x: number;
+  y: number;
+  zoom: number;
 }
 
+// Nodes dragged on the canvas (null hands a node back to the automatic
+// layout) and the canvas pan and zoom
+export interface LayoutChange {
+  node_positions?: Record<string, { x: number; y: number } | null>;
+  viewport?: WorkflowViewport | null;
+}
+
+// When the workflow runs on its own: a cron expression read in a timezone,
+// a fixed interval counted from starts_at, or only when started
+export type WorkflowSchedule =
+  | { mode: 'manual' }
+  | { mode: 'cron'; cron: string; timezone: string }
+  | { mode: 'interval'; every_minutes: number; starts_at: string };
+
 export interface DataFlowConnection {
   id: string;
   source: string;
@@ -29,6 +56,80 @@ export interface Question {
   required?: boolean;
 }
 
+// Answer submitted from a question widget, tied to a node field
+export interface StructuredAnswer {
+  node_id: string;
+  field: string;
+  value: string | string[];
+}
+
+// A step or connection added or removed directly on the canvas
+export type GraphEdit =
+  | { action: 'add_node'; node_type: DataFlowNode['type']; name: string }
+  | { action: 'remove_node'; node_id: string }
+  | { action: 'add_connection'; source: string; target: string }
+  | { action: 'remove_connection'; source: string; target: string };
+
+export type ColumnType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'json';
+
+// One entry of a "map" transform: keep a column (renamed and cast), drop
+// it, or derive a new one from an expression over the input columns.
+// Columns the mapping leaves out pass through unchanged.
+export type ColumnMapping =
+  | { action: 'map'; source: string; target: string; cast?: ColumnType }
+  | { action: 'drop'; source: string }
+  | { action: 'derive'; target: string; expression: string; cast?: ColumnType };
+
+export interface SchemaColumn {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+}
+
+export interface InferredSchema {
+  columns: SchemaColumn[];
+  origin: 'sample' | 'table' | 'declared' | 'transform';
+  // Where the columns came from, e.g. "First 200 rows of ./orders.csv"
+  detail: string;
+}
+
+// The columns going into and coming out of a node; for a destination the
+// output is what its target already holds or declares
+export interface NodeSchemas {
+  node_id: string;
+  input?: InferredSchema;
+  output?: InferredSchema;
+  errors: string[];
+}
+
+export interface ColumnProfile extends SchemaColumn {
+  null_count: number;
+}
+
+export interface RowSample {
+  rows: Record<string, unknown>[];
+  columns: ColumnProfile[];
+  // Where the rows came from, e.g. "First rows of ./orders.csv"
+  detail: string;
+}
+
+// Sample rows going into and coming out of a node; sources only have an
+// output and destinations only an input
+export interface NodePreview {
+  node_id: string;
+  limit: number;
+  input?: RowSample;
+  output?: RowSample;
+  errors: string[];
+}
+
 export interface DataFlowResponse {
   message: string;
   message_type: 'text' | 'markdown' | 'code';
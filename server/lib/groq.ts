@@ -1,4 +1,4 @@
-import fetch from 'node-fetch';
+import { getLLMProvider } from '../src/services/llm';
 
 // In-memory conversation store for Edge Functions
 const inMemoryConversations = new Map<string, ConversationMessage[]>();
@@ -51,11 +51,14 @@ const SYSTEM_PROMPT = `You are a data integration expert helping users build dat
 4. Provide configuration suggestions for each component
 
 CRITICAL WORKFLOW REQUIREMENTS:
-- ALWAYS create exactly 3 nodes: 1 source, 1 transform, 1 destination
-- Source node: Where data comes from (databases, APIs, file systems)
-- Transform node: Data processing, filtering, mapping, aggregation
-- Destination node: Where data goes (warehouses, APIs, applications)
-- Create connections: source → transform → destination
+- The workflow is a directed acyclic graph (DAG) of nodes and connections
+- Create at least 1 source and at least 1 destination; add as many transforms as the pipeline needs (zero or more)
+- Source nodes: Where data comes from (databases, APIs, file systems); several sources may be joined by a transform
+- Transform nodes: Data processing, filtering, mapping, aggregation; transforms may be chained
+- Destination nodes: Where data goes (warehouses, APIs, applications); one node may fan out to several destinations
+- Every node ID must be unique and every connection must reference existing node IDs
+- Sources have no incoming connections and destinations have no outgoing connections
+- Every node must be connected: no orphan nodes and no cycles
 
 NODE STATUS PROGRESSION (CRITICAL):
 - "pending": Initial state, no configuration provided
@@ -138,179 +141,6 @@ Response format (respond with ONLY this JSON structure):
   "isComplete": false
 }`;
 
-// Groq Cloud AI client with intelligent model selection
-export class GroqCloudClient {
-  private apiKey: string;
-  private baseUrl: string = 'https://api.groq.com/openai/v1/chat/completions';
-
-  constructor() {
-    const apiKey = process.env.GROQ_API_KEY;
-    if (!apiKey) {
-      throw new Error('GROQ_API_KEY environment variable is required');
-    }
-    if (!apiKey.startsWith('gsk_')) {
-      throw new Error('Invalid GROQ_API_KEY format. Should start with "gsk_"');
-    }
-    this.apiKey = apiKey;
-  }
-
-  // Validate API key by making a test request
-  async validateApiKey(): Promise<boolean> {
-    try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'mixtral-8x7b-32768',
-          messages: [
-            {
-              role: 'user',
-              content: 'Hello, this is a test message.',
-            },
-          ],
-          max_tokens: 10,
-          temperature: 0.1,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('❌ Groq API validation failed:', errorData);
-        return false;
-      }
-
-      console.log('✅ Groq API key validated successfully');
-      return true;
-    } catch (error) {
-      console.error('❌ Error validating Groq API key:', error);
-      return false;
-    }
-  }
-
-  // Get the best available model based on requirements
-  private getBestModel(requirements: {
-    maxTokens?: number;
-    speed?: 'fast' | 'balanced' | 'quality';
-    cost?: 'low' | 'medium' | 'high';
-  }): string {
-    const {
-      maxTokens = 4000,
-      speed = 'balanced',
-      cost = 'medium',
-    } = requirements;
-
-    // Updated model selection with current available models
-    // Priority: mixtral-8x7b-32768 (most reliable), then llama3-8b-8192
-    if (maxTokens > 8000 || speed === 'quality') {
-      return 'mixtral-8x7b-32768'; // Best quality, highest token limit
-    } else if (speed === 'fast' || cost === 'low') {
-      return 'llama3-8b-8192'; // Fastest and cheapest
-    } else {
-      return 'mixtral-8x7b-32768'; // Balanced option (most reliable)
-    }
-  }
-
-  // Generate response with automatic model selection and fallback
-  async generateResponse(
-    messages: ConversationMessage[],
-    options: {
-      maxTokens?: number;
-      temperature?: number;
-      speed?: 'fast' | 'balanced' | 'quality';
-      cost?: 'low' | 'medium' | 'high';
-    } = {}
-  ): Promise<string> {
-    const {
-      maxTokens = 4000,
-      temperature = 0.7,
-      speed = 'balanced',
-      cost = 'medium',
-    } = options;
-
-    // Define available models in order of preference
-    const availableModels = [
-      'mixtral-8x7b-32768', // Most reliable, high token limit
-      'llama3-8b-8192', // Fast, good for simple tasks
-      'llama3-70b-8192', // High quality, but may hit rate limits
-    ];
-
-    let lastError: Error | null = null;
-
-    // Try each model until one works
-    for (const model of availableModels) {
-      try {
-        console.log(`🤖 Trying Groq model: ${model}`);
-        console.log(`📝 Input messages: ${messages.length} messages`);
-
-        const response = await fetch(this.baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${this.apiKey}`,
-          },
-          body: JSON.stringify({
-            model,
-            messages: messages.map(msg => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-            max_tokens: maxTokens,
-            temperature,
-            stream: false,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.warn(`⚠️ Model ${model} failed:`, errorData.error?.message);
-
-          // If it's a rate limit, try the next model
-          if (errorData.error?.code === 'rate_limit_exceeded') {
-            lastError = new Error(
-              `Rate limit for ${model}: ${errorData.error?.message}`
-            );
-            continue;
-          }
-
-          // For other errors, throw immediately
-          throw new Error(
-            `Groq API error: ${errorData.error?.message || 'Unknown error'}`
-          );
-        }
-
-        const data = await response.json();
-        const content = data.choices[0]?.message?.content;
-
-        if (!content) {
-          throw new Error('No content received from Groq API');
-        }
-
-        console.log(
-          `✅ Generated response with ${model} (${content.length} characters)`
-        );
-        return content;
-      } catch (error: any) {
-        console.warn(`⚠️ Model ${model} failed:`, error.message);
-        lastError = error;
-
-        // If it's not a rate limit error, throw immediately
-        if (!error.message.includes('rate_limit')) {
-          throw error;
-        }
-
-        // For rate limits, continue to next model
-        continue;
-      }
-    }
-
-    // If all models failed, throw the last error
-    throw lastError || new Error('All available models failed');
-  }
-}
-
 // In-memory conversation storage functions
 const saveConversation = (
   conversationId: string,
@@ -334,8 +164,6 @@ const processConversation = async (
   messages: ConversationMessage[],
   sendThought?: (thought: string) => void
 ): Promise<DataFlowResponse> => {
-  const groqClient = new GroqCloudClient();
-
   // Add system prompt
   const systemMessage: ConversationMessage = {
     role: 'system',
@@ -352,7 +180,7 @@ const processConversation = async (
     sendThought('✅ Finalizing workflow configuration...');
   }
 
-  const response = await groqClient.generateResponse(allMessages, {
+  const response = await getLLMProvider().complete(allMessages, {
     maxTokens: 4000,
     temperature: 0.7,
   });
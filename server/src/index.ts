@@ -10,7 +10,13 @@ import {
 } from './middleware/security';
 import { aiRoutes } from './routes/ai';
 import { clearAllConversations } from './services/aiService';
-import { handleWebSocketConnection } from './websocket';
+import { startScheduler, stopScheduler } from './services/scheduler';
+import { getSessionStore } from './services/storage';
+import {
+  broadcastScheduledRun,
+  handleWebSocketConnection,
+  startHeartbeat,
+} from './websocket';
 
 dotenv.config();
 
@@ -93,35 +99,30 @@ app.get('/health', async (req, res) => {
       deployment_time: process.env.DEPLOYMENT_TIME || new Date().toISOString(),
     };
 
-    // Check Groq API health if API key is available
-    if (process.env.GROQ_API_KEY) {
-      try {
-        const { GroqCloudClient } = await import('./services/aiService');
-        const groqClient = new GroqCloudClient();
-
-        // Add timeout for health check
-        const apiHealth = await Promise.race([
-          groqClient.validateApiKey(),
-          new Promise<boolean>(
-            resolve => setTimeout(() => resolve(false), 5000) // 5 second timeout
-          ),
-        ]);
-
-        res.json({
-          ...serverHealth,
-          groq_api: apiHealth ? 'healthy' : 'unhealthy',
-        });
-      } catch (error) {
-        res.json({
-          ...serverHealth,
-          groq_api: 'error',
-          groq_error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    } else {
+    // Check the configured LLM provider
+    try {
+      const { getLLMProvider } = await import('./services/llm');
+      const provider = getLLMProvider();
+
+      // Add timeout for health check
+      const apiHealth = await Promise.race([
+        provider.healthCheck(),
+        new Promise<boolean>(
+          resolve => setTimeout(() => resolve(false), 5000) // 5 second timeout
+        ),
+      ]);
+
+      res.json({
+        ...serverHealth,
+        llm_provider: provider.name,
+        llm_api: apiHealth ? 'healthy' : 'unhealthy',
+      });
+    } catch (error) {
+      // Missing keys or an unknown provider
       res.json({
         ...serverHealth,
-        groq_api: 'not_configured',
+        llm_api: 'not_configured',
+        llm_error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   } catch (error) {
@@ -135,6 +136,7 @@ app.get('/health', async (req, res) => {
 
 // WebSocket connection handling
 wss.on('connection', handleWebSocketConnection);
+startHeartbeat(wss);
 
 // WebSocket error handling
 wss.on('error', error => {
@@ -145,14 +147,19 @@ wss.on('error', error => {
 const gracefulShutdown = (signal: string) => {
   console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
 
+  // No scheduled runs should start while shutting down
+  stopScheduler();
+
   // Close WebSocket server
   wss.close(() => {
     console.log('📡 WebSocket server closed');
   });
 
   // Close HTTP server
-  server.close(() => {
+  server.close(async () => {
     console.log('🌐 HTTP server closed');
+    // Sessions are written to disk shortly after each change
+    await getSessionStore().flush();
     process.exit(0);
   });
 
@@ -194,53 +201,51 @@ server.listen(PORT, async () => {
   console.log(`📡 WebSocket server ready for connections`);
   console.log(`🕐 Deployment timestamp: ${deploymentTime}`);
 
-  // Validate Groq API key on startup
-  if (process.env.GROQ_API_KEY) {
-    try {
-      const { GroqCloudClient } = await import('./services/aiService');
-      const groqClient = new GroqCloudClient();
-
-      // Add timeout for startup validation
-      const isValid = await Promise.race([
-        groqClient.validateApiKey(),
-        new Promise<boolean>(
-          resolve =>
-            setTimeout(() => {
-              console.warn(
-                '⚠️ Groq API validation timeout - continuing startup'
-              );
-              resolve(false);
-            }, 10000) // 10 second timeout
-        ),
-      ]);
-
-      if (isValid) {
-        console.log('✅ Groq API key validated successfully');
-      } else {
-        console.warn('⚠️ Groq API key validation failed - check your API key');
-      }
-    } catch (error) {
-      console.error('❌ Groq API key validation error:', error);
+  // Check the LLM provider on startup
+  try {
+    const { getLLMProvider } = await import('./services/llm');
+    const provider = getLLMProvider();
+
+    // Add timeout for startup validation
+    const isValid = await Promise.race([
+      provider.healthCheck(),
+      new Promise<boolean>(
+        resolve =>
+          setTimeout(() => {
+            console.warn('⚠️ LLM provider check timeout - continuing startup');
+            resolve(false);
+          }, 10000) // 10 second timeout
+      ),
+    ]);
+
+    if (isValid) {
+      console.log(`✅ LLM provider "${provider.name}" is reachable`);
+    } else {
       console.warn(
-        '⚠️ Server will start but AI features may not work properly'
+        `⚠️ LLM provider "${provider.name}" check failed - check its URL and API key`
       );
     }
-  } else {
-    console.warn('⚠️ GROQ_API_KEY not set - AI features will not work');
-    console.log('ℹ️ Server is running but AI functionality is disabled');
+  } catch (error) {
+    console.warn('⚠️ LLM provider not configured:', (error as Error).message);
+    console.log(
+      'ℹ️ Server is running; questions will get fallback answers without an LLM'
+    );
   }
 
-  // Only clear conversations if this is a fresh start (not a crash restart)
-  const isCrashRestart = process.argv.includes('--crash-restart');
+  // Conversations are persisted, so only clear them when explicitly asked to
   const isFreshStart = process.argv.includes('--fresh-start');
 
   if (isFreshStart) {
     console.log('🧹 Fresh start detected - clearing all conversations');
-    clearAllConversations();
-  } else if (isCrashRestart) {
-    console.log('🔄 Crash restart detected - preserving conversations');
+    await clearAllConversations();
   } else {
-    console.log('🚀 Normal start - clearing conversations for clean slate');
-    clearAllConversations();
+    console.log('🔄 Preserving stored conversations');
+  }
+
+  // Scheduled workflows live in the session store, so they survive restarts
+  try {
+    await startScheduler(broadcastScheduledRun(wss));
+  } catch (error) {
+    console.error('❌ Could not start the scheduler:', error);
   }
 });
@@ -1,5 +1,14 @@
 import { Router } from 'express';
 import { clearAllConversations } from '../services/aiService';
+import { listConnectors } from '../services/connectors';
+import {
+  DEFAULT_RUN_LIMIT,
+  getRunDetail,
+  listRunHistory,
+  MAX_RUNS_PER_SESSION,
+} from '../services/runHistory';
+import { getSessionStore } from '../services/storage';
+import { getDefaultWorkflowName } from '../services/workflowSpec';
 
 const router = Router();
 
@@ -34,10 +43,70 @@ router.get('/workflows', (req, res) => {
   res.json({ workflows });
 });
 
+// Connector registry with per-connector field schemas
+router.get('/connectors', (req, res) => {
+  const role = req.query.role;
+  const connectors =
+    role === 'source' || role === 'destination'
+      ? listConnectors(role)
+      : listConnectors();
+
+  res.json({ connectors });
+});
+
+// Past runs of a workflow, newest first, without their logs
+router.get('/workflows/:sessionId/runs', async (req, res) => {
+  try {
+    const session = await getSessionStore().getSession(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const requested = Number(req.query.limit);
+    const limit =
+      Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_RUNS_PER_SESSION)
+        : DEFAULT_RUN_LIMIT;
+    const runs = await listRunHistory(session.id, limit);
+
+    res.json({
+      workflow: {
+        id: session.id,
+        name:
+          session.workflow?.name ||
+          getDefaultWorkflowName(session.workflow?.nodes || []),
+      },
+      runs,
+    });
+  } catch (error) {
+    console.error('Error listing runs:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+});
+
+// One run with every node's logs and errors
+router.get('/workflows/:sessionId/runs/:runId', async (req, res) => {
+  try {
+    const run = await getRunDetail(req.params.sessionId, req.params.runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.json({ run });
+  } catch (error) {
+    console.error('Error loading run:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+});
+
 // Manual conversation cleanup endpoint
 router.post('/conversations/clear', async (req, res) => {
   try {
-    clearAllConversations();
+    await clearAllConversations();
     res.json({ success: true, message: 'All conversations cleared' });
   } catch (error) {
     console.error('Error clearing conversations:', error);
@@ -1,210 +1,74 @@
-// Multi-model AI processing with parallel execution
+import { describeColumnMapping, validateColumnMapping } from './columnMapping';
+import {
+  applyConnectorChoice,
+  applyOperationChoice,
+  detectConnector,
+  getFieldSchema,
+  initializeNodeFields,
+  isConnectorTypeField,
+  type ConnectorField,
+} from './connectors';
+import type { ConnectionTestResult } from './connectionTester';
+import {
+  extractFieldValues,
+  type ExtractedFieldValue,
+} from './fieldExtraction';
+import { validateFieldValue } from './fieldValidation';
+import {
+  addConnection,
+  addNode,
+  removeConnection,
+  removeNode,
+  uniqueNodeId,
+  type GraphEdit,
+  type GraphEditResult,
+} from './graphEdit';
+import { getLLMProvider, type LLMMessage } from './llm';
+import {
+  encryptSecret,
+  isSecretField,
+  maskNodeSecrets,
+  redactSecrets,
+  SECRET_MASK,
+} from './secrets';
+import { getSessionStore } from './storage';
+import type { Message as ChatMessage } from '../websocket';
+import { topologicalSort, validateWorkflowGraph } from './workflowGraph';
 
-// Improved Groq Cloud AI client with automatic model fallback
-export class GroqCloudClient {
-  private apiKey: string;
-  private baseUrl: string = 'https://api.groq.com/openai/v1/chat/completions';
+// Split a list like "Shopify, Stripe and Salesforce" into its parts
+const splitNameList = (text: string): string[] =>
+  text
+    .split(/\s*(?:,|\band\b|&|\+|\bthen\b)\s*/i)
+    .map(part => part.trim())
+    .filter(Boolean);
 
-  constructor() {
-    const apiKey = process.env.GROQ_API_KEY;
-    if (!apiKey) {
-      throw new Error('GROQ_API_KEY environment variable is required');
-    }
-    if (!apiKey.startsWith('gsk_')) {
-      throw new Error('Invalid GROQ_API_KEY format. Should start with "gsk_"');
-    }
-    this.apiKey = apiKey;
-  }
-
-  // Validate API key by making a test request
-  async validateApiKey(): Promise<boolean> {
-    try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'llama3-8b-8192',
-          messages: [{ role: 'user', content: 'test' }],
-          max_tokens: 10,
-        }),
-      });
-
-      if (response.status === 401) {
-        throw new Error('Invalid GROQ_API_KEY');
-      }
-
-      return response.ok;
-    } catch (error) {
-      console.error('❌ Groq API key validation failed:', error);
-      return false;
-    }
-  }
-
-  // Generate response with automatic model selection and fallback
-  async generateResponse(
-    messages: any[],
-    options: {
-      maxTokens?: number;
-      temperature?: number;
-      speed?: 'fast' | 'balanced' | 'quality';
-      cost?: 'low' | 'medium' | 'high';
-    } = {}
-  ): Promise<string> {
-    const {
-      maxTokens = 4000,
-      temperature = 0.1,
-      speed = 'balanced',
-      cost = 'medium',
-    } = options;
-
-    // Define available models in order of preference
-    const availableModels = [
-      'llama3-70b-8192',
-      'mixtral-8x7b-32768',
-      'llama3-8b-8192',
-    ];
-
-    let lastError: Error | null = null;
-
-    // Try each model until one works
-    for (const model of availableModels) {
-      try {
-        console.log(`🤖 Trying Groq model: ${model}`);
-
-        const response = await fetch(this.baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${this.apiKey}`,
-          },
-          body: JSON.stringify({
-            model,
-            messages: messages.map(msg => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-            max_tokens: maxTokens,
-            temperature,
-            stream: false,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = (await response.json()) as any;
-          console.warn(`⚠️ Model ${model} failed:`, errorData.error?.message);
-          lastError = new Error(
-            errorData.error?.message || 'API request failed'
-          );
-          continue;
-        }
-
-        const data = (await response.json()) as any;
-        const responseText = data.choices?.[0]?.message?.content;
-
-        if (!responseText) {
-          throw new Error('No response content received');
-        }
-
-        console.log(`✅ Success with model: ${model}`);
-        return responseText;
-      } catch (error) {
-        console.warn(`❌ Model ${model} failed:`, error);
-        lastError = error as Error;
-        continue;
-      }
-    }
-
-    throw new Error(`All models failed. Last error: ${lastError?.message}`);
-  }
-}
-
-// Helper function to detect service types from user message
-const detectServiceTypes = (
-  message: string
-): { sourceType: string; destinationType: string } => {
-  const content = message.toLowerCase();
-
-  // Common source patterns
-  let sourceType = 'Data Source';
-  if (content.includes('shopify')) sourceType = 'Shopify Store';
-  else if (content.includes('salesforce')) sourceType = 'Salesforce CRM';
-  else if (
-    content.includes('mysql') ||
-    content.includes('postgresql') ||
-    content.includes('database')
-  )
-    sourceType = 'Database';
-  else if (content.includes('api') || content.includes('rest'))
-    sourceType = 'API Endpoint';
-  else if (
-    content.includes('s3') ||
-    content.includes('bucket') ||
-    content.includes('cloud_storage')
-  )
-    sourceType = 'Cloud Storage';
-  else if (content.includes('bigquery') || content.includes('gcp'))
-    sourceType = 'BigQuery Dataset';
-  else if (content.includes('mongodb')) sourceType = 'MongoDB Collection';
-  else if (content.includes('kafka')) sourceType = 'Kafka Topic';
-  else if (content.includes('redis')) sourceType = 'Redis Cache';
-  else if (content.includes('elasticsearch'))
-    sourceType = 'Elasticsearch Index';
-  else if (
-    content.includes('file') ||
-    content.includes('csv') ||
-    content.includes('json')
-  )
-    sourceType = 'File System';
-
-  // Common destination patterns
-  let destinationType = 'Data Destination';
-  if (content.includes('snowflake')) destinationType = 'Snowflake Warehouse';
-  else if (content.includes('bigquery') || content.includes('gcp'))
-    destinationType = 'BigQuery Dataset';
-  else if (content.includes('redshift')) destinationType = 'Redshift Cluster';
-  else if (content.includes('databricks'))
-    destinationType = 'Databricks Lakehouse';
-  else if (
-    content.includes('mysql') ||
-    content.includes('postgresql') ||
-    content.includes('database')
-  )
-    destinationType = 'Database';
-  else if (content.includes('api') || content.includes('rest'))
-    destinationType = 'API Endpoint';
-  else if (content.includes('s3') || content.includes('bucket'))
-    destinationType = 'S3 Bucket';
-  else if (content.includes('mongodb')) destinationType = 'MongoDB Collection';
-  else if (content.includes('kafka')) destinationType = 'Kafka Topic';
-  else if (content.includes('elasticsearch'))
-    destinationType = 'Elasticsearch Index';
-  else if (content.includes('warehouse')) destinationType = 'Data Warehouse';
-
-  return { sourceType, destinationType };
-};
-
-// Parse workflow description to extract source and destination names
+// Parse workflow description to extract source, transform and destination names.
+// Supports several sources/destinations and an optional chain of transforms:
+// "Shopify and Stripe to Snowflake and S3 via dedupe then aggregate"
 const parseWorkflowDescription = (
   description: string
 ): {
-  source?: string;
-  destination?: string;
+  sources: string[];
+  destinations: string[];
+  transforms: string[];
   hasTransform?: boolean;
 } => {
-  const trimmed = description.trim();
+  const trimmed = description
+    .trim()
+    .replace(/^(connect|sync|move|load|copy|send|stream)\s+/i, '')
+    .replace(/^from\s+/i, '');
 
-  // Check for "to" pattern (source to destination)
-  const toPattern = /^(.+?)\s+to\s+(.+)$/i;
+  // Check for "to" pattern (sources to destinations [via transforms])
+  const toPattern =
+    /^(.+?)\s+(?:to|into)\s+(.+?)(?:\s+(?:via|through|with)\s+(.+))?$/i;
   const toMatch = trimmed.match(toPattern);
 
   if (toMatch) {
     return {
-      source: toMatch[1].trim(),
-      destination: toMatch[2].trim(),
-      hasTransform: false,
+      sources: splitNameList(toMatch[1]),
+      destinations: splitNameList(toMatch[2]),
+      transforms: toMatch[3] ? splitNameList(toMatch[3]) : [],
+      hasTransform: !!toMatch[3],
     };
   }
 
@@ -218,141 +82,538 @@ const parseWorkflowDescription = (
 
   const isTransform = transformPatterns.some(pattern => pattern.test(trimmed));
 
-  if (isTransform) {
-    return {
-      hasTransform: true,
-    };
-  }
+  return {
+    sources: [],
+    destinations: [],
+    transforms: [],
+    hasTransform: isTransform,
+  };
+};
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'node';
+
+// Create a node whose questions come from the detected connector, if any
+const createNode = (
+  id: string,
+  type: DataFlowNode['type'],
+  name: string
+): DataFlowNode => {
+  const node: DataFlowNode = {
+    id,
+    type,
+    name,
+    status: 'pending',
+    config: {},
+    data_requirements: {
+      required_fields: [],
+      provided_fields: [],
+      missing_fields: [],
+    },
+  };
 
-  return {};
+  initializeNodeFields(
+    node,
+    type === 'transform' ? undefined : detectConnector(name, type)
+  );
+
+  return node;
 };
 
-// Create a simple hardcoded workflow structure with dynamic names
-const createHardcodedWorkflow = (description: string) => {
+// Build a DAG from the description: every source feeds the first transform,
+// transforms are chained, and the last transform fans out to every destination
+const createWorkflowFromDescription = (
+  description: string
+): { nodes: DataFlowNode[]; connections: DataFlowConnection[] } => {
   const parsed = parseWorkflowDescription(description);
+  const usedIds = new Set<string>();
+  const uniqueId = (base: string) => {
+    let id = base;
+    for (let i = 2; usedIds.has(id); i++) id = `${base}-${i}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  const sourceNames = parsed.sources.length ? parsed.sources : ['Data Source'];
+  const destinationNames = parsed.destinations.length
+    ? parsed.destinations
+    : ['Data Destination'];
+  const transformNames = parsed.transforms.length
+    ? parsed.transforms
+    : [sourceNames.length > 1 ? 'Join Sources' : 'Data Transform'];
+
+  const sources = sourceNames.map(name =>
+    createNode(uniqueId(`source-${slugify(name)}`), 'source', name)
+  );
+  const transforms = transformNames.map(name =>
+    createNode(uniqueId(`transform-${slugify(name)}`), 'transform', name)
+  );
+  const destinations = destinationNames.map(name =>
+    createNode(uniqueId(`destination-${slugify(name)}`), 'destination', name)
+  );
+
+  const connections: DataFlowConnection[] = [];
+  const connect = (source: DataFlowNode, target: DataFlowNode) =>
+    connections.push({
+      id: `conn${connections.length + 1}`,
+      source: source.id,
+      target: target.id,
+      status: 'pending',
+    });
+
+  sources.forEach(source => connect(source, transforms[0]));
+  transforms
+    .slice(1)
+    .forEach((transform, i) => connect(transforms[i], transform));
+  destinations.forEach(destination =>
+    connect(transforms[transforms.length - 1], destination)
+  );
 
   return {
-    nodes: [
-      {
-        id: 'source-node',
-        type: 'source',
-        name: parsed.source || 'Data Source',
-        status: 'pending',
-        config: {},
-        data_requirements: {
-          required_fields: ['source_type', 'connection_string', 'table_name'],
-          provided_fields: [],
-          missing_fields: ['source_type', 'connection_string', 'table_name'],
-        },
-      },
-      {
-        id: 'transform-node',
-        type: 'transform',
-        name: 'Data Transform',
-        status: 'pending',
-        config: {},
-        data_requirements: {
-          required_fields: ['operation_type', 'parameters'],
-          provided_fields: [],
-          missing_fields: ['operation_type', 'parameters'],
-        },
-      },
-      {
-        id: 'destination-node',
-        type: 'destination',
-        name: parsed.destination || 'Data Destination',
-        status: 'pending',
-        config: {},
-        data_requirements: {
-          required_fields: [
-            'destination_type',
-            'connection_string',
-            'table_name',
-          ],
-          provided_fields: [],
-          missing_fields: [
-            'destination_type',
-            'connection_string',
-            'table_name',
-          ],
-        },
-      },
-    ],
-    connections: [
-      {
-        id: 'conn1',
-        source: 'source-node',
-        target: 'transform-node',
-        status: 'pending',
-      },
-      {
-        id: 'conn2',
-        source: 'transform-node',
-        target: 'destination-node',
-        status: 'pending',
-      },
-    ],
+    nodes: [...sources, ...transforms, ...destinations],
+    connections,
   };
 };
 
-// Get the next field to ask for
+// Nodes in dependency order, falling back to declaration order if the graph is invalid
+const orderedNodes = (workflow: any): DataFlowNode[] => {
+  try {
+    return topologicalSort(workflow.nodes, workflow.connections);
+  } catch {
+    return workflow.nodes;
+  }
+};
+
+const describeField = (node: DataFlowNode, fieldName: string) => ({
+  nodeId: node.id,
+  nodeName: node.name,
+  fieldName,
+  field: getFieldSchema(node, fieldName),
+});
+
+// Get the next field to ask for, walking the graph upstream to downstream
 const getNextField = (workflow: any) => {
-  for (const node of workflow.nodes) {
-    if (node.data_requirements.missing_fields.length > 0) {
-      return {
-        nodeId: node.id,
-        nodeName: node.name,
-        fieldName: node.data_requirements.missing_fields[0],
-      };
+  for (const node of orderedNodes(workflow)) {
+    if (
+      node.data_requirements &&
+      node.data_requirements.missing_fields.length > 0
+    ) {
+      return describeField(node, node.data_requirements.missing_fields[0]);
     }
   }
   return null;
 };
 
-// Update workflow with user's answer
+// An answer that failed validation and has to be asked again
+interface FieldRejection {
+  nodeId: string;
+  fieldName: string;
+  error: string;
+}
+
+// Nodes with a rejected answer or a failed connection test stay in error
+// until they are corrected
+export const updateNodeStatus = (node: DataFlowNode) => {
+  if (
+    Object.keys(node.validation_errors || {}).length > 0 ||
+    node.connection_test?.ok === false
+  ) {
+    node.status = 'error';
+  } else if (node.data_requirements?.missing_fields.length === 0) {
+    node.status = 'complete';
+  } else {
+    node.status = 'partial';
+  }
+};
+
+const clearValidationError = (node: DataFlowNode, fieldName: string) => {
+  if (!node.validation_errors) return;
+  delete node.validation_errors[fieldName];
+  if (Object.keys(node.validation_errors).length === 0) {
+    delete node.validation_errors;
+  }
+};
+
+// Put a configured field back among the missing ones, which stay in the
+// order they are asked in
+const clearNodeField = (node: DataFlowNode, fieldName: string) => {
+  const requirements = node.data_requirements!;
+  requirements.provided_fields = requirements.provided_fields.filter(
+    field => field !== fieldName
+  );
+  requirements.missing_fields = requirements.required_fields.filter(
+    field => field === fieldName || requirements.missing_fields.includes(field)
+  );
+  delete node.config?.[fieldName];
+  delete node.provenance?.[fieldName];
+  clearValidationError(node, fieldName);
+  delete node.connection_test;
+};
+
+// Update workflow with user's answer. Returns the validation error if the
+// answer was rejected, in which case the field stays missing.
 const updateWorkflowWithAnswer = (
   workflow: any,
+  nodeId: string,
   fieldName: string,
-  answer: string
-) => {
-  for (const node of workflow.nodes) {
-    const fieldIndex = node.data_requirements.missing_fields.indexOf(fieldName);
+  answer: string | string[],
+  provenance?: FieldProvenance
+): string | undefined => {
+  const node = workflow.nodes.find((n: DataFlowNode) => n.id === nodeId);
+  const fieldIndex =
+    node?.data_requirements.missing_fields.indexOf(fieldName) ?? -1;
+  // Optional fields are never asked for, but can be set from the drawer
+  const isOptional =
+    !!node &&
+    getFieldSchema(node, fieldName)?.required === false &&
+    !node.data_requirements.required_fields.includes(fieldName);
+
+  if (node && (fieldIndex !== -1 || isOptional)) {
+    const validation = validateFieldValue(
+      fieldName,
+      getFieldSchema(node, fieldName),
+      answer,
+      node
+    );
+    if (!validation.valid) {
+      node.validation_errors = {
+        ...node.validation_errors,
+        [fieldName]: validation.error,
+      };
+      updateNodeStatus(node);
+      return validation.error;
+    }
+
+    clearValidationError(node, fieldName);
+
+    // Any earlier connection test no longer reflects the configuration
+    delete node.connection_test;
+
+    // Move field from missing to provided
     if (fieldIndex !== -1) {
-      // Move field from missing to provided
       node.data_requirements.missing_fields.splice(fieldIndex, 1);
       node.data_requirements.provided_fields.push(fieldName);
+    }
+
+    // Update node config with the answer, encrypting credentials at rest
+    const value = validation.value;
+    node.config[fieldName] =
+      typeof value === 'string' && isSecretField(node, fieldName)
+        ? encryptSecret(value)
+        : value;
+
+    // Remember which message the value came from
+    if (provenance) {
+      node.provenance = { ...node.provenance, [fieldName]: provenance };
+    }
+
+    // Choosing a source/destination type decides which questions come next
+    if (isConnectorTypeField(fieldName)) {
+      applyConnectorChoice(node, String(value));
+    }
+    // And a transform's operation decides how it is configured
+    if (fieldName === 'operation_type') {
+      applyOperationChoice(node);
+    }
+
+    updateNodeStatus(node);
+  }
+  return undefined;
+};
 
-      // Update node config with the answer
-      node.config[fieldName] = answer;
+// Provenance for a value taken from a user message, with secrets redacted
+const buildProvenance = (
+  message: Message,
+  method: FieldProvenance['method'],
+  secrets: string[] = []
+): FieldProvenance => ({
+  message_id: message.id,
+  method,
+  raw_text: redactSecrets(message.content, secrets),
+  timestamp: new Date().toISOString(),
+});
 
-      // Update node status
-      if (node.data_requirements.missing_fields.length === 0) {
-        node.status = 'complete';
+// Fill as many missing fields as a free-text answer mentions. Choosing a
+// connector adds its fields, so those nodes get a second look at the message.
+const applyExtractedAnswer = async (
+  workflow: any,
+  message: Message
+): Promise<{
+  applied: ExtractedFieldValue[];
+  rejections: FieldRejection[];
+}> => {
+  const applied: ExtractedFieldValue[] = [];
+  const rejections: FieldRejection[] = [];
+  let nodes: DataFlowNode[] = workflow.nodes;
+
+  for (let round = 0; round < 2 && nodes.length > 0; round++) {
+    const values = await extractFieldValues(message.content, nodes);
+    if (values.length === 0) break;
+
+    const appliedBefore = applied.length;
+    values.forEach(value => {
+      const error = updateWorkflowWithAnswer(
+        workflow,
+        value.node_id,
+        value.field,
+        value.value
+      );
+      if (error) {
+        rejections.push({
+          nodeId: value.node_id,
+          fieldName: value.field,
+          error,
+        });
       } else {
-        node.status = 'partial';
+        applied.push(value);
       }
+    });
 
-      break;
-    }
+    const connectorNodeIds = applied
+      .slice(appliedBefore)
+      .filter(value => isConnectorTypeField(value.field))
+      .map(value => value.node_id);
+    nodes = workflow.nodes.filter((node: DataFlowNode) =>
+      connectorNodeIds.includes(node.id)
+    );
   }
-  return workflow;
+
+  // Every value keeps the message, minus any credentials found in it
+  const findNode = (nodeId: string) =>
+    workflow.nodes.find((n: DataFlowNode) => n.id === nodeId);
+  const secrets = applied
+    .filter(value => isSecretField(findNode(value.node_id), value.field))
+    .flatMap(value => value.value);
+  applied.forEach(value => {
+    const node = findNode(value.node_id);
+    node.provenance = {
+      ...node.provenance,
+      [value.field]: buildProvenance(message, 'extracted', secrets),
+    };
+  });
+
+  return { applied, rejections };
 };
 
-// Check if workflow is complete
+// "Host: db.internal, Table name: orders", with secrets masked
+const describeExtractedValues = (
+  workflow: any,
+  values: ExtractedFieldValue[]
+) =>
+  values
+    .map(value => {
+      const node = workflow.nodes.find(
+        (n: DataFlowNode) => n.id === value.node_id
+      );
+      const label = getFieldSchema(node, value.field)?.label || value.field;
+      const display = isSecretField(node, value.field)
+        ? SECRET_MASK
+        : [value.value].flat().join(', ');
+      return `- **${label}** (${node.name}): ${display}`;
+    })
+    .join('\n');
+
+// "⚠️ That doesn't look like a valid Port for Orders DB: ..."
+const describeRejections = (workflow: any, rejections: FieldRejection[]) =>
+  rejections
+    .map(rejection => {
+      const node = workflow.nodes.find(
+        (n: DataFlowNode) => n.id === rejection.nodeId
+      );
+      const label =
+        getFieldSchema(node, rejection.fieldName)?.label || rejection.fieldName;
+      return `⚠️ That doesn't look like a valid **${label}** for **${node.name}**. ${rejection.error}`;
+    })
+    .join('\n\n');
+
+// Single-word answers and credentials go straight to the pending field;
+// credentials are never sent to the LLM
+const shouldExtract = (
+  workflow: any,
+  pendingField: NonNullable<ReturnType<typeof getNextField>>,
+  content: string
+) => {
+  const node = workflow.nodes.find(
+    (n: DataFlowNode) => n.id === pendingField.nodeId
+  );
+  return (
+    /\s/.test(content.trim()) && !isSecretField(node, pendingField.fieldName)
+  );
+};
+
+const isFieldMissing = (workflow: any, nodeId: string, fieldName: string) =>
+  !!workflow.nodes
+    .find((node: DataFlowNode) => node.id === nodeId)
+    ?.data_requirements?.missing_fields.includes(fieldName);
+
+// Check if workflow is complete: every node configured and the graph is a valid DAG
 const isWorkflowComplete = (workflow: any) => {
-  return workflow.nodes.every(
-    (node: any) => node.data_requirements.missing_fields.length === 0
+  return (
+    workflow.nodes.every(
+      (node: any) => node.data_requirements.missing_fields.length === 0
+    ) && validateWorkflowGraph(workflow).length === 0
   );
 };
 
+// Pick the chat widget that fits the field's type
+const getQuestionType = (field?: ConnectorField): Question['type'] => {
+  if (field?.secret) return 'password';
+  switch (field?.type) {
+    case 'enum':
+      return 'select';
+    case 'multienum':
+      return 'multiselect';
+    case 'json':
+    case 'text':
+    case 'column_mapping':
+    case 'column_schema':
+    case 'transform_script':
+      return 'textarea';
+    default:
+      return 'text';
+  }
+};
+
+// Structured question the client renders as a typed input widget
+const buildQuestion = (
+  nextField: NonNullable<ReturnType<typeof getNextField>>
+) => ({
+  id: `${nextField.nodeId}:${nextField.fieldName}`,
+  text: `${nextField.field?.label || nextField.fieldName} for ${nextField.nodeName}`,
+  node_id: nextField.nodeId,
+  field: nextField.fieldName,
+  type: getQuestionType(nextField.field),
+  options: nextField.field?.options,
+  required: nextField.field?.required ?? true,
+});
+
+// How a field is asked for, so other inputs (the node drawer) can use the
+// same widget as the chat
+export const getFieldQuestion = (node: DataFlowNode, fieldName: string) =>
+  buildQuestion(describeField(node, fieldName));
+
+// Ask for a single field, using the connector's label, description and example
+const buildFieldPrompt = (
+  nodeName: string,
+  fieldName: string,
+  field?: ConnectorField
+) => {
+  const label = field?.label || fieldName;
+  const lines = [`I need the **${label}** for **${nodeName}**.`];
+
+  if (field?.description) {
+    lines.push(field.description);
+  }
+  if (field?.options?.length) {
+    lines.push(
+      `Options: ${field.options.map(option => `\`${option}\``).join(', ')}`
+    );
+  }
+
+  const example = field?.example ?? field?.default;
+  lines.push(`> **Example:** \`${example ?? 'your value here'}\``);
+
+  return lines.join('\n\n');
+};
+
+// Answers to these can read like questions: "where status = 'active'" is a
+// filter, "when the file lands" a note
+const FREE_TEXT_FIELD_TYPES: ConnectorField['type'][] = [
+  'string',
+  'text',
+  'transform_parameters',
+  'transform_script',
+];
+
+// The user is asking something rather than answering the pending question.
+// Only a question mark counts for free-text fields (and fields without a
+// schema); other fields also take a leading question word.
+const isUserQuestion = (content: string, field?: ConnectorField) => {
+  const trimmed = content.trim();
+  if (trimmed.endsWith('?')) return true;
+  if (!field || FREE_TEXT_FIELD_TYPES.includes(field.type)) return false;
+  return /^(what|why|how|which|where|when|can|could|should|explain)\b/i.test(
+    trimmed
+  );
+};
+
+// Answer a question about the pipeline with the LLM, streaming tokens as they
+// arrive; falls back to the field description when no LLM is available
+const answerUserQuestion = async (
+  conversationHistory: Message[],
+  question: string,
+  workflowState: any,
+  pendingField: NonNullable<ReturnType<typeof getNextField>>,
+  sendDelta?: (delta: string) => void
+): Promise<string> => {
+  const label = pendingField.field?.label || pendingField.fieldName;
+  const workflowSummary = orderedNodes(workflowState)
+    .map(maskNodeSecrets)
+    .map(
+      node =>
+        `- ${node.name} (${node.type}${node.connector ? `, ${node.connector}` : ''}): ${JSON.stringify(node.config || {})}`
+    )
+    .join('\n');
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: `You help users configure data pipelines. Answer the user's question concisely in markdown (a few short paragraphs at most). Never invent configuration values and do not ask for any field yourself; the app asks for the next field after your answer.
+
+Current workflow:
+${workflowSummary}
+
+Pending field: ${label} for ${pendingField.nodeName}${pendingField.field?.description ? ` (${pendingField.field.description})` : ''}`,
+    },
+    ...conversationHistory
+      // Generated code would crowd out the conversation
+      .filter(
+        message => message.type === 'MESSAGE' && message.message_type !== 'code'
+      )
+      .slice(-6)
+      .map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: question },
+  ];
+
+  let streamed = false;
+  try {
+    return await getLLMProvider().stream(messages, delta => {
+      streamed = true;
+      sendDelta?.(delta);
+    });
+  } catch (error) {
+    console.error('❌ Could not answer question with the LLM:', error);
+    const fallback = pendingField.field?.description
+      ? `${pendingField.field.description}.`
+      : "I can't look that up right now, but we can keep configuring your pipeline.";
+    // After a partial answer the fallback is not streamed; the final message
+    // replaces what was shown instead of adding to it
+    if (!streamed) sendDelta?.(fallback);
+    return fallback;
+  }
+};
+
+const describeNodeRole = (type: DataFlowNode['type']) => {
+  switch (type) {
+    case 'source':
+      return 'where your data comes from';
+    case 'transform':
+      return 'how we process the data';
+    default:
+      return 'where the processed data goes';
+  }
+};
+
 // Main AI processing function - simplified
 export const processMessage = async (
   conversationHistory: Message[],
   currentMessage: Message,
-  sendThought?: (thought: string) => void
+  sendThought?: (thought: string) => void,
+  sendDelta?: (delta: string) => void
 ): Promise<Message> => {
-  const groqClient = new GroqCloudClient();
-
   // Check if this is the first message
   const isFirstMessage = conversationHistory.length === 0;
 
@@ -361,10 +622,12 @@ export const processMessage = async (
 
   if (isFirstMessage) {
     // Create workflow based on the description
-    workflowState = createHardcodedWorkflow(currentMessage.content);
+    workflowState = createWorkflowFromDescription(currentMessage.content);
   } else if (!workflowState) {
     // Fallback if no workflow state found
-    workflowState = createHardcodedWorkflow('Data Source to Data Destination');
+    workflowState = createWorkflowFromDescription(
+      'Data Source to Data Destination'
+    );
   }
 
   // Get next field to ask for
@@ -374,44 +637,138 @@ export const processMessage = async (
   const isComplete = isWorkflowComplete(workflowState);
 
   let responseMessage: string;
-  let updatedWorkflowState = workflowState;
+  const updatedWorkflowState = workflowState;
+  let extractedValues: ExtractedFieldValue[] = [];
+  const rejections: FieldRejection[] = [];
+  // Set when an answer was rejected and has to be asked again
+  let retryField: ReturnType<typeof describeField> | null = null;
 
   if (isFirstMessage) {
-    // First message - greet and explain with detected services
-    const sourceName = workflowState.nodes[0].name;
-    const destinationName = workflowState.nodes[2].name;
-    const parsed = parseWorkflowDescription(currentMessage.content);
-
+    // First message - greet and explain the generated graph
     responseMessage = `👋 Hello! I'm here to help you configure your data pipeline workflow.
 
-I'll guide you through setting up a complete data flow with three main components:
-1. **${sourceName}** - where your data comes from
-2. **Data Transform** - how we process the data
-3. **${destinationName}** - where the processed data goes
-
-Let me start by asking about your data source. What type of data source are you using?
+I'll guide you through setting up a data flow with ${workflowState.nodes.length} components:
+${orderedNodes(workflowState)
+  .map(
+    (node, index) =>
+      `${index + 1}. **${node.name}** - ${describeNodeRole(node.type)}`
+  )
+  .join('\n')}
 
-> **Example:** \`database\`, \`api\`, \`file\`, \`cloud_storage\``;
+Let's start. ${nextField ? buildFieldPrompt(nextField.nodeName, nextField.fieldName, nextField.field) : ''}`;
+  } else if (
+    nextField &&
+    !currentMessage.answer &&
+    isUserQuestion(currentMessage.content, nextField.field)
+  ) {
+    // The user asked something instead of answering: explain, then re-ask
+    const explanation = await answerUserQuestion(
+      conversationHistory,
+      currentMessage.content,
+      workflowState,
+      nextField,
+      sendDelta
+    );
+    const prompt = buildFieldPrompt(
+      nextField.nodeName,
+      nextField.fieldName,
+      nextField.field
+    );
+    sendDelta?.(`\n\n${prompt}`);
+    responseMessage = `${explanation}\n\n${prompt}`;
   } else {
     // Update workflow with user's answer
-    if (nextField && !isComplete) {
-      updatedWorkflowState = updateWorkflowWithAnswer(
-        workflowState,
-        nextField.fieldName,
-        currentMessage.content
+    const answer = currentMessage.answer;
+    const addRejection = (
+      nodeId: string,
+      fieldName: string,
+      error?: string
+    ) => {
+      if (error) rejections.push({ nodeId, fieldName, error });
+    };
+
+    if (answer && isFieldMissing(workflowState, answer.node_id, answer.field)) {
+      // Structured answer from a question widget, tied to a specific field
+      const node = workflowState.nodes.find(
+        (n: DataFlowNode) => n.id === answer.node_id
+      );
+      addRejection(
+        answer.node_id,
+        answer.field,
+        updateWorkflowWithAnswer(
+          workflowState,
+          answer.node_id,
+          answer.field,
+          answer.value,
+          buildProvenance(
+            currentMessage,
+            'widget',
+            isSecretField(node, answer.field) ? [answer.value].flat() : []
+          )
+        )
       );
+    } else if (nextField && !isComplete) {
+      // A free-text answer may fill several fields at once
+      if (shouldExtract(workflowState, nextField, currentMessage.content)) {
+        const extraction = await applyExtractedAnswer(
+          workflowState,
+          currentMessage
+        );
+        extractedValues = extraction.applied;
+        rejections.push(...extraction.rejections);
+      }
+
+      // Otherwise the whole answer is the value of the pending field
+      if (extractedValues.length === 0 && rejections.length === 0) {
+        const node = workflowState.nodes.find(
+          (n: DataFlowNode) => n.id === nextField.nodeId
+        );
+        addRejection(
+          nextField.nodeId,
+          nextField.fieldName,
+          updateWorkflowWithAnswer(
+            workflowState,
+            nextField.nodeId,
+            nextField.fieldName,
+            currentMessage.content,
+            buildProvenance(
+              currentMessage,
+              'direct',
+              isSecretField(node, nextField.fieldName)
+                ? [currentMessage.content]
+                : []
+            )
+          )
+        );
+      }
     }
 
     // Get the next field after updating
     const updatedNextField = getNextField(updatedWorkflowState);
     const updatedIsComplete = isWorkflowComplete(updatedWorkflowState);
+    const pickedUp =
+      extractedValues.length > 1
+        ? `I picked up these settings from your answer:\n\n${describeExtractedValues(updatedWorkflowState, extractedValues)}\n\n`
+        : '';
 
-    if (updatedIsComplete) {
+    if (rejections.length > 0) {
+      // Explain what was wrong and ask for the first rejected field again
+      const rejected = updatedWorkflowState.nodes.find(
+        (n: DataFlowNode) => n.id === rejections[0].nodeId
+      );
+      retryField = describeField(rejected, rejections[0].fieldName);
+      responseMessage = `${pickedUp}${describeRejections(updatedWorkflowState, rejections)}\n\n${buildFieldPrompt(
+        retryField.nodeName,
+        retryField.fieldName,
+        retryField.field
+      )}`;
+    } else if (updatedIsComplete) {
       // Workflow is complete
       responseMessage = `🎉 Excellent! Your workflow configuration is now complete.
 
 Here's what we've configured:
 ${updatedWorkflowState.nodes
+  .map(maskNodeSecrets)
   .map(
     (node: any) =>
       `**${node.name}**: ${Object.entries(node.config)
@@ -423,22 +780,20 @@ ${updatedWorkflowState.nodes
 Your data pipeline is ready to be deployed! 🚀`;
     } else if (updatedNextField) {
       // Ask for the next field
-      const fieldExamples = {
-        source_type: 'database, api, file, cloud_storage',
-        connection_string: 'jdbc:mysql://localhost:3306/mydb',
-        table_name: 'users, orders, products',
-        operation_type: 'filter, aggregate, join, transform',
-        parameters: '{"condition": "status = active"}',
-        destination_type: 'database, warehouse, api',
-      };
-
-      responseMessage = `Great! Now I need to know about the **${updatedNextField.fieldName}** for your ${updatedNextField.nodeName}.
-
-> **Example:** \`${fieldExamples[updatedNextField.fieldName as keyof typeof fieldExamples] || 'your value here'}\``;
+      const prompt = buildFieldPrompt(
+        updatedNextField.nodeName,
+        updatedNextField.fieldName,
+        updatedNextField.field
+      );
+      responseMessage = `Great! ${pickedUp}${prompt}`;
     } else {
-      // Fallback
-      responseMessage =
-        "I'm not sure what to ask next. Let me check the workflow state.";
+      // Every field is filled, so anything left is a structural problem
+      const graphErrors = validateWorkflowGraph(updatedWorkflowState);
+      responseMessage = graphErrors.length
+        ? `⚠️ All fields are configured, but the workflow graph needs attention:
+
+${graphErrors.map(error => `- ${error}`).join('\n')}`
+        : "I'm not sure what to ask next. Let me check the workflow state.";
     }
   }
 
@@ -456,16 +811,375 @@ Your data pipeline is ready to be deployed! 🚀`;
     workflow_complete: isWorkflowComplete(updatedWorkflowState),
   };
 
+  // Attach the pending question so the client can render the right widget
+  const pendingField = retryField || getNextField(updatedWorkflowState);
+  if (pendingField) {
+    response.question = buildQuestion(pendingField);
+  }
+
   return response;
 };
 
+// Reply for a workflow loaded outside the chat: what it contains and the
+// first missing value, if any
+const describeLoadedWorkflow = (
+  workflow: { nodes: DataFlowNode[]; connections: DataFlowConnection[] },
+  heading: string,
+  responseTo?: string
+): Message => {
+  const nextField = getNextField(workflow);
+  const isComplete = isWorkflowComplete(workflow);
+
+  const response: Message = {
+    id: generateId(),
+    response_to: responseTo,
+    role: 'assistant',
+    type: 'MESSAGE',
+    content: `${heading} with ${workflow.nodes.length} components:
+${orderedNodes(workflow)
+  .map(
+    (node, index) =>
+      `${index + 1}. **${node.name}** - ${describeNodeRole(node.type)}`
+  )
+  .join('\n')}
+
+${
+  isComplete
+    ? 'Every node is configured, so the workflow is ready to run. 🚀'
+    : nextField
+      ? `A few values are still missing. ${buildFieldPrompt(nextField.nodeName, nextField.fieldName, nextField.field)}`
+      : ''
+}`,
+    message_type: 'markdown',
+    timestamp: new Date().toISOString(),
+    nodes: workflow.nodes,
+    connections: workflow.connections,
+    workflow_complete: isComplete,
+  };
+
+  if (nextField) {
+    response.question = buildQuestion(nextField);
+  }
+
+  return response;
+};
+
+// Assistant message that presents a workflow loaded from a spec and asks for
+// whatever it still needs (credentials are never part of a spec)
+export const describeImportedWorkflow = (
+  workflow: { nodes: DataFlowNode[]; connections: DataFlowConnection[] },
+  name: string,
+  responseTo?: string
+): Message =>
+  describeLoadedWorkflow(workflow, `📥 Imported **${name}**`, responseTo);
+
+export const describeRestoredWorkflow = (
+  workflow: { nodes: DataFlowNode[]; connections: DataFlowConnection[] },
+  versionTitle: string,
+  responseTo?: string
+): Message =>
+  describeLoadedWorkflow(
+    workflow,
+    `↩️ Restored **${versionTitle}**`,
+    responseTo
+  );
+
+// Apply a value edited or cleared in the node drawer, with the same
+// validation and status updates as a chat answer. A rejected edit of a
+// configured field keeps the previous value. Returns the transcript entry
+// for the edit (credentials left out) and the assistant's acknowledgement.
+export const applyFieldEdit = (
+  conversationHistory: ChatMessage[],
+  currentMessage: Message
+): { request: Message; response: Message } => {
+  const workflowState = getCurrentWorkflowState(conversationHistory);
+  const edit = currentMessage.answer;
+  const nodeIndex: number =
+    workflowState?.nodes.findIndex(
+      (n: DataFlowNode) => n.id === edit?.node_id
+    ) ?? -1;
+  if (!edit || nodeIndex === -1) {
+    throw new Error('Node not found');
+  }
+
+  const node: DataFlowNode = workflowState.nodes[nodeIndex];
+  if (
+    !node.data_requirements?.required_fields.includes(edit.field) &&
+    getFieldSchema(node, edit.field)?.required !== false
+  ) {
+    throw new Error(`${node.name} has no field "${edit.field}"`);
+  }
+  if (isConnectorTypeField(edit.field)) {
+    throw new Error('A connector cannot be changed once chosen');
+  }
+
+  const field = describeField(node, edit.field);
+  const label = field.field?.label || edit.field;
+  const secret = isSecretField(node, edit.field);
+  const values = [edit.value].flat();
+  const isClear = values.every(value => !String(value).trim());
+  const wasProvided =
+    node.data_requirements!.provided_fields.includes(edit.field) ||
+    node.config?.[edit.field] !== undefined;
+  const previous: DataFlowNode = JSON.parse(JSON.stringify(node));
+
+  const request: Message = {
+    id: currentMessage.id,
+    role: 'user',
+    type: 'MESSAGE',
+    content: isClear
+      ? `Clear ${label} for ${node.name}`
+      : secret
+        ? `Set ${label} for ${node.name}`
+        : `Set ${label} for ${node.name} to ${values.join(', ')}`,
+    timestamp: currentMessage.timestamp,
+  };
+
+  clearNodeField(node, edit.field);
+  let acknowledgement: string;
+  let rejected = false;
+  if (isClear) {
+    updateNodeStatus(node);
+    acknowledgement = `🧹 Cleared **${label}** for **${node.name}**.`;
+  } else {
+    const error = updateWorkflowWithAnswer(
+      workflowState,
+      node.id,
+      edit.field,
+      edit.value,
+      buildProvenance(currentMessage, 'edited', secret ? values : [])
+    );
+    if (error) {
+      rejected = true;
+      if (wasProvided) workflowState.nodes[nodeIndex] = previous;
+      acknowledgement = `⚠️ That doesn't look like a valid **${label}** for **${node.name}**. ${error}${
+        wasProvided ? ' The previous value was kept.' : ''
+      }`;
+    } else {
+      acknowledgement = `✏️ Updated **${label}** for **${node.name}**${
+        secret ? '.' : `: ${values.join(', ')}`
+      }`;
+    }
+  }
+
+  // Carry on with the chat from wherever the workflow now stands; optional
+  // fields are not asked for again
+  const response = buildEditResponse(
+    currentMessage,
+    workflowState,
+    acknowledgement,
+    rejected && !wasProvided && field.field?.required !== false
+      ? field
+      : getNextField(workflowState)
+  );
+
+  return { request, response };
+};
+
+// Acknowledge an edit made outside the chat, then ask for the next missing
+// field or say the workflow is ready
+const buildEditResponse = (
+  currentMessage: Message,
+  workflowState: any,
+  acknowledgement: string,
+  pendingField: ReturnType<typeof getNextField>
+): Message => {
+  const isComplete = isWorkflowComplete(workflowState);
+  const followUp = pendingField
+    ? buildFieldPrompt(
+        pendingField.nodeName,
+        pendingField.fieldName,
+        pendingField.field
+      )
+    : isComplete
+      ? 'Every node is configured, so the workflow is ready to run. 🚀'
+      : '';
+
+  const response: Message = {
+    id: generateId(),
+    response_to: currentMessage.id,
+    role: 'assistant',
+    type: 'MESSAGE',
+    content: followUp ? `${acknowledgement}\n\n${followUp}` : acknowledgement,
+    message_type: 'markdown',
+    timestamp: new Date().toISOString(),
+    nodes: workflowState.nodes,
+    connections: workflowState.connections,
+    workflow_complete: isComplete,
+  };
+  if (pendingField) {
+    response.question = buildQuestion(pendingField);
+  }
+  return response;
+};
+
+// Save the column mapping built in the drawer as the transform's
+// configuration, switching the transform over to mapping columns
+export const applyColumnMappingEdit = (
+  conversationHistory: ChatMessage[],
+  currentMessage: Message,
+  nodeId: string,
+  columnMapping: unknown
+): { request: Message; response: Message } => {
+  const workflowState = getCurrentWorkflowState(conversationHistory);
+  const node: DataFlowNode | undefined = workflowState?.nodes.find(
+    (n: DataFlowNode) => n.id === nodeId
+  );
+  if (!node) {
+    throw new Error('Node not found');
+  }
+  if (node.type !== 'transform') {
+    throw new Error(`${node.name} is not a transform`);
+  }
+  const mapping = validateColumnMapping(columnMapping);
+  if (!mapping.valid) {
+    throw new Error(mapping.error);
+  }
+
+  const provenance = buildProvenance(currentMessage, 'edited');
+  node.config = {
+    ...node.config,
+    operation_type: 'map',
+    column_mapping: mapping.value,
+  };
+  node.provenance = {
+    ...node.provenance,
+    operation_type: provenance,
+    column_mapping: provenance,
+  };
+  clearValidationError(node, 'operation_type');
+  clearValidationError(node, 'column_mapping');
+  applyOperationChoice(node);
+  updateNodeStatus(node);
+
+  const lines = describeColumnMapping(mapping.value);
+  const request: Message = {
+    id: currentMessage.id,
+    role: 'user',
+    type: 'MESSAGE',
+    content: `Map the columns of ${node.name}: ${lines.join(', ')}`,
+    timestamp: currentMessage.timestamp,
+  };
+  const response = buildEditResponse(
+    currentMessage,
+    workflowState,
+    `🗺️ Mapped the columns of **${node.name}**:\n${lines
+      .map(line => `- ${line}`)
+      .join('\n')}`,
+    getNextField(workflowState)
+  );
+
+  return { request, response };
+};
+
+const NODE_TYPES: DataFlowNode['type'][] = [
+  'source',
+  'transform',
+  'destination',
+];
+
+// A step or connection added or removed on the canvas. The edit joins the
+// transcript as a user request, and the reply points out anything the graph
+// still needs before asking for the next missing field.
+export const applyGraphEdit = (
+  conversationHistory: ChatMessage[],
+  currentMessage: Message,
+  edit: GraphEdit
+): { request: Message; response: Message } => {
+  const workflowState = getCurrentWorkflowState(conversationHistory);
+  if (!workflowState) {
+    throw new Error('Describe the workflow in the chat before editing it');
+  }
+  const nameOf = (id: string) =>
+    workflowState.nodes.find((n: DataFlowNode) => n.id === id)?.name || id;
+
+  let requestContent: string;
+  let acknowledgement: string;
+  let result: GraphEditResult;
+  let addedNode: DataFlowNode | undefined;
+  switch (edit.action) {
+    case 'add_node': {
+      const name = (edit.name || '').trim();
+      if (!NODE_TYPES.includes(edit.node_type)) {
+        throw new Error(`Unknown step type "${edit.node_type}"`);
+      }
+      if (!name) throw new Error('Give the new step a name');
+
+      addedNode = createNode(
+        uniqueNodeId(workflowState, `${edit.node_type}-${slugify(name)}`),
+        edit.node_type,
+        name
+      );
+      result = addNode(workflowState, addedNode);
+      requestContent = `Add ${edit.node_type} ${name}`;
+      acknowledgement = `➕ Added ${edit.node_type} **${name}**. Connect it to the rest of the workflow on the canvas.`;
+      break;
+    }
+    case 'remove_node':
+      result = removeNode(workflowState, edit.node_id);
+      requestContent = `Remove ${nameOf(edit.node_id)}`;
+      acknowledgement = `🗑️ Removed **${nameOf(edit.node_id)}** and its connections.`;
+      break;
+    case 'add_connection':
+      result = addConnection(workflowState, edit.source, edit.target);
+      requestContent = `Connect ${nameOf(edit.source)} to ${nameOf(edit.target)}`;
+      acknowledgement = `🔗 Connected **${nameOf(edit.source)}** → **${nameOf(edit.target)}**.`;
+      break;
+    case 'remove_connection':
+      result = removeConnection(workflowState, edit.source, edit.target);
+      requestContent = `Disconnect ${nameOf(edit.source)} from ${nameOf(edit.target)}`;
+      acknowledgement = `✂️ Disconnected **${nameOf(edit.source)}** → **${nameOf(edit.target)}**.`;
+      break;
+    default:
+      throw new Error('Unknown workflow edit');
+  }
+  if (!result.valid) throw new Error(result.error);
+
+  const graph = result.graph;
+  const problems = validateWorkflowGraph(graph);
+  if (problems.length > 0) {
+    acknowledgement += `\n\nStill to sort out on the canvas:\n${problems
+      .map(problem => `- ${problem}`)
+      .join('\n')}`;
+  }
+
+  const request: Message = {
+    id: currentMessage.id,
+    role: 'user',
+    type: 'MESSAGE',
+    content: requestContent,
+    timestamp: currentMessage.timestamp,
+  };
+  // A new step's own questions come first, wherever it sits in the graph
+  const newField = addedNode?.data_requirements?.missing_fields[0];
+  const response = buildEditResponse(
+    currentMessage,
+    graph,
+    acknowledgement,
+    addedNode && newField
+      ? describeField(addedNode, newField)
+      : getNextField(graph)
+  );
+
+  return { request, response };
+};
+
 // Helper function to get current workflow state from conversation history
-const getCurrentWorkflowState = (conversationHistory: Message[]): any => {
+const getCurrentWorkflowState = (
+  conversationHistory: (Message | ChatMessage)[]
+): any => {
   // Find the last message with nodes and connections
   for (let i = conversationHistory.length - 1; i >= 0; i--) {
     const message = conversationHistory[i];
     if (message.nodes && message.connections) {
-      return { nodes: message.nodes, connections: message.connections };
+      // Answers are applied in place, so work on a copy: earlier messages
+      // must keep the state they had, or undo has nothing to go back to
+      return JSON.parse(
+        JSON.stringify({
+          nodes: message.nodes,
+          connections: message.connections,
+        })
+      );
     }
   }
   return null;
@@ -476,9 +1190,10 @@ const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
-// Function to clear all conversations (in-memory only)
-export const clearAllConversations = (): void => {
-  console.log('✅ All conversations cleared (in-memory only)');
+// Function to clear all stored conversations
+export const clearAllConversations = async (): Promise<void> => {
+  await getSessionStore().clear();
+  console.log('✅ All conversations cleared');
 };
 
 export interface Message {
@@ -488,7 +1203,7 @@ export interface Message {
   type: 'MESSAGE' | 'THOUGHT' | 'ERROR' | 'STATUS';
   content: string;
   timestamp: string;
-  message_type?: 'text' | 'markdown';
+  message_type?: 'text' | 'markdown' | 'code';
   nodes?: DataFlowNode[];
   connections?: DataFlowConnection[];
   workflow_complete?: boolean;
@@ -497,6 +1212,25 @@ export interface Message {
     status: DataFlowNode['status'];
   }>;
   status?: 'processing' | 'complete' | 'error';
+  question?: Question;
+  answer?: StructuredAnswer;
+}
+
+export interface Question {
+  id: string;
+  text: string;
+  node_id: string;
+  field: string;
+  type: 'text' | 'password' | 'select' | 'multiselect' | 'textarea';
+  options?: string[];
+  required?: boolean;
+}
+
+// Answer submitted from a question widget, tied to a node field
+export interface StructuredAnswer {
+  node_id: string;
+  field: string;
+  value: string | string[];
 }
 
 // Simple interfaces for the hardcoded workflow
@@ -505,12 +1239,34 @@ export interface DataFlowNode {
   type: 'source' | 'transform' | 'destination';
   name: string;
   status: 'pending' | 'partial' | 'complete' | 'error';
+  connector?: string; // ID of the registry connector backing this node
   config?: Record<string, any>;
+  // Where the user placed the node on the canvas; unset nodes are laid out
+  // automatically
+  position?: { x: number; y: number };
   data_requirements?: {
     required_fields: string[];
     provided_fields: string[];
     missing_fields: string[];
   };
+  // Where each configured value came from, keyed by field name
+  provenance?: Record<string, FieldProvenance>;
+  // Why the last answer for a field was rejected, keyed by field name
+  validation_errors?: Record<string, string>;
+  // Outcome of the last "Test connection"
+  connection_test?: ConnectionTestResult;
+}
+
+export interface FieldProvenance {
+  // The user message the value was taken from
+  message_id: string;
+  // widget: structured answer; direct: the whole reply to the pending
+  // question; extracted: picked out of a free-text answer by the LLM;
+  // edited: set in the node drawer
+  method: 'widget' | 'direct' | 'extracted' | 'edited';
+  // The message as typed, with any secrets masked
+  raw_text: string;
+  timestamp: string;
 }
 
 export interface DataFlowConnection {
@@ -0,0 +1,177 @@
+import {
+  describeNode,
+  pyDocstring,
+  pyLiteral,
+  pyString,
+  renderImports,
+  renderLibrary,
+  shellQuote,
+  upstreamInputs,
+} from './python';
+import type { CodegenNode, CodegenWorkflow } from './types';
+
+// Databases whose credentials are kept in an Airflow connection; every other
+// credential is an Airflow variable
+const CONNECTION_TYPES: Record<string, string> = {
+  postgres: 'postgres',
+  mysql: 'mysql',
+};
+
+const usesConnection = (node: CodegenNode) =>
+  !!CONNECTION_TYPES[node.connector] && node.secretFields.includes('password');
+
+const connectionId = (workflow: CodegenWorkflow, node: CodegenNode) =>
+  `${workflow.slug}__${node.functionName}`;
+
+const variableName = (
+  workflow: CodegenWorkflow,
+  node: CodegenNode,
+  fieldName: string
+) => `${workflow.slug}__${node.functionName}__${fieldName}`;
+
+const variableFields = (node: CodegenNode) =>
+  node.secretFields.filter(
+    fieldName => !(usesConnection(node) && fieldName === 'password')
+  );
+
+const renderSetup = (workflow: CodegenWorkflow): string[] => {
+  const commands = workflow.nodes.flatMap(node => [
+    ...(usesConnection(node)
+      ? [
+          [
+            `airflow connections add ${shellQuote(connectionId(workflow, node))}`,
+            `--conn-type ${CONNECTION_TYPES[node.connector]}`,
+            `--conn-host ${shellQuote(node.settings.host)}`,
+            `--conn-port ${node.settings.port}`,
+            `--conn-schema ${shellQuote(node.settings.database)}`,
+            `--conn-login ${shellQuote(node.settings.username)}`,
+            `--conn-password '<${node.secretLabels.password}>'`,
+          ].join(' \\\n        '),
+        ]
+      : []),
+    ...variableFields(node).map(
+      fieldName =>
+        `airflow variables set ${shellQuote(variableName(workflow, node, fieldName))} '<${node.secretLabels[fieldName]}>'`
+    ),
+  ]);
+
+  if (commands.length === 0) return [];
+  return [
+    'Credentials are not part of this file. Create them once with:',
+    '',
+    ...commands.map(command => `    ${command}`),
+    '',
+  ];
+};
+
+const renderTask = (node: CodegenNode) => {
+  const { params, rows, inputs } = upstreamInputs(node);
+  const config = `node_config(${pyString(node.functionName)})`;
+  const body =
+    node.type === 'source'
+      ? `return ${node.callable}(${config})`
+      : node.type === 'transform'
+        ? `return apply_transform(${config}, ${inputs})`
+        : `${node.callable}(${config}, ${rows})`;
+
+  return [
+    `    @task(task_id=${pyString(node.functionName)})`,
+    `    def ${node.functionName}(${params.join(', ')}):`,
+    `        ${describeNode(node)}`,
+    `        ${body}`,
+  ].join('\n');
+};
+
+// Task calls in dependency order; passing the rows sets the task dependencies
+const renderWiring = (node: CodegenNode) => {
+  const call = `${node.functionName}(${upstreamInputs(node).params.join(', ')})`;
+  return node.type === 'destination'
+    ? `    ${call}`
+    : `    ${node.functionName}_rows = ${call}`;
+};
+
+export const renderAirflowDag = (workflow: CodegenWorkflow): string => {
+  const library = renderLibrary(workflow.nodes);
+  const dagFunction = `${workflow.slug}_dag`;
+
+  const connections = Object.fromEntries(
+    workflow.nodes
+      .filter(usesConnection)
+      .map(node => [node.functionName, connectionId(workflow, node)])
+  );
+  const variables = Object.fromEntries(
+    workflow.nodes
+      .filter(node => variableFields(node).length > 0)
+      .map(node => [
+        node.functionName,
+        Object.fromEntries(
+          variableFields(node).map(fieldName => [
+            fieldName,
+            variableName(workflow, node, fieldName),
+          ])
+        ),
+      ])
+  );
+
+  const header = pyDocstring([
+    workflow.name,
+    '',
+    'Airflow DAG generated from the workflow builder. Rows are passed between',
+    'tasks through XCom, which suits small and medium sized tables.',
+    '',
+    ...renderSetup(workflow),
+    `Python packages: ${['apache-airflow', ...library.packages].join(', ')}`,
+  ]);
+
+  return `${header}
+${renderImports(library.imports)}${library.imports.length > 0 ? '\n\n' : ''}import pendulum
+from airflow.decorators import dag, task
+from airflow.hooks.base import BaseHook
+from airflow.models import Variable
+
+# Settings of each task; credentials are looked up when the task runs
+CONFIG = ${pyLiteral(Object.fromEntries(workflow.nodes.map(node => [node.functionName, node.settings])))}
+
+# Airflow connection holding a task's database credentials
+CONNECTIONS = ${pyLiteral(connections)}
+
+# Airflow variables holding a task's other credentials, by field
+VARIABLES = ${pyLiteral(variables)}
+
+
+def node_config(task_id):
+    cfg = dict(CONFIG[task_id])
+    if task_id in CONNECTIONS:
+        conn = BaseHook.get_connection(CONNECTIONS[task_id])
+        credentials = {
+            "host": conn.host,
+            "port": conn.port,
+            "database": conn.schema,
+            "username": conn.login,
+            "password": conn.password,
+        }
+        cfg.update({key: value for key, value in credentials.items() if value})
+    for field, name in VARIABLES.get(task_id, {}).items():
+        cfg[field] = Variable.get(name)
+    return cfg
+
+
+${library.code}
+
+
+@dag(
+    dag_id=${pyString(workflow.slug)},
+    schedule=${workflow.schedule ? pyString(workflow.schedule) : 'None'},
+    start_date=pendulum.datetime(2024, 1, 1, tz=${pyString(workflow.timezone)}),
+    catchup=False,
+    tags=["generated"],
+)
+def ${dagFunction}():
+${workflow.nodes.map(renderTask).join('\n\n')}
+
+${workflow.nodes.map(renderWiring).join('\n')}
+
+
+${dagFunction}()
+`;
+};
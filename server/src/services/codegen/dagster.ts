@@ -0,0 +1,140 @@
+import {
+  describeNode,
+  pyDocstring,
+  pyLiteral,
+  pyString,
+  renderImports,
+  renderLibrary,
+  upstreamInputs,
+} from './python';
+import type { CodegenNode, CodegenWorkflow } from './types';
+
+const envVarName = (
+  workflow: CodegenWorkflow,
+  node: CodegenNode,
+  fieldName: string
+) => `${workflow.slug}_${node.functionName}_${fieldName}`.toUpperCase();
+
+const renderOp = (node: CodegenNode) => {
+  const { params, rows, inputs } = upstreamInputs(node);
+  const config = `node_config(${pyString(node.functionName)})`;
+  const body =
+    node.type === 'source'
+      ? [
+          `rows = ${node.callable}(${config})`,
+          'context.log.info(f"Read {len(rows)} rows")',
+          'return rows',
+        ]
+      : node.type === 'transform'
+        ? [
+            `rows = apply_transform(${config}, ${inputs})`,
+            'context.log.info(f"{len(rows)} rows after the transform")',
+            'return rows',
+          ]
+        : [
+            `rows = ${rows}`,
+            `${node.callable}(${config}, rows)`,
+            'context.log.info(f"Wrote {len(rows)} rows")',
+          ];
+
+  return [
+    '@dg.op',
+    `def ${node.functionName}(${['context: dg.OpExecutionContext', ...params].join(', ')}):`,
+    `    ${describeNode(node)}`,
+    ...body.map(line => `    ${line}`),
+  ].join('\n');
+};
+
+// Op calls in dependency order; passing the rows sets the op dependencies
+const renderWiring = (node: CodegenNode) => {
+  const call = `${node.functionName}(${upstreamInputs(node).params.join(', ')})`;
+  return node.type === 'destination'
+    ? `    ${call}`
+    : `    ${node.functionName}_rows = ${call}`;
+};
+
+export const renderDagsterJob = (workflow: CodegenWorkflow): string => {
+  const library = renderLibrary(workflow.nodes);
+  const jobFunction = `${workflow.slug}_job`;
+  const scheduleName = `${workflow.slug}_schedule`;
+
+  const secrets = Object.fromEntries(
+    workflow.nodes
+      .filter(node => node.secretFields.length > 0)
+      .map(node => [
+        node.functionName,
+        Object.fromEntries(
+          node.secretFields.map(fieldName => [
+            fieldName,
+            envVarName(workflow, node, fieldName),
+          ])
+        ),
+      ])
+  );
+  const setup = workflow.nodes.flatMap(node =>
+    node.secretFields.map(
+      fieldName =>
+        `    ${envVarName(workflow, node, fieldName)}  ${node.secretLabels[fieldName]} of ${node.name}`
+    )
+  );
+
+  const header = pyDocstring([
+    workflow.name,
+    '',
+    'Dagster job generated from the workflow builder.',
+    '',
+    ...(setup.length > 0
+      ? [
+          'Credentials are not part of this file. Set these environment variables',
+          'where the job runs:',
+          '',
+          ...setup,
+          '',
+        ]
+      : []),
+    `Python packages: ${['dagster', ...library.packages].join(', ')}`,
+  ]);
+
+  return `${header}
+${renderImports(library.imports)}${library.imports.length > 0 ? '\n\n' : ''}import dagster as dg
+
+# Settings of each op; credentials are looked up when the op runs
+CONFIG = ${pyLiteral(Object.fromEntries(workflow.nodes.map(node => [node.functionName, node.settings])))}
+
+# Environment variables holding an op's credentials, by field
+SECRETS = ${pyLiteral(secrets)}
+
+
+def node_config(op_name):
+    cfg = dict(CONFIG[op_name])
+    for field, name in SECRETS.get(op_name, {}).items():
+        cfg[field] = dg.EnvVar(name).get_value()
+    return cfg
+
+
+${library.code}
+
+
+${workflow.nodes.map(renderOp).join('\n\n\n')}
+
+
+@dg.job(name=${pyString(workflow.slug)})
+def ${jobFunction}():
+${workflow.nodes.map(renderWiring).join('\n')}
+
+${
+  workflow.schedule
+    ? `
+${scheduleName} = dg.ScheduleDefinition(
+    job=${jobFunction},
+    cron_schedule=${pyString(workflow.schedule)},
+    execution_timezone=${pyString(workflow.timezone)},
+)
+
+defs = dg.Definitions(jobs=[${jobFunction}], schedules=[${scheduleName}])
+`
+    : `
+defs = dg.Definitions(jobs=[${jobFunction}])
+`
+}`;
+};
@@ -0,0 +1,252 @@
+import type { DataFlowNode } from '../aiService';
+import {
+  DECLARED_SCHEMA_FIELD,
+  getConnector,
+  getFieldSchema,
+  isConnectorTypeField,
+} from '../connectors';
+import { getSecretFields, stripSecrets } from '../secrets';
+import type { WorkflowSnapshot } from '../storage';
+import { findJoinInput, getTransformSteps } from '../transformDsl';
+import { topologicalSort } from '../workflowGraph';
+import {
+  DEFAULT_TIMEZONE,
+  getWorkflowSchedule,
+  scheduleToCron,
+} from '../workflowSchedule';
+import { getDefaultWorkflowName } from '../workflowSpec';
+import { renderAirflowDag } from './airflow';
+import { renderDagsterJob } from './dagster';
+import {
+  hasReader,
+  hasWriter,
+  LIBRARY_NAMES,
+  toPythonIdentifier,
+} from './python';
+import type {
+  CodegenNode,
+  CodegenTarget,
+  CodegenWorkflow,
+  GeneratedCode,
+} from './types';
+
+export type {
+  CodegenNode,
+  CodegenTarget,
+  CodegenWorkflow,
+  GeneratedCode,
+} from './types';
+
+export const CODEGEN_TARGETS: CodegenTarget[] = ['airflow', 'dagster'];
+
+// Names the generated modules use at top level
+const RESERVED_NAMES = [
+  'dag',
+  'task',
+  'dg',
+  'pendulum',
+  'BaseHook',
+  'Variable',
+  'csv',
+  'datetime',
+  'hashlib',
+  'io',
+  'json',
+  'operator',
+  'os',
+  're',
+  'sqlite3',
+  'CONFIG',
+  'SECRETS',
+  'CONNECTIONS',
+  'VARIABLES',
+  'node_config',
+  'defs',
+];
+
+// Transforms carry their steps already parsed, so the generated code never
+// reads the transform language; joins refer to the upstream node by ID
+const transformSettings = (node: DataFlowNode, upstream: DataFlowNode[]) => {
+  const operation = String(node.config?.operation_type || 'passthrough')
+    .trim()
+    .toLowerCase();
+  if (operation === 'map') {
+    return {
+      operation_type: operation,
+      column_mapping: node.config?.column_mapping,
+    };
+  }
+
+  const steps = getTransformSteps(node);
+  if (!steps.valid) {
+    throw new Error(
+      `${node.name} has invalid ${operation} steps: ${steps.error}`
+    );
+  }
+  return {
+    operation_type: operation,
+    ...(steps.value.length > 0 && {
+      steps: steps.value.map(step => {
+        if (step.op !== 'join') return step;
+        const joined = findJoinInput(
+          upstream.map(n => ({ node: n })),
+          step.with
+        );
+        if (!joined) {
+          throw new Error(
+            `${node.name} joins ${step.with}, which is not connected to it`
+          );
+        }
+        return { ...step, with: joined.node.id };
+      }),
+    }),
+  };
+};
+
+const prepareNode = (
+  node: DataFlowNode,
+  functionName: string,
+  upstream: { node: DataFlowNode; functionName: string }[]
+): CodegenNode => {
+  const connector = getConnector(node.connector);
+  const id =
+    node.type === 'transform' ? 'transform' : connector?.id || 'generic';
+
+  if (id === 'generic' && !node.config?.connection_string) {
+    throw new Error(
+      `${node.name} has no connection details to generate code from`
+    );
+  }
+  if (
+    (node.type === 'source' && !hasReader(id)) ||
+    (node.type === 'destination' && !hasWriter(id))
+  ) {
+    throw new Error(
+      `${connector?.name || node.name} cannot be generated as a ${node.type}`
+    );
+  }
+
+  // The connector choice is already encoded in which function is called,
+  // and a declared schema only describes the data
+  const settings =
+    node.type === 'transform'
+      ? transformSettings(
+          node,
+          upstream.map(u => u.node)
+        )
+      : Object.fromEntries(
+          Object.entries(stripSecrets(node).config || {}).filter(
+            ([fieldName]) =>
+              !isConnectorTypeField(fieldName) &&
+              fieldName !== DECLARED_SCHEMA_FIELD.name
+          )
+        );
+
+  const secretFields = getSecretFields(node);
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    connector: id,
+    connectorName: connector?.name || 'Database',
+    functionName,
+    callable:
+      node.type === 'transform'
+        ? 'apply_transform'
+        : `${node.type === 'source' ? 'read' : 'write'}_${id}`,
+    settings,
+    secretFields,
+    secretLabels: Object.fromEntries(
+      secretFields.map(fieldName => [
+        fieldName,
+        getFieldSchema(node, fieldName)?.label || fieldName,
+      ])
+    ),
+    upstream: upstream.map(u => u.functionName),
+    upstreamIds: upstream.map(u => u.node.id),
+  };
+};
+
+const prepareWorkflow = (workflow: WorkflowSnapshot): CodegenWorkflow => {
+  const ordered = topologicalSort(workflow.nodes, workflow.connections);
+  const name = workflow.name || getDefaultWorkflowName(workflow.nodes);
+  const slug = toPythonIdentifier(name);
+  const schedule = getWorkflowSchedule(workflow);
+
+  // Task/op names come from node names and must not clash with each other,
+  // with the <name>_rows variables holding their output or with anything
+  // else defined in the file
+  const taken = new Set([
+    ...RESERVED_NAMES,
+    ...LIBRARY_NAMES,
+    `${slug}_dag`,
+    `${slug}_job`,
+    `${slug}_schedule`,
+  ]);
+  const functionNames = new Map<string, string>();
+  ordered.forEach(node => {
+    const base = toPythonIdentifier(node.name || node.id);
+    let functionName = base;
+    for (
+      let suffix = 2;
+      taken.has(functionName) || taken.has(`${functionName}_rows`);
+      suffix++
+    ) {
+      functionName = `${base}_${suffix}`;
+    }
+    taken.add(functionName);
+    taken.add(`${functionName}_rows`);
+    functionNames.set(node.id, functionName);
+  });
+
+  return {
+    name,
+    slug,
+    schedule: scheduleToCron(schedule),
+    timezone: schedule.mode === 'cron' ? schedule.timezone : DEFAULT_TIMEZONE,
+    nodes: ordered.map(node =>
+      prepareNode(
+        node,
+        functionNames.get(node.id)!,
+        workflow.connections
+          .filter(connection => connection.target === node.id)
+          .map(connection => ({
+            node: workflow.nodes.find(n => n.id === connection.source)!,
+            functionName: functionNames.get(connection.source)!,
+          }))
+      )
+    ),
+  };
+};
+
+// Turn a completed workflow into a runnable Airflow DAG or Dagster job.
+// Credentials are never written into the code: they are looked up from
+// Airflow connections/variables or environment variables at run time.
+export const generateWorkflowCode = (
+  target: CodegenTarget,
+  workflow: WorkflowSnapshot
+): GeneratedCode => {
+  if (!CODEGEN_TARGETS.includes(target)) {
+    throw new Error(`Unknown code target "${target}"`);
+  }
+  if (!workflow.workflow_complete) {
+    throw new Error(
+      'The workflow is not complete yet - answer the remaining questions first'
+    );
+  }
+
+  const prepared = prepareWorkflow(workflow);
+  return target === 'airflow'
+    ? {
+        target,
+        language: 'python',
+        file_name: `${prepared.slug}_dag.py`,
+        code: renderAirflowDag(prepared),
+      }
+    : {
+        target,
+        language: 'python',
+        file_name: `${prepared.slug}_job.py`,
+        code: renderDagsterJob(prepared),
+      };
+};
@@ -0,0 +1,1156 @@
+import type { CodegenNode } from './types';
+
+// Python rendering shared by the Airflow and Dagster generators: literals,
+// identifiers and the read/write/transform functions the tasks call. Heavy
+// client libraries are imported inside the functions so the scheduler can
+// parse the file without them.
+
+const PYTHON_KEYWORDS = new Set([
+  'False',
+  'None',
+  'True',
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'break',
+  'class',
+  'continue',
+  'def',
+  'del',
+  'elif',
+  'else',
+  'except',
+  'finally',
+  'for',
+  'from',
+  'global',
+  'if',
+  'import',
+  'in',
+  'is',
+  'lambda',
+  'nonlocal',
+  'not',
+  'or',
+  'pass',
+  'raise',
+  'return',
+  'try',
+  'while',
+  'with',
+  'yield',
+]);
+
+// Builtins the generated code calls, which a task/op must not shadow
+const PYTHON_BUILTINS = new Set([
+  'dict',
+  'filter',
+  'float',
+  'input',
+  'int',
+  'isinstance',
+  'len',
+  'list',
+  'open',
+  'str',
+  'tuple',
+]);
+
+// "source-Orders DB" -> "source_orders_db"
+export const toPythonIdentifier = (text: string): string => {
+  const identifier =
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '') || 'node';
+  if (/^\d/.test(identifier)) return `n_${identifier}`;
+  return PYTHON_KEYWORDS.has(identifier) || PYTHON_BUILTINS.has(identifier)
+    ? `${identifier}_`
+    : identifier;
+};
+
+// JSON string escapes are valid in Python string literals too
+export const pyString = (value: string) => JSON.stringify(value);
+
+// Render a JSON-like value as a Python literal, one dict entry per line
+export const pyLiteral = (value: unknown, indent = 0): string => {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'None';
+  }
+  if (typeof value === 'string') return pyString(value);
+
+  const pad = ' '.repeat(indent + 4);
+  const close = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map(item => pyLiteral(item, indent + 4));
+    const inline = `[${items.join(', ')}]`;
+    return inline.length <= 60 && !inline.includes('\n')
+      ? inline
+      : `[\n${items.map(item => `${pad}${item},`).join('\n')}\n${close}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries
+    .map(
+      ([key, item]) => `${pad}${pyString(key)}: ${pyLiteral(item, indent + 4)},`
+    )
+    .join('\n')}\n${close}}`;
+};
+
+// Module docstring; backslashes and triple quotes in user text are escaped
+export const pyDocstring = (lines: string[]) =>
+  `"""\n${lines
+    .join('\n')
+    .replace(/\\/g, '\\\\')
+    .replace(/"""/g, '\\"\\"\\"')}\n"""`;
+
+// Quote a value for the shell commands in the setup instructions
+export const shellQuote = (value: unknown) =>
+  `'${String(value).replace(/'/g, `'\\''`)}'`;
+
+// One line describing a node, used as the task/op docstring
+export const describeNode = (node: CodegenNode) =>
+  pyString(
+    node.type === 'transform'
+      ? `${node.name} (${node.settings.operation_type || 'passthrough'} transform)`
+      : `${node.name} (${node.connectorName} ${node.type})`
+  );
+
+// Parameters a task/op takes from its upstream nodes, the rows they add up
+// to, and the rows of each by node ID (what a transform is given)
+export const upstreamInputs = (node: CodegenNode) => {
+  const params = node.upstream.map(name => `${name}_rows`);
+  return {
+    params,
+    rows: params.length > 0 ? params.join(' + ') : '[]',
+    inputs: `{${params
+      .map((param, index) => `${pyString(node.upstreamIds[index])}: ${param}`)
+      .join(', ')}}`,
+  };
+};
+
+// "import csv\nimport json" for the standard library modules a file needs
+export const renderImports = (modules: string[]) =>
+  modules.map(module => `import ${module}`).join('\n');
+
+interface PythonSnippet {
+  code: string;
+  // Standard library modules used at module level
+  imports?: string[];
+  // Other snippets this one calls
+  helpers?: string[];
+  // pip packages the code needs at run time
+  packages?: string[];
+}
+
+const HELPERS: Record<string, PythonSnippet> = {
+  _columns: {
+    code: `def _columns(rows):
+    # Every key in first-seen order, so sparse rows still line up
+    return list(dict.fromkeys(key for row in rows for key in row))`,
+  },
+  _as_list: {
+    code: `def _as_list(value):
+    if isinstance(value, list):
+        return value
+    return [item.strip() for item in str(value).split(",") if item.strip()]`,
+  },
+  _records_at: {
+    code: `def _records_at(data, path):
+    # Follow a dotted path like "data.items" to the list of records
+    for key in filter(None, (path or "").split(".")):
+        data = data[key]
+    return data if isinstance(data, list) else [data]`,
+  },
+  _insert_rows: {
+    helpers: ['_columns'],
+    code: `def _insert_rows(cursor, table, rows, placeholder="%s"):
+    if not rows:
+        return
+    columns = _columns(rows)
+    cursor.executemany(
+        f"INSERT INTO {table} ({', '.join(columns)}) "
+        f"VALUES ({', '.join([placeholder] * len(columns))})",
+        [tuple(row.get(column) for column in columns) for row in rows],
+    )`,
+  },
+  _postgres_connect: {
+    packages: ['psycopg2-binary'],
+    code: `def _postgres_connect(cfg):
+    import psycopg2
+
+    return psycopg2.connect(
+        host=cfg["host"],
+        port=cfg["port"],
+        dbname=cfg["database"],
+        user=cfg["username"],
+        password=cfg["password"],
+    )`,
+  },
+  _mysql_connect: {
+    packages: ['pymysql'],
+    code: `def _mysql_connect(cfg):
+    import pymysql
+    import pymysql.cursors
+
+    return pymysql.connect(
+        host=cfg["host"],
+        port=int(cfg["port"]),
+        database=cfg["database"],
+        user=cfg["username"],
+        password=cfg["password"],
+        cursorclass=pymysql.cursors.DictCursor,
+    )`,
+  },
+  _snowflake_connect: {
+    packages: ['snowflake-connector-python'],
+    code: `def _snowflake_connect(cfg):
+    import snowflake.connector
+
+    return snowflake.connector.connect(
+        account=cfg["account"],
+        user=cfg["username"],
+        password=cfg["password"],
+        warehouse=cfg["warehouse"],
+        database=cfg["database"],
+        schema=cfg.get("schema", "PUBLIC"),
+        role=cfg.get("role"),
+    )`,
+  },
+  _bigquery_client: {
+    imports: ['json'],
+    packages: ['google-cloud-bigquery'],
+    code: `def _bigquery_client(cfg):
+    from google.cloud import bigquery
+    from google.oauth2 import service_account
+
+    credentials = service_account.Credentials.from_service_account_info(
+        json.loads(cfg["credentials_json"])
+    )
+    return bigquery.Client(project=cfg["project_id"], credentials=credentials)`,
+  },
+  _s3_client: {
+    packages: ['boto3'],
+    code: `def _s3_client(cfg):
+    import boto3
+
+    return boto3.client(
+        "s3",
+        region_name=cfg.get("region"),
+        aws_access_key_id=cfg["access_key_id"],
+        aws_secret_access_key=cfg["secret_access_key"],
+    )`,
+  },
+  _rest_headers: {
+    imports: ['json'],
+    code: `def _rest_headers(cfg):
+    headers = cfg.get("headers") or {}
+    headers = dict(json.loads(headers) if isinstance(headers, str) else headers)
+    if cfg.get("auth_token"):
+        headers["Authorization"] = f"Bearer {cfg['auth_token']}"
+    return headers`,
+  },
+  _salesforce_session: {
+    packages: ['requests'],
+    code: `def _salesforce_session(cfg):
+    import requests
+
+    # OAuth client credentials flow of the connected app
+    response = requests.post(
+        f"{cfg['instance_url'].rstrip('/')}/services/oauth2/token",
+        data={
+            "grant_type": "client_credentials",
+            "client_id": cfg["client_id"],
+            "client_secret": cfg["client_secret"],
+        },
+        timeout=60,
+    )
+    response.raise_for_status()
+    session = requests.Session()
+    session.headers["Authorization"] = f"Bearer {response.json()['access_token']}"
+    return session`,
+  },
+  _generic_engine: {
+    packages: ['sqlalchemy'],
+    code: `def _generic_engine(cfg):
+    import sqlalchemy
+
+    # SQLAlchemy URL; a "jdbc:" prefix is dropped
+    url = cfg["connection_string"]
+    return sqlalchemy.create_engine(url[5:] if url.startswith("jdbc:") else url)`,
+  },
+};
+
+// Reader and writer per connector, named read_<id> / write_<id>
+const CONNECTORS: Record<
+  string,
+  { read?: PythonSnippet; write?: PythonSnippet }
+> = {
+  csv: {
+    read: {
+      imports: ['csv'],
+      code: `def read_csv(cfg):
+    with open(cfg["file_path"], newline="", encoding="utf-8") as file:
+        return list(csv.DictReader(file, delimiter=cfg.get("delimiter", ",")))`,
+    },
+    write: {
+      imports: ['csv', 'os'],
+      helpers: ['_columns'],
+      code: `def write_csv(cfg, rows):
+    os.makedirs(os.path.dirname(cfg["file_path"]) or ".", exist_ok=True)
+    with open(cfg["file_path"], "w", newline="", encoding="utf-8") as file:
+        writer = csv.DictWriter(
+            file, fieldnames=_columns(rows), delimiter=cfg.get("delimiter", ",")
+        )
+        writer.writeheader()
+        writer.writerows(rows)`,
+    },
+  },
+  json_file: {
+    read: {
+      imports: ['json'],
+      code: `def read_json_file(cfg):
+    with open(cfg["file_path"], encoding="utf-8") as file:
+        data = json.load(file)
+    return data if isinstance(data, list) else [data]`,
+    },
+    write: {
+      imports: ['json', 'os'],
+      code: `def write_json_file(cfg, rows):
+    os.makedirs(os.path.dirname(cfg["file_path"]) or ".", exist_ok=True)
+    with open(cfg["file_path"], "w", encoding="utf-8") as file:
+        json.dump(rows, file, indent=2, default=str)`,
+    },
+  },
+  sqlite: {
+    read: {
+      imports: ['sqlite3'],
+      code: `def read_sqlite(cfg):
+    with sqlite3.connect(cfg["database_path"]) as conn:
+        conn.row_factory = sqlite3.Row
+        return [
+            dict(row) for row in conn.execute(f'SELECT * FROM "{cfg["table_name"]}"')
+        ]`,
+    },
+    write: {
+      imports: ['sqlite3'],
+      helpers: ['_columns', '_insert_rows'],
+      code: `def write_sqlite(cfg, rows):
+    if not rows:
+        return
+    table = f'"{cfg["table_name"]}"'
+    with sqlite3.connect(cfg["database_path"]) as conn:
+        columns = _columns(rows)
+        conn.execute(f"CREATE TABLE IF NOT EXISTS {table} ({', '.join(columns)})")
+        # Add any columns the existing table does not have yet
+        existing = {info[1] for info in conn.execute(f"PRAGMA table_info({table})")}
+        for column in columns:
+            if column not in existing:
+                conn.execute(f"ALTER TABLE {table} ADD COLUMN {column}")
+        _insert_rows(conn.cursor(), table, rows, placeholder="?")`,
+    },
+  },
+  postgres: {
+    read: {
+      helpers: ['_postgres_connect'],
+      code: `def read_postgres(cfg):
+    from psycopg2.extras import RealDictCursor
+
+    table = f"{cfg.get('schema', 'public')}.{cfg['table_name']}"
+    with _postgres_connect(cfg) as conn:
+        with conn.cursor(cursor_factory=RealDictCursor) as cursor:
+            cursor.execute(f"SELECT * FROM {table}")
+            return [dict(row) for row in cursor.fetchall()]`,
+    },
+    write: {
+      helpers: ['_postgres_connect', '_insert_rows'],
+      code: `def write_postgres(cfg, rows):
+    table = f"{cfg.get('schema', 'public')}.{cfg['table_name']}"
+    with _postgres_connect(cfg) as conn:
+        with conn.cursor() as cursor:
+            _insert_rows(cursor, table, rows)`,
+    },
+  },
+  mysql: {
+    read: {
+      helpers: ['_mysql_connect'],
+      code: `def read_mysql(cfg):
+    with _mysql_connect(cfg) as conn:
+        with conn.cursor() as cursor:
+            cursor.execute(f"SELECT * FROM {cfg['table_name']}")
+            return list(cursor.fetchall())`,
+    },
+    write: {
+      helpers: ['_mysql_connect', '_insert_rows'],
+      code: `def write_mysql(cfg, rows):
+    with _mysql_connect(cfg) as conn:
+        with conn.cursor() as cursor:
+            _insert_rows(cursor, cfg["table_name"], rows)
+        conn.commit()`,
+    },
+  },
+  snowflake: {
+    read: {
+      helpers: ['_snowflake_connect'],
+      code: `def read_snowflake(cfg):
+    from snowflake.connector import DictCursor
+
+    with _snowflake_connect(cfg) as conn:
+        with conn.cursor(DictCursor) as cursor:
+            cursor.execute(f"SELECT * FROM {cfg['table_name']}")
+            return cursor.fetchall()`,
+    },
+    write: {
+      helpers: ['_snowflake_connect', '_insert_rows'],
+      code: `def write_snowflake(cfg, rows):
+    with _snowflake_connect(cfg) as conn:
+        with conn.cursor() as cursor:
+            _insert_rows(cursor, cfg["table_name"], rows)`,
+    },
+  },
+  bigquery: {
+    read: {
+      helpers: ['_bigquery_client'],
+      code: `def read_bigquery(cfg):
+    table = f"{cfg['project_id']}.{cfg['dataset']}.{cfg['table_name']}"
+    rows = _bigquery_client(cfg).query(f"SELECT * FROM \`{table}\`").result()
+    return [dict(row) for row in rows]`,
+    },
+    write: {
+      imports: ['json'],
+      helpers: ['_bigquery_client'],
+      code: `def write_bigquery(cfg, rows):
+    if not rows:
+        return
+    table = f"{cfg['project_id']}.{cfg['dataset']}.{cfg['table_name']}"
+    # Round-trip through JSON so dates and decimals become strings
+    errors = _bigquery_client(cfg).insert_rows_json(
+        table, json.loads(json.dumps(rows, default=str))
+    )
+    if errors:
+        raise RuntimeError(f"BigQuery rejected rows: {errors[:5]}")`,
+    },
+  },
+  s3: {
+    read: {
+      imports: ['csv', 'io', 'json'],
+      helpers: ['_s3_client'],
+      code: `def read_s3(cfg):
+    client = _s3_client(cfg)
+    file_format = cfg.get("file_format", "csv")
+    rows = []
+    pages = client.get_paginator("list_objects_v2").paginate(
+        Bucket=cfg["bucket"], Prefix=cfg.get("prefix", "")
+    )
+    for page in pages:
+        for item in page.get("Contents", []):
+            if not item["Key"].endswith(f".{file_format}"):
+                continue
+            body = client.get_object(Bucket=cfg["bucket"], Key=item["Key"])["Body"].read()
+            if file_format == "csv":
+                rows.extend(csv.DictReader(io.StringIO(body.decode("utf-8"))))
+            elif file_format == "json":
+                data = json.loads(body)
+                rows.extend(data if isinstance(data, list) else [data])
+            else:
+                import pandas as pd
+
+                rows.extend(pd.read_parquet(io.BytesIO(body)).to_dict("records"))
+    return rows`,
+    },
+    write: {
+      imports: ['csv', 'io', 'json'],
+      helpers: ['_s3_client', '_columns'],
+      code: `def write_s3(cfg, rows):
+    from datetime import datetime, timezone
+
+    file_format = cfg.get("file_format", "csv")
+    key = f"{cfg.get('prefix', '')}{datetime.now(timezone.utc):%Y%m%dT%H%M%S}.{file_format}"
+    if file_format == "csv":
+        buffer = io.StringIO()
+        writer = csv.DictWriter(buffer, fieldnames=_columns(rows))
+        writer.writeheader()
+        writer.writerows(rows)
+        body = buffer.getvalue().encode("utf-8")
+    elif file_format == "json":
+        body = json.dumps(rows, default=str).encode("utf-8")
+    else:
+        import pandas as pd
+
+        buffer = io.BytesIO()
+        pd.DataFrame(rows).to_parquet(buffer, index=False)
+        body = buffer.getvalue()
+    _s3_client(cfg).put_object(Bucket=cfg["bucket"], Key=key, Body=body)`,
+    },
+  },
+  rest: {
+    read: {
+      helpers: ['_rest_headers', '_records_at'],
+      packages: ['requests'],
+      code: `def read_rest(cfg):
+    import requests
+
+    response = requests.request(
+        cfg.get("method", "GET"), cfg["url"], headers=_rest_headers(cfg), timeout=60
+    )
+    response.raise_for_status()
+    return _records_at(response.json(), cfg.get("records_path"))`,
+    },
+    write: {
+      helpers: ['_rest_headers'],
+      packages: ['requests'],
+      code: `def write_rest(cfg, rows):
+    import requests
+
+    method = cfg.get("method") if cfg.get("method") in ("POST", "PUT") else "POST"
+    response = requests.request(
+        method, cfg["url"], headers=_rest_headers(cfg), json=rows, timeout=60
+    )
+    response.raise_for_status()`,
+    },
+  },
+  shopify: {
+    read: {
+      helpers: ['_as_list'],
+      packages: ['requests'],
+      code: `def read_shopify(cfg):
+    import requests
+
+    rows = []
+    for resource in _as_list(cfg["resources"]):
+        endpoint = "inventory_levels" if resource == "inventory" else resource
+        url = (
+            f"{cfg['store_url'].rstrip('/')}/admin/api/"
+            f"{cfg.get('api_version', '2024-07')}/{endpoint}.json?limit=250"
+        )
+        while url:
+            response = requests.get(
+                url, headers={"X-Shopify-Access-Token": cfg["access_token"]}, timeout=60
+            )
+            response.raise_for_status()
+            rows.extend(response.json()[endpoint])
+            url = response.links.get("next", {}).get("url")
+    return rows`,
+    },
+  },
+  stripe: {
+    read: {
+      helpers: ['_as_list'],
+      packages: ['requests'],
+      code: `def read_stripe(cfg):
+    import requests
+
+    rows = []
+    for resource in _as_list(cfg["resources"]):
+        params = {"limit": 100}
+        while True:
+            response = requests.get(
+                f"https://api.stripe.com/v1/{resource}",
+                params=params,
+                auth=(cfg["api_key"], ""),
+                timeout=60,
+            )
+            response.raise_for_status()
+            page = response.json()
+            rows.extend(page["data"])
+            if not page.get("has_more"):
+                break
+            params["starting_after"] = page["data"][-1]["id"]
+    return rows`,
+    },
+  },
+  hubspot: {
+    read: {
+      helpers: ['_as_list'],
+      packages: ['requests'],
+      code: `def read_hubspot(cfg):
+    import requests
+
+    rows = []
+    for name in _as_list(cfg["objects"]):
+        params = {"limit": 100}
+        while True:
+            response = requests.get(
+                f"https://api.hubapi.com/crm/v3/objects/{name}",
+                params=params,
+                headers={"Authorization": f"Bearer {cfg['access_token']}"},
+                timeout=60,
+            )
+            response.raise_for_status()
+            page = response.json()
+            rows.extend(
+                {"id": record["id"], **record.get("properties", {})}
+                for record in page["results"]
+            )
+            after = page.get("paging", {}).get("next", {}).get("after")
+            if not after:
+                break
+            params["after"] = after
+    return rows`,
+    },
+  },
+  salesforce: {
+    read: {
+      helpers: ['_salesforce_session'],
+      code: `def read_salesforce(cfg):
+    session = _salesforce_session(cfg)
+    base_url = cfg["instance_url"].rstrip("/")
+    url = (
+        f"{base_url}/services/data/v60.0/query"
+        f"?q=SELECT+FIELDS(STANDARD)+FROM+{cfg['object_name']}"
+    )
+    rows = []
+    while url:
+        response = session.get(url, timeout=60)
+        response.raise_for_status()
+        page = response.json()
+        rows.extend(
+            {key: value for key, value in record.items() if key != "attributes"}
+            for record in page["records"]
+        )
+        url = f"{base_url}{page['nextRecordsUrl']}" if page.get("nextRecordsUrl") else None
+    return rows`,
+    },
+    write: {
+      helpers: ['_salesforce_session'],
+      code: `def write_salesforce(cfg, rows):
+    session = _salesforce_session(cfg)
+    url = (
+        f"{cfg['instance_url'].rstrip('/')}/services/data/v60.0/sobjects/"
+        f"{cfg['object_name']}/"
+    )
+    for row in rows:
+        session.post(url, json=row, timeout=60).raise_for_status()`,
+    },
+  },
+  mailchimp: {
+    write: {
+      imports: ['hashlib'],
+      packages: ['requests'],
+      code: `def write_mailchimp(cfg, rows):
+    import requests
+
+    # Upsert each row as an audience member; rows need an "email" column
+    base_url = (
+        f"https://{cfg['server_prefix']}.api.mailchimp.com/3.0/lists/"
+        f"{cfg['list_id']}/members"
+    )
+    for row in rows:
+        email = row["email"]
+        member_id = hashlib.md5(email.lower().encode("utf-8")).hexdigest()
+        response = requests.put(
+            f"{base_url}/{member_id}",
+            auth=("anystring", cfg["api_key"]),
+            json={"email_address": email, "status_if_new": "subscribed"},
+            timeout=60,
+        )
+        response.raise_for_status()`,
+    },
+  },
+  generic: {
+    read: {
+      helpers: ['_generic_engine'],
+      code: `def read_generic(cfg):
+    import sqlalchemy
+
+    with _generic_engine(cfg).connect() as conn:
+        result = conn.execute(sqlalchemy.text(f"SELECT * FROM {cfg['table_name']}"))
+        return [dict(row._mapping) for row in result]`,
+    },
+    write: {
+      helpers: ['_generic_engine'],
+      code: `def write_generic(cfg, rows):
+    import sqlalchemy
+
+    if not rows:
+        return
+    engine = _generic_engine(cfg)
+    table = sqlalchemy.Table(cfg["table_name"], sqlalchemy.MetaData(), autoload_with=engine)
+    with engine.begin() as conn:
+        conn.execute(table.insert(), rows)`,
+    },
+  },
+};
+
+// Same operations as the local pipeline runner
+const TRANSFORM: PythonSnippet = {
+  imports: ['datetime', 'json', 'operator', 're'],
+  helpers: ['_columns'],
+  code: `_OPERATORS = {
+    "=": operator.eq,
+    "!=": operator.ne,
+    ">": operator.gt,
+    "<": operator.lt,
+    ">=": operator.ge,
+    "<=": operator.le,
+}
+
+
+# Derived columns: +, -, *, / and parentheses over column names, numbers and
+# quoted strings; "+" joins anything that is not a number as text
+_TOKEN = re.compile(r"""\\s*(?:([A-Za-z_]\\w*)|\`([^\`]+)\`|(\\d+(?:\\.\\d+)?)|'((?:[^']|'')*)'|"((?:[^"]|"")*)"|([-+*/()]))""")
+
+
+def _is_numeric(value):
+    if isinstance(value, bool):
+        return False
+    if isinstance(value, (int, float)):
+        return True
+    try:
+        float(str(value).strip())
+    except ValueError:
+        return False
+    return str(value).strip() != ""
+
+
+def _number(value):
+    number = float(value)
+    return int(number) if number.is_integer() else number
+
+
+def _parse_expression(text):
+    tokens, position = [], 0
+    while text[position:].strip():
+        match = _TOKEN.match(text, position)
+        if not match:
+            raise ValueError(f'Unexpected "{text[position:].strip()[0]}" in "{text}"')
+        name, quoted, number, single, double, symbol = match.groups()
+        if name is not None or quoted is not None:
+            tokens.append(("column", name if name is not None else quoted))
+        elif number is not None:
+            tokens.append(("literal", _number(number)))
+        elif single is not None:
+            tokens.append(("literal", single.replace("''", "'")))
+        elif double is not None:
+            tokens.append(("literal", double.replace('""', '"')))
+        else:
+            tokens.append(("symbol", symbol))
+        position = match.end()
+    if not tokens:
+        raise ValueError("The expression is empty")
+    tokens.append(("end", None))
+    state = [0]
+
+    def take():
+        state[0] += 1
+        return tokens[state[0] - 1]
+
+    def factor():
+        kind, value = take()
+        if kind in ("column", "literal"):
+            return (kind, value)
+        if (kind, value) == ("symbol", "-"):
+            return ("negate", factor())
+        if (kind, value) == ("symbol", "("):
+            inner = parse_sum()
+            if take() != ("symbol", ")"):
+                raise ValueError(f'Missing ")" in "{text}"')
+            return inner
+        if kind == "end":
+            raise ValueError(f'"{text}" ends too early')
+        raise ValueError(f'Unexpected "{value}" in "{text}"')
+
+    def binary(operand, symbols):
+        def parse():
+            left = operand()
+            while tokens[state[0]][0] == "symbol" and tokens[state[0]][1] in symbols:
+                left = ("binary", take()[1], left, operand())
+            return left
+
+        return parse
+
+    parse_sum = binary(binary(factor, "*/"), "+-")
+    expression = parse_sum()
+    if tokens[state[0]][0] != "end":
+        raise ValueError(f'Unexpected "{tokens[state[0]][1]}" in "{text}"')
+    return expression
+
+
+def _evaluate(expression, row):
+    # Nulls propagate: a derived value is null when any column it uses is empty
+    kind = expression[0]
+    if kind == "column":
+        value = row.get(expression[1])
+        return None if value == "" else value
+    if kind == "literal":
+        return expression[1]
+    if kind == "negate":
+        value = _evaluate(expression[1], row)
+        if value is None:
+            return None
+        if not _is_numeric(value):
+            raise ValueError(f'"{value}" is not a number')
+        return -_number(value)
+    _, op, left, right = expression
+    left, right = _evaluate(left, row), _evaluate(right, row)
+    if left is None or right is None:
+        return None
+    if op == "+" and not (_is_numeric(left) and _is_numeric(right)):
+        return f"{left}{right}"
+    for value in (left, right):
+        if not _is_numeric(value):
+            raise ValueError(f'"{value}" is not a number')
+    a, b = _number(left), _number(right)
+    if op == "/":
+        return None if b == 0 else _number(a / b)
+    return _number({"+": a + b, "-": a - b, "*": a * b}[op])
+
+
+def _cast(value, kind, column):
+    if value is None or value == "":
+        return None
+    error = ValueError(f'Cannot cast "{value}" in column "{column}" to {kind}')
+    if kind == "string":
+        return json.dumps(value) if isinstance(value, (dict, list)) else str(value)
+    if kind in ("integer", "number"):
+        if not (_is_numeric(value) or isinstance(value, bool)):
+            raise error
+        number = _number(value)
+        if kind == "integer" and not isinstance(number, int):
+            raise error
+        return number
+    if kind == "boolean":
+        if isinstance(value, bool):
+            return value
+        text = str(value).strip().lower()
+        if text in ("true", "yes", "y", "1"):
+            return True
+        if text in ("false", "no", "n", "0"):
+            return False
+        raise error
+    if kind in ("date", "datetime"):
+        try:
+            if isinstance(value, (int, float)):
+                parsed = datetime.datetime.fromtimestamp(value / 1000, datetime.timezone.utc)
+            else:
+                parsed = datetime.datetime.fromisoformat(str(value).strip().replace("Z", "+00:00"))
+        except (ValueError, OverflowError):
+            raise error from None
+        return parsed.date().isoformat() if kind == "date" else parsed.isoformat()
+    if kind == "json":
+        if not isinstance(value, str):
+            return value
+        try:
+            return json.loads(value)
+        except ValueError:
+            raise error from None
+    raise ValueError(f'Unknown column type "{kind}"')
+
+
+def _map_columns(mapping, rows):
+    # Mapped columns first, then the ones the mapping does not mention
+    mentioned = {entry["source"] for entry in mapping if entry["action"] != "derive"}
+    expressions = {
+        entry["target"]: _parse_expression(entry["expression"])
+        for entry in mapping
+        if entry["action"] == "derive"
+    }
+    result = []
+    for row in rows:
+        output = {}
+        for entry in mapping:
+            cast = entry.get("cast")
+            if entry["action"] == "map":
+                value = row.get(entry["source"])
+                output[entry["target"]] = _cast(value, cast, entry["source"]) if cast else value
+            elif entry["action"] == "derive":
+                try:
+                    value = _evaluate(expressions[entry["target"]], row)
+                except ValueError as error:
+                    raise ValueError(f'Cannot derive "{entry["target"]}": {error}') from None
+                output[entry["target"]] = _cast(value, cast, entry["target"]) if cast else value
+        for column, value in row.items():
+            if column not in mentioned and column not in output:
+                output[column] = value
+        result.append(output)
+    return result
+
+
+def _text(value):
+    if value is None:
+        return ""
+    if isinstance(value, bool):
+        return "true" if value else "false"
+    if isinstance(value, (dict, list)):
+        return json.dumps(value)
+    return str(value)
+
+
+def _key(value):
+    # Join, group and duplicate keys: "1" from a CSV file matches 1 from a database
+    return str(_number(value)) if _is_numeric(value) else _text(value)
+
+
+def _empty(value):
+    return value is None or value == ""
+
+
+def _require(rows, columns, hint=""):
+    # Columns a step reads must exist in its input
+    if not rows:
+        return
+    present = _columns(rows)
+    missing = [column for column in dict.fromkeys(columns) if column not in present]
+    if missing:
+        names = ", ".join(f'"{column}"' for column in missing)
+        one = len(missing) == 1
+        raise ValueError(
+            f'{"Column" if one else "Columns"} {names} {"is" if one else "are"} '
+            f'not in the input ({", ".join(present)}){hint}'
+        )
+
+
+def _compare(op, left, right):
+    # Numbers compare as numbers, anything else as text
+    if _is_numeric(left) and _is_numeric(right):
+        return _OPERATORS[op](float(left), float(right))
+    return _OPERATORS[op](_text(left), _text(right))
+
+
+def _condition(condition):
+    kind = condition["kind"]
+    if kind == "compare":
+        left = _parse_expression(condition["left"])
+        right = _parse_expression(condition["right"])
+        return lambda row: _compare(condition["operator"], _evaluate(left, row), _evaluate(right, row))
+    if kind == "is_null":
+        operand = _parse_expression(condition["operand"])
+        return lambda row: (_evaluate(operand, row) is None) != condition["negated"]
+    if kind == "not":
+        test = _condition(condition["condition"])
+        return lambda row: not test(row)
+    tests = [_condition(part) for part in condition["conditions"]]
+    if kind == "and":
+        return lambda row: all(test(row) for test in tests)
+    return lambda row: any(test(row) for test in tests)
+
+
+def _expression_columns(expression):
+    kind = expression[0]
+    if kind == "column":
+        return [expression[1]]
+    if kind == "literal":
+        return []
+    if kind == "negate":
+        return _expression_columns(expression[1])
+    return _expression_columns(expression[2]) + _expression_columns(expression[3])
+
+
+def _condition_columns(condition):
+    kind = condition["kind"]
+    if kind == "compare":
+        return [
+            column
+            for operand in (condition["left"], condition["right"])
+            for column in _expression_columns(_parse_expression(operand))
+        ]
+    if kind == "is_null":
+        return _expression_columns(_parse_expression(condition["operand"]))
+    if kind == "not":
+        return _condition_columns(condition["condition"])
+    return [column for part in condition["conditions"] for column in _condition_columns(part)]
+
+
+def _aggregate(aggregate, rows):
+    fn, column = aggregate["function"], aggregate.get("column")
+    if column is None:
+        return len(rows)
+    values = [row.get(column) for row in rows if not _empty(row.get(column))]
+    if fn == "count":
+        return len(values)
+    if not values:
+        return None
+    if fn in ("sum", "avg"):
+        for value in values:
+            if not _is_numeric(value):
+                raise ValueError(f'Cannot {fn} "{_text(value)}" in column "{column}"')
+        total = sum(float(value) for value in values)
+        return _number(total if fn == "sum" else total / len(values))
+    rank = float if all(_is_numeric(value) for value in values) else _text
+    return (min if fn == "min" else max)(values, key=rank)
+
+
+def _run_step(step, rows, inputs):
+    op = step["op"]
+    if op == "filter":
+        _require(
+            rows,
+            _condition_columns(step["condition"]),
+            "; put text values in quotes, e.g. status = 'active'",
+        )
+        test = _condition(step["condition"])
+        return [row for row in rows if test(row)]
+    if op == "select":
+        _require(rows, step["columns"])
+        return [{column: row.get(column) for column in step["columns"]} for row in rows]
+    if op == "rename":
+        _require(rows, list(step["columns"]))
+        return [{step["columns"].get(key, key): value for key, value in row.items()} for row in rows]
+    if op == "cast":
+        _require(rows, list(step["columns"]))
+        return [
+            {**row, **{column: _cast(row.get(column), kind, column) for column, kind in step["columns"].items()}}
+            for row in rows
+        ]
+    if op == "aggregate":
+        group_by = step["group_by"]
+        _require(rows, group_by + [a["column"] for a in step["aggregates"] if a.get("column") is not None])
+        groups = {}
+        for row in rows:
+            groups.setdefault(tuple(_key(row.get(column)) for column in group_by), []).append(row)
+        # Without groups the whole input is one group, even when empty
+        if not group_by and not groups:
+            groups[()] = []
+        return [
+            {
+                **{column: group[0].get(column) for column in group_by},
+                **{a["target"]: _aggregate(a, group) for a in step["aggregates"]},
+            }
+            for group in groups.values()
+        ]
+    if op == "join":
+        right = inputs[step["with"]]
+        left_keys = [key["left"] for key in step["on"]]
+        right_keys = [key["right"] for key in step["on"]]
+        _require(rows, left_keys)
+        _require(right, right_keys)
+
+        def key_of(row, keys):
+            # Rows with an empty key never match, as in SQL
+            if any(_empty(row.get(key)) for key in keys):
+                return None
+            return tuple(_key(row.get(key)) for key in keys)
+
+        index = {}
+        for row in right:
+            key = key_of(row, right_keys)
+            if key is not None:
+                index.setdefault(key, []).append(row)
+        right_columns = _columns(right)
+        result = []
+        for row in rows:
+            key = key_of(row, left_keys)
+            matches = index.get(key, []) if key is not None else []
+            if not matches and step["how"] == "left":
+                result.append({**row, **{column: None for column in right_columns if column not in row}})
+            # Columns both sides have keep the value from the left
+            result.extend({**row, **{c: v for c, v in match.items() if c not in row}} for match in matches)
+        return result
+    if op == "dedupe":
+        _require(rows, step["columns"])
+        seen, result = set(), []
+        for row in rows:
+            if step["columns"]:
+                key = tuple(_key(row.get(column)) for column in step["columns"])
+            else:
+                key = tuple((column, _key(value)) for column, value in row.items())
+            if key not in seen:
+                seen.add(key)
+                result.append(row)
+        return result
+    if op == "derive":
+        expression = _parse_expression(step["expression"])
+        _require(rows, _expression_columns(expression))
+        cast = step.get("cast")
+        result = []
+        for row in rows:
+            try:
+                value = _evaluate(expression, row)
+            except ValueError as error:
+                raise ValueError(f'Cannot derive "{step["target"]}": {error}') from None
+            result.append({**row, step["target"]: _cast(value, cast, step["target"]) if cast else value})
+        return result
+    raise ValueError(f'Operation "{op}" is not supported')
+
+
+def apply_transform(cfg, inputs):
+    # inputs holds the rows of each upstream node by node ID, in connection
+    # order; all but the ones a join reads are concatenated
+    operation = str(cfg.get("operation_type") or "passthrough").strip().lower()
+    steps = cfg.get("steps") or []
+    joined = {step["with"] for step in steps if step["op"] == "join"}
+    rows = [row for node_id, node_rows in inputs.items() if node_id not in joined for row in node_rows]
+
+    if operation == "map":
+        return _map_columns(cfg.get("column_mapping") or [], rows)
+    if operation in ("passthrough", "none", "transform"):
+        return rows
+    if not steps:
+        raise ValueError(f'Operation "{operation}" is not supported')
+    for number, step in enumerate(steps, 1):
+        try:
+            rows = _run_step(step, rows, inputs)
+        except ValueError as error:
+            if len(steps) == 1:
+                raise
+            raise ValueError(f'Step {number} ({step["op"]}): {error}') from None
+    return rows`,
+};
+
+// Names the library defines, which node task/op names must not shadow
+export const LIBRARY_NAMES = [
+  ...Object.keys(HELPERS),
+  ...Object.entries(CONNECTORS).flatMap(([id, snippets]) => [
+    ...(snippets.read ? [`read_${id}`] : []),
+    ...(snippets.write ? [`write_${id}`] : []),
+  ]),
+  '_OPERATORS',
+  '_condition',
+  '_TOKEN',
+  '_is_numeric',
+  '_number',
+  '_parse_expression',
+  '_evaluate',
+  '_cast',
+  '_map_columns',
+  '_text',
+  '_key',
+  '_empty',
+  '_require',
+  '_compare',
+  '_expression_columns',
+  '_condition_columns',
+  '_aggregate',
+  '_run_step',
+  'apply_transform',
+];
+
+export const hasReader = (connector: string) => !!CONNECTORS[connector]?.read;
+export const hasWriter = (connector: string) => !!CONNECTORS[connector]?.write;
+
+// The functions the nodes call, with their helpers, module-level imports and
+// the pip packages they need
+export const renderLibrary = (nodes: CodegenNode[]) => {
+  const snippets: PythonSnippet[] = [];
+  const added = new Set<string>();
+
+  const add = (name: string, snippet: PythonSnippet) => {
+    if (added.has(name)) return;
+    added.add(name);
+    (snippet.helpers || []).forEach(helper => add(helper, HELPERS[helper]));
+    snippets.push(snippet);
+  };
+
+  nodes.forEach(node => {
+    if (node.type === 'transform') {
+      add('apply_transform', TRANSFORM);
+    } else if (node.type === 'source') {
+      add(node.callable, CONNECTORS[node.connector].read!);
+    } else {
+      add(node.callable, CONNECTORS[node.connector].write!);
+    }
+  });
+
+  const unique = (values: string[]) => [...new Set(values)].sort();
+  return {
+    code: snippets.map(snippet => snippet.code).join('\n\n\n'),
+    imports: unique(snippets.flatMap(snippet => snippet.imports || [])),
+    packages: unique(snippets.flatMap(snippet => snippet.packages || [])),
+  };
+};
@@ -0,0 +1,46 @@
+import type { DataFlowNode } from '../aiService';
+
+export type CodegenTarget = 'airflow' | 'dagster';
+
+// A node ready to be rendered as one Airflow task or Dagster op
+export interface CodegenNode {
+  id: string;
+  name: string;
+  type: DataFlowNode['type'];
+  // Registry connector ID, or 'generic' for connection-string nodes
+  connector: string;
+  connectorName: string;
+  // Python name of the task/op, unique within the file
+  functionName: string;
+  // Library function the task/op calls: read_*, write_* or apply_transform
+  callable: string;
+  // Configuration without credentials, rendered as a literal
+  settings: Record<string, any>;
+  // Credential fields, looked up when the task/op runs
+  secretFields: string[];
+  // Labels of the credential fields, for the setup instructions
+  secretLabels: Record<string, string>;
+  // functionName of each upstream node, in connection order
+  upstream: string[];
+  // ID of each upstream node, in the same order
+  upstreamIds: string[];
+}
+
+export interface CodegenWorkflow {
+  name: string;
+  // snake_case name for the DAG/job and for credential references
+  slug: string;
+  // Five-field cron expression, or null when the workflow runs on demand
+  schedule: string | null;
+  // IANA timezone the cron expression is read in
+  timezone: string;
+  // Dependency order
+  nodes: CodegenNode[];
+}
+
+export interface GeneratedCode {
+  target: CodegenTarget;
+  language: 'python';
+  file_name: string;
+  code: string;
+}
@@ -0,0 +1,525 @@
+import type { Row } from './localConnectors';
+
+// Structured configuration for "map" transforms: each entry keeps (and
+// optionally renames and casts), drops or derives one column. Input columns
+// the mapping does not mention pass through unchanged after the mapped ones.
+
+export const COLUMN_TYPES = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'datetime',
+  'json',
+] as const;
+
+export type ColumnType = (typeof COLUMN_TYPES)[number];
+
+export interface SchemaColumn {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+}
+
+export type ColumnMapping =
+  | { action: 'map'; source: string; target: string; cast?: ColumnType }
+  | { action: 'drop'; source: string }
+  | {
+      action: 'derive';
+      target: string;
+      expression: string;
+      cast?: ColumnType;
+    };
+
+export type ColumnMappingResult =
+  | { valid: true; value: ColumnMapping[] }
+  | { valid: false; error: string };
+
+// Derived columns are computed from the input row with +, -, *, / and
+// parentheses over column names, numbers and quoted strings. "+" adds
+// numbers and joins anything else as text.
+type Expression =
+  | { kind: 'column'; name: string }
+  | { kind: 'literal'; value: string | number }
+  | { kind: 'negate'; operand: Expression }
+  | {
+      kind: 'binary';
+      operator: '+' | '-' | '*' | '/';
+      left: Expression;
+      right: Expression;
+    };
+
+type Token =
+  | { kind: 'column'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'symbol'; value: string };
+
+const TOKEN_PATTERN =
+  /\s*(?:([A-Za-z_][A-Za-z0-9_]*)|`([^`]+)`|(\d+(?:\.\d+)?)|'((?:[^']|'')*)'|"((?:[^"]|"")*)"|([-+*/()]))/y;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < text.length) {
+    if (!text.slice(TOKEN_PATTERN.lastIndex).trim()) break;
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(
+        `Unexpected "${text.slice(start).trim()[0]}" in "${text}"`
+      );
+    }
+    const [, name, quotedName, number, single, double, symbol] = match;
+    if (name !== undefined || quotedName !== undefined) {
+      tokens.push({ kind: 'column', value: name ?? quotedName });
+    } else if (number !== undefined) {
+      tokens.push({ kind: 'number', value: Number(number) });
+    } else if (single !== undefined) {
+      tokens.push({ kind: 'string', value: single.replace(/''/g, "'") });
+    } else if (double !== undefined) {
+      tokens.push({ kind: 'string', value: double.replace(/""/g, '"') });
+    } else {
+      tokens.push({ kind: 'symbol', value: symbol });
+    }
+  }
+  return tokens;
+};
+
+export const parseExpression = (text: string): Expression => {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peekSymbol = (...symbols: string[]) => {
+    const token = tokens[position];
+    return token?.kind === 'symbol' && symbols.includes(token.value)
+      ? token.value
+      : undefined;
+  };
+
+  const parseFactor = (): Expression => {
+    const token = tokens[position++];
+    if (!token) throw new Error(`"${text}" ends too early`);
+    switch (token.kind) {
+      case 'column':
+        return { kind: 'column', name: token.value };
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'symbol':
+        if (token.value === '-') {
+          return { kind: 'negate', operand: parseFactor() };
+        }
+        if (token.value === '(') {
+          const inner = parseSum();
+          if (!peekSymbol(')')) {
+            throw new Error(`Missing ")" in "${text}"`);
+          }
+          position++;
+          return inner;
+        }
+        throw new Error(`Unexpected "${token.value}" in "${text}"`);
+    }
+  };
+
+  const parseProduct = (): Expression => {
+    let left = parseFactor();
+    let operator: string | undefined;
+    while ((operator = peekSymbol('*', '/'))) {
+      position++;
+      left = {
+        kind: 'binary',
+        operator: operator as '*' | '/',
+        left,
+        right: parseFactor(),
+      };
+    }
+    return left;
+  };
+
+  const parseSum = (): Expression => {
+    let left = parseProduct();
+    let operator: string | undefined;
+    while ((operator = peekSymbol('+', '-'))) {
+      position++;
+      left = {
+        kind: 'binary',
+        operator: operator as '+' | '-',
+        left,
+        right: parseProduct(),
+      };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) throw new Error('The expression is empty');
+  const expression = parseSum();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`Unexpected "${token.value}" in "${text}"`);
+  }
+  return expression;
+};
+
+const isNumeric = (value: unknown): boolean =>
+  typeof value === 'number' ||
+  (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+
+// Nulls propagate: a derived value is null when any column it uses is empty
+export const evaluateExpression = (
+  expression: Expression,
+  row: Row
+): unknown => {
+  switch (expression.kind) {
+    case 'column': {
+      const value = row[expression.name];
+      return value === undefined || value === '' ? null : value;
+    }
+    case 'literal':
+      return expression.value;
+    case 'negate': {
+      const value = evaluateExpression(expression.operand, row);
+      if (value === null) return null;
+      if (!isNumeric(value)) throw new Error(`"${value}" is not a number`);
+      return -Number(value);
+    }
+    case 'binary': {
+      const left = evaluateExpression(expression.left, row);
+      const right = evaluateExpression(expression.right, row);
+      if (left === null || right === null) return null;
+      if (
+        expression.operator === '+' &&
+        !(isNumeric(left) && isNumeric(right))
+      ) {
+        return `${left}${right}`;
+      }
+      [left, right].forEach(value => {
+        if (!isNumeric(value)) throw new Error(`"${value}" is not a number`);
+      });
+      const [a, b] = [Number(left), Number(right)];
+      switch (expression.operator) {
+        case '+':
+          return a + b;
+        case '-':
+          return a - b;
+        case '*':
+          return a * b;
+        case '/':
+          return b === 0 ? null : a / b;
+      }
+    }
+  }
+};
+
+// Columns an expression reads
+export const expressionColumns = (expression: Expression): string[] => {
+  switch (expression.kind) {
+    case 'column':
+      return [expression.name];
+    case 'literal':
+      return [];
+    case 'negate':
+      return expressionColumns(expression.operand);
+    case 'binary':
+      return [
+        ...expressionColumns(expression.left),
+        ...expressionColumns(expression.right),
+      ];
+  }
+};
+
+// The type an expression produces, given the types of the input columns
+export const expressionType = (
+  expression: Expression,
+  columns: SchemaColumn[]
+): ColumnType => {
+  switch (expression.kind) {
+    case 'column':
+      return (
+        columns.find(column => column.name === expression.name)?.type ||
+        'string'
+      );
+    case 'literal':
+      if (typeof expression.value === 'string') return 'string';
+      return Number.isInteger(expression.value) ? 'integer' : 'number';
+    case 'negate':
+      return expressionType(expression.operand, columns) === 'integer'
+        ? 'integer'
+        : 'number';
+    case 'binary': {
+      const types = [
+        expressionType(expression.left, columns),
+        expressionType(expression.right, columns),
+      ];
+      const numeric = types.every(
+        type => type === 'integer' || type === 'number'
+      );
+      if (expression.operator === '+' && !numeric) return 'string';
+      if (expression.operator === '/') return 'number';
+      return types.every(type => type === 'integer') ? 'integer' : 'number';
+    }
+  }
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Convert a value to a column type; empty values become null
+export const castValue = (
+  value: unknown,
+  type: ColumnType,
+  column: string
+): unknown => {
+  if (value === null || value === undefined || value === '') return null;
+
+  const fail = () => {
+    const shown = typeof value === 'object' ? JSON.stringify(value) : value;
+    return new Error(`Cannot cast "${shown}" in column "${column}" to ${type}`);
+  };
+
+  switch (type) {
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'integer':
+    case 'number': {
+      if (!isNumeric(value) && typeof value !== 'boolean') throw fail();
+      const number = Number(value);
+      if (type === 'integer' && !Number.isInteger(number)) throw fail();
+      return number;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return true;
+      if (FALSE_VALUES.includes(text)) return false;
+      throw fail();
+    }
+    case 'date':
+    case 'datetime': {
+      const date = new Date(
+        typeof value === 'number' ? value : String(value).trim()
+      );
+      if (isNaN(date.getTime())) throw fail();
+      const iso = date.toISOString();
+      return type === 'date' ? iso.slice(0, 10) : iso;
+    }
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw fail();
+      }
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isName = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+// Check a mapping built in the drawer or typed as JSON, filling in the
+// target of unrenamed columns
+export const validateColumnMapping = (value: unknown): ColumnMappingResult => {
+  const fail = (error: string): ColumnMappingResult => ({
+    valid: false,
+    error,
+  });
+  if (!Array.isArray(value) || value.length === 0) {
+    return fail(
+      'The column mapping needs at least one entry, e.g. [{"action": "map", "source": "id", "target": "order_id"}].'
+    );
+  }
+
+  const mapping: ColumnMapping[] = [];
+  const sources = new Set<string>();
+  const targets = new Set<string>();
+  for (const [index, entry] of value.entries()) {
+    const where = `Mapping entry ${index + 1}`;
+    if (!isObject(entry)) return fail(`${where} must be an object`);
+    if (
+      entry.cast !== undefined &&
+      entry.cast !== null &&
+      !COLUMN_TYPES.includes(entry.cast)
+    ) {
+      return fail(
+        `${where} casts to "${entry.cast}"; use one of: ${COLUMN_TYPES.join(', ')}`
+      );
+    }
+    const cast: ColumnType | undefined = entry.cast || undefined;
+
+    if (entry.action === 'map' || entry.action === 'drop') {
+      if (!isName(entry.source))
+        return fail(`${where} needs a "source" column`);
+      const source = entry.source.trim();
+      if (sources.has(source)) {
+        return fail(`Column "${source}" is mapped more than once`);
+      }
+      sources.add(source);
+      if (entry.action === 'drop') {
+        mapping.push({ action: 'drop', source });
+        continue;
+      }
+      const target = isName(entry.target) ? entry.target.trim() : source;
+      if (targets.has(target)) {
+        return fail(`Column "${target}" is produced more than once`);
+      }
+      targets.add(target);
+      mapping.push({ action: 'map', source, target, ...(cast && { cast }) });
+    } else if (entry.action === 'derive') {
+      if (!isName(entry.target))
+        return fail(`${where} needs a "target" column`);
+      const target = entry.target.trim();
+      if (targets.has(target)) {
+        return fail(`Column "${target}" is produced more than once`);
+      }
+      targets.add(target);
+      if (!isName(entry.expression)) {
+        return fail(`${where} needs an "expression"`);
+      }
+      try {
+        parseExpression(entry.expression);
+      } catch (error) {
+        return fail(
+          `${where}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      mapping.push({
+        action: 'derive',
+        target,
+        expression: entry.expression.trim(),
+        ...(cast && { cast }),
+      });
+    } else {
+      return fail(`${where} needs an "action" of map, drop or derive`);
+    }
+  }
+
+  return { valid: true, value: mapping };
+};
+
+// A schema declared on a source or destination, as {"column": "type"}
+export const validateDeclaredSchema = (
+  value: unknown
+):
+  | { valid: true; value: Record<string, ColumnType> }
+  | { valid: false; error: string } => {
+  if (!isObject(value) || Object.keys(value).length === 0) {
+    return {
+      valid: false,
+      error:
+        'The schema needs to be a JSON object of column types, e.g. {"id": "integer", "email": "string"}.',
+    };
+  }
+  const invalid = Object.entries(value).find(
+    ([, type]) => !COLUMN_TYPES.includes(type)
+  );
+  if (invalid) {
+    return {
+      valid: false,
+      error: `Column "${invalid[0]}" has type "${invalid[1]}"; use one of: ${COLUMN_TYPES.join(', ')}`,
+    };
+  }
+  return { valid: true, value: value as Record<string, ColumnType> };
+};
+
+const mentionedSources = (mapping: ColumnMapping[]) =>
+  new Set(
+    mapping.flatMap(entry => (entry.action === 'derive' ? [] : [entry.source]))
+  );
+
+export const applyColumnMapping = (
+  rows: Row[],
+  mapping: ColumnMapping[]
+): Row[] => {
+  const mentioned = mentionedSources(mapping);
+  const expressions = new Map(
+    mapping.flatMap(entry =>
+      entry.action === 'derive'
+        ? [[entry.target, parseExpression(entry.expression)] as const]
+        : []
+    )
+  );
+
+  return rows.map(row => {
+    const output: Row = {};
+    mapping.forEach(entry => {
+      if (entry.action === 'map') {
+        const value = row[entry.source];
+        output[entry.target] = entry.cast
+          ? castValue(value, entry.cast, entry.source)
+          : value;
+      } else if (entry.action === 'derive') {
+        let value: unknown;
+        try {
+          value = evaluateExpression(expressions.get(entry.target)!, row);
+        } catch (error) {
+          throw new Error(
+            `Cannot derive "${entry.target}": ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+        output[entry.target] = entry.cast
+          ? castValue(value, entry.cast, entry.target)
+          : value;
+      }
+    });
+    Object.keys(row)
+      .filter(column => !mentioned.has(column) && !(column in output))
+      .forEach(column => (output[column] = row[column]));
+    return output;
+  });
+};
+
+// The columns a mapping produces from the given input columns
+export const mapSchema = (
+  columns: SchemaColumn[],
+  mapping: ColumnMapping[]
+): SchemaColumn[] => {
+  const mentioned = mentionedSources(mapping);
+  const output: SchemaColumn[] = [];
+  mapping.forEach(entry => {
+    if (entry.action === 'map') {
+      const input = columns.find(column => column.name === entry.source);
+      output.push({
+        name: entry.target,
+        type: entry.cast || input?.type || 'string',
+        nullable: input?.nullable ?? true,
+      });
+    } else if (entry.action === 'derive') {
+      const expression = parseExpression(entry.expression);
+      output.push({
+        name: entry.target,
+        type: entry.cast || expressionType(expression, columns),
+        nullable: expressionColumns(expression).some(
+          name => columns.find(column => column.name === name)?.nullable ?? true
+        ),
+      });
+    }
+  });
+  columns
+    .filter(
+      column =>
+        !mentioned.has(column.name) &&
+        !output.some(existing => existing.name === column.name)
+    )
+    .forEach(column => output.push(column));
+  return output;
+};
+
+// One readable line per entry, e.g. "id → order_id as integer"
+export const describeColumnMapping = (mapping: ColumnMapping[]): string[] =>
+  mapping.map(entry => {
+    const cast = 'cast' in entry && entry.cast ? ` as ${entry.cast}` : '';
+    switch (entry.action) {
+      case 'map':
+        return entry.source === entry.target
+          ? `${entry.cast ? 'cast' : 'keep'} ${entry.source}${cast}`
+          : `${entry.source} → ${entry.target}${cast}`;
+      case 'drop':
+        return `drop ${entry.source}`;
+      case 'derive':
+        return `${entry.target} = ${entry.expression}${cast}`;
+    }
+  });
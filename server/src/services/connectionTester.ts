@@ -0,0 +1,268 @@
+import { constants, promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import type { DataFlowNode } from './aiService';
+import {
+  openSqlite,
+  resolveLocalTarget,
+  type LocalTarget,
+} from './localConnectors';
+import { getSecretFields, redactSecrets, revealNodeSecrets } from './secrets';
+
+export interface ConnectionTestResult {
+  node_id: string;
+  ok: boolean;
+  latency_ms: number;
+  // Tables (or files) the connection can see, when the check can list them
+  tables?: string[];
+  // Readable summary on success, the reason on failure
+  message: string;
+  tested_at: string;
+}
+
+const TEST_TIMEOUT_MS = 5000;
+
+// Default ports for database URIs without an explicit one
+const DEFAULT_PORTS: Record<string, number> = {
+  postgres: 5432,
+  postgresql: 5432,
+  mysql: 3306,
+  mariadb: 3306,
+  sqlserver: 1433,
+  mongodb: 27017,
+  redis: 6379,
+};
+
+type Check = () => Promise<{ message: string; tables?: string[] }>;
+
+// Tests reach hosts from the server, on behalf of whoever uses the app. By
+// default any host may be tested, which suits a server run locally; a shared
+// server should list the hosts it may reach in CONNECTION_TEST_HOSTS.
+const getAllowedHosts = () =>
+  process.env.CONNECTION_TEST_HOSTS?.split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const assertHostAllowed = (host: string) => {
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts && !allowedHosts.includes(host.toLowerCase())) {
+    throw new Error(
+      `${host} is not one of the hosts this server may test (CONNECTION_TEST_HOSTS)`
+    );
+  }
+};
+
+// Open a TCP connection; enough to tell a typo'd host or a stopped container
+// from a listening database
+const probeTcp = (host: string, port: number) =>
+  new Promise<void>((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(TEST_TIMEOUT_MS);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`Timed out connecting to ${host}:${port}`));
+    });
+    socket.once('error', (error: NodeJS.ErrnoException) => {
+      socket.destroy();
+      reject(
+        new Error(
+          error.code === 'ECONNREFUSED'
+            ? `Nothing is listening on ${host}:${port}`
+            : error.code === 'ENOTFOUND'
+              ? `Host ${host} could not be resolved`
+              : error.message
+        )
+      );
+    });
+  });
+
+const checkDatabaseHost =
+  (host: string, port: number, label: string): Check =>
+  async () => {
+    assertHostAllowed(host);
+    await probeTcp(host, port);
+    return {
+      message: `${label} is reachable at ${host}:${port}. Only the port was checked; listing tables needs a ${label} driver on the server.`,
+    };
+  };
+
+const checkHttp =
+  (url: string, headers: Record<string, string> = {}): Check =>
+  async () => {
+    assertHostAllowed(new URL(url).hostname);
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+      // A redirect could lead outside the allowed hosts
+      redirect: getAllowedHosts() ? 'error' : 'follow',
+    });
+    if (!response.ok) {
+      throw new Error(
+        `${url} responded with ${response.status} ${response.statusText}`
+      );
+    }
+    return { message: `${url} responded with ${response.status}` };
+  };
+
+// Sources must exist; destinations only need a writable directory
+const checkLocalTarget =
+  (target: LocalTarget, isDestination: boolean): Check =>
+  async () => {
+    const exists = await fs
+      .access(target.path, constants.R_OK)
+      .then(() => true)
+      .catch(() => false);
+
+    if (!exists) {
+      if (!isDestination) {
+        throw new Error(`${target.path} does not exist or is not readable`);
+      }
+      await fs.access(path.dirname(target.path), constants.W_OK).catch(() => {
+        throw new Error(`${path.dirname(target.path)} is not writable`);
+      });
+      return {
+        message: `${target.path} will be created on the first run`,
+        tables: target.kind === 'sqlite' ? [] : undefined,
+      };
+    }
+
+    if (target.kind !== 'sqlite') {
+      return {
+        message: `${target.path} is readable`,
+        tables: [path.basename(target.path)],
+      };
+    }
+
+    const db = await openSqlite(target.path);
+    try {
+      const [result] = db.exec(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+      );
+      const tables = (result?.values || []).map(([name]) => String(name));
+      if (!isDestination && !tables.includes(target.table)) {
+        throw new Error(
+          `Table "${target.table}" was not found in ${target.path}`
+        );
+      }
+      return {
+        message: `Opened ${target.path} (${tables.length} table${tables.length === 1 ? '' : 's'})`,
+        tables,
+      };
+    } finally {
+      db.close();
+    }
+  };
+
+// Generic nodes: a database URI, or a local file the runner can read
+const checkConnectionString = (node: DataFlowNode, location: string): Check => {
+  const uri = location.replace(/^jdbc:/i, '');
+  const scheme = uri.match(/^([a-z][a-z0-9+.-]*):\/\//i)?.[1].toLowerCase();
+
+  if (scheme === 'http' || scheme === 'https') {
+    return checkHttp(uri);
+  }
+
+  if (scheme && DEFAULT_PORTS[scheme]) {
+    const url = new URL(uri);
+    return checkDatabaseHost(
+      url.hostname,
+      Number(url.port) || DEFAULT_PORTS[scheme],
+      scheme
+    );
+  }
+
+  return checkLocalTarget(
+    resolveLocalTarget(node),
+    node.type === 'destination'
+  );
+};
+
+// Pick the check that fits the node's connector
+const getCheck = (node: DataFlowNode): Check => {
+  const config = node.config || {};
+
+  switch (node.connector) {
+    case 'postgres':
+    case 'mysql': {
+      const port = Number(config.port);
+      if (!config.host) {
+        throw new Error(`${node.name} has no host to test yet`);
+      }
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(
+          config.port
+            ? `${node.name} has an invalid port: ${config.port}`
+            : `${node.name} has no port to test yet`
+        );
+      }
+      return checkDatabaseHost(
+        String(config.host),
+        port,
+        node.connector === 'postgres' ? 'PostgreSQL' : 'MySQL'
+      );
+    }
+    case 'rest':
+      if (!config.url) {
+        throw new Error(`${node.name} has no URL to test yet`);
+      }
+      return checkHttp(
+        String(config.url),
+        config.headers ? JSON.parse(String(config.headers)) : {}
+      );
+    case 'csv':
+    case 'json_file':
+    case 'sqlite':
+      return checkLocalTarget(
+        resolveLocalTarget(node),
+        node.type === 'destination'
+      );
+    case undefined:
+      if (config.connection_string) {
+        return checkConnectionString(node, String(config.connection_string));
+      }
+      throw new Error(`${node.name} has no connection details to test yet`);
+    default:
+      throw new Error(
+        `Testing ${node.connector} connections is not supported yet; only local files, SQLite, PostgreSQL, MySQL and HTTP endpoints can be tested.`
+      );
+  }
+};
+
+// Try to reach whatever the node points at, using its decrypted credentials
+export const testNodeConnection = async (
+  node: DataFlowNode
+): Promise<ConnectionTestResult> => {
+  const resolvedNode = revealNodeSecrets(node);
+  const startedAt = Date.now();
+
+  const result = (ok: boolean, message: string, tables?: string[]) => ({
+    node_id: node.id,
+    ok,
+    latency_ms: Date.now() - startedAt,
+    ...(tables && { tables }),
+    message,
+    tested_at: new Date().toISOString(),
+  });
+
+  if (node.type === 'transform') {
+    return result(false, 'Transforms have no connection to test');
+  }
+
+  try {
+    const { message, tables } = await getCheck(resolvedNode)();
+    return result(true, message, tables);
+  } catch (error) {
+    // Connection errors can echo credentials back, so scrub them
+    const message = redactSecrets(
+      error instanceof Error ? error.message : String(error),
+      getSecretFields(resolvedNode).map(fieldName =>
+        String(resolvedNode.config?.[fieldName] ?? '')
+      )
+    );
+    return result(false, message);
+  }
+};
@@ -0,0 +1,802 @@
+import type { DataFlowNode } from './aiService';
+import {
+  isStepOperation,
+  parseStepParameters,
+  STEP_EXAMPLES,
+  STEP_OPERATIONS,
+} from './transformDsl';
+
+// Server-side connector registry. Each connector declares the fields the
+// assistant has to collect before a node using it is fully configured.
+
+export type FieldType =
+  | 'string'
+  | 'text'
+  | 'number'
+  | 'boolean'
+  | 'url'
+  | 'hostname'
+  | 'port'
+  | 'identifier'
+  | 'path'
+  | 'connection_string'
+  | 'json'
+  | 'enum'
+  | 'multienum'
+  | 'column_mapping'
+  | 'column_schema'
+  | 'transform_parameters'
+  | 'transform_script';
+
+export interface ConnectorField {
+  name: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  secret?: boolean;
+  default?: string | number | boolean;
+  example?: string;
+  options?: string[];
+  description?: string;
+}
+
+export type ConnectorRole = 'source' | 'destination';
+
+export interface ConnectorDefinition {
+  id: string;
+  name: string;
+  category: 'saas' | 'database' | 'warehouse' | 'storage' | 'api' | 'file';
+  roles: ConnectorRole[];
+  keywords: string[];
+  // True when the local pipeline runner can execute this connector
+  local?: boolean;
+  fields: ConnectorField[];
+}
+
+const tableNameField: ConnectorField = {
+  name: 'table_name',
+  label: 'Table name',
+  type: 'identifier',
+  required: true,
+  example: 'orders',
+};
+
+export const CONNECTORS: ConnectorDefinition[] = [
+  {
+    id: 'shopify',
+    name: 'Shopify',
+    category: 'saas',
+    roles: ['source'],
+    keywords: ['shopify'],
+    fields: [
+      {
+        name: 'store_url',
+        label: 'Store URL',
+        type: 'url',
+        required: true,
+        example: 'https://mystore.myshopify.com',
+      },
+      {
+        name: 'access_token',
+        label: 'Admin API access token',
+        type: 'string',
+        required: true,
+        secret: true,
+        example: 'shpat_xxxxxxxxxxxx',
+      },
+      {
+        name: 'resources',
+        label: 'Resources',
+        type: 'multienum',
+        required: true,
+        options: ['orders', 'products', 'customers', 'inventory'],
+        example: 'orders, customers',
+      },
+      {
+        name: 'api_version',
+        label: 'API version',
+        type: 'string',
+        required: false,
+        default: '2024-07',
+      },
+    ],
+  },
+  {
+    id: 'salesforce',
+    name: 'Salesforce',
+    category: 'saas',
+    roles: ['source', 'destination'],
+    keywords: ['salesforce', 'sfdc'],
+    fields: [
+      {
+        name: 'instance_url',
+        label: 'Instance URL',
+        type: 'url',
+        required: true,
+        example: 'https://mycompany.my.salesforce.com',
+      },
+      {
+        name: 'client_id',
+        label: 'Connected app client ID',
+        type: 'string',
+        required: true,
+        example: '3MVG9...',
+      },
+      {
+        name: 'client_secret',
+        label: 'Connected app client secret',
+        type: 'string',
+        required: true,
+        secret: true,
+      },
+      {
+        name: 'object_name',
+        label: 'Object',
+        type: 'identifier',
+        required: true,
+        example: 'Account',
+      },
+    ],
+  },
+  {
+    id: 'stripe',
+    name: 'Stripe',
+    category: 'saas',
+    roles: ['source'],
+    keywords: ['stripe'],
+    fields: [
+      {
+        name: 'api_key',
+        label: 'Secret API key',
+        type: 'string',
+        required: true,
+        secret: true,
+        example: 'sk_live_xxxxxxxxxxxx',
+      },
+      {
+        name: 'resources',
+        label: 'Resources',
+        type: 'multienum',
+        required: true,
+        options: ['charges', 'customers', 'invoices', 'subscriptions'],
+        example: 'charges, customers',
+      },
+    ],
+  },
+  {
+    id: 'hubspot',
+    name: 'HubSpot',
+    category: 'saas',
+    roles: ['source'],
+    keywords: ['hubspot'],
+    fields: [
+      {
+        name: 'access_token',
+        label: 'Private app access token',
+        type: 'string',
+        required: true,
+        secret: true,
+        example: 'pat-na1-xxxxxxxx',
+      },
+      {
+        name: 'objects',
+        label: 'Objects',
+        type: 'multienum',
+        required: true,
+        options: ['contacts', 'companies', 'deals', 'tickets'],
+        example: 'contacts, deals',
+      },
+    ],
+  },
+  {
+    id: 'mailchimp',
+    name: 'Mailchimp',
+    category: 'saas',
+    roles: ['destination'],
+    keywords: ['mailchimp'],
+    fields: [
+      {
+        name: 'api_key',
+        label: 'API key',
+        type: 'string',
+        required: true,
+        secret: true,
+        example: 'xxxxxxxxxxxxxxxx-us21',
+      },
+      {
+        name: 'server_prefix',
+        label: 'Server prefix',
+        type: 'identifier',
+        required: true,
+        example: 'us21',
+      },
+      {
+        name: 'list_id',
+        label: 'Audience (list) ID',
+        type: 'identifier',
+        required: true,
+        example: 'a1b2c3d4e5',
+      },
+    ],
+  },
+  {
+    id: 'postgres',
+    name: 'PostgreSQL',
+    category: 'database',
+    roles: ['source', 'destination'],
+    keywords: ['postgres', 'postgresql', 'psql'],
+    fields: [
+      {
+        name: 'host',
+        label: 'Host',
+        type: 'hostname',
+        required: true,
+        example: 'db.internal',
+      },
+      {
+        name: 'port',
+        label: 'Port',
+        type: 'port',
+        required: true,
+        default: 5432,
+      },
+      {
+        name: 'database',
+        label: 'Database',
+        type: 'identifier',
+        required: true,
+        example: 'analytics',
+      },
+      {
+        name: 'username',
+        label: 'Username',
+        type: 'string',
+        required: true,
+        example: 'etl_user',
+      },
+      {
+        name: 'password',
+        label: 'Password',
+        type: 'string',
+        required: true,
+        secret: true,
+      },
+      {
+        name: 'schema',
+        label: 'Schema',
+        type: 'identifier',
+        required: false,
+        default: 'public',
+      },
+      tableNameField,
+    ],
+  },
+  {
+    id: 'mysql',
+    name: 'MySQL',
+    category: 'database',
+    roles: ['source', 'destination'],
+    keywords: ['mysql', 'mariadb'],
+    fields: [
+      {
+        name: 'host',
+        label: 'Host',
+        type: 'hostname',
+        required: true,
+        example: 'mysql.internal',
+      },
+      {
+        name: 'port',
+        label: 'Port',
+        type: 'port',
+        required: true,
+        default: 3306,
+      },
+      {
+        name: 'database',
+        label: 'Database',
+        type: 'identifier',
+        required: true,
+        example: 'shop',
+      },
+      {
+        name: 'username',
+        label: 'Username',
+        type: 'string',
+        required: true,
+        example: 'etl_user',
+      },
+      {
+        name: 'password',
+        label: 'Password',
+        type: 'string',
+        required: true,
+        secret: true,
+      },
+      tableNameField,
+    ],
+  },
+  {
+    id: 'snowflake',
+    name: 'Snowflake',
+    category: 'warehouse',
+    roles: ['source', 'destination'],
+    keywords: ['snowflake'],
+    fields: [
+      {
+        name: 'account',
+        label: 'Account identifier',
+        type: 'string',
+        required: true,
+        example: 'xy12345.us-east-1',
+      },
+      {
+        name: 'warehouse',
+        label: 'Warehouse',
+        type: 'identifier',
+        required: true,
+        example: 'COMPUTE_WH',
+      },
+      {
+        name: 'database',
+        label: 'Database',
+        type: 'identifier',
+        required: true,
+        example: 'ANALYTICS',
+      },
+      {
+        name: 'schema',
+        label: 'Schema',
+        type: 'identifier',
+        required: true,
+        default: 'PUBLIC',
+      },
+      {
+        name: 'username',
+        label: 'Username',
+        type: 'string',
+        required: true,
+        example: 'LOADER',
+      },
+      {
+        name: 'password',
+        label: 'Password',
+        type: 'string',
+        required: true,
+        secret: true,
+      },
+      {
+        name: 'role',
+        label: 'Role',
+        type: 'identifier',
+        required: false,
+        example: 'TRANSFORMER',
+      },
+      { ...tableNameField, example: 'ORDERS' },
+    ],
+  },
+  {
+    id: 'bigquery',
+    name: 'BigQuery',
+    category: 'warehouse',
+    roles: ['source', 'destination'],
+    keywords: ['bigquery', 'big query', 'gcp'],
+    fields: [
+      {
+        name: 'project_id',
+        label: 'Project ID',
+        type: 'string',
+        required: true,
+        example: 'my-gcp-project',
+      },
+      {
+        name: 'dataset',
+        label: 'Dataset',
+        type: 'identifier',
+        required: true,
+        example: 'analytics',
+      },
+      tableNameField,
+      {
+        name: 'credentials_json',
+        label: 'Service account key (JSON)',
+        type: 'json',
+        required: true,
+        secret: true,
+        example: '{"type": "service_account", ...}',
+      },
+    ],
+  },
+  {
+    id: 's3',
+    name: 'Amazon S3',
+    category: 'storage',
+    roles: ['source', 'destination'],
+    keywords: ['s3', 'bucket', 'aws'],
+    fields: [
+      {
+        name: 'bucket',
+        label: 'Bucket',
+        type: 'string',
+        required: true,
+        example: 'my-data-lake',
+      },
+      {
+        name: 'prefix',
+        label: 'Key prefix',
+        type: 'string',
+        required: false,
+        example: 'raw/orders/',
+      },
+      {
+        name: 'region',
+        label: 'Region',
+        type: 'string',
+        required: true,
+        default: 'us-east-1',
+      },
+      {
+        name: 'access_key_id',
+        label: 'Access key ID',
+        type: 'string',
+        required: true,
+        example: 'AKIAxxxxxxxxxxxx',
+      },
+      {
+        name: 'secret_access_key',
+        label: 'Secret access key',
+        type: 'string',
+        required: true,
+        secret: true,
+      },
+      {
+        name: 'file_format',
+        label: 'File format',
+        type: 'enum',
+        required: true,
+        options: ['csv', 'json', 'parquet'],
+        default: 'csv',
+      },
+    ],
+  },
+  {
+    id: 'rest',
+    name: 'REST API',
+    category: 'api',
+    roles: ['source', 'destination'],
+    keywords: ['rest', 'api', 'http', 'endpoint', 'webhook'],
+    fields: [
+      {
+        name: 'url',
+        label: 'Endpoint URL',
+        type: 'url',
+        required: true,
+        example: 'https://api.example.com/v1/orders',
+      },
+      {
+        name: 'method',
+        label: 'HTTP method',
+        type: 'enum',
+        required: true,
+        options: ['GET', 'POST', 'PUT'],
+        default: 'GET',
+      },
+      {
+        name: 'headers',
+        label: 'Headers (JSON)',
+        type: 'json',
+        required: false,
+        example: '{"Accept": "application/json"}',
+      },
+      {
+        name: 'auth_token',
+        label: 'Bearer token',
+        type: 'string',
+        required: false,
+        secret: true,
+      },
+      {
+        name: 'records_path',
+        label: 'Records path',
+        type: 'string',
+        required: false,
+        example: 'data.items',
+        description: 'Dot path to the array of records in the response',
+      },
+    ],
+  },
+  {
+    id: 'csv',
+    name: 'CSV File',
+    category: 'file',
+    roles: ['source', 'destination'],
+    keywords: ['csv', 'file', 'spreadsheet'],
+    local: true,
+    fields: [
+      {
+        name: 'file_path',
+        label: 'File path',
+        type: 'path',
+        required: true,
+        example: 'orders.csv',
+      },
+      {
+        name: 'delimiter',
+        label: 'Delimiter',
+        type: 'string',
+        required: false,
+        default: ',',
+      },
+    ],
+  },
+  {
+    id: 'json_file',
+    name: 'JSON File',
+    category: 'file',
+    roles: ['source', 'destination'],
+    keywords: ['json'],
+    local: true,
+    fields: [
+      {
+        name: 'file_path',
+        label: 'File path',
+        type: 'path',
+        required: true,
+        example: 'orders.json',
+      },
+    ],
+  },
+  {
+    id: 'sqlite',
+    name: 'SQLite',
+    category: 'database',
+    roles: ['source', 'destination'],
+    keywords: ['sqlite'],
+    local: true,
+    fields: [
+      {
+        name: 'database_path',
+        label: 'Database file',
+        type: 'path',
+        required: true,
+        example: 'warehouse.db',
+      },
+      tableNameField,
+    ],
+  },
+];
+
+// Fields for transform nodes, which are not backed by a connector
+export const TRANSFORM_FIELDS: ConnectorField[] = [
+  {
+    name: 'operation_type',
+    label: 'Operation',
+    type: 'enum',
+    required: true,
+    options: [...STEP_OPERATIONS, 'map', 'script', 'passthrough'],
+    example: 'filter',
+  },
+  {
+    name: 'parameters',
+    label: 'Parameters',
+    type: 'transform_parameters',
+    required: true,
+    description:
+      "What the operation works on, written after the operation's name, e.g. filter status = 'active'",
+    example: STEP_EXAMPLES.filter,
+  },
+];
+
+// Replaces the parameters of "script" transforms: several steps, one per line
+const TRANSFORM_SCRIPT_FIELD: ConnectorField = {
+  name: 'script',
+  label: 'Transform steps',
+  type: 'transform_script',
+  required: true,
+  description: `One step per line, each starting with its operation (${STEP_OPERATIONS.join(', ')}). Lines starting with # are ignored.`,
+  example: `filter ${STEP_EXAMPLES.filter}\nderive ${STEP_EXAMPLES.derive}\naggregate sum(total) as revenue by region`,
+};
+
+// Replaces the parameters of "map" transforms
+const COLUMN_MAPPING_FIELD: ConnectorField = {
+  name: 'column_mapping',
+  label: 'Column mapping',
+  type: 'column_mapping',
+  required: true,
+  description:
+    'One entry per column: map (rename and cast), drop, or derive from an expression. Columns left out pass through unchanged.',
+  example:
+    '[{"action": "map", "source": "id", "target": "order_id", "cast": "integer"}, {"action": "drop", "source": "email"}]',
+};
+
+// Lets a source or destination whose columns cannot be read say what they are
+export const DECLARED_SCHEMA_FIELD: ConnectorField = {
+  name: 'schema',
+  label: 'Declared schema',
+  type: 'column_schema',
+  required: false,
+  description:
+    'Column names and types, used when the columns cannot be read from the data itself.',
+  example: '{"id": "integer", "email": "string", "created_at": "datetime"}',
+};
+
+// Asked first when the description did not name a known service
+const connectorTypeField = (role: ConnectorRole): ConnectorField => ({
+  name: role === 'source' ? 'source_type' : 'destination_type',
+  label: role === 'source' ? 'Source type' : 'Destination type',
+  type: 'enum',
+  required: true,
+  options: listConnectors(role).map(connector => connector.id),
+  example:
+    role === 'source'
+      ? 'postgres, shopify, csv, rest'
+      : 'snowflake, bigquery, s3, sqlite',
+});
+
+// Fallback fields when the chosen type does not match a registered connector
+const GENERIC_FIELDS: ConnectorField[] = [
+  {
+    name: 'connection_string',
+    label: 'Connection string',
+    type: 'connection_string',
+    required: true,
+    secret: true,
+    example: 'jdbc:mysql://localhost:3306/mydb',
+  },
+  { ...tableNameField, example: 'users, orders, products' },
+];
+
+export const listConnectors = (role?: ConnectorRole): ConnectorDefinition[] =>
+  role ? CONNECTORS.filter(c => c.roles.includes(role)) : CONNECTORS;
+
+export const getConnector = (id?: string): ConnectorDefinition | undefined =>
+  id ? CONNECTORS.find(connector => connector.id === id) : undefined;
+
+// Find the connector a free-text name or answer refers to
+export const detectConnector = (
+  text: string,
+  role?: ConnectorRole
+): ConnectorDefinition | undefined => {
+  const content = text.trim().toLowerCase();
+  const candidates = listConnectors(role);
+
+  return (
+    candidates.find(
+      c => c.id === content || c.name.toLowerCase() === content
+    ) ||
+    candidates.find(c =>
+      c.keywords.some(keyword =>
+        new RegExp(`\\b${keyword.replace(/\s+/g, '\\s+')}\\b`).test(content)
+      )
+    )
+  );
+};
+
+// Every field that may appear on a node, in the order they are asked
+export const getNodeFields = (node: DataFlowNode): ConnectorField[] => {
+  if (node.type === 'transform') {
+    const [operationField, parametersField] = TRANSFORM_FIELDS;
+    const operation = String(node.config?.operation_type || '');
+    if (operation === 'map') return [operationField, COLUMN_MAPPING_FIELD];
+    if (operation === 'script') return [operationField, TRANSFORM_SCRIPT_FIELD];
+    if (operation === 'passthrough') return [operationField];
+    return isStepOperation(operation)
+      ? [
+          operationField,
+          { ...parametersField, example: STEP_EXAMPLES[operation] },
+        ]
+      : TRANSFORM_FIELDS;
+  }
+
+  const typeField = connectorTypeField(node.type);
+  const connector = getConnector(node.connector);
+  const askedForType = node.data_requirements?.required_fields.includes(
+    typeField.name
+  );
+
+  if (connector) {
+    return askedForType
+      ? [typeField, ...connector.fields, DECLARED_SCHEMA_FIELD]
+      : [...connector.fields, DECLARED_SCHEMA_FIELD];
+  }
+
+  return [typeField, ...GENERIC_FIELDS, DECLARED_SCHEMA_FIELD];
+};
+
+export const getFieldSchema = (
+  node: DataFlowNode,
+  fieldName: string
+): ConnectorField | undefined =>
+  getNodeFields(node).find(field => field.name === fieldName);
+
+// Add fields to a node's requirements, pre-filling any declared defaults
+const addRequiredFields = (node: DataFlowNode, fields: ConnectorField[]) => {
+  node.config = node.config || {};
+  node.data_requirements = node.data_requirements || {
+    required_fields: [],
+    provided_fields: [],
+    missing_fields: [],
+  };
+  const requirements = node.data_requirements;
+
+  fields
+    .filter(field => field.required)
+    .filter(field => !requirements.required_fields.includes(field.name))
+    .forEach(field => {
+      requirements.required_fields.push(field.name);
+      if (field.default !== undefined) {
+        node.config![field.name] = field.default;
+        requirements.provided_fields.push(field.name);
+      } else {
+        requirements.missing_fields.push(field.name);
+      }
+    });
+};
+
+// Set up a fresh node's requirements from the connector (or lack of one)
+export const initializeNodeFields = (
+  node: DataFlowNode,
+  connector?: ConnectorDefinition
+) => {
+  if (node.type === 'transform') {
+    addRequiredFields(node, TRANSFORM_FIELDS);
+  } else if (connector) {
+    node.connector = connector.id;
+    addRequiredFields(node, connector.fields);
+  } else {
+    addRequiredFields(node, [connectorTypeField(node.type)]);
+  }
+};
+
+// Once the user tells us the source/destination type, ask the matching questions
+export const applyConnectorChoice = (node: DataFlowNode, answer: string) => {
+  if (node.type === 'transform') return;
+
+  const connector = detectConnector(answer, node.type);
+  if (connector) {
+    node.connector = connector.id;
+    addRequiredFields(node, connector.fields);
+  } else {
+    addRequiredFields(node, GENERIC_FIELDS);
+  }
+};
+
+// A transform's operation decides whether it is configured with parameters,
+// a script or a column mapping; whichever no longer applies is dropped, as
+// are parameters written for a different operation
+export const applyOperationChoice = (node: DataFlowNode) => {
+  if (node.type !== 'transform' || !node.data_requirements) return;
+
+  const fieldNames = getNodeFields(node)
+    .filter(field => field.required)
+    .map(field => field.name);
+  node.config = node.config || {};
+  const operation = String(node.config.operation_type || '');
+  const staleParameters =
+    node.config.parameters !== undefined &&
+    isStepOperation(operation) &&
+    !parseStepParameters(operation, node.config.parameters).valid;
+  TRANSFORM_FIELDS.concat(COLUMN_MAPPING_FIELD, TRANSFORM_SCRIPT_FIELD)
+    .map(field => field.name)
+    .filter(
+      fieldName =>
+        !fieldNames.includes(fieldName) ||
+        (fieldName === 'parameters' && staleParameters)
+    )
+    .forEach(fieldName => {
+      delete node.config![fieldName];
+      delete node.provenance?.[fieldName];
+      delete node.validation_errors?.[fieldName];
+    });
+
+  node.data_requirements = {
+    required_fields: fieldNames,
+    provided_fields: fieldNames.filter(
+      name => node.config![name] !== undefined
+    ),
+    missing_fields: fieldNames.filter(name => node.config![name] === undefined),
+  };
+};
+
+export const isConnectorTypeField = (fieldName: string) =>
+  fieldName === 'source_type' || fieldName === 'destination_type';
@@ -0,0 +1,278 @@
+import type { DataFlowConnection, DataFlowNode } from './aiService';
+import { getConnector } from './connectors';
+import { readRows, resolveLocalTarget, type Row } from './localConnectors';
+import { applyTransform } from './pipelineRunner';
+import { profileRows, type ColumnProfile } from './schemaInference';
+import { getSecretFields, redactSecrets, revealNodeSecrets } from './secrets';
+
+export interface RowSample {
+  rows: Row[];
+  // Type and null count of every column in rows
+  columns: ColumnProfile[];
+  // Where the rows came from, for display
+  detail: string;
+}
+
+export interface NodePreview {
+  node_id: string;
+  limit: number;
+  // Rows flowing in from upstream (transforms and destinations)
+  input?: RowSample;
+  // Rows the node produces: what a source reads or a transform returns
+  output?: RowSample;
+  // Why some step along the way could not be previewed
+  errors: string[];
+}
+
+type Workflow = { nodes: DataFlowNode[]; connections: DataFlowConnection[] };
+
+export const DEFAULT_PREVIEW_ROWS = 20;
+const MAX_PREVIEW_ROWS = 500;
+const FETCH_TIMEOUT_MS = 10000;
+
+// Follow a dot path such as "data.items" into a JSON response
+const getAtPath = (value: unknown, dotPath: string): unknown =>
+  dotPath
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+
+// GET a JSON endpoint and take the first records of the array it returns
+const fetchRows = async (
+  url: string,
+  headers: Record<string, string>,
+  recordsPath: string,
+  limit: number
+): Promise<Row[]> => {
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `${url} responded with ${response.status} ${response.statusText}`
+    );
+  }
+
+  const body: unknown = await response.json().catch(() => {
+    throw new Error(`${url} did not return JSON`);
+  });
+  const records = recordsPath ? getAtPath(body, recordsPath) : body;
+  if (!Array.isArray(records)) {
+    throw new Error(
+      recordsPath
+        ? `"${recordsPath}" in the response of ${url} is not an array of records`
+        : `${url} did not return an array of records; set the records path to the array inside the response`
+    );
+  }
+
+  // Bare values become single-column rows
+  return records
+    .slice(0, limit)
+    .map(record =>
+      record && typeof record === 'object' && !Array.isArray(record)
+        ? (record as Row)
+        : { value: record }
+    );
+};
+
+// The first rows a source would read, from a local file, a SQLite table or
+// an HTTP endpoint
+const readSourceSample = async (
+  node: DataFlowNode,
+  limit: number
+): Promise<{ rows: Row[]; detail: string }> => {
+  const config = node.config || {};
+
+  if (node.connector === 'rest') {
+    const url = String(config.url || '');
+    const method = String(config.method || 'GET').toUpperCase();
+    if (method !== 'GET') {
+      throw new Error(
+        `Previews only send GET requests, and ${node.name} uses ${method}`
+      );
+    }
+    const headers: Record<string, string> = {
+      ...(config.headers ? JSON.parse(String(config.headers)) : {}),
+      ...(config.auth_token && {
+        Authorization: `Bearer ${config.auth_token}`,
+      }),
+    };
+    return {
+      rows: await fetchRows(
+        url,
+        headers,
+        String(config.records_path || ''),
+        limit
+      ),
+      detail: url,
+    };
+  }
+
+  if (!node.connector) {
+    const location = String(config.connection_string || '').trim();
+    if (/^https?:\/\//i.test(location)) {
+      return {
+        rows: await fetchRows(location, {}, '', limit),
+        detail: location,
+      };
+    }
+    if (
+      /\.parquet$/i.test(location) ||
+      String(config.source_type || '')
+        .toLowerCase()
+        .includes('parquet')
+    ) {
+      throw new Error(
+        `Reading ${node.name} needs a Parquet reader on the server. Export it to CSV or JSON to preview it.`
+      );
+    }
+  }
+
+  const connector = getConnector(node.connector);
+  if (connector && !connector.local) {
+    throw new Error(
+      `Previewing ${connector.name} is not supported yet; only local files, SQLite tables and HTTP endpoints can be previewed.`
+    );
+  }
+
+  const target = resolveLocalTarget(node);
+  return {
+    rows: await readRows(target, limit),
+    detail:
+      target.kind === 'sqlite'
+        ? `table ${target.table} in ${target.path}`
+        : target.path,
+  };
+};
+
+// Sample rows through the workflow up to a node: sources read their first
+// rows and transforms are applied to whatever reaches them. Nothing is
+// written, so destinations only show their incoming rows.
+export const previewNodeData = async (
+  workflow: Workflow,
+  nodeId: string,
+  limit: number = DEFAULT_PREVIEW_ROWS
+): Promise<NodePreview> => {
+  const rowLimit = Math.min(
+    Math.max(Math.floor(limit) || DEFAULT_PREVIEW_ROWS, 1),
+    MAX_PREVIEW_ROWS
+  );
+  const errors: string[] = [];
+  const outputs = new Map<string, Promise<RowSample | undefined>>();
+
+  const sample = (rows: Row[], detail: string): RowSample => {
+    const shown = rows.slice(0, rowLimit);
+    return { rows: shown, columns: profileRows(shown), detail };
+  };
+
+  const tryPreview = async (
+    node: DataFlowNode,
+    preview: () => Promise<RowSample>
+  ): Promise<RowSample | undefined> => {
+    try {
+      return await preview();
+    } catch (error) {
+      // Reading data can echo connection details back, so scrub them
+      const resolvedNode = revealNodeSecrets(node);
+      const message = redactSecrets(
+        error instanceof Error ? error.message : String(error),
+        getSecretFields(resolvedNode).map(fieldName =>
+          String(resolvedNode.config?.[fieldName] ?? '')
+        )
+      );
+      if (!errors.includes(message)) errors.push(message);
+      return undefined;
+    }
+  };
+
+  // What each upstream node hands on, in connection order
+  const upstreamOf = async (node: DataFlowNode, visiting: string[]) => {
+    const upstream = workflow.connections
+      .filter(connection => connection.target === node.id)
+      .map(connection => workflow.nodes.find(n => n.id === connection.source))
+      .filter((n): n is DataFlowNode => !!n);
+    const samples = await Promise.all(
+      upstream.map(n => outputOf(n, [...visiting, node.id]))
+    );
+    return upstream.flatMap((n, index) => {
+      const upstreamSample = samples[index];
+      return upstreamSample ? [{ node: n, sample: upstreamSample }] : [];
+    });
+  };
+
+  // Upstream rows are concatenated in connection order, as in a run
+  const inputOf = async (
+    node: DataFlowNode,
+    visiting: string[]
+  ): Promise<RowSample | undefined> => {
+    const upstream = await upstreamOf(node, visiting);
+    if (upstream.length === 0) return undefined;
+    return sample(
+      upstream.flatMap(u => u.sample.rows),
+      upstream.map(u => u.sample.detail).join('; ')
+    );
+  };
+
+  const outputOf = (
+    node: DataFlowNode,
+    visiting: string[]
+  ): Promise<RowSample | undefined> => {
+    if (visiting.includes(node.id) || node.type === 'destination') {
+      return Promise.resolve(undefined);
+    }
+    if (!outputs.has(node.id)) {
+      outputs.set(
+        node.id,
+        node.type === 'transform'
+          ? upstreamOf(node, visiting).then(upstream =>
+              upstream.length > 0
+                ? tryPreview(node, async () =>
+                    sample(
+                      // Joins read each upstream sample separately
+                      applyTransform(
+                        node,
+                        upstream.map(u => ({
+                          node: u.node,
+                          rows: u.sample.rows,
+                        }))
+                      ),
+                      `${upstream.map(u => u.sample.detail).join('; ')}, through ${node.name}`
+                    )
+                  )
+                : undefined
+            )
+          : tryPreview(node, async () => {
+              // Credentials are only decrypted for the read itself
+              const { rows, detail } = await readSourceSample(
+                revealNodeSecrets(node),
+                rowLimit
+              );
+              return sample(rows, `First rows of ${detail}`);
+            })
+      );
+    }
+    return outputs.get(node.id)!;
+  };
+
+  const node = workflow.nodes.find(n => n.id === nodeId);
+  if (!node) {
+    return { node_id: nodeId, limit: rowLimit, errors: ['Step not found'] };
+  }
+
+  const input = node.type === 'source' ? undefined : await inputOf(node, []);
+  const output = await outputOf(node, []);
+  return {
+    node_id: nodeId,
+    limit: rowLimit,
+    ...(input && { input }),
+    ...(output && { output }),
+    errors,
+  };
+};
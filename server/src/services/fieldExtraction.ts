@@ -0,0 +1,153 @@
+import type { DataFlowNode } from './aiService';
+import {
+  detectConnector,
+  getFieldSchema,
+  isConnectorTypeField,
+  type ConnectorField,
+} from './connectors';
+import { getLLMProvider, type LLMMessage } from './llm';
+
+// A value the extractor found in a free-text answer
+export interface ExtractedFieldValue {
+  node_id: string;
+  field: string;
+  value: string | string[];
+}
+
+const describeField = (fieldName: string, field?: ConnectorField) => {
+  const details = [
+    field?.label,
+    field?.options ? `one of: ${field.options.join(', ')}` : field?.type,
+    field?.example && `e.g. ${field.example}`,
+  ].filter(Boolean);
+  return `  - ${fieldName}${details.length ? ` (${details.join('; ')})` : ''}`;
+};
+
+// Every missing field, grouped by node, for the extraction prompt
+const describeMissingFields = (nodes: DataFlowNode[]) =>
+  nodes
+    .filter(node => node.data_requirements?.missing_fields.length)
+    .map(node =>
+      [
+        `Node "${node.id}": ${node.name} (${node.type}${node.connector ? `, ${node.connector}` : ''})`,
+        ...node.data_requirements!.missing_fields.map(fieldName =>
+          describeField(fieldName, getFieldSchema(node, fieldName))
+        ),
+      ].join('\n')
+    )
+    .join('\n');
+
+// Pull the JSON object out of a reply that may be wrapped in prose or fences
+const parseReply = (reply: string): any => {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Extraction reply did not contain JSON');
+  }
+  return JSON.parse(reply.slice(start, end + 1));
+};
+
+// Map a value onto one of the field's options, or undefined if it isn't one
+const matchOption = (
+  node: DataFlowNode,
+  fieldName: string,
+  options: string[],
+  value: string
+) => {
+  const option = options.find(
+    option => option.toLowerCase() === value.trim().toLowerCase()
+  );
+  if (option || !isConnectorTypeField(fieldName) || node.type === 'transform') {
+    return option;
+  }
+  // "PostgreSQL" or "psql" for the postgres connector
+  return detectConnector(value, node.type)?.id;
+};
+
+// Keep a value only if it is well-formed for the field and, for free-form
+// fields, appears in the message; models sometimes fill in plausible guesses
+const normalizeValue = (
+  node: DataFlowNode,
+  fieldName: string,
+  value: unknown,
+  text: string
+): string | string[] | undefined => {
+  const field = getFieldSchema(node, fieldName);
+
+  if (field?.type === 'multienum' && field.options) {
+    const values = Array.isArray(value) ? value : String(value).split(',');
+    const matched = values.map(item =>
+      matchOption(node, fieldName, field.options!, String(item))
+    );
+    return matched.length > 0 && matched.every(Boolean)
+      ? (matched as string[])
+      : undefined;
+  }
+
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const stringValue = String(value).trim();
+  if (!stringValue) return undefined;
+
+  if (field?.options) {
+    return matchOption(node, fieldName, field.options, stringValue);
+  }
+
+  return text.toLowerCase().includes(stringValue.toLowerCase())
+    ? stringValue
+    : undefined;
+};
+
+// Ask the LLM which missing fields a free-text answer fills, across all of
+// the given nodes. Returns an empty list when nothing usable was found or no
+// LLM is available, so the caller can fall back to the pending field.
+export const extractFieldValues = async (
+  text: string,
+  nodes: DataFlowNode[]
+): Promise<ExtractedFieldValue[]> => {
+  const missingFields = describeMissingFields(nodes);
+  if (!missingFields) return [];
+
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: `You extract data pipeline configuration values from a user's message.
+
+Missing fields:
+${missingFields}
+
+Reply with JSON only, in the form {"values": [{"node_id": "...", "field": "...", "value": "..."}]}. Only include values the message states explicitly; never guess, infer defaults or reuse examples. Use one of the listed options for fields that have them, and an array of options for multi-select fields. Reply {"values": []} if the message contains none of these fields.`,
+    },
+    { role: 'user', content: text },
+  ];
+
+  try {
+    const reply = await getLLMProvider().complete(messages, {
+      maxTokens: 500,
+      temperature: 0,
+    });
+    const values = parseReply(reply).values;
+    if (!Array.isArray(values)) return [];
+
+    const extracted: ExtractedFieldValue[] = [];
+    values.forEach((item: any) => {
+      const node = nodes.find(node => node.id === item?.node_id);
+      if (
+        !node?.data_requirements?.missing_fields.includes(item.field) ||
+        extracted.some(
+          value => value.node_id === node.id && value.field === item.field
+        )
+      ) {
+        return;
+      }
+
+      const value = normalizeValue(node, item.field, item.value, text);
+      if (value !== undefined) {
+        extracted.push({ node_id: node.id, field: item.field, value });
+      }
+    });
+    return extracted;
+  } catch (error) {
+    console.warn('⚠️ Field extraction failed:', (error as Error).message);
+    return [];
+  }
+};
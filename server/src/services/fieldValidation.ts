@@ -0,0 +1,248 @@
+import type { DataFlowNode } from './aiService';
+import { validateColumnMapping, validateDeclaredSchema } from './columnMapping';
+import { isConnectorTypeField, type ConnectorField } from './connectors';
+import { resolveDataPath } from './localConnectors';
+import {
+  isStepOperation,
+  parseStepParameters,
+  parseTransformScript,
+} from './transformDsl';
+
+export type FieldValidationResult =
+  | { valid: true; value: any }
+  | { valid: false; error: string };
+
+const ok = (value: any): FieldValidationResult => ({ valid: true, value });
+const fail = (error: string): FieldValidationResult => ({
+  valid: false,
+  error,
+});
+
+const HOSTNAME_PATTERN =
+  /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+const IPV4_PATTERN =
+  /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/;
+// Plain or quoted names, optionally qualified: orders, analytics.orders, "Order Items"
+const IDENTIFIER_PART = '(?:[A-Za-z0-9_][A-Za-z0-9_$]*|"[^"]+"|`[^`]+`)';
+const IDENTIFIER_PATTERN = new RegExp(
+  `^${IDENTIFIER_PART}(?:\\.${IDENTIFIER_PART})*$`
+);
+
+const isHostname = (value: string) =>
+  IPV4_PATTERN.test(value) ||
+  HOSTNAME_PATTERN.test(value) ||
+  // IPv6, optionally in brackets
+  /^\[?[0-9a-f:]+\]?$/i.test(value);
+
+const validatePort = (value: string) => {
+  const port = Number(value);
+  return Number.isInteger(port) && port >= 1 && port <= 65535
+    ? ok(port)
+    : fail('Ports are whole numbers between 1 and 65535.');
+};
+
+const validateHostname = (value: string) => {
+  if (isHostname(value)) return ok(value);
+
+  // Accept "host:port" as long as both halves are valid
+  const match = value.match(/^(.+):(\d+)$/);
+  if (match && isHostname(match[1]) && validatePort(match[2]).valid) {
+    return ok(value);
+  }
+
+  return fail(
+    'Hostnames may only contain letters, digits, dots and dashes (e.g. db.internal or 10.0.0.5), without a scheme or path.'
+  );
+};
+
+const validateUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return ok(value);
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  return fail(
+    'URLs need an http:// or https:// scheme and a host, e.g. https://api.example.com/v1.'
+  );
+};
+
+// Local files the runner reads directly: orders.csv, sqlite:data.db
+const isLocalPath = (value: string) =>
+  /^(sqlite|file):/i.test(value) ||
+  /^[a-z]:[\\/]/i.test(value) ||
+  (!/^[a-z][a-z0-9+.-]*:/i.test(value) &&
+    !/\s/.test(value) &&
+    /[\\/]|\.\w+$/.test(value));
+
+// Local paths are stored as typed but must stay inside the data directory
+const validateLocalPath = (value: string) => {
+  const result = resolveDataPath(value);
+  return result.valid ? ok(value) : fail(result.error);
+};
+
+// JDBC (jdbc:postgresql://host:5432/db), URI (postgres://user@host/db) or a
+// local file path
+const validateConnectionString = (value: string) => {
+  if (isLocalPath(value)) return validateLocalPath(value);
+
+  const match = value
+    .replace(/^jdbc:/i, '')
+    .match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  if (!match) {
+    return fail(
+      'Connection strings need a scheme, e.g. jdbc:mysql://localhost:3306/mydb or postgres://user@host:5432/db, or a local file path.'
+    );
+  }
+
+  const [, scheme, rest] = match;
+  if (!rest || rest.startsWith('/')) {
+    return fail(`The connection string is missing a host after ${scheme}://.`);
+  }
+
+  try {
+    new URL(`${scheme}://${rest}`);
+    return ok(value);
+  } catch {
+    return fail(
+      'The connection string is not a valid URI; check for spaces or unescaped characters in the user name or password.'
+    );
+  }
+};
+
+const validateIdentifiers = (value: string) => {
+  // Lists like "users, orders" name several tables
+  const invalid = value
+    .split(',')
+    .map(part => part.trim())
+    .find(part => !IDENTIFIER_PATTERN.test(part));
+  return invalid === undefined
+    ? ok(value)
+    : fail(
+        `"${invalid}" is not a valid name; use letters, digits and underscores (optionally schema.table), or quote it.`
+      );
+};
+
+const validateJson = (value: string) => {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return ok(value);
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  return fail(
+    'This needs to be a JSON object, e.g. {"condition": "status = active"}.'
+  );
+};
+
+// Column mappings and declared schemas are stored parsed, not as text
+const parseJsonValue = (
+  value: string,
+  validate: (parsed: unknown) => FieldValidationResult
+) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return validate(undefined);
+  }
+  return validate(parsed);
+};
+
+const validateOptions = (values: string[], options: string[]) => {
+  const normalized = values.map(value =>
+    options.find(option => option.toLowerCase() === value.toLowerCase())
+  );
+  const invalid = values.find((_, index) => !normalized[index]);
+  return invalid === undefined
+    ? ok(normalized)
+    : fail(`"${invalid}" is not one of: ${options.join(', ')}.`);
+};
+
+// Transform steps are checked when they are given but stored as written
+const validateTransformParameters = (value: string, node?: DataFlowNode) => {
+  const operation = String(node?.config?.operation_type || '').toLowerCase();
+  if (!isStepOperation(operation)) return ok(value);
+  const steps = parseStepParameters(operation, value);
+  return steps.valid ? ok(value) : fail(`${steps.error}.`);
+};
+
+const validateTransformScript = (value: string) => {
+  const steps = parseTransformScript(value);
+  return steps.valid ? ok(value) : fail(`${steps.error}.`);
+};
+
+// Check (and normalize) an answer against the field's declared type; the
+// node is needed for answers that depend on its other settings
+export const validateFieldValue = (
+  fieldName: string,
+  field: ConnectorField | undefined,
+  answer: string | string[],
+  node?: DataFlowNode
+): FieldValidationResult => {
+  if (Array.isArray(answer)) {
+    if (answer.length === 0) return fail('Pick at least one option.');
+    return field?.options ? validateOptions(answer, field.options) : ok(answer);
+  }
+
+  const value = answer.trim();
+  if (!value) return fail('This field cannot be empty.');
+
+  // Unknown source/destination types fall back to a generic connection string
+  if (isConnectorTypeField(fieldName)) return ok(value);
+
+  switch (field?.type) {
+    case 'connection_string':
+      return validateConnectionString(value);
+    case 'path':
+      return validateLocalPath(value);
+    case 'hostname':
+      return validateHostname(value);
+    case 'port':
+      return validatePort(value);
+    case 'url':
+      return validateUrl(value);
+    case 'identifier':
+      return validateIdentifiers(value);
+    case 'json':
+      return validateJson(value);
+    case 'column_mapping':
+      return parseJsonValue(value, validateColumnMapping);
+    case 'column_schema':
+      return parseJsonValue(value, validateDeclaredSchema);
+    case 'transform_parameters':
+      return validateTransformParameters(value, node);
+    case 'transform_script':
+      return validateTransformScript(value);
+    case 'number':
+      return Number.isFinite(Number(value))
+        ? ok(Number(value))
+        : fail('This needs to be a number.');
+    case 'boolean':
+      if (/^(true|yes|y|1)$/i.test(value)) return ok(true);
+      if (/^(false|no|n|0)$/i.test(value)) return ok(false);
+      return fail('Answer yes or no.');
+    case 'enum': {
+      const result = field.options
+        ? validateOptions([value], field.options)
+        : ok([value]);
+      return result.valid ? ok(result.value[0]) : result;
+    }
+    case 'multienum': {
+      const result = field.options
+        ? validateOptions(
+            value.split(',').map(item => item.trim()),
+            field.options
+          )
+        : ok(value);
+      return result.valid ? ok(value) : result;
+    }
+    default:
+      // Free text is kept as typed; passwords may start or end with spaces
+      return ok(answer);
+  }
+};
@@ -0,0 +1,122 @@
+import type { DataFlowConnection, DataFlowNode } from './aiService';
+import { findCycle, type WorkflowGraph } from './workflowGraph';
+
+// Structural edits made directly on the canvas: adding and removing steps
+// and the connections between them
+
+export type GraphEdit =
+  | { action: 'add_node'; node_type: DataFlowNode['type']; name: string }
+  | { action: 'remove_node'; node_id: string }
+  | { action: 'add_connection'; source: string; target: string }
+  | { action: 'remove_connection'; source: string; target: string };
+
+export type GraphEditResult =
+  | { valid: true; graph: WorkflowGraph }
+  | { valid: false; error: string };
+
+const ok = (graph: WorkflowGraph): GraphEditResult => ({ valid: true, graph });
+const fail = (error: string): GraphEditResult => ({ valid: false, error });
+
+const findNode = (graph: WorkflowGraph, nodeId: string) =>
+  graph.nodes.find(node => node.id === nodeId);
+
+// First ID built from base that no node in the graph uses yet
+export const uniqueNodeId = (graph: WorkflowGraph, base: string) => {
+  let id = base;
+  for (let i = 2; findNode(graph, id); i++) id = `${base}-${i}`;
+  return id;
+};
+
+const nextConnectionId = (connections: DataFlowConnection[]) => {
+  let i = connections.length + 1;
+  while (connections.some(connection => connection.id === `conn${i}`)) i++;
+  return `conn${i}`;
+};
+
+export const addNode = (
+  graph: WorkflowGraph,
+  node: DataFlowNode
+): GraphEditResult => {
+  if (findNode(graph, node.id)) {
+    return fail(`The workflow already has a step with ID "${node.id}"`);
+  }
+  return ok({ nodes: [...graph.nodes, node], connections: graph.connections });
+};
+
+// Removing a step also removes every connection to or from it
+export const removeNode = (
+  graph: WorkflowGraph,
+  nodeId: string
+): GraphEditResult => {
+  if (!findNode(graph, nodeId)) {
+    return fail(`"${nodeId}" is not part of this workflow`);
+  }
+  return ok({
+    nodes: graph.nodes.filter(node => node.id !== nodeId),
+    connections: graph.connections.filter(
+      connection => connection.source !== nodeId && connection.target !== nodeId
+    ),
+  });
+};
+
+export const addConnection = (
+  graph: WorkflowGraph,
+  sourceId: string,
+  targetId: string
+): GraphEditResult => {
+  const source = findNode(graph, sourceId);
+  const target = findNode(graph, targetId);
+  if (!source || !target) {
+    return fail(
+      `"${source ? targetId : sourceId}" is not part of this workflow`
+    );
+  }
+  if (source.id === target.id) {
+    return fail(`${source.name} cannot connect to itself`);
+  }
+  if (source.type === 'destination') {
+    return fail(`Destination ${source.name} cannot feed other steps`);
+  }
+  if (target.type === 'source') {
+    return fail(`Source ${target.name} cannot receive data`);
+  }
+  if (
+    graph.connections.some(
+      connection =>
+        connection.source === source.id && connection.target === target.id
+    )
+  ) {
+    return fail(`${source.name} is already connected to ${target.name}`);
+  }
+
+  const connections: DataFlowConnection[] = [
+    ...graph.connections,
+    {
+      id: nextConnectionId(graph.connections),
+      source: source.id,
+      target: target.id,
+      status: 'pending',
+    },
+  ];
+  if (findCycle(graph.nodes, connections)) {
+    return fail(
+      `Connecting ${source.name} to ${target.name} would create a cycle`
+    );
+  }
+  return ok({ nodes: graph.nodes, connections });
+};
+
+export const removeConnection = (
+  graph: WorkflowGraph,
+  sourceId: string,
+  targetId: string
+): GraphEditResult => {
+  const connections = graph.connections.filter(
+    connection =>
+      connection.source !== sourceId || connection.target !== targetId
+  );
+  if (connections.length === graph.connections.length) {
+    return fail('Those steps are not connected');
+  }
+  return ok({ nodes: graph.nodes, connections });
+};
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import { OpenAICompatibleProvider } from './openAICompatible';
+import { ScriptedProvider } from './scriptedProvider';
+import type { LLMProvider } from './types';
+
+export type { CompletionOptions, LLMMessage, LLMProvider } from './types';
+export { OpenAICompatibleProvider } from './openAICompatible';
+export type { OpenAICompatibleConfig } from './openAICompatible';
+export { ScriptedProvider } from './scriptedProvider';
+export type { ScriptedReply } from './scriptedProvider';
+
+// Defaults per provider; LLM_BASE_URL and LLM_MODELS override any of them
+const PRESETS: Record<
+  string,
+  { baseUrl: string; models: string[]; apiKeyEnv?: string }
+> = {
+  groq: {
+    baseUrl: 'https://api.groq.com/openai/v1',
+    models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'],
+    apiKeyEnv: 'GROQ_API_KEY',
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    models: ['gpt-4o-mini'],
+    apiKeyEnv: 'OPENAI_API_KEY',
+  },
+  // Ollama, LM Studio, vLLM, llama.cpp server...
+  local: {
+    baseUrl: 'http://localhost:11434/v1',
+    models: ['llama3.1'],
+  },
+};
+
+// The name selected by LLM_PROVIDER (groq by default)
+export const getLLMProviderName = () =>
+  (process.env.LLM_PROVIDER || 'groq').toLowerCase();
+
+// Replies for the scripted provider, from a JSON array of strings
+const loadScript = (filePath?: string): string[] => {
+  if (!filePath) return [];
+  const script = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (
+    !Array.isArray(script) ||
+    script.some(reply => typeof reply !== 'string')
+  ) {
+    throw new Error('LLM_SCRIPT_PATH must contain a JSON array of strings');
+  }
+  return script;
+};
+
+// Build the provider described by the environment
+export const createLLMProvider = (): LLMProvider => {
+  const name = getLLMProviderName();
+
+  if (name === 'scripted') {
+    return new ScriptedProvider(loadScript(process.env.LLM_SCRIPT_PATH));
+  }
+
+  const preset = PRESETS[name];
+  const baseUrl = process.env.LLM_BASE_URL || preset?.baseUrl;
+  if (!baseUrl) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}"; set LLM_BASE_URL for a custom OpenAI-compatible endpoint`
+    );
+  }
+
+  const apiKey =
+    process.env.LLM_API_KEY ||
+    (preset?.apiKeyEnv ? process.env[preset.apiKeyEnv] : undefined);
+  if (!apiKey && preset?.apiKeyEnv) {
+    throw new Error(
+      `${preset.apiKeyEnv} (or LLM_API_KEY) environment variable is required`
+    );
+  }
+
+  const models = process.env.LLM_MODELS
+    ? process.env.LLM_MODELS.split(',')
+        .map(model => model.trim())
+        .filter(Boolean)
+    : preset?.models || [];
+
+  return new OpenAICompatibleProvider({ name, baseUrl, apiKey, models });
+};
+
+let provider: LLMProvider | null = null;
+
+// Shared provider, created from the environment on first use
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) {
+    provider = createLLMProvider();
+    console.log(`🤖 Using LLM provider: ${provider.name}`);
+  }
+  return provider;
+};
+
+// Swap in another provider (e.g. a ScriptedProvider in tests); null resets
+export const setLLMProvider = (next: LLMProvider | null) => {
+  provider = next;
+};
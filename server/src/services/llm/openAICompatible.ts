@@ -0,0 +1,203 @@
+import type { CompletionOptions, LLMMessage, LLMProvider } from './types';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  // e.g. https://api.groq.com/openai/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  // Optional: locally hosted model servers usually don't need one
+  apiKey?: string;
+  // Tried in order until one succeeds
+  models: string[];
+}
+
+// Client for any endpoint implementing the OpenAI chat completions API
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private models: string[];
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (config.models.length === 0) {
+      throw new Error(`No models configured for LLM provider "${config.name}"`);
+    }
+    this.name = config.name;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.models = config.models;
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+
+  private request(
+    model: string,
+    messages: LLMMessage[],
+    options: Required<CompletionOptions>,
+    stream: boolean
+  ) {
+    return fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({
+        model,
+        messages: messages.map(msg => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream,
+      }),
+    });
+  }
+
+  // Listing models is cheap and checks both reachability and the API key
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.headers,
+      });
+
+      if (response.status === 401) {
+        throw new Error(`Invalid API key for LLM provider "${this.name}"`);
+      }
+
+      return response.ok;
+    } catch (error) {
+      console.error(
+        `❌ LLM provider "${this.name}" health check failed:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  // Generate a response, falling back through the configured models
+  async complete(
+    messages: LLMMessage[],
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    const { maxTokens = 4000, temperature = 0.1 } = options;
+
+    let lastError: Error | null = null;
+
+    for (const model of this.models) {
+      try {
+        console.log(`🤖 Trying ${this.name} model: ${model}`);
+
+        const response = await this.request(
+          model,
+          messages,
+          { maxTokens, temperature },
+          false
+        );
+
+        if (!response.ok) {
+          const errorData = (await response.json().catch(() => ({}))) as any;
+          console.warn(`⚠️ Model ${model} failed:`, errorData.error?.message);
+          lastError = new Error(
+            errorData.error?.message || 'API request failed'
+          );
+          continue;
+        }
+
+        const data = (await response.json()) as any;
+        const responseText = data.choices?.[0]?.message?.content;
+
+        if (!responseText) {
+          throw new Error('No response content received');
+        }
+
+        console.log(`✅ Success with model: ${model}`);
+        return responseText;
+      } catch (error) {
+        console.warn(`❌ Model ${model} failed:`, error);
+        lastError = error as Error;
+      }
+    }
+
+    throw new Error(`All models failed. Last error: ${lastError?.message}`);
+  }
+
+  // Stream a response, calling onDelta with each token as it arrives.
+  // Falls back to the next model only if nothing has been streamed yet.
+  async stream(
+    messages: LLMMessage[],
+    onDelta: (delta: string) => void,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    const { maxTokens = 1000, temperature = 0.3 } = options;
+
+    let lastError: Error | null = null;
+
+    for (const model of this.models) {
+      let responseText = '';
+
+      try {
+        console.log(`🤖 Streaming from ${this.name} model: ${model}`);
+
+        const response = await this.request(
+          model,
+          messages,
+          { maxTokens, temperature },
+          true
+        );
+
+        if (!response.ok || !response.body) {
+          const errorData = (await response.json().catch(() => ({}))) as any;
+          console.warn(`⚠️ Model ${model} failed:`, errorData.error?.message);
+          lastError = new Error(
+            errorData.error?.message || 'API request failed'
+          );
+          continue;
+        }
+
+        // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || data === '[DONE]') {
+              continue;
+            }
+
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) {
+              responseText += delta;
+              onDelta(delta);
+            }
+          }
+        }
+
+        if (!responseText) {
+          throw new Error('No response content received');
+        }
+
+        console.log(`✅ Streamed response from model: ${model}`);
+        return responseText;
+      } catch (error) {
+        console.warn(`❌ Model ${model} failed:`, error);
+        lastError = error as Error;
+        // Retrying would duplicate tokens the client already has
+        if (responseText) break;
+      }
+    }
+
+    throw new Error(`All models failed. Last error: ${lastError?.message}`);
+  }
+}
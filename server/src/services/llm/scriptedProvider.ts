@@ -0,0 +1,51 @@
+import type { CompletionOptions, LLMMessage, LLMProvider } from './types';
+
+export type ScriptedReply = string | ((messages: LLMMessage[]) => string);
+
+// Used once the script runs out: echoes the last user message
+const defaultReply = (messages: LLMMessage[]) => {
+  const lastUserMessage = [...messages]
+    .reverse()
+    .find(message => message.role === 'user');
+  return `Scripted reply to: ${lastUserMessage?.content ?? ''}`.trim();
+};
+
+// Deterministic provider for offline use and tests: replies are played back
+// in order, and every call is recorded so tests can inspect the prompts
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly calls: LLMMessage[][] = [];
+  private replies: ScriptedReply[];
+
+  constructor(replies: ScriptedReply[] = []) {
+    this.replies = [...replies];
+  }
+
+  private nextReply(messages: LLMMessage[]): string {
+    this.calls.push(messages);
+    const reply = this.replies.shift() ?? defaultReply;
+    return typeof reply === 'function' ? reply(messages) : reply;
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    _options?: CompletionOptions
+  ): Promise<string> {
+    return this.nextReply(messages);
+  }
+
+  // Streams the reply word by word, keeping the whitespace
+  async stream(
+    messages: LLMMessage[],
+    onDelta: (delta: string) => void,
+    _options?: CompletionOptions
+  ): Promise<string> {
+    const reply = this.nextReply(messages);
+    (reply.match(/\S+\s*|\s+/g) || []).forEach(chunk => onDelta(chunk));
+    return reply;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,26 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// Anything that can turn a chat transcript into a reply
+export interface LLMProvider {
+  // Shown in logs and the health check, e.g. "groq" or "scripted"
+  readonly name: string;
+  complete(
+    messages: LLMMessage[],
+    options?: CompletionOptions
+  ): Promise<string>;
+  // Calls onDelta with each chunk as it arrives and resolves with the full text
+  stream(
+    messages: LLMMessage[],
+    onDelta: (delta: string) => void,
+    options?: CompletionOptions
+  ): Promise<string>;
+  healthCheck(): Promise<boolean>;
+}
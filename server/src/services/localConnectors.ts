@@ -0,0 +1,349 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import type { DataFlowNode } from './aiService';
+
+// Local readers and writers used by the pipeline runner.
+// Everything here works against the local filesystem so pipelines can be
+// exercised without any cloud service.
+
+export type Row = Record<string, unknown>;
+
+export type LocalTarget =
+  | { kind: 'csv' | 'json'; path: string }
+  | { kind: 'sqlite'; path: string; table: string };
+
+const SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3'];
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// sql.js loads a WASM module, so share a single instance across runs
+const getSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs();
+  }
+  return sqlJs;
+};
+
+// Local files are confined to LOCAL_DATA_DIR (default ./data/files), since
+// any client can set a node's path
+export const getLocalDataDir = () =>
+  path.resolve(process.env.LOCAL_DATA_DIR || 'data/files');
+
+export type DataPathResult =
+  | { valid: true; value: string }
+  | { valid: false; error: string };
+
+// Resolve a file path from a node's config inside the data directory.
+// URL-style prefixes are stripped, so "sqlite:warehouse.db" and
+// "file://orders.csv" both name files there.
+export const resolveDataPath = (value: string): DataPathResult => {
+  const relativePath = value.trim().replace(/^(sqlite|file):(\/\/)?/i, '');
+  if (!relativePath) {
+    return { valid: false, error: 'No file path is configured.' };
+  }
+  if (path.isAbsolute(relativePath) || /^[a-z]:[\\/]/i.test(relativePath)) {
+    return {
+      valid: false,
+      error: `File paths are relative to the server's data directory, e.g. orders.csv; absolute paths such as ${relativePath} are not allowed.`,
+    };
+  }
+
+  const dataDir = getLocalDataDir();
+  const resolved = path.resolve(dataDir, relativePath);
+  const fromDataDir = path.relative(dataDir, resolved);
+  if (
+    !fromDataDir ||
+    fromDataDir === '..' ||
+    fromDataDir.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(fromDataDir)
+  ) {
+    return {
+      valid: false,
+      error: `${relativePath} is outside the server's data directory; use a path inside it, e.g. orders.csv.`,
+    };
+  }
+  return { valid: true, value: resolved };
+};
+
+const toFilePath = (value: string): string => {
+  const result = resolveDataPath(value);
+  if (!result.valid) throw new Error(result.error);
+  return result.value;
+};
+
+// Work out where a source or destination node reads from / writes to
+export const resolveLocalTarget = (node: DataFlowNode): LocalTarget => {
+  const config = node.config || {};
+
+  // Registry connectors declare their own fields
+  switch (node.connector) {
+    case 'csv':
+      return { kind: 'csv', path: toFilePath(String(config.file_path || '')) };
+    case 'json_file':
+      return { kind: 'json', path: toFilePath(String(config.file_path || '')) };
+    case 'sqlite':
+      return {
+        kind: 'sqlite',
+        path: toFilePath(String(config.database_path || '')),
+        table: String(config.table_name || '').trim(),
+      };
+    case undefined:
+      break;
+    default:
+      throw new Error(
+        `${node.name} uses the ${node.connector} connector, which the local runner cannot execute. Use a CSV/JSON file or a SQLite database.`
+      );
+  }
+
+  // Generic nodes describe their location with a connection string
+  const declaredType = String(
+    config.source_type || config.destination_type || ''
+  ).toLowerCase();
+  const location = String(config.connection_string || '').trim();
+
+  if (!location) {
+    throw new Error(`${node.name} has no connection_string configured`);
+  }
+
+  const filePath = toFilePath(location);
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (
+    /^sqlite:/i.test(location) ||
+    declaredType.includes('sqlite') ||
+    SQLITE_EXTENSIONS.includes(extension)
+  ) {
+    const table = String(config.table_name || '').trim();
+    if (!table) {
+      throw new Error(`${node.name} needs a table_name for SQLite`);
+    }
+    return { kind: 'sqlite', path: filePath, table };
+  }
+
+  if (extension === '.csv' || declaredType.includes('csv')) {
+    return { kind: 'csv', path: filePath };
+  }
+
+  if (extension === '.json' || declaredType.includes('json')) {
+    return { kind: 'json', path: filePath };
+  }
+
+  throw new Error(
+    `${node.name} (${declaredType || 'unknown type'}) is not supported by the local runner. Use a CSV/JSON file or a SQLite database.`
+  );
+};
+
+// Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+export const parseCsv = (text: string): Row[] => {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records.filter(
+    r => !(r.length === 1 && r[0] === '')
+  );
+  if (!header) return [];
+
+  return body.map(values =>
+    Object.fromEntries(header.map((column, i) => [column, values[i] ?? '']))
+  );
+};
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Row[]): string => {
+  const columns = collectColumns(rows);
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(c => escapeCsvValue(row[c])).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+};
+
+// Union of keys across all rows, in first-seen order
+export const collectColumns = (rows: Row[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return Array.from(columns);
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Open a SQLite file in memory, or an empty database if it does not exist yet
+export const openSqlite = async (filePath: string): Promise<Database> => {
+  const SQL = await getSqlJs();
+  try {
+    const buffer = await fs.readFile(filePath);
+    return new SQL.Database(buffer);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return new SQL.Database();
+    }
+    throw error;
+  }
+};
+
+const readSqliteTable = async (
+  filePath: string,
+  table: string,
+  limit?: number
+) => {
+  const db = await openSqlite(filePath);
+  try {
+    const statement = db.prepare(
+      `SELECT * FROM ${quoteIdentifier(table)}${
+        limit === undefined ? '' : ` LIMIT ${Math.floor(limit)}`
+      }`
+    );
+    const rows: Row[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as Row);
+    }
+    statement.free();
+    return rows;
+  } finally {
+    db.close();
+  }
+};
+
+const writeSqliteTable = async (
+  filePath: string,
+  table: string,
+  rows: Row[]
+) => {
+  const db = await openSqlite(filePath);
+  try {
+    const columns = collectColumns(rows);
+    if (columns.length === 0) return;
+
+    db.run(
+      `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(table)} (${columns
+        .map(quoteIdentifier)
+        .join(', ')})`
+    );
+
+    // Add any columns the existing table does not have yet
+    const existing = new Set(
+      (
+        db.exec(`PRAGMA table_info(${quoteIdentifier(table)})`)[0]?.values || []
+      ).map(values => String(values[1]))
+    );
+    columns
+      .filter(column => !existing.has(column))
+      .forEach(column =>
+        db.run(
+          `ALTER TABLE ${quoteIdentifier(table)} ADD COLUMN ${quoteIdentifier(column)}`
+        )
+      );
+
+    const statement = db.prepare(
+      `INSERT INTO ${quoteIdentifier(table)} (${columns
+        .map(quoteIdentifier)
+        .join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+    );
+    db.run('BEGIN');
+    rows.forEach(row =>
+      statement.run(
+        columns.map(column => {
+          const value = row[column];
+          if (value === undefined || value === null) return null;
+          if (typeof value === 'number' || typeof value === 'string') {
+            return value;
+          }
+          if (typeof value === 'boolean') return value ? 1 : 0;
+          return JSON.stringify(value);
+        })
+      )
+    );
+    db.run('COMMIT');
+    statement.free();
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, Buffer.from(db.export()));
+  } finally {
+    db.close();
+  }
+};
+
+// Reads every row, or only the first `limit` rows (for previews)
+export const readRows = async (
+  target: LocalTarget,
+  limit?: number
+): Promise<Row[]> => {
+  switch (target.kind) {
+    case 'csv':
+      return parseCsv(await fs.readFile(target.path, 'utf8')).slice(0, limit);
+    case 'json': {
+      const parsed = JSON.parse(await fs.readFile(target.path, 'utf8'));
+      if (!Array.isArray(parsed)) {
+        throw new Error(`${target.path} must contain a JSON array of rows`);
+      }
+      return (parsed as Row[]).slice(0, limit);
+    }
+    case 'sqlite':
+      return readSqliteTable(target.path, target.table, limit);
+  }
+};
+
+// Writes replace file contents; SQLite writes append to the target table
+export const writeRows = async (
+  target: LocalTarget,
+  rows: Row[]
+): Promise<void> => {
+  switch (target.kind) {
+    case 'csv':
+      await fs.mkdir(path.dirname(target.path), { recursive: true });
+      await fs.writeFile(target.path, toCsv(rows), 'utf8');
+      return;
+    case 'json':
+      await fs.mkdir(path.dirname(target.path), { recursive: true });
+      await fs.writeFile(target.path, JSON.stringify(rows, null, 2), 'utf8');
+      return;
+    case 'sqlite':
+      await writeSqliteTable(target.path, target.table, rows);
+      return;
+  }
+};
@@ -0,0 +1,236 @@
+import type { DataFlowConnection, DataFlowNode } from './aiService';
+import { applyColumnMapping, validateColumnMapping } from './columnMapping';
+import {
+  readRows,
+  resolveLocalTarget,
+  writeRows,
+  type LocalTarget,
+  type Row,
+} from './localConnectors';
+import { getSecretFields, redactSecrets, revealNodeSecrets } from './secrets';
+import {
+  getTransformSteps,
+  isStepOperation,
+  runTransformSteps,
+  type TransformInput,
+} from './transformDsl';
+import { topologicalSort } from './workflowGraph';
+
+export interface RunLogEntry {
+  timestamp: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface NodeRunState {
+  node_id: string;
+  // Name when the run started, so history still reads after a rename
+  node_name: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+  rows_read?: number;
+  rows_written?: number;
+  error?: string;
+  started_at?: string;
+  finished_at?: string;
+  // What the step did, in order; errors are scrubbed of credentials
+  logs: RunLogEntry[];
+}
+
+export interface PipelineRun {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed';
+  // Started from the chat or by the workflow's schedule
+  trigger: 'manual' | 'schedule';
+  started_at: string;
+  finished_at?: string;
+  node_runs: NodeRunState[];
+  error?: string;
+}
+
+// Helper function to generate unique IDs
+const generateId = (): string => {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+};
+
+// Apply the transform node's operation to its inputs, one per upstream node
+export const applyTransform = (
+  node: DataFlowNode,
+  inputs: TransformInput[]
+): Row[] => {
+  const operation = String(node.config?.operation_type || 'passthrough')
+    .trim()
+    .toLowerCase();
+
+  if (operation === 'map') {
+    const mapping = validateColumnMapping(node.config?.column_mapping);
+    if (!mapping.valid) {
+      throw new Error(
+        `${node.name} has an invalid column mapping: ${mapping.error}`
+      );
+    }
+    return applyColumnMapping(
+      inputs.flatMap(input => input.rows),
+      mapping.value
+    );
+  }
+  if (['passthrough', 'none', 'transform'].includes(operation)) {
+    return inputs.flatMap(input => input.rows);
+  }
+  if (operation !== 'script' && !isStepOperation(operation)) {
+    throw new Error(
+      `Operation "${operation}" is not supported by the local runner`
+    );
+  }
+
+  const steps = getTransformSteps(node);
+  if (!steps.valid) {
+    throw new Error(
+      `${node.name} has invalid ${operation} steps: ${steps.error}`
+    );
+  }
+  try {
+    return runTransformSteps(steps.value, inputs);
+  } catch (error) {
+    throw new Error(
+      `${node.name}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+const describeTarget = (target: LocalTarget) =>
+  target.kind === 'sqlite'
+    ? `table ${target.table} in ${target.path}`
+    : `${target.kind.toUpperCase()} file ${target.path}`;
+
+// Execute a completed workflow, reporting progress after every state change
+export const runPipeline = async (
+  workflow: { nodes: DataFlowNode[]; connections: DataFlowConnection[] },
+  onUpdate?: (run: PipelineRun) => void,
+  trigger: PipelineRun['trigger'] = 'manual'
+): Promise<PipelineRun> => {
+  const run: PipelineRun = {
+    id: generateId(),
+    status: 'running',
+    trigger,
+    started_at: new Date().toISOString(),
+    node_runs: workflow.nodes.map(node => ({
+      node_id: node.id,
+      node_name: node.name,
+      status: 'pending',
+      logs: [],
+    })),
+  };
+
+  const report = () => onUpdate?.(JSON.parse(JSON.stringify(run)));
+  const nodeRun = (nodeId: string) =>
+    run.node_runs.find(state => state.node_id === nodeId)!;
+  const log = (
+    state: NodeRunState,
+    level: RunLogEntry['level'],
+    message: string
+  ) => state.logs.push({ timestamp: new Date().toISOString(), level, message });
+
+  report();
+
+  // Output rows of every node that has finished, keyed by node ID
+  const outputs = new Map<string, Row[]>();
+
+  try {
+    const ordered = topologicalSort(workflow.nodes, workflow.connections);
+
+    for (const node of ordered) {
+      const state = nodeRun(node.id);
+      state.status = 'running';
+      state.started_at = new Date().toISOString();
+      report();
+
+      // Credentials are only decrypted for the duration of this step
+      const resolvedNode = revealNodeSecrets(node);
+
+      try {
+        // Upstream outputs in connection order; everything but a transform
+        // reads them concatenated
+        const inputs: TransformInput[] = workflow.connections
+          .filter(connection => connection.target === node.id)
+          .flatMap(connection => {
+            const upstream = workflow.nodes.find(
+              n => n.id === connection.source
+            );
+            return upstream
+              ? [{ node: upstream, rows: outputs.get(upstream.id) || [] }]
+              : [];
+          });
+        const input = inputs.flatMap(upstream => upstream.rows);
+
+        let output: Row[];
+        if (node.type === 'source') {
+          const target = resolveLocalTarget(resolvedNode);
+          log(state, 'info', `Reading ${describeTarget(target)}`);
+          output = await readRows(target);
+          state.rows_read = output.length;
+          log(
+            state,
+            output.length > 0 ? 'info' : 'warn',
+            `Read ${output.length} rows`
+          );
+        } else if (node.type === 'transform') {
+          state.rows_read = input.length;
+          log(
+            state,
+            'info',
+            `Applying ${node.config?.operation_type || 'passthrough'} to ${input.length} rows`
+          );
+          output = applyTransform(node, inputs);
+          state.rows_written = output.length;
+          log(state, 'info', `Produced ${output.length} rows`);
+        } else {
+          const target = resolveLocalTarget(resolvedNode);
+          state.rows_read = input.length;
+          log(
+            state,
+            'info',
+            `Writing ${input.length} rows to ${describeTarget(target)}`
+          );
+          await writeRows(target, input);
+          state.rows_written = input.length;
+          log(state, 'info', `Wrote ${input.length} rows`);
+          output = input;
+        }
+
+        outputs.set(node.id, output);
+        state.status = 'succeeded';
+      } catch (error) {
+        // Driver errors can echo connection details back, so scrub them
+        const message = redactSecrets(
+          error instanceof Error ? error.message : String(error),
+          getSecretFields(resolvedNode).map(fieldName =>
+            String(resolvedNode.config?.[fieldName] ?? '')
+          )
+        );
+        state.status = 'failed';
+        state.error = message;
+        log(state, 'error', message);
+        throw new Error(message);
+      } finally {
+        state.finished_at = new Date().toISOString();
+        report();
+      }
+    }
+
+    run.status = 'succeeded';
+  } catch (error) {
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+    run.node_runs
+      .filter(state => state.status === 'pending')
+      .forEach(state => {
+        state.status = 'skipped';
+        log(state, 'warn', 'Skipped because an earlier step failed');
+      });
+  }
+
+  run.finished_at = new Date().toISOString();
+  report();
+
+  return run;
+};
@@ -0,0 +1,97 @@
+import type { NodeRunState, PipelineRun } from './pipelineRunner';
+import { getSessionStore } from './storage';
+
+// Runs are saved when they start and when they finish; progress in between
+// is only streamed to the client
+
+// Oldest runs are dropped beyond this many per workflow
+export const MAX_RUNS_PER_SESSION = 200;
+
+export const DEFAULT_RUN_LIMIT = 50;
+
+// A run without its logs, for listing many at once
+export type RunSummary = Omit<PipelineRun, 'node_runs'> & {
+  node_runs: Omit<NodeRunState, 'logs'>[];
+  duration_ms?: number;
+};
+
+// Runs this process is executing; a stored run still marked running that is
+// not one of these was cut short by a restart
+const activeRuns = new Set<string>();
+
+// Writes of each run in order, so the finished state is never overwritten by
+// the started one
+const pendingWrites = new Map<string, Promise<void>>();
+
+const saveRun = (sessionId: string, run: PipelineRun) => {
+  const write = (pendingWrites.get(run.id) || Promise.resolve())
+    .then(async () => {
+      const store = getSessionStore();
+      await store.saveRun(sessionId, run);
+      if (run.status !== 'running') {
+        await store.pruneRuns(sessionId, MAX_RUNS_PER_SESSION);
+      }
+    })
+    .catch(error => console.error(`❌ Error saving run ${run.id}:`, error));
+  pendingWrites.set(run.id, write);
+  if (run.status !== 'running') {
+    write.finally(() => pendingWrites.delete(run.id));
+  }
+};
+
+// Wrap a run's progress callback so the run is kept in the workflow's history
+export const recordRun =
+  (sessionId: string, onUpdate?: (run: PipelineRun) => void) =>
+  (run: PipelineRun) => {
+    onUpdate?.(run);
+    if (run.status === 'running') {
+      if (activeRuns.has(run.id)) return;
+      activeRuns.add(run.id);
+    } else {
+      activeRuns.delete(run.id);
+    }
+    saveRun(sessionId, run);
+  };
+
+const markInterrupted = (run: PipelineRun): PipelineRun =>
+  run.status !== 'running' || activeRuns.has(run.id)
+    ? run
+    : {
+        ...run,
+        status: 'failed',
+        error: 'The server stopped before the run finished',
+        node_runs: run.node_runs.map(state =>
+          state.status === 'running'
+            ? { ...state, status: 'failed' }
+            : state.status === 'pending'
+              ? { ...state, status: 'skipped' }
+              : state
+        ),
+      };
+
+const summarizeRun = (run: PipelineRun): RunSummary => ({
+  ...run,
+  node_runs: run.node_runs.map(({ logs: _logs, ...state }) => state),
+  ...(run.finished_at && {
+    duration_ms:
+      new Date(run.finished_at).getTime() - new Date(run.started_at).getTime(),
+  }),
+});
+
+// Newest first
+export const listRunHistory = async (
+  sessionId: string,
+  limit = DEFAULT_RUN_LIMIT
+): Promise<RunSummary[]> => {
+  const runs = await getSessionStore().listRuns(sessionId, limit);
+  return runs.map(markInterrupted).map(summarizeRun);
+};
+
+// A run with every node's logs
+export const getRunDetail = async (
+  sessionId: string,
+  runId: string
+): Promise<PipelineRun | null> => {
+  const run = await getSessionStore().getRun(sessionId, runId);
+  return run ? markInterrupted(run) : null;
+};
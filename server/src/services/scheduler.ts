@@ -0,0 +1,127 @@
+import { runPipeline, type PipelineRun } from './pipelineRunner';
+import { recordRun } from './runHistory';
+import { getSessionStore, type SessionSummary } from './storage';
+import {
+  describeSchedule,
+  getNextRuns,
+  getWorkflowSchedule,
+} from './workflowSchedule';
+
+// Progress of a scheduled run, for forwarding to whoever is watching
+export type ScheduledRunListener = (
+  sessionId: string,
+  run: PipelineRun
+) => void;
+
+interface ArmedSchedule {
+  // What the timer was armed for, to tell when a session's schedule changed
+  key: string;
+  timer: NodeJS.Timeout;
+}
+
+// setTimeout fires immediately for delays above ~24.8 days, so longer waits
+// are split and the next run is worked out again on waking
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const armed = new Map<string, ArmedSchedule>();
+const running = new Set<string>();
+let listener: ScheduledRunListener | undefined;
+
+const scheduleKey = (session: SessionSummary) =>
+  session.workflow?.workflow_complete
+    ? JSON.stringify(getWorkflowSchedule(session.workflow))
+    : '';
+
+const disarm = (sessionId: string) => {
+  const current = armed.get(sessionId);
+  if (current) clearTimeout(current.timer);
+  armed.delete(sessionId);
+};
+
+const arm = (session: SessionSummary, after = new Date()) => {
+  const key = scheduleKey(session);
+  const [nextRun] = getNextRuns(getWorkflowSchedule(session.workflow), after);
+  if (!key || !nextRun) return;
+
+  const delay = nextRun.getTime() - Date.now();
+  const timer = setTimeout(
+    () =>
+      delay > MAX_TIMER_DELAY
+        ? rearm(session.id)
+        : runScheduledWorkflow(session.id, nextRun),
+    Math.min(Math.max(delay, 0), MAX_TIMER_DELAY)
+  );
+  // Timers alone should not keep the process alive
+  timer.unref();
+  armed.set(session.id, { key, timer });
+};
+
+const rearm = async (sessionId: string) => {
+  disarm(sessionId);
+  const session = await getSessionStore().getSession(sessionId);
+  if (session) arm(session);
+};
+
+const runScheduledWorkflow = async (sessionId: string, dueAt: Date) => {
+  armed.delete(sessionId);
+
+  // Run what is stored now, in case the workflow changed since arming
+  const session = await getSessionStore().getSession(sessionId);
+  const workflow = session?.workflow;
+  if (!session || !workflow?.workflow_complete) return;
+
+  if (running.has(sessionId)) {
+    console.warn(
+      `⏭️ Skipping scheduled run of session ${sessionId}: the previous run is still going`
+    );
+  } else {
+    running.add(sessionId);
+    console.log(
+      `⏰ Scheduled run of session ${sessionId} (${describeSchedule(getWorkflowSchedule(workflow))})`
+    );
+    runPipeline(
+      workflow,
+      recordRun(sessionId, update => listener?.(sessionId, update)),
+      'schedule'
+    )
+      .then(run =>
+        console.log(
+          `🏁 Scheduled run ${run.id} finished with status: ${run.status}`
+        )
+      )
+      .catch(error => console.error('Scheduled run failed:', error))
+      .finally(() => running.delete(sessionId));
+  }
+
+  // Arm the following run straight away so a slow run does not delay it.
+  // Counting from the due time keeps a timer that fired early from running
+  // the same slot twice.
+  if (!armed.has(sessionId)) {
+    arm(session, new Date(Math.max(Date.now(), dueAt.getTime())));
+  }
+};
+
+// Arm, re-arm or cancel a session's timer after its workflow was saved. Only
+// complete workflows run; a manual schedule clears the timer.
+export const syncSchedule = (session: SessionSummary) => {
+  const current = armed.get(session.id);
+  if (current && current.key === scheduleKey(session)) return;
+  disarm(session.id);
+  arm(session);
+};
+
+// Arm every stored schedule. Runs missed while the server was down are not
+// made up; each schedule continues from its next run.
+export const startScheduler = async (onRun?: ScheduledRunListener) => {
+  listener = onRun;
+  const sessions = await getSessionStore().listSessions();
+  sessions.forEach(syncSchedule);
+  console.log(
+    `⏰ Scheduler started with ${armed.size} scheduled workflow${armed.size === 1 ? '' : 's'}`
+  );
+};
+
+export const stopScheduler = () => {
+  [...armed.keys()].forEach(disarm);
+  listener = undefined;
+};
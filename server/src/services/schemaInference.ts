@@ -0,0 +1,382 @@
+import { constants, promises as fs } from 'fs';
+import type { DataFlowConnection, DataFlowNode } from './aiService';
+import {
+  mapSchema,
+  validateColumnMapping,
+  validateDeclaredSchema,
+  type ColumnType,
+  type SchemaColumn,
+} from './columnMapping';
+import { getConnector } from './connectors';
+import {
+  collectColumns,
+  openSqlite,
+  readRows,
+  resolveLocalTarget,
+  type LocalTarget,
+  type Row,
+} from './localConnectors';
+import { getSecretFields, redactSecrets, revealNodeSecrets } from './secrets';
+import {
+  findJoinInput,
+  getTransformSteps,
+  splitJoinedInputs,
+  transformStepsSchema,
+} from './transformDsl';
+
+export interface InferredSchema {
+  columns: SchemaColumn[];
+  // Read from the data, from a table's definition, declared on the node,
+  // or worked out from the transforms in between
+  origin: 'sample' | 'table' | 'declared' | 'transform';
+  // Where the columns came from, for display
+  detail: string;
+}
+
+export interface NodeSchemas {
+  node_id: string;
+  // Columns flowing in from upstream (transforms and destinations)
+  input?: InferredSchema;
+  // Columns the node produces; for a destination, the columns its target
+  // already has or declares
+  output?: InferredSchema;
+  // Why some schema along the way could not be worked out
+  errors: string[];
+}
+
+type Workflow = { nodes: DataFlowNode[]; connections: DataFlowConnection[] };
+
+// Rows read from a file or table to guess column types
+const SAMPLE_ROWS = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '';
+
+// The narrowest type a single value fits
+const detectValueType = (value: unknown): ColumnType => {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'object') return 'json';
+
+  const text = String(value).trim();
+  if (/^-?\d+$/.test(text)) return 'integer';
+  if (text !== '' && !isNaN(Number(text))) return 'number';
+  if (/^(true|false)$/i.test(text)) return 'boolean';
+  if (DATE_PATTERN.test(text) && !isNaN(Date.parse(text))) return 'date';
+  if (DATETIME_PATTERN.test(text) && !isNaN(Date.parse(text))) {
+    return 'datetime';
+  }
+  return 'string';
+};
+
+// One type that fits every value: integers widen to numbers and dates to
+// datetimes, anything else mixed falls back to text
+const combineTypes = (types: ColumnType[]): ColumnType => {
+  const unique = [...new Set(types)];
+  if (unique.length === 0) return 'string';
+  if (unique.length === 1) return unique[0];
+  if (unique.every(type => type === 'integer' || type === 'number')) {
+    return 'number';
+  }
+  if (unique.every(type => type === 'date' || type === 'datetime')) {
+    return 'datetime';
+  }
+  return 'string';
+};
+
+export interface ColumnProfile extends SchemaColumn {
+  // Rows where the column is null, missing or empty
+  null_count: number;
+}
+
+export const inferRowsSchema = (rows: Row[]): SchemaColumn[] =>
+  collectColumns(rows).map(name => {
+    const values = rows.map(row => row[name]);
+    return {
+      name,
+      type: combineTypes(values.filter(v => !isEmpty(v)).map(detectValueType)),
+      nullable: values.some(isEmpty),
+    };
+  });
+
+export const profileRows = (rows: Row[]): ColumnProfile[] =>
+  inferRowsSchema(rows).map(column => ({
+    ...column,
+    null_count: rows.filter(row => isEmpty(row[column.name])).length,
+  }));
+
+// SQLite type affinity, for columns declared with a type
+const sqliteColumnType = (declared: string): ColumnType | undefined => {
+  const type = declared.toUpperCase();
+  if (!type) return undefined;
+  if (type.includes('BOOL')) return 'boolean';
+  if (type.includes('INT')) return 'integer';
+  if (/REAL|FLOA|DOUB|NUMERIC|DECIMAL/.test(type)) return 'number';
+  if (type.includes('DATETIME') || type.includes('TIMESTAMP')) {
+    return 'datetime';
+  }
+  if (type.includes('DATE')) return 'date';
+  if (type.includes('JSON')) return 'json';
+  return 'string';
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Columns of a SQLite table, typed from its definition where it has one and
+// from a sample of its rows otherwise. Undefined when the table is missing.
+const readSqliteSchema = async (
+  target: Extract<LocalTarget, { kind: 'sqlite' }>
+): Promise<SchemaColumn[] | undefined> => {
+  const db = await openSqlite(target.path);
+  try {
+    const [info] = db.exec(
+      `PRAGMA table_info(${quoteIdentifier(target.table)})`
+    );
+    if (!info) return undefined;
+
+    const statement = db.prepare(
+      `SELECT * FROM ${quoteIdentifier(target.table)} LIMIT ${SAMPLE_ROWS}`
+    );
+    const rows: Row[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as Row);
+    }
+    statement.free();
+    const sampled = inferRowsSchema(rows);
+
+    // table_info rows are: cid, name, type, notnull, default, pk
+    return info.values.map(([, name, type, notNull]) => {
+      const sample = sampled.find(column => column.name === String(name));
+      return {
+        name: String(name),
+        type: sqliteColumnType(String(type || '')) || sample?.type || 'string',
+        nullable: !notNull && (sample?.nullable ?? true),
+      };
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const fileExists = (filePath: string) =>
+  fs
+    .access(filePath, constants.R_OK)
+    .then(() => true)
+    .catch(() => false);
+
+// What a source or destination holds, from its declared schema or else
+// from the data itself. Undefined when a destination has nothing yet.
+const readNodeSchema = async (
+  node: DataFlowNode
+): Promise<InferredSchema | undefined> => {
+  if (node.config?.schema !== undefined) {
+    const declared = validateDeclaredSchema(node.config.schema);
+    if (!declared.valid) throw new Error(declared.error);
+    return {
+      columns: Object.entries(declared.value).map(([name, type]) => ({
+        name,
+        type,
+        nullable: true,
+      })),
+      origin: 'declared',
+      detail: `Declared on ${node.name}`,
+    };
+  }
+
+  if (node.connector === 'postgres') {
+    throw new Error(
+      `Reading the columns of ${node.name} needs a PostgreSQL driver on the server. Declare its schema instead.`
+    );
+  }
+  const connector = getConnector(node.connector);
+  if (connector && !connector.local) {
+    throw new Error(
+      `Columns cannot be read from ${connector.name} yet. Declare the schema of ${node.name} instead.`
+    );
+  }
+
+  const target = resolveLocalTarget(revealNodeSecrets(node));
+  if (!(await fileExists(target.path))) {
+    if (node.type === 'destination') return undefined;
+    throw new Error(`${target.path} does not exist or is not readable`);
+  }
+
+  if (target.kind === 'sqlite') {
+    const columns = await readSqliteSchema(target);
+    if (!columns) {
+      if (node.type === 'destination') return undefined;
+      throw new Error(
+        `Table "${target.table}" was not found in ${target.path}`
+      );
+    }
+    return {
+      columns,
+      origin: 'table',
+      detail: `Table ${target.table} in ${target.path}`,
+    };
+  }
+
+  const rows = await readRows(target, SAMPLE_ROWS);
+  return {
+    columns: inferRowsSchema(rows),
+    origin: 'sample',
+    detail: `First ${rows.length} row${rows.length === 1 ? '' : 's'} of ${target.path}`,
+  };
+};
+
+// Upstream schemas side by side: a column missing from one input is null
+// in its rows
+const mergeSchemas = (
+  schemas: InferredSchema[]
+): InferredSchema | undefined => {
+  if (schemas.length === 0) return undefined;
+  if (schemas.length === 1) return schemas[0];
+
+  const names = [
+    ...new Set(schemas.flatMap(schema => schema.columns.map(c => c.name))),
+  ];
+  return {
+    columns: names.map(name => {
+      const matches = schemas.map(schema =>
+        schema.columns.find(column => column.name === name)
+      );
+      const present = matches.filter((c): c is SchemaColumn => !!c);
+      return {
+        name,
+        type: combineTypes(present.map(column => column.type)),
+        nullable:
+          present.length < schemas.length ||
+          present.some(column => column.nullable),
+      };
+    }),
+    origin: 'transform',
+    detail: schemas.map(schema => schema.detail).join('; '),
+  };
+};
+
+// The columns a transform produces from its inputs, following its operation
+const transformSchema = (
+  node: DataFlowNode,
+  upstream: { node: DataFlowNode; schema: InferredSchema }[]
+): InferredSchema | undefined => {
+  const operation = String(node.config?.operation_type || 'passthrough')
+    .trim()
+    .toLowerCase();
+
+  const steps = getTransformSteps(node);
+  if (!steps.valid) throw new Error(`${node.name}: ${steps.error}`);
+  // Inputs a join reads are added by the join, not merged up front
+  const input = mergeSchemas(
+    splitJoinedInputs(steps.value, upstream).map(u => u.schema)
+  );
+  if (!input) return undefined;
+  const detail = `${input.detail}, through ${node.name}`;
+
+  if (operation === 'map') {
+    const mapping = validateColumnMapping(node.config?.column_mapping);
+    if (!mapping.valid) throw new Error(mapping.error);
+    return {
+      columns: mapSchema(input.columns, mapping.value),
+      origin: 'transform',
+      detail,
+    };
+  }
+  return {
+    columns: transformStepsSchema(
+      steps.value,
+      input.columns,
+      reference => findJoinInput(upstream, reference)?.schema.columns
+    ),
+    origin: 'transform',
+    detail,
+  };
+};
+
+// Work out the columns going into and coming out of a node: sources and
+// destinations are read (or taken from a declared schema), and transforms
+// are followed from their upstream columns
+export const inferNodeSchemas = async (
+  workflow: Workflow,
+  nodeId: string
+): Promise<NodeSchemas> => {
+  const errors: string[] = [];
+  const outputs = new Map<string, Promise<InferredSchema | undefined>>();
+
+  const tryInfer = async <T>(
+    node: DataFlowNode,
+    infer: () => Promise<T>
+  ): Promise<T | undefined> => {
+    try {
+      return await infer();
+    } catch (error) {
+      // Reading data can echo connection details back, so scrub them
+      const resolvedNode = revealNodeSecrets(node);
+      const message = redactSecrets(
+        error instanceof Error ? error.message : String(error),
+        getSecretFields(resolvedNode).map(fieldName =>
+          String(resolvedNode.config?.[fieldName] ?? '')
+        )
+      );
+      if (!errors.includes(message)) errors.push(message);
+      return undefined;
+    }
+  };
+
+  // What each upstream node hands on, in connection order
+  const upstreamOf = async (node: DataFlowNode, visiting: string[]) => {
+    const upstream = workflow.connections
+      .filter(connection => connection.target === node.id)
+      .map(connection => workflow.nodes.find(n => n.id === connection.source))
+      .filter((n): n is DataFlowNode => !!n);
+    const schemas = await Promise.all(
+      upstream.map(n => outputOf(n, [...visiting, node.id]))
+    );
+    return upstream.flatMap((n, index) => {
+      const schema = schemas[index];
+      return schema ? [{ node: n, schema }] : [];
+    });
+  };
+
+  const inputOf = async (
+    node: DataFlowNode,
+    visiting: string[]
+  ): Promise<InferredSchema | undefined> =>
+    mergeSchemas((await upstreamOf(node, visiting)).map(u => u.schema));
+
+  const outputOf = (
+    node: DataFlowNode,
+    visiting: string[]
+  ): Promise<InferredSchema | undefined> => {
+    if (visiting.includes(node.id)) return Promise.resolve(undefined);
+    if (!outputs.has(node.id)) {
+      outputs.set(
+        node.id,
+        node.type === 'transform'
+          ? upstreamOf(node, visiting).then(upstream =>
+              upstream.length > 0
+                ? tryInfer(node, async () => transformSchema(node, upstream))
+                : undefined
+            )
+          : tryInfer(node, () => readNodeSchema(node))
+      );
+    }
+    return outputs.get(node.id)!;
+  };
+
+  const node = workflow.nodes.find(n => n.id === nodeId);
+  if (!node) return { node_id: nodeId, errors: ['Step not found'] };
+
+  const input = node.type === 'source' ? undefined : await inputOf(node, []);
+  const output = await outputOf(node, []);
+  return {
+    node_id: nodeId,
+    ...(input && { input }),
+    ...(output && { output }),
+    errors,
+  };
+};
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import type { DataFlowNode } from './aiService';
+import { getFieldSchema } from './connectors';
+
+// Encryption at rest and redaction for credential fields (passwords, API keys,
+// connection strings). Secret values are stored in node.config as
+// "enc:v1:<base64(iv | auth tag | ciphertext)>" and only decrypted when a
+// pipeline runs or the user explicitly reveals them.
+
+export const SECRET_MASK = '••••••••';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEV_KEY = 'ai-workflow-interface-development-key';
+
+// Field names that hold credentials even when no connector schema says so
+const SECRET_NAME_PATTERN =
+  /(password|passwd|secret|token|api_key|apikey|access_key|private_key|credentials|connection_string)/i;
+
+let encryptionKey: Buffer | null = null;
+
+// Derive a 256-bit key from SECRETS_ENCRYPTION_KEY (any length string)
+const getEncryptionKey = (): Buffer => {
+  if (encryptionKey) return encryptionKey;
+
+  let secret = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(
+        'SECRETS_ENCRYPTION_KEY must be set to store credentials in production'
+      );
+    }
+    console.warn(
+      '⚠️ SECRETS_ENCRYPTION_KEY not set - using the development key for credentials'
+    );
+    secret = DEV_KEY;
+  }
+
+  encryptionKey = crypto.createHash('sha256').update(secret).digest();
+  return encryptionKey;
+};
+
+export const isEncryptedSecret = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+export const encryptSecret = (value: string): string => {
+  if (isEncryptedSecret(value)) return value;
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(value, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return (
+    ENCRYPTED_PREFIX +
+    Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+  );
+};
+
+export const decryptSecret = (value: string): string => {
+  if (!isEncryptedSecret(value)) return value;
+
+  const payload = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  const iv = payload.subarray(0, IV_LENGTH);
+  const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = payload.subarray(IV_LENGTH + TAG_LENGTH);
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      getEncryptionKey(),
+      iv
+    );
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error(
+      'Unable to decrypt a stored credential - was SECRETS_ENCRYPTION_KEY changed?'
+    );
+  }
+};
+
+export const isSecretField = (node: DataFlowNode, fieldName: string) =>
+  getFieldSchema(node, fieldName)?.secret ??
+  SECRET_NAME_PATTERN.test(fieldName);
+
+// Secret fields the node asks for or already has a value for
+export const getSecretFields = (node: DataFlowNode): string[] => {
+  const fieldNames = new Set([
+    ...(node.data_requirements?.required_fields || []),
+    ...Object.keys(node.config || {}),
+  ]);
+  return [...fieldNames].filter(fieldName => isSecretField(node, fieldName));
+};
+
+// Copy of the node with each secret config value replaced
+const mapSecretValues = (
+  node: DataFlowNode,
+  replace: (value: any) => any
+): DataFlowNode => {
+  if (!node.config) return { ...node };
+
+  const config = { ...node.config };
+  getSecretFields(node).forEach(fieldName => {
+    if (config[fieldName] !== undefined) {
+      config[fieldName] = replace(config[fieldName]);
+    }
+  });
+  return { ...node, config };
+};
+
+// For anything leaving the server: the client, transcripts and logs
+export const maskNodeSecrets = (node: DataFlowNode): DataFlowNode =>
+  mapSecretValues(node, () => SECRET_MASK);
+
+// For execution: plain-text credentials, never persisted
+export const revealNodeSecrets = (node: DataFlowNode): DataFlowNode =>
+  mapSecretValues(node, value =>
+    typeof value === 'string' ? decryptSecret(value) : value
+  );
+
+// For exported specs: secret values are removed entirely
+export const stripSecrets = (node: DataFlowNode): DataFlowNode => {
+  const stripped = mapSecretValues(node, () => undefined);
+  if (stripped.config) {
+    stripped.config = Object.fromEntries(
+      Object.entries(stripped.config).filter(([, value]) => value !== undefined)
+    );
+  }
+  return stripped;
+};
+
+// Replace any occurrence of the given plain-text secrets in free text
+export const redactSecrets = (text: string, secrets: string[]): string =>
+  secrets
+    .filter(secret => secret.length > 0)
+    .reduce(
+      (redacted, secret) => redacted.split(secret).join(SECRET_MASK),
+      text
+    );
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import path from 'path';
+import { createMemoryStore } from './memoryStore';
+import { createSqliteStore } from './sqliteStore';
+import type { Session, SessionStore } from './types';
+
+export type {
+  Session,
+  SessionStore,
+  SessionSummary,
+  WorkflowSnapshot,
+  WorkflowVersion,
+  WorkflowViewport,
+} from './types';
+export { createMemoryStore } from './memoryStore';
+export { createSqliteStore } from './sqliteStore';
+
+let store: SessionStore | null = null;
+
+// Pick the store from STORAGE_DRIVER ("sqlite" by default, or "memory");
+// the SQLite file lives at STORAGE_PATH (default ./data/sessions.db)
+export const getSessionStore = (): SessionStore => {
+  if (!store) {
+    const driver = process.env.STORAGE_DRIVER || 'sqlite';
+
+    switch (driver) {
+      case 'memory':
+        store = createMemoryStore();
+        break;
+      case 'sqlite':
+        store = createSqliteStore(
+          path.resolve(process.env.STORAGE_PATH || 'data/sessions.db')
+        );
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+    }
+
+    console.log(`💾 Using ${driver} session storage`);
+  }
+  return store;
+};
+
+// Session IDs let a browser resume its conversation, so make them unguessable
+export const createSession = (): Session => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    created_at: now,
+    updated_at: now,
+    messages: [],
+    workflow: null,
+    versions: [],
+    redo_stack: [],
+  };
+};
@@ -0,0 +1,53 @@
+import type { PipelineRun } from '../pipelineRunner';
+import type { Session, SessionStore } from './types';
+
+// Non-durable store for tests and throwaway deployments. Sessions are cloned
+// on the way in and out so callers never share references with the store.
+export const createMemoryStore = (): SessionStore => {
+  const sessions = new Map<string, Session>();
+  // Oldest first, by session
+  const runs = new Map<string, PipelineRun[]>();
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    getSession: async id => {
+      const session = sessions.get(id);
+      return session ? clone(session) : null;
+    },
+    listSessions: async () =>
+      [...sessions.values()].map(session => {
+        const { id, created_at, updated_at, workflow } = clone(session);
+        return { id, created_at, updated_at, workflow };
+      }),
+    saveSession: async session => {
+      sessions.set(session.id, clone(session));
+    },
+    deleteSession: async id => {
+      sessions.delete(id);
+      runs.delete(id);
+    },
+    clear: async () => {
+      sessions.clear();
+      runs.clear();
+    },
+    flush: async () => {},
+    saveRun: async (sessionId, run) => {
+      const sessionRuns = (runs.get(sessionId) || []).filter(
+        stored => stored.id !== run.id
+      );
+      sessionRuns.push(clone(run));
+      sessionRuns.sort((a, b) => a.started_at.localeCompare(b.started_at));
+      runs.set(sessionId, sessionRuns);
+    },
+    listRuns: async (sessionId, limit) =>
+      (runs.get(sessionId) || []).slice(-limit).reverse().map(clone),
+    getRun: async (sessionId, runId) => {
+      const run = runs.get(sessionId)?.find(stored => stored.id === runId);
+      return run ? clone(run) : null;
+    },
+    pruneRuns: async (sessionId, keep) => {
+      const sessionRuns = runs.get(sessionId);
+      if (sessionRuns) runs.set(sessionId, sessionRuns.slice(-keep));
+    },
+  };
+};
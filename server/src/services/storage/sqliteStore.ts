@@ -0,0 +1,347 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Database } from 'sql.js';
+import { openSqlite } from '../localConnectors';
+import type { PipelineRun } from '../pipelineRunner';
+import type { Session, SessionStore } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    workflow TEXT
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    session_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (session_id, position)
+  );
+  CREATE TABLE IF NOT EXISTS workflow_versions (
+    session_id TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (session_id, number)
+  );
+  CREATE TABLE IF NOT EXISTS redo_turns (
+    session_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (session_id, position)
+  );
+  CREATE TABLE IF NOT EXISTS workflow_runs (
+    session_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (session_id, id)
+  );
+`;
+
+// Changes are exported to disk at most this often
+const EXPORT_INTERVAL_MS = 500;
+
+type RowTable = 'messages' | 'workflow_versions' | 'redo_turns';
+
+// Bring a session's rows in one table in line with `rows` (key -> payload),
+// touching only the rows that changed. Undo can shorten the transcript, so
+// rows that are no longer there are removed.
+const syncRows = (
+  db: Database,
+  table: RowTable,
+  keyColumn: 'position' | 'number',
+  sessionId: string,
+  rows: [number, string][]
+) => {
+  const statement = db.prepare(
+    `SELECT ${keyColumn} AS key, payload FROM ${table} WHERE session_id = ?`
+  );
+  statement.bind([sessionId]);
+  const stored = new Map<number, string>();
+  while (statement.step()) {
+    const row = statement.getAsObject();
+    stored.set(Number(row.key), String(row.payload));
+  }
+  statement.free();
+
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (session_id, ${keyColumn}, payload) VALUES (?, ?, ?)
+     ON CONFLICT(session_id, ${keyColumn}) DO UPDATE SET payload = excluded.payload`
+  );
+  rows.forEach(([key, payload]) => {
+    if (stored.get(key) !== payload) upsert.run([sessionId, key, payload]);
+    stored.delete(key);
+  });
+  upsert.free();
+
+  stored.forEach((_, key) =>
+    db.run(`DELETE FROM ${table} WHERE session_id = ? AND ${keyColumn} = ?`, [
+      sessionId,
+      key,
+    ])
+  );
+};
+
+// SQLite-backed store. sql.js keeps the database in memory; saves only touch
+// the rows that changed, and the whole database is exported to disk shortly
+// after (atomically, via a temporary file and rename), so a burst of saves
+// such as canvas drags costs one export.
+export const createSqliteStore = (filePath: string): SessionStore => {
+  let database: Promise<Database> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+  let exportTimer: NodeJS.Timeout | null = null;
+
+  const getDatabase = () => {
+    if (!database) {
+      database = openSqlite(filePath).then(db => {
+        db.run(SCHEMA);
+        return db;
+      });
+    }
+    return database;
+  };
+
+  // Exports are chained so they never overlap. A failed export is logged and
+  // does not stop later ones; the next change writes everything again.
+  const exportDatabase = (db: Database) => {
+    pendingWrite = pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        await fs.writeFile(tempPath, Buffer.from(db.export()));
+        await fs.rename(tempPath, filePath);
+      })
+      .catch(error => {
+        console.error(`❌ Error writing sessions to ${filePath}:`, error);
+      });
+    return pendingWrite;
+  };
+
+  const persist = (db: Database) => {
+    if (exportTimer) return;
+    exportTimer = setTimeout(() => {
+      exportTimer = null;
+      exportDatabase(db);
+    }, EXPORT_INTERVAL_MS);
+  };
+
+  const flush = async () => {
+    if (exportTimer) {
+      clearTimeout(exportTimer);
+      exportTimer = null;
+      await exportDatabase(await getDatabase());
+    }
+    await pendingWrite;
+  };
+
+  return {
+    getSession: async id => {
+      const db = await getDatabase();
+
+      const sessionStatement = db.prepare(
+        'SELECT id, created_at, updated_at, workflow FROM sessions WHERE id = ?'
+      );
+      sessionStatement.bind([id]);
+      const row = sessionStatement.step()
+        ? (sessionStatement.getAsObject() as Record<string, string | null>)
+        : null;
+      sessionStatement.free();
+      if (!row) return null;
+
+      const messageStatement = db.prepare(
+        'SELECT payload FROM messages WHERE session_id = ? ORDER BY position'
+      );
+      messageStatement.bind([id]);
+      const messages = [];
+      while (messageStatement.step()) {
+        messages.push(
+          JSON.parse(String(messageStatement.getAsObject().payload))
+        );
+      }
+      messageStatement.free();
+
+      const versionStatement = db.prepare(
+        'SELECT payload FROM workflow_versions WHERE session_id = ? ORDER BY number'
+      );
+      versionStatement.bind([id]);
+      const versions = [];
+      while (versionStatement.step()) {
+        versions.push(
+          JSON.parse(String(versionStatement.getAsObject().payload))
+        );
+      }
+      versionStatement.free();
+
+      const redoStatement = db.prepare(
+        'SELECT payload FROM redo_turns WHERE session_id = ? ORDER BY position'
+      );
+      redoStatement.bind([id]);
+      const redoStack = [];
+      while (redoStatement.step()) {
+        redoStack.push(JSON.parse(String(redoStatement.getAsObject().payload)));
+      }
+      redoStatement.free();
+
+      return {
+        id: String(row.id),
+        created_at: String(row.created_at),
+        updated_at: String(row.updated_at),
+        messages,
+        workflow: row.workflow ? JSON.parse(row.workflow) : null,
+        versions,
+        redo_stack: redoStack,
+      };
+    },
+
+    listSessions: async () => {
+      const db = await getDatabase();
+      const statement = db.prepare(
+        'SELECT id, created_at, updated_at, workflow FROM sessions ORDER BY created_at'
+      );
+      const sessions = [];
+      while (statement.step()) {
+        const row = statement.getAsObject() as Record<string, string | null>;
+        sessions.push({
+          id: String(row.id),
+          created_at: String(row.created_at),
+          updated_at: String(row.updated_at),
+          workflow: row.workflow ? JSON.parse(row.workflow) : null,
+        });
+      }
+      statement.free();
+      return sessions;
+    },
+
+    saveSession: async (session: Session) => {
+      const db = await getDatabase();
+
+      db.run('BEGIN');
+      try {
+        db.run(
+          `INSERT INTO sessions (id, created_at, updated_at, workflow)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET
+             updated_at = excluded.updated_at,
+             workflow = excluded.workflow`,
+          [
+            session.id,
+            session.created_at,
+            session.updated_at,
+            session.workflow ? JSON.stringify(session.workflow) : null,
+          ]
+        );
+        syncRows(
+          db,
+          'messages',
+          'position',
+          session.id,
+          session.messages.map((message, position) => [
+            position,
+            JSON.stringify(message),
+          ])
+        );
+        syncRows(
+          db,
+          'workflow_versions',
+          'number',
+          session.id,
+          session.versions.map(version => [
+            version.number,
+            JSON.stringify(version),
+          ])
+        );
+        syncRows(
+          db,
+          'redo_turns',
+          'position',
+          session.id,
+          session.redo_stack.map((turn, position) => [
+            position,
+            JSON.stringify(turn),
+          ])
+        );
+
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+      }
+
+      persist(db);
+    },
+
+    deleteSession: async id => {
+      const db = await getDatabase();
+      db.run('DELETE FROM messages WHERE session_id = ?', [id]);
+      db.run('DELETE FROM workflow_versions WHERE session_id = ?', [id]);
+      db.run('DELETE FROM redo_turns WHERE session_id = ?', [id]);
+      db.run('DELETE FROM workflow_runs WHERE session_id = ?', [id]);
+      db.run('DELETE FROM sessions WHERE id = ?', [id]);
+      persist(db);
+    },
+
+    clear: async () => {
+      const db = await getDatabase();
+      db.run('DELETE FROM messages');
+      db.run('DELETE FROM workflow_versions');
+      db.run('DELETE FROM redo_turns');
+      db.run('DELETE FROM workflow_runs');
+      db.run('DELETE FROM sessions');
+      persist(db);
+    },
+
+    saveRun: async (sessionId, run) => {
+      const db = await getDatabase();
+      db.run(
+        `INSERT INTO workflow_runs (session_id, id, started_at, payload)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(session_id, id) DO UPDATE SET payload = excluded.payload`,
+        [sessionId, run.id, run.started_at, JSON.stringify(run)]
+      );
+      persist(db);
+    },
+
+    listRuns: async (sessionId, limit) => {
+      const db = await getDatabase();
+      const statement = db.prepare(
+        'SELECT payload FROM workflow_runs WHERE session_id = ? ORDER BY started_at DESC LIMIT ?'
+      );
+      statement.bind([sessionId, limit]);
+      const runs: PipelineRun[] = [];
+      while (statement.step()) {
+        runs.push(JSON.parse(String(statement.getAsObject().payload)));
+      }
+      statement.free();
+      return runs;
+    },
+
+    getRun: async (sessionId, runId) => {
+      const db = await getDatabase();
+      const statement = db.prepare(
+        'SELECT payload FROM workflow_runs WHERE session_id = ? AND id = ?'
+      );
+      statement.bind([sessionId, runId]);
+      const run = statement.step()
+        ? (JSON.parse(String(statement.getAsObject().payload)) as PipelineRun)
+        : null;
+      statement.free();
+      return run;
+    },
+
+    pruneRuns: async (sessionId, keep) => {
+      const db = await getDatabase();
+      db.run(
+        `DELETE FROM workflow_runs WHERE session_id = ? AND id NOT IN (
+           SELECT id FROM workflow_runs WHERE session_id = ?
+           ORDER BY started_at DESC LIMIT ?
+         )`,
+        [sessionId, sessionId, keep]
+      );
+      persist(db);
+    },
+
+    flush,
+  };
+};
@@ -0,0 +1,77 @@
+import type { DataFlowConnection, DataFlowNode } from '../aiService';
+import type { PipelineRun } from '../pipelineRunner';
+import type { Message } from '../../websocket';
+import type { WorkflowSchedule } from '../workflowSchedule';
+
+// Pan and zoom of the canvas, as React Flow reports them
+export interface WorkflowViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// Latest workflow state of a session, kept alongside the transcript so it can
+// be restored without replaying messages
+export interface WorkflowSnapshot {
+  nodes: DataFlowNode[];
+  connections: DataFlowConnection[];
+  workflow_complete: boolean;
+  // Set by an imported workflow spec; kept as the chat changes the workflow
+  name?: string;
+  // When the workflow runs on its own; older sessions stored a bare cron
+  // string, so read it through getWorkflowSchedule
+  schedule?: WorkflowSchedule | string | null;
+  // How the canvas was last panned and zoomed; node positions live on the
+  // nodes themselves
+  viewport?: WorkflowViewport;
+}
+
+// The workflow as it was after one change; recorded automatically whenever
+// the workflow changes and optionally named by the user
+export interface WorkflowVersion {
+  id: string;
+  // 1, 2, 3... within the session
+  number: number;
+  name?: string;
+  // What produced this version, e.g. the chat message that changed it
+  label: string;
+  created_at: string;
+  workflow: WorkflowSnapshot;
+}
+
+export interface Session {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  messages: Message[];
+  workflow: WorkflowSnapshot | null;
+  // Oldest first
+  versions: WorkflowVersion[];
+  // Chat turns taken back by undo, most recent last; any new change drops them
+  redo_stack: Message[][];
+}
+
+// A session without its transcript and history, for scanning every session
+export type SessionSummary = Pick<
+  Session,
+  'id' | 'created_at' | 'updated_at' | 'workflow'
+>;
+
+// Pluggable persistence for sessions; every method may hit disk
+export interface SessionStore {
+  getSession(id: string): Promise<Session | null>;
+  listSessions(): Promise<SessionSummary[]>;
+  saveSession(session: Session): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  clear(): Promise<void>;
+  // Wait until every change so far is on disk, e.g. before shutting down
+  flush(): Promise<void>;
+
+  // Run history, kept apart from the session so recording a run never
+  // overwrites a conversation saved in the meantime. saveRun adds or
+  // replaces a run; listRuns is newest first; pruneRuns keeps the newest.
+  saveRun(sessionId: string, run: PipelineRun): Promise<void>;
+  listRuns(sessionId: string, limit: number): Promise<PipelineRun[]>;
+  getRun(sessionId: string, runId: string): Promise<PipelineRun | null>;
+  pruneRuns(sessionId: string, keep: number): Promise<void>;
+}
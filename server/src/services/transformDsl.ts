@@ -0,0 +1,1184 @@
+import type { DataFlowNode } from './aiService';
+import {
+  castValue,
+  COLUMN_TYPES,
+  evaluateExpression,
+  expressionColumns,
+  expressionType,
+  parseExpression,
+  type ColumnType,
+  type SchemaColumn,
+} from './columnMapping';
+import { collectColumns, type Row } from './localConnectors';
+
+// The transform language. Every operation is one typed step, configured
+// with the text after the operation's name; a "script" transform runs
+// several steps, one per line:
+//
+//   filter status = 'active' and amount > 100
+//   derive total = price * quantity as number
+//   left join Customers on customer_id = id
+//   aggregate count(*) as orders, sum(total) as revenue by region
+//
+// Text is parsed into steps and checked when it is given, then the steps
+// are run by the local runner and previews, and written into generated code.
+
+export const STEP_OPERATIONS = [
+  'filter',
+  'select',
+  'rename',
+  'cast',
+  'aggregate',
+  'join',
+  'dedupe',
+  'derive',
+] as const;
+
+export type StepOperation = (typeof STEP_OPERATIONS)[number];
+
+export const AGGREGATE_FUNCTIONS = [
+  'count',
+  'sum',
+  'avg',
+  'min',
+  'max',
+] as const;
+
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number];
+
+const COMPARISON_OPERATORS = ['=', '!=', '>', '<', '>=', '<='] as const;
+
+type ComparisonOperator = (typeof COMPARISON_OPERATORS)[number];
+
+// Operands are expressions over the row (columns, quoted text, numbers and
+// arithmetic), kept as text
+export type Condition =
+  | {
+      kind: 'compare';
+      operator: ComparisonOperator;
+      left: string;
+      right: string;
+    }
+  | { kind: 'is_null'; operand: string; negated: boolean }
+  | { kind: 'and' | 'or'; conditions: Condition[] }
+  | { kind: 'not'; condition: Condition };
+
+export interface Aggregate {
+  function: AggregateFunction;
+  // Missing for count(*)
+  column?: string;
+  target: string;
+}
+
+export type TransformStep =
+  | { op: 'filter'; condition: Condition }
+  | { op: 'select'; columns: string[] }
+  | { op: 'rename'; columns: Record<string, string> }
+  | { op: 'cast'; columns: Record<string, ColumnType> }
+  | { op: 'aggregate'; group_by: string[]; aggregates: Aggregate[] }
+  | {
+      op: 'join';
+      // Name (or ID) of the upstream node whose rows are joined in
+      with: string;
+      how: 'inner' | 'left';
+      on: { left: string; right: string }[];
+    }
+  // No columns compares whole rows
+  | { op: 'dedupe'; columns: string[] }
+  | { op: 'derive'; target: string; expression: string; cast?: ColumnType };
+
+export type TransformStepsResult =
+  | { valid: true; value: TransformStep[] }
+  | { valid: false; error: string };
+
+// What each operation's parameters look like, for questions and errors
+export const STEP_EXAMPLES: Record<StepOperation, string> = {
+  filter: "status = 'active' and amount > 100",
+  select: 'id, email, created_at',
+  rename: 'id as order_id, amt as amount',
+  cast: 'amount as number, created_at as date',
+  aggregate: 'count(*) as orders, sum(amount) as revenue by customer_id',
+  join: 'Customers on customer_id = id',
+  dedupe: 'by email',
+  derive: 'total = price * quantity as number',
+};
+
+export const isStepOperation = (value: string): value is StepOperation =>
+  (STEP_OPERATIONS as readonly string[]).includes(value);
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Walk the text outside quotes and parentheses; visit returns true to stop
+const scanTopLevel = (text: string, visit: (index: number) => boolean) => {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && visit(index)) {
+      return;
+    }
+  }
+};
+
+// Comma-separated items, ignoring commas inside quotes and parentheses
+const splitList = (text: string): string[] => {
+  const items: string[] = [];
+  let start = 0;
+  scanTopLevel(text, index => {
+    if (text[index] === ',') {
+      items.push(text.slice(start, index));
+      start = index + 1;
+    }
+    return false;
+  });
+  items.push(text.slice(start));
+  return items.map(item => item.trim()).filter(Boolean);
+};
+
+// Index of a keyword ("by", "on", "as") or symbol ("=", "->") outside
+// quotes and parentheses, or -1
+const findKeyword = (text: string, keyword: string, last = false) => {
+  const isWord = /^\w+$/.test(keyword);
+  let found = -1;
+  scanTopLevel(text, index => {
+    const matches = isWord
+      ? text.slice(index, index + keyword.length).toLowerCase() === keyword &&
+        (index === 0 || /\s/.test(text[index - 1])) &&
+        !/\w/.test(text[index + keyword.length] || '')
+      : text.startsWith(keyword, index) &&
+        // "=" must not be part of "!=", ">=" or "<="
+        !(keyword === '=' && /[!<>=]/.test(text[index - 1] || ''));
+    if (matches) found = index;
+    return matches && !last;
+  });
+  return found;
+};
+
+const splitAt = (text: string, index: number, length: number) => [
+  text.slice(0, index).trim(),
+  text.slice(index + length).trim(),
+];
+
+// Plain names, or any name in backquotes (or double quotes)
+const parseName = (text: string): string => {
+  const name = text.trim();
+  const quoted = name.match(/^`([^`]+)`$/) || name.match(/^"([^"]+)"$/);
+  if (quoted) return quoted[1];
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return name;
+  throw new Error(
+    name
+      ? `"${name}" is not a column name; wrap names with spaces or symbols in backquotes`
+      : 'A column name is missing'
+  );
+};
+
+const quoteName = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name}\``;
+
+const parseType = (text: string): ColumnType => {
+  const type = text.trim().toLowerCase();
+  if ((COLUMN_TYPES as readonly string[]).includes(type)) {
+    return type as ColumnType;
+  }
+  throw new Error(
+    `"${text.trim()}" is not a type; use one of: ${COLUMN_TYPES.join(', ')}`
+  );
+};
+
+type ConditionToken = {
+  kind: 'word' | 'other' | 'symbol';
+  text: string;
+  start: number;
+  end: number;
+};
+
+const CONDITION_TOKEN_PATTERN =
+  /\s*(?:([A-Za-z_][A-Za-z0-9_]*)|(`[^`]+`|\d+(?:\.\d+)?|'(?:[^']|'')*'|"(?:[^"]|"")*")|(!=|<>|>=|<=|[=<>()+\-*/]))/y;
+
+const tokenizeCondition = (text: string): ConditionToken[] => {
+  const tokens: ConditionToken[] = [];
+  CONDITION_TOKEN_PATTERN.lastIndex = 0;
+  while (text.slice(CONDITION_TOKEN_PATTERN.lastIndex).trim()) {
+    const from = CONDITION_TOKEN_PATTERN.lastIndex;
+    const match = CONDITION_TOKEN_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(
+        `Unexpected "${text.slice(from).trim()[0]}" in "${text}"`
+      );
+    }
+    const [whole, word, other, symbol] = match;
+    const token = word ?? other ?? symbol;
+    const start = from + whole.length - token.length;
+    tokens.push({
+      kind:
+        word !== undefined ? 'word' : other !== undefined ? 'other' : 'symbol',
+      text: token,
+      start,
+      end: start + token.length,
+    });
+  }
+  return tokens;
+};
+
+const COMPARISON_SYMBOLS = ['=', '!=', '<>', '>', '<', '>=', '<='];
+const CONDITION_KEYWORDS = ['and', 'or', 'not', 'is'];
+
+// "status = 'active' and (amount > 100 or vip is not null)"
+export const parseCondition = (text: string): Condition => {
+  const tokens = tokenizeCondition(text);
+  let position = 0;
+
+  const isKeyword = (token: ConditionToken | undefined, keyword: string) =>
+    token?.kind === 'word' && token.text.toLowerCase() === keyword;
+  const isSymbol = (token: ConditionToken | undefined, ...symbols: string[]) =>
+    token?.kind === 'symbol' && symbols.includes(token.text);
+
+  // Parentheses group a condition when they hold a comparison; otherwise
+  // they belong to an arithmetic operand such as (price + tax) * 2
+  const groupIsCondition = () => {
+    let depth = 0;
+    for (let index = position; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (isSymbol(token, '(')) depth++;
+      if (isSymbol(token, ')') && --depth === 0) return false;
+      if (
+        isSymbol(token, ...COMPARISON_SYMBOLS) ||
+        CONDITION_KEYWORDS.some(keyword => isKeyword(token, keyword))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const parseOperand = (): string => {
+    const start = position;
+    let depth = 0;
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (
+        depth === 0 &&
+        (isSymbol(token, ')', ...COMPARISON_SYMBOLS) ||
+          CONDITION_KEYWORDS.some(keyword => isKeyword(token, keyword)))
+      ) {
+        break;
+      }
+      if (isSymbol(token, '(')) depth++;
+      if (isSymbol(token, ')')) depth--;
+      position++;
+    }
+    if (position === start) throw new Error(`A value is missing in "${text}"`);
+    const operand = text
+      .slice(tokens[start].start, tokens[position - 1].end)
+      .trim();
+    parseExpression(operand);
+    return operand;
+  };
+
+  const parsePrimary = (): Condition => {
+    if (isKeyword(tokens[position], 'not')) {
+      position++;
+      return { kind: 'not', condition: parsePrimary() };
+    }
+    if (isSymbol(tokens[position], '(') && groupIsCondition()) {
+      position++;
+      const inner = parseOr();
+      if (!isSymbol(tokens[position], ')')) {
+        throw new Error(`Missing ")" in "${text}"`);
+      }
+      position++;
+      return inner;
+    }
+
+    const left = parseOperand();
+    if (isKeyword(tokens[position], 'is')) {
+      position++;
+      const negated = isKeyword(tokens[position], 'not');
+      if (negated) position++;
+      if (!isKeyword(tokens[position], 'null')) {
+        throw new Error(`Use "is null" or "is not null" in "${text}"`);
+      }
+      position++;
+      return { kind: 'is_null', operand: left, negated };
+    }
+
+    const operator = tokens[position];
+    if (!isSymbol(operator, ...COMPARISON_SYMBOLS)) {
+      throw new Error(
+        `"${left}" needs a comparison, e.g. ${left} = 'value' or ${left} > 10`
+      );
+    }
+    position++;
+    return {
+      kind: 'compare',
+      operator: (operator.text === '<>'
+        ? '!='
+        : operator.text) as ComparisonOperator,
+      left,
+      right: parseOperand(),
+    };
+  };
+
+  const parseJoined = (
+    keyword: 'and' | 'or',
+    parsePart: () => Condition
+  ): Condition => {
+    const conditions = [parsePart()];
+    while (isKeyword(tokens[position], keyword)) {
+      position++;
+      conditions.push(parsePart());
+    }
+    return conditions.length === 1
+      ? conditions[0]
+      : { kind: keyword, conditions };
+  };
+  const parseAnd = () => parseJoined('and', parsePrimary);
+  const parseOr = (): Condition => parseJoined('or', parseAnd);
+
+  if (tokens.length === 0) throw new Error('The condition is empty');
+  const condition = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].text}" in "${text}"`);
+  }
+  return condition;
+};
+
+const parseAggregate = (text: string): Aggregate => {
+  const match = text.match(/^(\w+)\s*\(\s*(.*?)\s*\)\s*(?:as\s+(.+))?$/is);
+  if (!match) {
+    throw new Error(
+      `"${text}" is not an aggregate; use e.g. sum(amount) as revenue`
+    );
+  }
+  const [, name, argument, alias] = match;
+  const fn = name.toLowerCase() as AggregateFunction;
+  if (!AGGREGATE_FUNCTIONS.includes(fn)) {
+    throw new Error(
+      `"${name}" is not an aggregate function; use one of: ${AGGREGATE_FUNCTIONS.join(', ')}`
+    );
+  }
+  const column =
+    argument === '' || argument === '*' ? undefined : parseName(argument);
+  if (!column && fn !== 'count') {
+    throw new Error(`${fn}() needs a column, e.g. ${fn}(amount)`);
+  }
+  return {
+    function: fn,
+    ...(column && { column }),
+    target: alias ? parseName(alias) : column ? `${fn}_${column}` : 'count',
+  };
+};
+
+// "old as new" in rename, "column as type" in cast
+const parsePairs = (text: string, what: string, example: string) =>
+  splitList(text).map(item => {
+    const arrow = findKeyword(item, '->');
+    const as = arrow === -1 ? findKeyword(item, 'as') : -1;
+    if (arrow === -1 && as === -1) {
+      throw new Error(`Write each ${what} as "${example}", not "${item}"`);
+    }
+    return arrow === -1 ? splitAt(item, as, 2) : splitAt(item, arrow, 2);
+  });
+
+// Object from pairs, refusing a column listed twice
+const toRecord = <T>(pairs: [string, T][], what: string) => {
+  const record: Record<string, T> = {};
+  pairs.forEach(([key, value]) => {
+    if (key in record) throw new Error(`Column "${key}" is ${what} twice`);
+    record[key] = value;
+  });
+  return record;
+};
+
+const parseStepArguments = (
+  op: StepOperation,
+  text: string,
+  how: 'inner' | 'left' = 'inner'
+): TransformStep => {
+  switch (op) {
+    case 'filter':
+      return { op, condition: parseCondition(text) };
+    case 'select':
+      return { op, columns: splitList(text).map(parseName) };
+    case 'rename':
+      return {
+        op,
+        columns: toRecord(
+          parsePairs(text, 'rename', 'old as new').map(([from, to]) => [
+            parseName(from),
+            parseName(to),
+          ]),
+          'renamed'
+        ),
+      };
+    case 'cast':
+      return {
+        op,
+        columns: toRecord(
+          parsePairs(text, 'cast', 'column as type').map(([column, type]) => [
+            parseName(column),
+            parseType(type),
+          ]),
+          'cast'
+        ),
+      };
+    case 'aggregate': {
+      const by = findKeyword(text, 'by', true);
+      const [aggregates, groupBy] =
+        by === -1 ? [text, ''] : splitAt(text, by, 2);
+      return {
+        op,
+        group_by: splitList(groupBy).map(parseName),
+        aggregates: splitList(aggregates).map(parseAggregate),
+      };
+    }
+    case 'join': {
+      const on = findKeyword(text, 'on');
+      if (on === -1) {
+        throw new Error(
+          `A join needs the columns to match on, e.g. join ${STEP_EXAMPLES.join}`
+        );
+      }
+      const [node, keys] = splitAt(text, on, 2);
+      const quoted = node.match(/^`([^`]+)`$/) || node.match(/^"([^"]+)"$/);
+      if (!node) throw new Error('A join needs the step to join with');
+      return {
+        op,
+        with: quoted ? quoted[1] : node,
+        how,
+        on: splitList(keys).map(key => {
+          const equals = findKeyword(key, '=');
+          if (equals === -1) {
+            const name = parseName(key);
+            return { left: name, right: name };
+          }
+          const [left, right] = splitAt(key, equals, 1);
+          return { left: parseName(left), right: parseName(right) };
+        }),
+      };
+    }
+    case 'dedupe':
+      return {
+        op,
+        columns: splitList(text.replace(/^by\b/i, '')).map(parseName),
+      };
+    case 'derive': {
+      const equals = findKeyword(text, '=');
+      if (equals === -1) {
+        throw new Error(
+          `Write a derived column as "${STEP_EXAMPLES.derive}", not "${text}"`
+        );
+      }
+      const [target, rest] = splitAt(text, equals, 1);
+      const as = findKeyword(rest, 'as', true);
+      const [expression, cast] = as === -1 ? [rest, ''] : splitAt(rest, as, 2);
+      if (!expression) throw new Error(`"${target}" needs an expression`);
+      parseExpression(expression);
+      return {
+        op,
+        target: parseName(target),
+        expression,
+        ...(cast && { cast: parseType(cast) }),
+      };
+    }
+  }
+};
+
+// Checks that do not depend on how the step was written
+const checkStep = (step: TransformStep): TransformStep => {
+  const checkUnique = (names: string[], what: string) => {
+    const repeated = names.find((name, index) => names.indexOf(name) !== index);
+    if (repeated) throw new Error(`Column "${repeated}" is ${what} twice`);
+  };
+
+  switch (step.op) {
+    case 'select':
+      if (step.columns.length === 0) {
+        throw new Error(`select needs columns, e.g. ${STEP_EXAMPLES.select}`);
+      }
+      checkUnique(step.columns, 'selected');
+      break;
+    case 'rename':
+    case 'cast':
+      if (Object.keys(step.columns).length === 0) {
+        throw new Error(
+          `${step.op} needs columns, e.g. ${STEP_EXAMPLES[step.op]}`
+        );
+      }
+      if (step.op === 'rename') {
+        checkUnique(Object.values(step.columns), 'produced');
+      }
+      break;
+    case 'aggregate':
+      if (step.aggregates.length === 0) {
+        throw new Error(
+          `aggregate needs at least one function, e.g. ${STEP_EXAMPLES.aggregate}`
+        );
+      }
+      checkUnique(
+        [...step.group_by, ...step.aggregates.map(a => a.target)],
+        'produced'
+      );
+      break;
+    case 'join':
+      if (step.on.length === 0) {
+        throw new Error(
+          `A join needs the columns to match on, e.g. join ${STEP_EXAMPLES.join}`
+        );
+      }
+      break;
+    case 'dedupe':
+      checkUnique(step.columns, 'listed');
+      break;
+  }
+  return step;
+};
+
+// "filter status = 'active'" or "left join Customers on id"
+export const parseTransformStep = (line: string): TransformStep => {
+  const match = line
+    .trim()
+    .match(/^(?:(left|inner)\s+)?(\w+)(?:\s+([\s\S]*))?$/i);
+  const op = match?.[2].toLowerCase() || '';
+  if (!match || !isStepOperation(op)) {
+    throw new Error(
+      `"${line.trim().split(/\s+/)[0]}" is not an operation; start each step with one of: ${STEP_OPERATIONS.join(', ')}`
+    );
+  }
+  const how = match[1]?.toLowerCase() as 'inner' | 'left' | undefined;
+  if (how && op !== 'join') {
+    throw new Error(`"${match[1]}" only goes before join`);
+  }
+  return checkStep(parseStepArguments(op, (match[3] || '').trim(), how));
+};
+
+const fail = (error: string): TransformStepsResult => ({
+  valid: false,
+  error,
+});
+
+// One step per line; blank lines and lines starting with # are skipped
+export const parseTransformScript = (text: string): TransformStepsResult => {
+  const steps: TransformStep[] = [];
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    try {
+      steps.push(parseTransformStep(line));
+    } catch (error) {
+      return fail(`Line ${index + 1}: ${errorMessage(error)}`);
+    }
+  }
+  return steps.length > 0
+    ? { valid: true, value: steps }
+    : fail(
+        `The script needs at least one step, e.g. filter ${STEP_EXAMPLES.filter}`
+      );
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const jsonNames = (value: unknown, what: string): string[] => {
+  const names = Array.isArray(value)
+    ? value.map(String)
+    : String(value ?? '').split(',');
+  const trimmed = names.map(name => name.trim());
+  if (trimmed.some(name => !name)) throw new Error(`${what} has an empty name`);
+  return trimmed;
+};
+
+// Earlier filters compared a column with a bare value: "status = active"
+const LEGACY_CONDITION =
+  /^\s*([\w.]+)\s*(!=|>=|<=|=|>|<)\s*([\w.-]+|'[^']*'|"[^"]*")\s*$/;
+
+const parseJsonCondition = (text: string): Condition => {
+  const match = text.match(LEGACY_CONDITION);
+  if (!match) return parseCondition(text);
+  const [, column, operator, value] = match;
+  const literal = value.replace(/^['"]|['"]$/g, '');
+  return {
+    kind: 'compare',
+    operator: operator as ComparisonOperator,
+    left: quoteName(column),
+    right: `'${literal.replace(/'/g, "''")}'`,
+  };
+};
+
+// Parameters written as JSON, the way transforms were first configured:
+// {"condition": "status = active"}, {"columns": ["id"]},
+// {"mapping": {"amt": "amount"}}, or the step's own fields
+const stepFromJson = (
+  op: StepOperation,
+  value: Record<string, any>
+): TransformStep => {
+  switch (op) {
+    case 'filter':
+      if (typeof value.condition !== 'string') {
+        throw new Error('A filter needs a "condition"');
+      }
+      return { op, condition: parseJsonCondition(value.condition) };
+    case 'select':
+    case 'dedupe':
+      return { op, columns: jsonNames(value.columns ?? [], `${op} columns`) };
+    case 'rename': {
+      const mapping = value.mapping ?? value.columns;
+      if (!isObject(mapping)) {
+        throw new Error('A rename needs a "mapping" of old to new names');
+      }
+      return {
+        op,
+        columns: Object.fromEntries(
+          Object.entries(mapping).map(([from, to]) => [from, String(to)])
+        ),
+      };
+    }
+    case 'cast':
+      if (!isObject(value.columns)) {
+        throw new Error('A cast needs "columns" with the type of each');
+      }
+      return {
+        op,
+        columns: Object.fromEntries(
+          Object.entries(value.columns).map(([column, type]) => [
+            column,
+            parseType(String(type)),
+          ])
+        ),
+      };
+    case 'aggregate':
+      if (!Array.isArray(value.aggregates)) {
+        throw new Error('An aggregate needs a list of "aggregates"');
+      }
+      return {
+        op,
+        group_by: jsonNames(value.group_by ?? [], 'group_by'),
+        aggregates: value.aggregates.map(aggregate => {
+          const parsed = parseAggregate(
+            `${aggregate?.function}(${aggregate?.column ? quoteName(aggregate.column) : ''})`
+          );
+          return aggregate?.target
+            ? { ...parsed, target: String(aggregate.target) }
+            : parsed;
+        }),
+      };
+    case 'join':
+      if (typeof value.with !== 'string' || !value.with.trim()) {
+        throw new Error('A join needs the step to join "with"');
+      }
+      if (value.how !== undefined && !['inner', 'left'].includes(value.how)) {
+        throw new Error('A join is either "inner" or "left"');
+      }
+      return {
+        op,
+        with: value.with.trim(),
+        how: value.how || 'inner',
+        on: (Array.isArray(value.on) ? value.on : [value.on]).map(key =>
+          isObject(key)
+            ? { left: String(key.left), right: String(key.right) }
+            : { left: String(key), right: String(key) }
+        ),
+      };
+    case 'derive':
+      if (typeof value.target !== 'string' || !value.target.trim()) {
+        throw new Error('A derived column needs a "target"');
+      }
+      parseExpression(String(value.expression ?? ''));
+      return {
+        op,
+        target: value.target.trim(),
+        expression: String(value.expression).trim(),
+        ...(value.cast && { cast: parseType(String(value.cast)) }),
+      };
+  }
+};
+
+// A single operation's parameters: the text after the operation's name, or
+// a JSON object
+export const parseStepParameters = (
+  operation: StepOperation,
+  parameters: unknown
+): TransformStepsResult => {
+  try {
+    let json: unknown = parameters;
+    if (typeof parameters === 'string' && parameters.trim().startsWith('{')) {
+      try {
+        json = JSON.parse(parameters);
+      } catch {
+        return fail('The parameters look like JSON but could not be parsed');
+      }
+    }
+    if (isObject(json)) {
+      return { valid: true, value: [checkStep(stepFromJson(operation, json))] };
+    }
+
+    const text = String(parameters ?? '').trim();
+    if (!text) {
+      return fail(
+        `The ${operation} needs parameters, e.g. ${STEP_EXAMPLES[operation]}`
+      );
+    }
+    return {
+      valid: true,
+      value: [checkStep(parseStepArguments(operation, text))],
+    };
+  } catch (error) {
+    return fail(errorMessage(error));
+  }
+};
+
+// The steps a transform node runs: a script, a single operation, or none
+// for passthrough and column mapping transforms
+export const getTransformSteps = (node: DataFlowNode): TransformStepsResult => {
+  const operation = String(node.config?.operation_type || '')
+    .trim()
+    .toLowerCase();
+  if (operation === 'script') {
+    return parseTransformScript(String(node.config?.script ?? ''));
+  }
+  if (isStepOperation(operation)) {
+    return parseStepParameters(operation, node.config?.parameters);
+  }
+  return { valid: true, value: [] };
+};
+
+export interface TransformInput {
+  node: DataFlowNode;
+  rows: Row[];
+}
+
+// The upstream node a join reads, by ID or (case-insensitive) name
+export const findJoinInput = <T extends { node: DataFlowNode }>(
+  inputs: T[],
+  reference: string
+): T | undefined =>
+  inputs.find(input => input.node.id === reference) ||
+  inputs.find(
+    input =>
+      input.node.name.trim().toLowerCase() === reference.trim().toLowerCase()
+  );
+
+// Inputs joined by a step are kept apart; the rest are concatenated in
+// connection order as the rows the steps start from
+export const splitJoinedInputs = <T extends { node: DataFlowNode }>(
+  steps: TransformStep[],
+  inputs: T[]
+) => {
+  const joined = steps.flatMap(step =>
+    step.op === 'join' ? [findJoinInput(inputs, step.with)] : []
+  );
+  return inputs.filter(input => !joined.includes(input));
+};
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '';
+
+const isNumber = (value: unknown) =>
+  typeof value === 'number' ||
+  (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+
+const toText = (value: unknown) =>
+  value === null || value === undefined
+    ? ''
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+// Matching keys for joins, groups and duplicates: "1" from a CSV file
+// matches 1 from a database
+const keyText = (value: unknown) =>
+  isNumber(value) ? String(Number(value)) : toText(value);
+
+// Numbers compare as numbers, anything else as text
+const compareValues = (
+  operator: ComparisonOperator,
+  left: unknown,
+  right: unknown
+) => {
+  const numeric = isNumber(left) && isNumber(right);
+  const a = numeric ? Number(left) : toText(left);
+  const b = numeric ? Number(right) : toText(right);
+  switch (operator) {
+    case '=':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '>':
+      return a > b;
+    case '<':
+      return a < b;
+    case '>=':
+      return a >= b;
+    case '<=':
+      return a <= b;
+  }
+};
+
+const compileCondition = (condition: Condition): ((row: Row) => boolean) => {
+  switch (condition.kind) {
+    case 'compare': {
+      const left = parseExpression(condition.left);
+      const right = parseExpression(condition.right);
+      return row =>
+        compareValues(
+          condition.operator,
+          evaluateExpression(left, row),
+          evaluateExpression(right, row)
+        );
+    }
+    case 'is_null': {
+      const operand = parseExpression(condition.operand);
+      return row =>
+        (evaluateExpression(operand, row) === null) !== condition.negated;
+    }
+    case 'not': {
+      const test = compileCondition(condition.condition);
+      return row => !test(row);
+    }
+    case 'and':
+    case 'or': {
+      const tests = condition.conditions.map(compileCondition);
+      return condition.kind === 'and'
+        ? row => tests.every(test => test(row))
+        : row => tests.some(test => test(row));
+    }
+  }
+};
+
+const conditionColumns = (condition: Condition): string[] => {
+  switch (condition.kind) {
+    case 'compare':
+      return [condition.left, condition.right].flatMap(operand =>
+        expressionColumns(parseExpression(operand))
+      );
+    case 'is_null':
+      return expressionColumns(parseExpression(condition.operand));
+    case 'not':
+      return conditionColumns(condition.condition);
+    case 'and':
+    case 'or':
+      return condition.conditions.flatMap(conditionColumns);
+  }
+};
+
+// Columns a step reads must exist in its input
+const requireColumns = (rows: Row[], columns: string[], hint = '') => {
+  if (rows.length === 0) return;
+  const present = collectColumns(rows);
+  const missing = [...new Set(columns)].filter(
+    column => !present.includes(column)
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `${missing.length === 1 ? 'Column' : 'Columns'} ${missing
+        .map(column => `"${column}"`)
+        .join(
+          ', '
+        )} ${missing.length === 1 ? 'is' : 'are'} not in the input (${present.join(', ')})${hint}`
+    );
+  }
+};
+
+const aggregateValue = (aggregate: Aggregate, rows: Row[]): unknown => {
+  const { function: fn, column } = aggregate;
+  if (column === undefined) return rows.length;
+
+  const values = rows.map(row => row[column]).filter(value => !isEmpty(value));
+  if (fn === 'count') return values.length;
+  if (values.length === 0) return null;
+
+  if (fn === 'sum' || fn === 'avg') {
+    const invalid = values.find(value => !isNumber(value));
+    if (invalid !== undefined) {
+      throw new Error(
+        `Cannot ${fn} "${toText(invalid)}" in column "${column}"`
+      );
+    }
+    const total = values.reduce<number>((sum, value) => sum + Number(value), 0);
+    return fn === 'sum' ? total : total / values.length;
+  }
+
+  const numeric = values.every(isNumber);
+  const rank = (value: unknown) => (numeric ? Number(value) : toText(value));
+  return values.reduce((best, value) =>
+    fn === 'min'
+      ? rank(value) < rank(best)
+        ? value
+        : best
+      : rank(value) > rank(best)
+        ? value
+        : best
+  );
+};
+
+const runStep = (
+  step: TransformStep,
+  rows: Row[],
+  inputs: TransformInput[]
+): Row[] => {
+  switch (step.op) {
+    case 'filter': {
+      requireColumns(
+        rows,
+        conditionColumns(step.condition),
+        "; put text values in quotes, e.g. status = 'active'"
+      );
+      const test = compileCondition(step.condition);
+      return rows.filter(test);
+    }
+    case 'select':
+      requireColumns(rows, step.columns);
+      return rows.map(row =>
+        Object.fromEntries(step.columns.map(column => [column, row[column]]))
+      );
+    case 'rename':
+      requireColumns(rows, Object.keys(step.columns));
+      return rows.map(row =>
+        Object.fromEntries(
+          Object.entries(row).map(([key, value]) => [
+            step.columns[key] ?? key,
+            value,
+          ])
+        )
+      );
+    case 'cast':
+      requireColumns(rows, Object.keys(step.columns));
+      return rows.map(row => ({
+        ...row,
+        ...Object.fromEntries(
+          Object.entries(step.columns).map(([column, type]) => [
+            column,
+            castValue(row[column], type, column),
+          ])
+        ),
+      }));
+    case 'aggregate': {
+      requireColumns(rows, [
+        ...step.group_by,
+        ...step.aggregates.flatMap(aggregate =>
+          aggregate.column === undefined ? [] : [aggregate.column]
+        ),
+      ]);
+      const groups = new Map<string, Row[]>();
+      rows.forEach(row => {
+        const key = JSON.stringify(
+          step.group_by.map(column => keyText(row[column]))
+        );
+        groups.set(key, [...(groups.get(key) || []), row]);
+      });
+      // Without groups the whole input is one group, even when empty
+      if (step.group_by.length === 0 && groups.size === 0) groups.set('', []);
+
+      return [...groups.values()].map(group => ({
+        ...Object.fromEntries(
+          step.group_by.map(column => [column, group[0][column]])
+        ),
+        ...Object.fromEntries(
+          step.aggregates.map(aggregate => [
+            aggregate.target,
+            aggregateValue(aggregate, group),
+          ])
+        ),
+      }));
+    }
+    case 'join': {
+      const joined = findJoinInput(inputs, step.with);
+      if (!joined) {
+        throw new Error(
+          `${step.with} is not connected to this transform; connect it to join its rows`
+        );
+      }
+      const leftKeys = step.on.map(key => key.left);
+      const rightKeys = step.on.map(key => key.right);
+      requireColumns(rows, leftKeys);
+      requireColumns(joined.rows, rightKeys);
+
+      // Rows with an empty key never match, as in SQL
+      const keyOf = (row: Row, keys: string[]) =>
+        keys.some(key => isEmpty(row[key]))
+          ? undefined
+          : JSON.stringify(keys.map(key => keyText(row[key])));
+      const index = new Map<string, Row[]>();
+      joined.rows.forEach(row => {
+        const key = keyOf(row, rightKeys);
+        if (key !== undefined) index.set(key, [...(index.get(key) || []), row]);
+      });
+      const rightColumns = collectColumns(joined.rows);
+
+      return rows.flatMap(row => {
+        const key = keyOf(row, leftKeys);
+        const matches = (key !== undefined && index.get(key)) || [];
+        if (matches.length === 0) {
+          return step.how === 'left'
+            ? [
+                {
+                  ...row,
+                  ...Object.fromEntries(
+                    rightColumns
+                      .filter(column => !(column in row))
+                      .map(column => [column, null])
+                  ),
+                },
+              ]
+            : [];
+        }
+        // Columns both sides have keep the value from the left
+        return matches.map(match => ({
+          ...row,
+          ...Object.fromEntries(
+            Object.entries(match).filter(([column]) => !(column in row))
+          ),
+        }));
+      });
+    }
+    case 'dedupe': {
+      requireColumns(rows, step.columns);
+      const seen = new Set<string>();
+      return rows.filter(row => {
+        const key = JSON.stringify(
+          step.columns.length > 0
+            ? step.columns.map(column => keyText(row[column]))
+            : Object.entries(row).map(([column, value]) => [
+                column,
+                keyText(value),
+              ])
+        );
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    case 'derive': {
+      const expression = parseExpression(step.expression);
+      requireColumns(rows, expressionColumns(expression));
+      return rows.map(row => {
+        let value: unknown;
+        try {
+          value = evaluateExpression(expression, row);
+        } catch (error) {
+          throw new Error(
+            `Cannot derive "${step.target}": ${errorMessage(error)}`
+          );
+        }
+        return {
+          ...row,
+          [step.target]: step.cast
+            ? castValue(value, step.cast, step.target)
+            : value,
+        };
+      });
+    }
+  }
+};
+
+// Run the steps over the transform's inputs. Errors name the failing step
+// when there is more than one.
+export const runTransformSteps = (
+  steps: TransformStep[],
+  inputs: TransformInput[]
+): Row[] => {
+  let rows = splitJoinedInputs(steps, inputs).flatMap(input => input.rows);
+  steps.forEach((step, index) => {
+    try {
+      rows = runStep(step, rows, inputs);
+    } catch (error) {
+      throw new Error(
+        steps.length > 1
+          ? `Step ${index + 1} (${step.op}): ${errorMessage(error)}`
+          : errorMessage(error)
+      );
+    }
+  });
+  return rows;
+};
+
+const findColumn = (columns: SchemaColumn[], name: string): SchemaColumn =>
+  columns.find(column => column.name === name) || {
+    name,
+    type: 'string',
+    nullable: true,
+  };
+
+// The columns the steps produce from their input columns; joined inputs
+// are looked up by the reference in the join step
+export const transformStepsSchema = (
+  steps: TransformStep[],
+  columns: SchemaColumn[],
+  joinedColumns: (reference: string) => SchemaColumn[] | undefined
+): SchemaColumn[] =>
+  steps.reduce((current, step) => {
+    switch (step.op) {
+      case 'filter':
+      case 'dedupe':
+        return current;
+      case 'select':
+        return step.columns.map(name => findColumn(current, name));
+      case 'rename':
+        return current.map(column => ({
+          ...column,
+          name: step.columns[column.name] ?? column.name,
+        }));
+      case 'cast':
+        return current.map(column => ({
+          ...column,
+          type: step.columns[column.name] ?? column.type,
+        }));
+      case 'aggregate':
+        return [
+          ...step.group_by.map(name => findColumn(current, name)),
+          ...step.aggregates.map((aggregate): SchemaColumn => {
+            const source = aggregate.column
+              ? findColumn(current, aggregate.column)
+              : undefined;
+            return {
+              name: aggregate.target,
+              type:
+                aggregate.function === 'count'
+                  ? 'integer'
+                  : aggregate.function === 'avg'
+                    ? 'number'
+                    : aggregate.function === 'sum'
+                      ? source?.type === 'integer'
+                        ? 'integer'
+                        : 'number'
+                      : source?.type || 'string',
+              nullable: aggregate.function !== 'count',
+            };
+          }),
+        ];
+      case 'join': {
+        const right = joinedColumns(step.with) || [];
+        return [
+          ...current,
+          ...right
+            .filter(column => !current.some(c => c.name === column.name))
+            .map(column => ({
+              ...column,
+              nullable: column.nullable || step.how === 'left',
+            })),
+        ];
+      }
+      case 'derive': {
+        const derived: SchemaColumn = {
+          name: step.target,
+          type:
+            step.cast ||
+            expressionType(parseExpression(step.expression), current),
+          nullable: true,
+        };
+        return current.some(column => column.name === step.target)
+          ? current.map(column =>
+              column.name === step.target ? derived : column
+            )
+          : [...current, derived];
+      }
+    }
+  }, columns);
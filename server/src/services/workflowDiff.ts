@@ -0,0 +1,153 @@
+import type { DataFlowConnection, DataFlowNode } from './aiService';
+import {
+  decryptSecret,
+  isEncryptedSecret,
+  isSecretField,
+  maskNodeSecrets,
+  SECRET_MASK,
+} from './secrets';
+
+// Differences between two states of a workflow, safe to send to the client
+
+export interface FieldChange {
+  field: string;
+  // Missing when the field was added or removed; masked for credentials
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeDiff {
+  // Masked node from the later state, or from the earlier one when removed
+  node: DataFlowNode;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  fields: FieldChange[];
+  // Set when the status changed; the new status is node.status
+  status_before?: DataFlowNode['status'];
+}
+
+export interface ConnectionDiff {
+  source: string;
+  target: string;
+  change: 'added' | 'removed' | 'unchanged';
+}
+
+export interface WorkflowDiff {
+  nodes: NodeDiff[];
+  connections: ConnectionDiff[];
+}
+
+interface WorkflowGraphState {
+  nodes: DataFlowNode[];
+  connections: DataFlowConnection[];
+}
+
+// Stored credentials are encrypted with a random IV, so compare plain text
+const comparableValue = (value: unknown) => {
+  if (!isEncryptedSecret(value)) return JSON.stringify(value);
+  try {
+    return decryptSecret(value);
+  } catch {
+    return value;
+  }
+};
+
+const diffFields = (before: DataFlowNode, after: DataFlowNode) => {
+  const changes: FieldChange[] = [];
+
+  if (before.connector !== after.connector) {
+    changes.push({
+      field: 'connector',
+      before: before.connector,
+      after: after.connector,
+    });
+  }
+
+  const beforeConfig = before.config || {};
+  const afterConfig = after.config || {};
+  const fieldNames = [
+    ...new Set([...Object.keys(beforeConfig), ...Object.keys(afterConfig)]),
+  ];
+  fieldNames.forEach(field => {
+    const hadValue = beforeConfig[field] !== undefined;
+    const hasValue = afterConfig[field] !== undefined;
+    if (
+      hadValue &&
+      hasValue &&
+      comparableValue(beforeConfig[field]) ===
+        comparableValue(afterConfig[field])
+    ) {
+      return;
+    }
+
+    const secret = isSecretField(after, field) || isSecretField(before, field);
+    changes.push({
+      field,
+      ...(hadValue && {
+        before: secret ? SECRET_MASK : beforeConfig[field],
+      }),
+      ...(hasValue && { after: secret ? SECRET_MASK : afterConfig[field] }),
+    });
+  });
+
+  return changes;
+};
+
+const connectionKey = (connection: { source: string; target: string }) =>
+  `${connection.source}->${connection.target}`;
+
+// Nodes are matched by ID and connections by their endpoints
+export const diffWorkflows = (
+  before: WorkflowGraphState,
+  after: WorkflowGraphState
+): WorkflowDiff => {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterIds = new Set(after.nodes.map(node => node.id));
+
+  const nodes: NodeDiff[] = [
+    ...after.nodes.map((node): NodeDiff => {
+      const previous = beforeNodes.get(node.id);
+      if (!previous) {
+        return { node: maskNodeSecrets(node), change: 'added', fields: [] };
+      }
+
+      const fields = diffFields(previous, node);
+      const statusChanged = previous.status !== node.status;
+      return {
+        node: maskNodeSecrets(node),
+        change: fields.length > 0 || statusChanged ? 'changed' : 'unchanged',
+        fields,
+        ...(statusChanged && { status_before: previous.status }),
+      };
+    }),
+    ...before.nodes
+      .filter(node => !afterIds.has(node.id))
+      .map(
+        (node): NodeDiff => ({
+          node: maskNodeSecrets(node),
+          change: 'removed',
+          fields: [],
+        })
+      ),
+  ];
+
+  const beforeKeys = new Set(before.connections.map(connectionKey));
+  const afterKeys = new Set(after.connections.map(connectionKey));
+  const connections: ConnectionDiff[] = [
+    ...after.connections.map(({ source, target }) => ({
+      source,
+      target,
+      change: beforeKeys.has(connectionKey({ source, target }))
+        ? ('unchanged' as const)
+        : ('added' as const),
+    })),
+    ...before.connections
+      .filter(connection => !afterKeys.has(connectionKey(connection)))
+      .map(({ source, target }) => ({
+        source,
+        target,
+        change: 'removed' as const,
+      })),
+  ];
+
+  return { nodes, connections };
+};
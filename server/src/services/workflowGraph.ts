@@ -0,0 +1,164 @@
+import type { DataFlowConnection, DataFlowNode } from './aiService';
+
+// Graph utilities for workflows modelled as directed acyclic graphs
+
+export interface WorkflowGraph {
+  nodes: DataFlowNode[];
+  connections: DataFlowConnection[];
+}
+
+// Order nodes so every node comes after all of its upstream nodes (Kahn's algorithm)
+export const topologicalSort = (
+  nodes: DataFlowNode[],
+  connections: DataFlowConnection[]
+): DataFlowNode[] => {
+  const inDegree = new Map(nodes.map(node => [node.id, 0]));
+  connections.forEach(connection => {
+    if (inDegree.has(connection.target)) {
+      inDegree.set(
+        connection.target,
+        (inDegree.get(connection.target) || 0) + 1
+      );
+    }
+  });
+
+  const queue = nodes.filter(node => inDegree.get(node.id) === 0);
+  const ordered: DataFlowNode[] = [];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    ordered.push(node);
+
+    connections
+      .filter(connection => connection.source === node.id)
+      .forEach(connection => {
+        const remaining = (inDegree.get(connection.target) || 0) - 1;
+        inDegree.set(connection.target, remaining);
+        if (remaining === 0) {
+          const target = nodes.find(n => n.id === connection.target);
+          if (target) queue.push(target);
+        }
+      });
+  }
+
+  if (ordered.length !== nodes.length) {
+    throw new Error('Workflow contains a cycle and cannot be executed');
+  }
+
+  return ordered;
+};
+
+// Return the node IDs forming the first cycle found, or null if the graph is acyclic
+export const findCycle = (
+  nodes: DataFlowNode[],
+  connections: DataFlowConnection[]
+): string[] | null => {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (nodeId: string): string[] | null => {
+    state.set(nodeId, 'visiting');
+    stack.push(nodeId);
+
+    for (const connection of connections) {
+      if (connection.source !== nodeId) continue;
+      const next = connection.target;
+      if (state.get(next) === 'visiting') {
+        return [...stack.slice(stack.indexOf(next)), next];
+      }
+      if (!state.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+
+    stack.pop();
+    state.set(nodeId, 'done');
+    return null;
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node.id)) {
+      const cycle = visit(node.id);
+      if (cycle) return cycle;
+    }
+  }
+
+  return null;
+};
+
+// Nodes that cannot take part in a data flow: sources with nothing
+// downstream, destinations with nothing upstream, and transforms missing
+// either side
+export const findOrphanNodes = (
+  nodes: DataFlowNode[],
+  connections: DataFlowConnection[]
+): DataFlowNode[] => {
+  return nodes.filter(node => {
+    const hasIncoming = connections.some(c => c.target === node.id);
+    const hasOutgoing = connections.some(c => c.source === node.id);
+
+    switch (node.type) {
+      case 'source':
+        return !hasOutgoing;
+      case 'destination':
+        return !hasIncoming;
+      default:
+        return !hasIncoming || !hasOutgoing;
+    }
+  });
+};
+
+// Structural problems that prevent the workflow from being complete
+export const validateWorkflowGraph = (workflow: WorkflowGraph): string[] => {
+  const errors: string[] = [];
+  const nodeIds = new Set<string>();
+  const nameOf = (id: string) =>
+    workflow.nodes.find(node => node.id === id)?.name || id;
+
+  workflow.nodes.forEach(node => {
+    if (nodeIds.has(node.id)) {
+      errors.push(`Duplicate node ID "${node.id}"`);
+    }
+    nodeIds.add(node.id);
+  });
+
+  if (!workflow.nodes.some(node => node.type === 'source')) {
+    errors.push('Workflow needs at least one source');
+  }
+  if (!workflow.nodes.some(node => node.type === 'destination')) {
+    errors.push('Workflow needs at least one destination');
+  }
+
+  workflow.connections.forEach(connection => {
+    if (!nodeIds.has(connection.source) || !nodeIds.has(connection.target)) {
+      errors.push(
+        `Connection "${connection.id}" references a node that does not exist`
+      );
+      return;
+    }
+    if (connection.source === connection.target) {
+      errors.push(`${nameOf(connection.source)} cannot connect to itself`);
+    }
+
+    const source = workflow.nodes.find(n => n.id === connection.source)!;
+    const target = workflow.nodes.find(n => n.id === connection.target)!;
+    if (source.type === 'destination') {
+      errors.push(`Destination ${source.name} cannot feed other nodes`);
+    }
+    if (target.type === 'source') {
+      errors.push(`Source ${target.name} cannot receive data`);
+    }
+  });
+
+  const cycle = findCycle(workflow.nodes, workflow.connections);
+  if (cycle) {
+    errors.push(`Workflow contains a cycle: ${cycle.map(nameOf).join(' → ')}`);
+  }
+
+  findOrphanNodes(workflow.nodes, workflow.connections).forEach(node => {
+    errors.push(`${node.name} is not connected to the rest of the workflow`);
+  });
+
+  return errors;
+};
@@ -0,0 +1,83 @@
+import type { DataFlowNode } from './aiService';
+import type { Session, WorkflowSnapshot, WorkflowViewport } from './storage';
+
+// Where the user placed nodes on the canvas and how the canvas was zoomed.
+// The arrangement is not part of the conversation: it applies to every
+// state of the workflow in the transcript, so undo and redo keep it.
+
+export interface LayoutChange {
+  // A null position hands the node back to the automatic layout
+  node_positions?: Record<string, { x: number; y: number } | null>;
+  viewport?: WorkflowViewport | null;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPosition = (value: unknown): value is { x: number; y: number } =>
+  !!value &&
+  typeof value === 'object' &&
+  isFiniteNumber((value as any).x) &&
+  isFiniteNumber((value as any).y);
+
+export const isViewport = (value: unknown): value is WorkflowViewport =>
+  isPosition(value) &&
+  isFiniteNumber((value as any).zoom) &&
+  (value as any).zoom > 0;
+
+export const validateLayoutChange = (change: LayoutChange): string[] => {
+  const errors: string[] = [];
+  Object.entries(change.node_positions || {}).forEach(([nodeId, position]) => {
+    if (position !== null && !isPosition(position)) {
+      errors.push(`Position for "${nodeId}" needs numeric x and y`);
+    }
+  });
+  if (
+    change.viewport !== undefined &&
+    change.viewport !== null &&
+    !isViewport(change.viewport)
+  ) {
+    errors.push('The viewport needs numeric x, y and a positive zoom');
+  }
+  return errors;
+};
+
+const applyPositions = (
+  nodes: DataFlowNode[],
+  positions: NonNullable<LayoutChange['node_positions']>
+) =>
+  nodes.forEach(node => {
+    if (!(node.id in positions)) return;
+    const position = positions[node.id];
+    if (position) {
+      node.position = { x: position.x, y: position.y };
+    } else {
+      delete node.position;
+    }
+  });
+
+// Apply a layout change to the session's workflow and every workflow state
+// in its transcript and redo stack
+export const applyLayoutChange = (session: Session, change: LayoutChange) => {
+  const positions = change.node_positions || {};
+  [...session.messages, ...session.redo_stack.flat()].forEach(message => {
+    if (message.nodes) applyPositions(message.nodes, positions);
+  });
+
+  if (!session.workflow) return;
+  applyPositions(session.workflow.nodes, positions);
+  if (change.viewport) {
+    const { x, y, zoom } = change.viewport;
+    session.workflow.viewport = { x, y, zoom };
+  } else if (change.viewport === null) {
+    delete session.workflow.viewport;
+  }
+};
+
+// The workflow without its arrangement, for telling whether anything else
+// changed
+export const withoutLayout = (workflow: WorkflowSnapshot) => ({
+  ...workflow,
+  viewport: undefined,
+  nodes: workflow.nodes.map(node => ({ ...node, position: undefined })),
+});
@@ -0,0 +1,790 @@
+// When a workflow runs on its own. A cron schedule is evaluated in its
+// timezone; an interval counts from when it was set, so restarts do not
+// shift it. Manual workflows only run when started.
+
+export type WorkflowSchedule =
+  | { mode: 'manual' }
+  | { mode: 'cron'; cron: string; timezone: string }
+  | { mode: 'interval'; every_minutes: number; starts_at: string };
+
+export type WorkflowScheduleResult =
+  | { valid: true; value: WorkflowSchedule }
+  | { valid: false; error: string };
+
+export const MANUAL_SCHEDULE: WorkflowSchedule = { mode: 'manual' };
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Longest interval accepted, one week
+const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+
+// Cron schedules with rare matches (February 29th) can be years apart
+const MAX_SEARCH_DAYS = 8 * 366;
+
+const MINUTE_MS = 60 * 1000;
+
+const ok = (value: WorkflowSchedule): WorkflowScheduleResult => ({
+  valid: true,
+  value,
+});
+const fail = (error: string): WorkflowScheduleResult => ({
+  valid: false,
+  error,
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const CRON_SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+interface CronField {
+  values: number[];
+  // False for "*"
+  restricted: boolean;
+  // True for "*" and "*/n". As in cron, this decides how day of month and
+  // day of week combine, so "*/2" in either is not a restriction there.
+  starred: boolean;
+}
+
+interface ParsedCron {
+  minutes: CronField;
+  hours: CronField;
+  days: CronField;
+  months: CronField;
+  weekdays: CronField;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+const parseCronField = (
+  text: string,
+  field: (typeof CRON_FIELDS)[number]
+): CronField => {
+  const toNumber = (part: string) => {
+    const index = field.names?.indexOf(part.toLowerCase()) ?? -1;
+    const value = index !== -1 ? index + field.min : Number(part);
+    if (!/^\d+$/.test(part) && index === -1) {
+      throw new Error(`"${part}" is not a valid ${field.name}`);
+    }
+    if (value < field.min || value > field.max) {
+      throw new Error(
+        `${field.name} ${value} is outside ${field.min}-${field.max}`
+      );
+    }
+    return value;
+  };
+
+  const values = new Set<number>();
+  text.split(',').forEach(item => {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`"${item}" has an invalid step in the ${field.name}`);
+    }
+    const [start, end] =
+      range === '*'
+        ? [field.min, field.max]
+        : range.includes('-')
+          ? range.split('-').map(toNumber)
+          : [
+              toNumber(range),
+              stepText === undefined ? toNumber(range) : field.max,
+            ];
+    if (start > end) {
+      throw new Error(`"${range}" is an empty range in the ${field.name}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  });
+
+  // Sunday can be written as 0 or 7
+  if (field.name === 'day of week' && values.delete(7)) values.add(0);
+  return {
+    values: [...values].sort((a, b) => a - b),
+    restricted: text !== '*',
+    starred: text.startsWith('*'),
+  };
+};
+
+// Five fields (minute hour day-of-month month day-of-week) with numbers,
+// names, ranges, lists and steps, or a shorthand such as @daily
+export const parseCron = (text: string): ParsedCron => {
+  const expression = CRON_SHORTHANDS[text.trim().toLowerCase()] || text.trim();
+  const parts = expression.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `"${text.trim()}" needs five fields (minute hour day month weekday), e.g. "0 6 * * 1-5"`
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) =>
+    parseCronField(part, CRON_FIELDS[index])
+  );
+  return { minutes, hours, days, months, weekdays };
+};
+
+const isCron = (text: string) => {
+  try {
+    parseCron(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const TIMEZONE_ALIASES: Record<string, string> = {
+  utc: 'UTC',
+  gmt: 'UTC',
+  z: 'UTC',
+  et: 'America/New_York',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  ct: 'America/Chicago',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  mt: 'America/Denver',
+  mst: 'America/Denver',
+  mdt: 'America/Denver',
+  pt: 'America/Los_Angeles',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+// An IANA name ("Europe/Berlin") or a common abbreviation, in canonical form
+export const normalizeTimezone = (text: string): string | undefined => {
+  const alias = TIMEZONE_ALIASES[text.trim().toLowerCase()];
+  if (alias) return alias;
+  try {
+    return getFormatter(text.trim()).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// The clock time in a timezone at an instant
+const toWallTime = (date: Date, timezone: string): WallTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timezone)
+      .formatToParts(date)
+      .map(part => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+};
+
+const wallTimeMs = (wall: WallTime) =>
+  Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+
+// The instant a clock time happens in a timezone, or null when it is
+// skipped by a daylight saving change
+const fromWallTime = (wall: WallTime, timezone: string): Date | null => {
+  const target = wallTimeMs(wall);
+  let instant = target;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const offset =
+      wallTimeMs(toWallTime(new Date(instant), timezone)) - instant;
+    instant = target - offset;
+  }
+  return wallTimeMs(toWallTime(new Date(instant), timezone)) === target
+    ? new Date(instant)
+    : null;
+};
+
+const nextCronRuns = (
+  cron: string,
+  timezone: string,
+  after: Date,
+  count: number
+): Date[] => {
+  const parsed = parseCron(cron);
+  const start = toWallTime(after, timezone);
+  const runs: Date[] = [];
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(
+      Date.UTC(start.year, start.month - 1, start.day + offset)
+    );
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    const weekday = date.getUTCDay();
+    if (!parsed.months.values.includes(month)) continue;
+
+    // As in cron, a day matches if either day field does when neither
+    // starts with "*"
+    const dayMatches = parsed.days.values.includes(day);
+    const weekdayMatches = parsed.weekdays.values.includes(weekday);
+    const matches =
+      !parsed.days.starred && !parsed.weekdays.starred
+        ? dayMatches || weekdayMatches
+        : dayMatches && weekdayMatches;
+    if (!matches) continue;
+
+    for (const hour of parsed.hours.values) {
+      for (const minute of parsed.minutes.values) {
+        const wall = {
+          year: date.getUTCFullYear(),
+          month,
+          day,
+          hour,
+          minute,
+        };
+        if (offset === 0 && wallTimeMs(wall) < wallTimeMs(start)) continue;
+        const run = fromWallTime(wall, timezone);
+        if (run && run > after) {
+          runs.push(run);
+          if (runs.length === count) return runs;
+        }
+      }
+    }
+  }
+  return runs;
+};
+
+// The next times a schedule fires after a moment; none for manual workflows
+export const getNextRuns = (
+  schedule: WorkflowSchedule,
+  after: Date = new Date(),
+  count = 3
+): Date[] => {
+  switch (schedule.mode) {
+    case 'manual':
+      return [];
+    case 'cron':
+      return nextCronRuns(schedule.cron, schedule.timezone, after, count);
+    case 'interval': {
+      const every = schedule.every_minutes * MINUTE_MS;
+      const start = new Date(schedule.starts_at).getTime();
+      const first =
+        after.getTime() < start
+          ? start
+          : start + (Math.floor((after.getTime() - start) / every) + 1) * every;
+      return Array.from(
+        { length: count },
+        (_, index) => new Date(first + index * every)
+      );
+    }
+  }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const listWords = (words: string[]) =>
+  words.length <= 1
+    ? words.join('')
+    : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+
+const describeCron = (cron: string, timezone: string) => {
+  const { minutes, hours, days, months, weekdays } = parseCron(cron);
+  if (
+    minutes.values.length === 1 &&
+    !hours.restricted &&
+    !days.restricted &&
+    !months.restricted &&
+    !weekdays.restricted
+  ) {
+    return `every hour at :${pad(minutes.values[0])}`;
+  }
+  const fixedTimes =
+    minutes.values.length === 1 && hours.restricted && hours.values.length <= 4;
+  if (!fixedTimes || months.restricted)
+    return `on cron "${cron}" (${timezone})`;
+
+  const times = listWords(
+    hours.values.map(hour => `${pad(hour)}:${pad(minutes.values[0])}`)
+  );
+  const weekdayList = weekdays.values.join(',');
+  const when =
+    days.restricted && !weekdays.restricted
+      ? `on day ${listWords(days.values.map(String))} of every month`
+      : days.restricted
+        ? undefined
+        : !weekdays.restricted
+          ? 'every day'
+          : weekdayList === '1,2,3,4,5'
+            ? 'every weekday'
+            : weekdayList === '0,6'
+              ? 'every weekend day'
+              : `every ${listWords(weekdays.values.map(day => WEEKDAY_LABELS[day]))}`;
+  return when
+    ? `${when} at ${times} (${timezone})`
+    : `on cron "${cron}" (${timezone})`;
+};
+
+const describeMinutes = (minutes: number) =>
+  minutes % 60 === 0
+    ? minutes === 60
+      ? 'hour'
+      : `${minutes / 60} hours`
+    : minutes === 1
+      ? 'minute'
+      : `${minutes} minutes`;
+
+// "Runs every weekday at 06:00 (UTC)"
+export const describeSchedule = (schedule: WorkflowSchedule): string => {
+  switch (schedule.mode) {
+    case 'manual':
+      return 'Runs only when started';
+    case 'cron':
+      return `Runs ${describeCron(schedule.cron, schedule.timezone)}`;
+    case 'interval':
+      return `Runs every ${describeMinutes(schedule.every_minutes)}`;
+  }
+};
+
+// "Tue 20 Oct 2026, 06:00 UTC", in the timezone the schedule is read in
+export const formatRunTime = (date: Date, timezone: string) =>
+  new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(date);
+
+// Check a schedule from a spec or the client. Cron strings and null (manual)
+// are accepted as shorthands, as older specs wrote them.
+export const validateSchedule = (
+  value: unknown,
+  now: Date = new Date()
+): WorkflowScheduleResult => {
+  if (value === null || value === undefined) return ok(MANUAL_SCHEDULE);
+  if (typeof value === 'string') {
+    return isCron(value)
+      ? ok({ mode: 'cron', cron: value.trim(), timezone: DEFAULT_TIMEZONE })
+      : fail(`"${value}" is not a cron expression like "0 * * * *"`);
+  }
+  if (!isObject(value)) {
+    return fail('A schedule must be an object with a "mode"');
+  }
+
+  const unknown = Object.keys(value).filter(
+    key =>
+      !['mode', 'cron', 'timezone', 'every_minutes', 'starts_at'].includes(key)
+  );
+  if (unknown.length > 0) {
+    return fail(`The schedule has an unknown field "${unknown[0]}"`);
+  }
+
+  switch (value.mode) {
+    case 'manual':
+      return ok(MANUAL_SCHEDULE);
+    case 'cron': {
+      if (typeof value.cron !== 'string') {
+        return fail('A cron schedule needs a "cron" expression');
+      }
+      try {
+        parseCron(value.cron);
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : String(error));
+      }
+      const timezone =
+        value.timezone === undefined
+          ? DEFAULT_TIMEZONE
+          : typeof value.timezone === 'string'
+            ? normalizeTimezone(value.timezone)
+            : undefined;
+      if (!timezone) {
+        return fail(`"${value.timezone}" is not a known timezone`);
+      }
+      return ok({ mode: 'cron', cron: value.cron.trim(), timezone });
+    }
+    case 'interval': {
+      const minutes = value.every_minutes;
+      if (
+        !Number.isInteger(minutes) ||
+        minutes < 1 ||
+        minutes > MAX_INTERVAL_MINUTES
+      ) {
+        return fail(
+          `"every_minutes" must be a whole number of minutes from 1 to ${MAX_INTERVAL_MINUTES}`
+        );
+      }
+      // Without a start, runs line up with the clock (every 15 minutes runs
+      // at :00, :15, ...) the same way the generated cron does
+      const every = minutes * MINUTE_MS;
+      const startsAt =
+        value.starts_at === undefined
+          ? new Date(Math.floor(now.getTime() / every) * every)
+          : new Date(String(value.starts_at));
+      if (isNaN(startsAt.getTime())) {
+        return fail('"starts_at" must be an ISO date and time');
+      }
+      return ok({
+        mode: 'interval',
+        every_minutes: minutes,
+        starts_at: startsAt.toISOString(),
+      });
+    }
+    default:
+      return fail(
+        `A schedule's "mode" is "manual", "cron" or "interval", got ${JSON.stringify(value.mode)}`
+      );
+  }
+};
+
+// Stored schedules were once plain cron strings
+export const getWorkflowSchedule = (
+  workflow: { schedule?: unknown } | null | undefined
+): WorkflowSchedule => {
+  const result = validateSchedule(workflow?.schedule);
+  return result.valid ? result.value : MANUAL_SCHEDULE;
+};
+
+// Five-field cron for orchestrators, or null for manual workflows. Intervals
+// are converted when they divide evenly into an hour or a day.
+export const scheduleToCron = (schedule: WorkflowSchedule): string | null => {
+  switch (schedule.mode) {
+    case 'manual':
+      return null;
+    case 'cron':
+      return CRON_SHORTHANDS[schedule.cron.toLowerCase()] || schedule.cron;
+    case 'interval': {
+      const minutes = schedule.every_minutes;
+      if (minutes < 60 && 60 % minutes === 0) {
+        return minutes === 1 ? '* * * * *' : `*/${minutes} * * * *`;
+      }
+      if (minutes % 60 === 0 && 24 % (minutes / 60) === 0) {
+        const hours = minutes / 60;
+        return hours === 1 ? '0 * * * *' : `0 */${hours} * * *`;
+      }
+      if (minutes === 24 * 60) return '0 0 * * *';
+      throw new Error(
+        `Running every ${describeMinutes(minutes)} cannot be written as a cron schedule; pick an interval that divides an hour or a day, or a cron schedule`
+      );
+    }
+  }
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+};
+
+const WEEKDAY_PATTERNS: [RegExp, number][] = [
+  [/^sun(day)?s?$/, 0],
+  [/^mon(day)?s?$/, 1],
+  [/^tue(s|sday)?s?$/, 2],
+  [/^wed(nesday)?s?$/, 3],
+  [/^thu(r|rs|rsday)?s?$/, 4],
+  [/^fri(day)?s?$/, 5],
+  [/^sat(urday)?s?$/, 6],
+];
+
+const parseWeekday = (word: string) =>
+  WEEKDAY_PATTERNS.find(([pattern]) => pattern.test(word))?.[1];
+
+const TIME_PATTERN =
+  /(noon|midday|midnight|(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?)/g;
+
+// "6am and 6:30pm" -> [[6, 0], [18, 30]]
+const parseTimes = (text: string): [number, number][] => {
+  const times: [number, number][] = [];
+  const leftover = text.replace(
+    TIME_PATTERN,
+    (
+      _,
+      whole: string,
+      hourText?: string,
+      minuteText?: string,
+      half?: string
+    ) => {
+      if (whole === 'noon' || whole === 'midday') times.push([12, 0]);
+      else if (whole === 'midnight') times.push([0, 0]);
+      else {
+        let hour = Number(hourText);
+        const minute = minuteText === undefined ? 0 : Number(minuteText);
+        if (half) {
+          if (hour < 1 || hour > 12)
+            throw new Error(`"${whole}" is not a time`);
+          hour = (hour % 12) + (half.startsWith('p') ? 12 : 0);
+        }
+        if (hour > 23 || minute > 59)
+          throw new Error(`"${whole}" is not a time`);
+        times.push([hour, minute]);
+      }
+      return ' ';
+    }
+  );
+  if (leftover.replace(/\b(and|or)\b|[,\s]/g, '')) {
+    throw new Error(`"${text.trim()}" is not a list of times`);
+  }
+  return times;
+};
+
+const SCHEDULE_HINT =
+  'Try "every weekday at 6am UTC", "every 15 minutes", "daily at 18:30 Europe/Berlin" or a cron expression such as "0 6 * * 1-5"';
+
+const MANUAL_PATTERN =
+  /^(manual(ly)?|on demand|only (when|if) (started|run|triggered)( manually)?|never|none|off|no schedule|unschedule( it| this| the workflow)?|(stop|remove|cancel|clear|turn off|disable|delete)( the| its| this)? (schedule|scheduling)|(do not|don't|dont) schedule( it| this| the workflow)?)$/;
+
+// Schedules written in words: "every weekday at 6am UTC", "every 15
+// minutes", "on the 1st of every month at midnight", "manually", or a cron
+// expression with an optional timezone
+export const parseScheduleText = (
+  text: string,
+  now: Date = new Date()
+): WorkflowScheduleResult => {
+  let rest = text
+    .trim()
+    .toLowerCase()
+    .replace(/[.!]+$/, '')
+    .replace(/^please\s+/, '')
+    .replace(
+      /^(?:(?:schedule|run|trigger)\s+(?:it|this|the\s+(?:workflow|pipeline|job))?\s*(?:to\s+run\s+)?|set\s+(?:the\s+)?schedule\s+(?:to\s+)?|schedule:\s*)/,
+      ''
+    )
+    .trim();
+  if (!rest) return fail(`When should the workflow run? ${SCHEDULE_HINT}`);
+  if (MANUAL_PATTERN.test(rest)) return ok(MANUAL_SCHEDULE);
+
+  // The timezone comes last: "... UTC", "... in Europe/Berlin"
+  let timezone = DEFAULT_TIMEZONE;
+  const zoneMatch = rest.match(
+    /\s*(?:\bin\s+|\()?\b([a-z]+(?:\/[a-z_+-]+){1,2}|[a-z]{1,4})\)?$/
+  );
+  if (zoneMatch) {
+    const zone = normalizeTimezone(
+      // IANA names are case-sensitive: europe/berlin -> Europe/Berlin
+      zoneMatch[1].replace(
+        /(^|\/|_)([a-z])/g,
+        (_, lead, char) => lead + char.toUpperCase()
+      )
+    );
+    if (
+      zone &&
+      (zoneMatch[1].includes('/') || zoneMatch[1] in TIMEZONE_ALIASES)
+    ) {
+      timezone = zone;
+      rest = rest.slice(0, zoneMatch.index).trim();
+    } else if (zoneMatch[1].includes('/')) {
+      return fail(`"${zoneMatch[1]}" is not a known timezone`);
+    }
+  }
+
+  const cronText = rest.replace(/^cron\s+/, '').replace(/^["'`]|["'`]$/g, '');
+  if (isCron(cronText) && /^(@|[\d*])/.test(cronText)) {
+    return ok({ mode: 'cron', cron: cronText, timezone });
+  }
+
+  const cron = (minute: string, hour: string, day = '*', weekday = '*') =>
+    ok({
+      mode: 'cron',
+      cron: `${minute} ${hour} ${day} * ${weekday}`,
+      timezone,
+    });
+
+  // Intervals: "every 15 minutes", "every 2 hours", "every minute", "hourly"
+  const interval = rest.match(
+    /^every\s+(?:(\d+|[a-z]+)\s*)?(m|mins?|minutes?|h|hrs?|hours?)$/
+  );
+  if (interval || rest === 'hourly') {
+    const amountText = interval?.[1];
+    const amount =
+      amountText === undefined
+        ? 1
+        : /^\d+$/.test(amountText)
+          ? Number(amountText)
+          : NUMBER_WORDS[amountText];
+    if (amount === undefined)
+      return fail(`"${amountText}" is not a number. ${SCHEDULE_HINT}`);
+    if (amount < 1) return fail('Intervals must be at least 1 minute');
+    const minutes =
+      interval?.[2].startsWith('h') || !interval ? amount * 60 : amount;
+    if (minutes === 1) return cron('*', '*');
+    if (minutes === 60) return cron('0', '*');
+    if (minutes > MAX_INTERVAL_MINUTES) {
+      return fail(
+        'Intervals can be at most one week; use a cron schedule for longer ones'
+      );
+    }
+    return validateSchedule({ mode: 'interval', every_minutes: minutes }, now);
+  }
+
+  // Days and times: "every weekday at 6am", "at 9:30 on mondays and fridays"
+  let times: [number, number][] = [];
+  const atMatch = rest.match(/\bat\s+(.+?)(?=\s+(?:on|every|each)\b|$)/);
+  try {
+    if (atMatch) {
+      times = parseTimes(atMatch[1]);
+      rest =
+        `${rest.slice(0, atMatch.index)} ${rest.slice(atMatch.index! + atMatch[0].length)}`.trim();
+    }
+  } catch (error) {
+    return fail(
+      `${error instanceof Error ? error.message : String(error)}. ${SCHEDULE_HINT}`
+    );
+  }
+  if (times.length === 0) times = [[0, 0]];
+  const minutes = [...new Set(times.map(([, minute]) => minute))];
+  if (minutes.length > 1) {
+    return fail(
+      'Times on one schedule need the same minutes past the hour, e.g. 6:30 and 18:30'
+    );
+  }
+  const hours = [...new Set(times.map(([hour]) => hour))]
+    .sort((a, b) => a - b)
+    .join(',');
+
+  const days = rest
+    .replace(/\b(on|every|each|the|of|at)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (['', 'day', 'daily', 'nightly', 'night', 'days'].includes(days)) {
+    return cron(String(minutes[0]), hours);
+  }
+  if (
+    /^(weekdays?|work ?days?|business days?|monday (to|through|-) friday|mon-fri)$/.test(
+      days
+    )
+  ) {
+    return cron(String(minutes[0]), hours, '*', '1-5');
+  }
+  if (
+    /^(weekends?|weekend days?|saturday and sunday|sat(urday)?s? and sun(day)?s?)$/.test(
+      days
+    )
+  ) {
+    return cron(String(minutes[0]), hours, '*', '0,6');
+  }
+  if (days === 'weekly' || days === 'week') {
+    return cron(String(minutes[0]), hours, '*', '1');
+  }
+
+  const monthly = days.match(
+    /^(?:(?:month|monthly)\s+)?(\d{1,2})(?:st|nd|rd|th)?(?:\s+(?:day\s+)?(?:month|monthly))?$|^(?:month|monthly)$/
+  );
+  if (monthly && /month/.test(days)) {
+    const day = Number(monthly[1] || 1);
+    if (day < 1 || day > 31) return fail(`There is no day ${day} in a month`);
+    return cron(String(minutes[0]), hours, String(day));
+  }
+
+  const weekdayWords = days.split(/\s*(?:,|\band\b|&)\s*|\s+/).filter(Boolean);
+  const weekdays = weekdayWords.map(parseWeekday);
+  if (weekdays.length > 0 && weekdays.every(day => day !== undefined)) {
+    return cron(
+      String(minutes[0]),
+      hours,
+      '*',
+      [...new Set(weekdays as number[])].sort((a, b) => a - b).join(',')
+    );
+  }
+
+  return fail(
+    `I could not work out a schedule from "${text.trim()}". ${SCHEDULE_HINT}`
+  );
+};
+
+// A chat message asking to change the schedule, e.g. "schedule it every
+// weekday at 6am UTC" or "run it manually". Returns undefined for messages
+// that are not about the schedule; an invalid schedule is only reported
+// when the message clearly asks for one. While a question is pending, a bare
+// "daily" or "every hour" is taken as its answer (a sync frequency, say), so
+// only messages that say "run" or "schedule" count.
+export const parseScheduleRequest = (
+  text: string,
+  answeringQuestion = false,
+  now: Date = new Date()
+): WorkflowScheduleResult | undefined => {
+  const content = text.trim().toLowerCase();
+  const explicit =
+    /^(please\s+)?(schedule|unschedule|set\s+(the\s+)?schedule)\b/.test(
+      content
+    ) ||
+    (/\bschedule\b/.test(content) &&
+      MANUAL_PATTERN.test(content.replace(/[.!]+$/, '')));
+  const implicit =
+    /^(please\s+)?(run|trigger)\s+(it|this|the\s+(workflow|pipeline|job))\s+(every|daily|hourly|weekly|monthly|nightly|on|at|manually|only)\b/.test(
+      content
+    ) ||
+    (!answeringQuestion &&
+      /^(every|daily|hourly|weekly|monthly|nightly)\b/.test(content));
+  if (!explicit && !implicit) return undefined;
+
+  const result = parseScheduleText(text, now);
+  return result.valid || explicit ? result : undefined;
+};
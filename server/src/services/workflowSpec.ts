@@ -0,0 +1,418 @@
+import YAML from 'yaml';
+import {
+  updateNodeStatus,
+  type DataFlowConnection,
+  type DataFlowNode,
+} from './aiService';
+import {
+  applyConnectorChoice,
+  applyOperationChoice,
+  getConnector,
+  getFieldSchema,
+  initializeNodeFields,
+  isConnectorTypeField,
+} from './connectors';
+import { validateFieldValue } from './fieldValidation';
+import { encryptSecret, isSecretField, stripSecrets } from './secrets';
+import type { WorkflowSnapshot, WorkflowViewport } from './storage';
+import { validateWorkflowGraph } from './workflowGraph';
+import { isViewport } from './workflowLayout';
+import {
+  getWorkflowSchedule,
+  validateSchedule,
+  type WorkflowSchedule,
+} from './workflowSchedule';
+
+// Portable description of a workflow: the graph and its configuration, without
+// runtime state (statuses, provenance, test results) or credentials. Bump the
+// version whenever the shape changes; older versions are still read.
+// Version 2 added the canvas layout (node positions and viewport).
+// Version 3 made the schedule an object with a mode (manual, cron with a
+// timezone, or interval); earlier versions wrote a cron string or null.
+export const WORKFLOW_SPEC_VERSION = 3;
+
+export type WorkflowSpecFormat = 'json' | 'yaml';
+
+export interface WorkflowSpecNode {
+  id: string;
+  type: DataFlowNode['type'];
+  name: string;
+  connector?: string;
+  config: Record<string, any>;
+  position?: { x: number; y: number };
+}
+
+export interface WorkflowSpecConnection {
+  id: string;
+  source: string;
+  target: string;
+}
+
+export interface WorkflowSpec {
+  version: number;
+  name: string;
+  // Read as a UTC cron expression when a string, manual when null
+  schedule: WorkflowSchedule;
+  nodes: WorkflowSpecNode[];
+  connections: WorkflowSpecConnection[];
+  viewport?: WorkflowViewport;
+}
+
+export type WorkflowImportResult =
+  | { valid: true; workflow: WorkflowSnapshot }
+  | { valid: false; errors: string[] };
+
+const SPEC_KEYS = [
+  'version',
+  'name',
+  'schedule',
+  'nodes',
+  'connections',
+  'viewport',
+];
+const NODE_KEYS = ['id', 'type', 'name', 'connector', 'config', 'position'];
+const CONNECTION_KEYS = ['id', 'source', 'target'];
+const NODE_TYPES: DataFlowNode['type'][] = [
+  'source',
+  'transform',
+  'destination',
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const unknownKeys = (
+  value: Record<string, any>,
+  allowed: string[],
+  where: string
+) =>
+  Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .map(key => `${where} has an unknown field "${key}"`);
+
+// "Shopify and Stripe to Snowflake", for specs exported without a name
+export const getDefaultWorkflowName = (nodes: DataFlowNode[]) => {
+  const namesOf = (type: DataFlowNode['type']) =>
+    nodes
+      .filter(node => node.type === type)
+      .map(node => node.name)
+      .join(' and ');
+  const sources = namesOf('source');
+  const destinations = namesOf('destination');
+  return sources && destinations ? `${sources} to ${destinations}` : 'Workflow';
+};
+
+export const exportWorkflowSpec = (
+  workflow: WorkflowSnapshot
+): WorkflowSpec => ({
+  version: WORKFLOW_SPEC_VERSION,
+  name: workflow.name || getDefaultWorkflowName(workflow.nodes),
+  schedule: getWorkflowSchedule(workflow),
+  nodes: workflow.nodes.map(stripSecrets).map(node => ({
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    ...(node.connector && { connector: node.connector }),
+    config: node.config || {},
+    ...(node.position && {
+      position: { x: node.position.x, y: node.position.y },
+    }),
+  })),
+  connections: workflow.connections.map(({ id, source, target }) => ({
+    id,
+    source,
+    target,
+  })),
+  ...(workflow.viewport && { viewport: workflow.viewport }),
+});
+
+export const serializeWorkflowSpec = (
+  spec: WorkflowSpec,
+  format: WorkflowSpecFormat
+) =>
+  format === 'yaml'
+    ? YAML.stringify(spec)
+    : `${JSON.stringify(spec, null, 2)}\n`;
+
+// Store one configured value exactly as a chat answer would be stored, so an
+// imported node behaves like one configured in the conversation
+const applySpecValue = (
+  node: DataFlowNode,
+  fieldName: string,
+  value: unknown
+): string | undefined => {
+  // null leaves the field to be asked for in the chat
+  if (value === null) return undefined;
+
+  const field = getFieldSchema(node, fieldName);
+  if (!field) {
+    const connector = getConnector(node.connector);
+    return `unknown field "${fieldName}"${connector ? ` for ${connector.name}` : ''}`;
+  }
+
+  // Lists of options are answered item by item; column mappings and
+  // declared schemas as the JSON they are stored as
+  const answer =
+    Array.isArray(value) && !value.some(isObject)
+      ? value.map(String)
+      : isObject(value) || Array.isArray(value)
+        ? JSON.stringify(value)
+        : String(value);
+  const validation = validateFieldValue(fieldName, field, answer, node);
+  if (!validation.valid) {
+    return `invalid ${field.label} - ${validation.error}`;
+  }
+
+  node.config![fieldName] =
+    typeof validation.value === 'string' && isSecretField(node, fieldName)
+      ? encryptSecret(validation.value)
+      : validation.value;
+
+  const requirements = node.data_requirements!;
+  const missingIndex = requirements.missing_fields.indexOf(fieldName);
+  if (missingIndex !== -1) {
+    requirements.missing_fields.splice(missingIndex, 1);
+    requirements.provided_fields.push(fieldName);
+  }
+
+  if (isConnectorTypeField(fieldName)) {
+    applyConnectorChoice(node, String(validation.value));
+  }
+  if (fieldName === 'operation_type') {
+    applyOperationChoice(node);
+  }
+  return undefined;
+};
+
+const buildNode = (spec: WorkflowSpecNode, errors: string[]): DataFlowNode => {
+  const where = `Node "${spec.id}"`;
+  const node: DataFlowNode = {
+    id: spec.id,
+    type: spec.type,
+    name: spec.name,
+    status: 'pending',
+    config: {},
+    data_requirements: {
+      required_fields: [],
+      provided_fields: [],
+      missing_fields: [],
+    },
+  };
+
+  // A node whose type was asked for in the chat keeps that question, and
+  // the type (or a transform's operation) has to be applied first since it
+  // decides the other fields
+  const config = spec.config || {};
+  const typeField = Object.keys(config).find(isConnectorTypeField);
+  initializeNodeFields(
+    node,
+    typeField ? undefined : getConnector(spec.connector)
+  );
+
+  const firstField =
+    typeField || (spec.type === 'transform' ? 'operation_type' : undefined);
+  const fieldNames =
+    firstField && firstField in config
+      ? [firstField, ...Object.keys(config).filter(name => name !== firstField)]
+      : Object.keys(config);
+  fieldNames.forEach(fieldName => {
+    const error = applySpecValue(node, fieldName, config[fieldName]);
+    if (error) errors.push(`${where}: ${error}`);
+  });
+
+  if (spec.connector && typeField && node.connector !== spec.connector) {
+    errors.push(
+      `${where}: ${typeField} "${config[typeField]}" does not match connector "${spec.connector}"`
+    );
+  }
+
+  if (spec.position) {
+    node.position = { x: spec.position.x, y: spec.position.y };
+  }
+
+  updateNodeStatus(node);
+  return node;
+};
+
+const validateSpecNode = (value: unknown, index: number): string[] => {
+  if (!isObject(value)) return [`Node ${index + 1} must be an object`];
+
+  const where = isNonEmptyString(value.id)
+    ? `Node "${value.id}"`
+    : `Node ${index + 1}`;
+  const errors = unknownKeys(value, NODE_KEYS, where);
+
+  if (!isNonEmptyString(value.id)) errors.push(`${where} is missing "id"`);
+  if (!isNonEmptyString(value.name)) errors.push(`${where} is missing "name"`);
+  if (!NODE_TYPES.includes(value.type)) {
+    errors.push(
+      `${where} has type "${value.type}"; expected one of: ${NODE_TYPES.join(', ')}`
+    );
+  }
+  if (value.config !== undefined && !isObject(value.config)) {
+    errors.push(`${where} has a "config" that is not an object`);
+  }
+  if (
+    value.position !== undefined &&
+    !(
+      isObject(value.position) &&
+      Number.isFinite(value.position.x) &&
+      Number.isFinite(value.position.y)
+    )
+  ) {
+    errors.push(`${where} has a "position" without numeric x and y`);
+  }
+
+  if (value.connector !== undefined) {
+    const connector = getConnector(value.connector);
+    if (!connector) {
+      errors.push(`${where} uses unknown connector "${value.connector}"`);
+    } else if (!connector.roles.includes(value.type)) {
+      errors.push(
+        `${where}: ${connector.name} cannot be used as a ${value.type}`
+      );
+    }
+  }
+
+  return errors;
+};
+
+const validateSpecConnection = (value: unknown, index: number): string[] => {
+  const where = `Connection ${index + 1}`;
+  if (!isObject(value)) return [`${where} must be an object`];
+
+  const errors = unknownKeys(value, CONNECTION_KEYS, where);
+  if (!isNonEmptyString(value.source))
+    errors.push(`${where} is missing "source"`);
+  if (!isNonEmptyString(value.target))
+    errors.push(`${where} is missing "target"`);
+  if (value.id !== undefined && !isNonEmptyString(value.id)) {
+    errors.push(`${where} has an empty "id"`);
+  }
+  return errors;
+};
+
+// Structural checks that do not depend on the connector registry
+const validateSpecShape = (spec: unknown): string[] => {
+  if (!isObject(spec)) {
+    return [
+      'The spec must be an object with version, name, nodes and connections',
+    ];
+  }
+
+  if (spec.version === undefined) return ['The spec is missing "version"'];
+  if (
+    !Number.isInteger(spec.version) ||
+    spec.version < 1 ||
+    spec.version > WORKFLOW_SPEC_VERSION
+  ) {
+    return [
+      `Unsupported spec version ${JSON.stringify(spec.version)}; this server reads versions 1 to ${WORKFLOW_SPEC_VERSION}`,
+    ];
+  }
+
+  const errors = unknownKeys(spec, SPEC_KEYS, 'The spec');
+
+  if (spec.name !== undefined && !isNonEmptyString(spec.name)) {
+    errors.push('"name" must be a non-empty string');
+  }
+  const schedule = validateSchedule(spec.schedule);
+  if (!schedule.valid) errors.push(`"schedule" is invalid: ${schedule.error}`);
+
+  if (spec.viewport !== undefined && !isViewport(spec.viewport)) {
+    errors.push('"viewport" must have numeric x, y and a positive zoom');
+  }
+
+  if (!Array.isArray(spec.nodes) || spec.nodes.length === 0) {
+    errors.push('"nodes" must be a non-empty list');
+  } else {
+    spec.nodes.forEach((node, index) =>
+      errors.push(...validateSpecNode(node, index))
+    );
+  }
+
+  if (!Array.isArray(spec.connections)) {
+    errors.push('"connections" must be a list');
+  } else {
+    spec.connections.forEach((connection, index) =>
+      errors.push(...validateSpecConnection(connection, index))
+    );
+  }
+
+  return errors;
+};
+
+const parseSpecText = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('The spec is empty');
+
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(
+        `The spec is not valid JSON: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  try {
+    return YAML.parse(trimmed);
+  } catch (error) {
+    throw new Error(
+      `The spec is not valid YAML: ${error instanceof Error ? error.message.split('\n')[0] : error}`
+    );
+  }
+};
+
+// Parse a JSON or YAML spec and rebuild the workflow it describes. Every
+// problem is reported at once so a hand-edited spec can be fixed in one pass.
+export const importWorkflowSpec = (text: string): WorkflowImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = parseSpecText(text);
+  } catch (error) {
+    return { valid: false, errors: [(error as Error).message] };
+  }
+
+  const shapeErrors = validateSpecShape(parsed);
+  if (shapeErrors.length > 0) return { valid: false, errors: shapeErrors };
+
+  const spec = parsed as WorkflowSpec;
+  const errors: string[] = [];
+  const nodes = spec.nodes.map(node => buildNode(node, errors));
+  const connections: DataFlowConnection[] = spec.connections.map(
+    (connection, index) => ({
+      id: connection.id || `conn${index + 1}`,
+      source: connection.source,
+      target: connection.target,
+      status: 'pending',
+    })
+  );
+  errors.push(...validateWorkflowGraph({ nodes, connections }));
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  return {
+    valid: true,
+    workflow: {
+      nodes,
+      connections,
+      workflow_complete: nodes.every(
+        node => node.data_requirements!.missing_fields.length === 0
+      ),
+      ...(spec.name && { name: spec.name.trim() }),
+      schedule: getWorkflowSchedule(spec),
+      ...(spec.viewport && {
+        viewport: {
+          x: spec.viewport.x,
+          y: spec.viewport.y,
+          zoom: spec.viewport.zoom,
+        },
+      }),
+    },
+  };
+};
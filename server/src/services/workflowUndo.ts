@@ -0,0 +1,97 @@
+import type { Message } from '../websocket';
+import type { Session } from './storage';
+
+// Undo takes back whole chat turns: the AI only knows the workflow through
+// the transcript, so a mistaken answer has to leave the conversation too,
+// not just the canvas.
+
+const workflowState = (message: Message) =>
+  JSON.stringify({
+    nodes: message.nodes,
+    connections: message.connections,
+    workflow_complete: !!message.workflow_complete,
+  });
+
+// Connection test results are stored as workflow states so later answers
+// build on them, but they leave the configuration alone
+const changesWorkflow = (message: Message) =>
+  !!message.nodes &&
+  !!message.connections &&
+  message.type !== 'CONNECTION_TEST_RESULT';
+
+// Where the last turn that changed the workflow starts, or -1 when the
+// workflow has no earlier state to go back to. Later turns that left the
+// workflow alone (generated code, run summaries, connection tests) are taken
+// back with it.
+export const findUndoPoint = (messages: Message[]) => {
+  const workflowIndexes = messages
+    .map((message, index) => (changesWorkflow(message) ? index : -1))
+    .filter(index => index !== -1);
+  if (workflowIndexes.length === 0) return -1;
+
+  const latest = workflowState(
+    messages[workflowIndexes[workflowIndexes.length - 1]]
+  );
+  const previousIndex = workflowIndexes
+    .filter(index => workflowState(messages[index]) !== latest)
+    .pop();
+  if (previousIndex === undefined) return -1;
+
+  // The turn starts with the user message that led to the change
+  const changeIndex = workflowIndexes.find(index => index > previousIndex)!;
+  for (let index = changeIndex; index > previousIndex; index--) {
+    if (messages[index].role === 'user') return index;
+  }
+  return previousIndex + 1;
+};
+
+const describeTurn = (turn: Message[]) => {
+  const request = turn.find(message => message.role === 'user');
+  return request ? `"${request.content}"` : 'Workflow change';
+};
+
+// Labels of the turns undo and redo would take back or bring back, most
+// recent last
+export const getUndoLabels = (session: Session) => {
+  const labels: string[] = [];
+  let messages = session.messages;
+  for (
+    let undoPoint = findUndoPoint(messages);
+    undoPoint !== -1;
+    undoPoint = findUndoPoint(messages)
+  ) {
+    labels.unshift(describeTurn(messages.slice(undoPoint)));
+    messages = messages.slice(0, undoPoint);
+  }
+  return labels;
+};
+
+export const getRedoLabels = (session: Session) =>
+  session.redo_stack.map(describeTurn);
+
+// Split the transcript into what stays and the turn undo takes back
+export const undoLastTurn = (session: Session) => {
+  const undoPoint = findUndoPoint(session.messages);
+  if (undoPoint === -1) return null;
+
+  const turn = session.messages.slice(undoPoint);
+  return {
+    messages: session.messages.slice(0, undoPoint),
+    turn,
+    label: describeTurn(turn),
+    redoStack: [...session.redo_stack, turn],
+  };
+};
+
+// Bring back the turn undo took back most recently
+export const redoLastTurn = (session: Session) => {
+  const turn = session.redo_stack[session.redo_stack.length - 1];
+  if (!turn) return null;
+
+  return {
+    messages: [...session.messages, ...turn],
+    turn,
+    label: describeTurn(turn),
+    redoStack: session.redo_stack.slice(0, -1),
+  };
+};
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import type { Session, WorkflowSnapshot, WorkflowVersion } from './storage';
+import { diffWorkflows, type WorkflowDiff } from './workflowDiff';
+import { withoutLayout } from './workflowLayout';
+
+// Oldest unnamed versions are dropped beyond this many
+const MAX_VERSIONS = 100;
+const MAX_LABEL_LENGTH = 60;
+
+// What the version list shows; the snapshot itself stays on the server
+export interface WorkflowVersionSummary {
+  id: string;
+  number: number;
+  name?: string;
+  label: string;
+  created_at: string;
+  node_count: number;
+  workflow_complete: boolean;
+}
+
+export interface WorkflowVersionDiff extends WorkflowDiff {
+  from: WorkflowVersionSummary;
+  to: WorkflowVersionSummary;
+}
+
+export const summarizeVersion = (
+  version: WorkflowVersion
+): WorkflowVersionSummary => ({
+  id: version.id,
+  number: version.number,
+  ...(version.name && { name: version.name }),
+  label: version.label,
+  created_at: version.created_at,
+  node_count: version.workflow.nodes.length,
+  workflow_complete: version.workflow.workflow_complete,
+});
+
+// The workflow without its layout, connection test results and the statuses
+// they set; statuses otherwise follow the configuration, which is compared
+const withoutTestResults = (workflow: WorkflowSnapshot) => {
+  const arranged = withoutLayout(workflow);
+  return {
+    ...arranged,
+    nodes: arranged.nodes.map(node => ({
+      ...node,
+      connection_test: undefined,
+      status: undefined,
+    })),
+  };
+};
+
+export const findVersion = (session: Session, versionId?: string) =>
+  session.versions.find(version => version.id === versionId);
+
+// Record the session's current workflow as a new version if it changed since
+// the latest one. Returns the new version, or null when nothing changed.
+export const recordWorkflowVersion = (
+  session: Session,
+  label: string
+): WorkflowVersion | null => {
+  if (!session.workflow) return null;
+
+  const latest = session.versions[session.versions.length - 1];
+  // Moving nodes around on the canvas or testing a connection is not a new
+  // version
+  if (
+    latest &&
+    JSON.stringify(withoutTestResults(latest.workflow)) ===
+      JSON.stringify(withoutTestResults(session.workflow))
+  ) {
+    return null;
+  }
+
+  const version: WorkflowVersion = {
+    id: crypto.randomUUID(),
+    number: (latest?.number || 0) + 1,
+    label:
+      label.length > MAX_LABEL_LENGTH
+        ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…`
+        : label,
+    created_at: new Date().toISOString(),
+    workflow: JSON.parse(JSON.stringify(session.workflow)),
+  };
+  session.versions.push(version);
+
+  // Named versions are kept however long the history gets
+  while (session.versions.length > MAX_VERSIONS) {
+    const index = session.versions.findIndex(v => !v.name);
+    if (index === -1) break;
+    session.versions.splice(index, 1);
+  }
+
+  return version;
+};
+
+export const nameVersion = (version: WorkflowVersion, name: string) => {
+  const trimmed = name.trim();
+  if (trimmed) {
+    version.name = trimmed;
+  } else {
+    delete version.name;
+  }
+};
+
+export const diffVersions = (
+  from: WorkflowVersion,
+  to: WorkflowVersion
+): WorkflowVersionDiff => ({
+  from: summarizeVersion(from),
+  to: summarizeVersion(to),
+  ...diffWorkflows(from.workflow, to.workflow),
+});
@@ -1,8 +1,90 @@
-import { WebSocket } from 'ws';
-import { processMessage } from './services/aiService';
-
-// Helper function for adding delays
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import { WebSocket, type WebSocketServer } from 'ws';
+import {
+  applyColumnMappingEdit,
+  applyFieldEdit,
+  applyGraphEdit,
+  describeImportedWorkflow,
+  describeRestoredWorkflow,
+  getFieldQuestion,
+  processMessage,
+  updateNodeStatus,
+  type FieldProvenance,
+  type Question,
+  type StructuredAnswer,
+} from './services/aiService';
+import {
+  CODEGEN_TARGETS,
+  generateWorkflowCode,
+  type CodegenTarget,
+} from './services/codegen';
+import type { ColumnMapping } from './services/columnMapping';
+import {
+  testNodeConnection,
+  type ConnectionTestResult,
+} from './services/connectionTester';
+import { DECLARED_SCHEMA_FIELD } from './services/connectors';
+import {
+  DEFAULT_PREVIEW_ROWS,
+  previewNodeData,
+  type NodePreview,
+} from './services/dataPreview';
+import type { GraphEdit } from './services/graphEdit';
+import { runPipeline, type PipelineRun } from './services/pipelineRunner';
+import { recordRun } from './services/runHistory';
+import { syncSchedule } from './services/scheduler';
+import { inferNodeSchemas, type NodeSchemas } from './services/schemaInference';
+import {
+  decryptSecret,
+  getSecretFields,
+  isSecretField,
+  maskNodeSecrets,
+  redactSecrets,
+  revealNodeSecrets,
+  SECRET_MASK,
+} from './services/secrets';
+import {
+  createSession,
+  getSessionStore,
+  type Session,
+  type WorkflowViewport,
+} from './services/storage';
+import {
+  applyLayoutChange,
+  validateLayoutChange,
+} from './services/workflowLayout';
+import {
+  describeSchedule,
+  formatRunTime,
+  getNextRuns,
+  getWorkflowSchedule,
+  parseScheduleRequest,
+  parseScheduleText,
+  validateSchedule,
+  type WorkflowSchedule,
+  type WorkflowScheduleResult,
+} from './services/workflowSchedule';
+import {
+  exportWorkflowSpec,
+  getDefaultWorkflowName,
+  importWorkflowSpec,
+  serializeWorkflowSpec,
+  type WorkflowSpecFormat,
+} from './services/workflowSpec';
+import {
+  diffVersions,
+  findVersion,
+  nameVersion,
+  recordWorkflowVersion,
+  summarizeVersion,
+  type WorkflowVersionDiff,
+  type WorkflowVersionSummary,
+} from './services/workflowVersions';
+import {
+  getRedoLabels,
+  getUndoLabels,
+  redoLastTurn,
+  undoLastTurn,
+} from './services/workflowUndo';
 
 // Helper function to generate unique IDs
 const generateId = (): string => {
@@ -13,10 +95,50 @@ export interface Message {
   id: string; // Unique message ID
   response_to?: string; // ID of message this responds to (for conversation threading)
   role: 'user' | 'assistant'; // Who sent the message
-  type: 'MESSAGE' | 'THOUGHT' | 'ERROR' | 'STATUS' | 'GET_NODE_DATA';
+  type:
+    | 'MESSAGE'
+    | 'THOUGHT'
+    | 'ERROR'
+    | 'STATUS'
+    | 'GET_NODE_DATA'
+    | 'RUN_WORKFLOW'
+    | 'RUN_STATUS'
+    | 'REVEAL_FIELD'
+    | 'FIELD_VALUE'
+    | 'RESUME_SESSION'
+    | 'SESSION_STATE'
+    | 'PING'
+    | 'PONG'
+    | 'MESSAGE_DELTA'
+    | 'TEST_CONNECTION'
+    | 'CONNECTION_TEST_RESULT'
+    | 'EXPORT_WORKFLOW'
+    | 'WORKFLOW_SPEC'
+    | 'IMPORT_WORKFLOW'
+    | 'WORKFLOW_IMPORTED'
+    | 'GENERATE_CODE'
+    | 'LIST_VERSIONS'
+    | 'VERSIONS'
+    | 'NAME_VERSION'
+    | 'DIFF_VERSIONS'
+    | 'VERSION_DIFF'
+    | 'RESTORE_VERSION'
+    | 'UNDO'
+    | 'REDO'
+    | 'UNDO_STATE'
+    | 'UPDATE_NODE_FIELD'
+    | 'GRAPH_EDIT'
+    | 'UPDATE_LAYOUT'
+    | 'INFER_SCHEMA'
+    | 'SCHEMA'
+    | 'UPDATE_COLUMN_MAPPING'
+    | 'PREVIEW_DATA'
+    | 'DATA_PREVIEW'
+    | 'SET_SCHEDULE'
+    | 'SCHEDULE';
   content: string; // Main message content (or thought content)
   timestamp: string; // ISO timestamp
-  message_type?: 'text' | 'markdown'; // Type of message content
+  message_type?: 'text' | 'markdown' | 'code'; // Type of message content
 
   // For assistant MESSAGE responses - only include if workflow state changed
   nodes?: DataFlowNode[];
@@ -28,6 +150,83 @@ export interface Message {
 
   // For GET_NODE_DATA events
   node_id?: string;
+
+  // For REVEAL_FIELD requests and FIELD_VALUE responses
+  field?: string;
+  field_value?: string;
+
+  // For RESUME_SESSION requests and SESSION_STATE responses
+  session_id?: string;
+  messages?: Message[];
+
+  // For RUN_STATUS events
+  run?: PipelineRun;
+
+  // For CONNECTION_TEST_RESULT responses to TEST_CONNECTION
+  connection_test?: ConnectionTestResult;
+
+  // For EXPORT_WORKFLOW / WORKFLOW_SPEC and IMPORT_WORKFLOW; spec_errors
+  // lists everything wrong with a rejected spec
+  spec?: string;
+  spec_format?: WorkflowSpecFormat;
+  spec_errors?: string[];
+  file_name?: string;
+
+  // For GENERATE_CODE requests and the 'code' messages answering them
+  code_target?: CodegenTarget;
+  code_language?: 'python';
+
+  // For the workflow version history: VERSIONS lists the versions (also
+  // sent whenever a new one is recorded), NAME_VERSION / RESTORE_VERSION act
+  // on version_id, and DIFF_VERSIONS compares version_id with compare_to
+  // (the latest version by default)
+  versions?: WorkflowVersionSummary[];
+  version_id?: string;
+  version_name?: string;
+  compare_to?: string;
+  version_diff?: WorkflowVersionDiff;
+
+  // For UNDO / REDO and the UNDO_STATE sent after every change: what undo
+  // and redo would take back or bring back, most recent last. The reply to
+  // UNDO / REDO also carries the rewound conversation in messages and nodes.
+  undo_labels?: string[];
+  redo_labels?: string[];
+
+  // For GRAPH_EDIT requests: a step or connection added or removed on the
+  // canvas
+  graph_edit?: GraphEdit;
+
+  // For UPDATE_LAYOUT requests, and the saved viewport in SESSION_STATE and
+  // WORKFLOW_IMPORTED: nodes dragged on the canvas (null hands a node back
+  // to the automatic layout) and the canvas pan and zoom
+  node_positions?: Record<string, { x: number; y: number } | null>;
+  viewport?: WorkflowViewport | null;
+
+  // For SCHEMA responses to INFER_SCHEMA: the columns going into and out
+  // of node_id
+  schemas?: NodeSchemas;
+
+  // For PREVIEW_DATA requests (rows to sample, 20 by default) and the
+  // DATA_PREVIEW answering them: sample rows going into and out of node_id
+  limit?: number;
+  preview?: NodePreview;
+
+  // For UPDATE_COLUMN_MAPPING requests: the mapping built in the drawer for
+  // the transform node_id
+  column_mapping?: ColumnMapping[];
+
+  // For SET_SCHEDULE requests (the schedule in words, e.g. "every weekday
+  // at 6am UTC", or as an object) and the SCHEDULE sent with the session
+  // and after every change: when the workflow runs and its next run times
+  schedule?: WorkflowSchedule;
+  schedule_text?: string;
+  next_runs?: string[];
+
+  // Pending question (assistant) and structured answer to it (user). An
+  // UPDATE_NODE_FIELD request carries the edited value as its answer; an
+  // empty value clears the field.
+  question?: Question;
+  answer?: StructuredAnswer;
 }
 
 export interface DataFlowNode {
@@ -35,6 +234,7 @@ export interface DataFlowNode {
   type: 'source' | 'transform' | 'destination';
   name: string;
   status: 'pending' | 'partial' | 'complete' | 'error';
+  connector?: string; // ID of the registry connector backing this node
   config?: Record<string, any>;
   position?: { x: number; y: number };
   data_requirements?: {
@@ -42,6 +242,9 @@ export interface DataFlowNode {
     provided_fields: string[];
     missing_fields: string[];
   };
+  provenance?: Record<string, FieldProvenance>;
+  validation_errors?: Record<string, string>;
+  connection_test?: ConnectionTestResult;
 }
 
 export interface DataFlowConnection {
@@ -51,18 +254,280 @@ export interface DataFlowConnection {
   status: 'pending' | 'complete' | 'error';
 }
 
-// Store conversation history for each WebSocket connection (in-memory only)
-const conversationHistories = new WeakMap<WebSocket, Message[]>();
+// Session bound to each WebSocket connection. Held as a promise so messages
+// that arrive while a RESUME_SESSION is still loading wait for it.
+const connectionSessions = new WeakMap<WebSocket, Promise<Session>>();
+
+const getConnectionSession = (ws: WebSocket): Promise<Session> => {
+  let session = connectionSessions.get(ws);
+  if (!session) {
+    session = Promise.resolve(createSession());
+    connectionSessions.set(ws, session);
+  }
+  return session;
+};
+
+// Tail of each connection's chat message queue
+const chatQueues = new WeakMap<WebSocket, Promise<void>>();
+
+const enqueueChatMessage = (ws: WebSocket, task: () => Promise<void>) => {
+  const next = (chatQueues.get(ws) || Promise.resolve()).then(task);
+  chatQueues.set(
+    ws,
+    next.catch(() => undefined)
+  );
+  return next;
+};
+
+// Replace the session's transcript and persist it with the latest workflow.
+// A changed workflow is recorded as a new version, labelled with versionLabel
+// or the user message that changed it; a null label (connection test
+// results) records none. Only undo and redo pass a redo stack; any other
+// change clears it.
+const saveConversation = async (
+  ws: WebSocket,
+  messages: Message[],
+  versionLabel?: string | null,
+  redoStack: Message[][] = []
+) => {
+  const session = await getConnectionSession(ws);
+  const latestWorkflowMessage = getLatestWorkflowMessage(messages);
+
+  session.messages = messages;
+  session.redo_stack = redoStack;
+  session.workflow = latestWorkflowMessage
+    ? {
+        nodes: latestWorkflowMessage.nodes!,
+        connections: latestWorkflowMessage.connections!,
+        workflow_complete: !!latestWorkflowMessage.workflow_complete,
+        // Name, schedule and viewport are not part of the chat, so carry
+        // them over
+        ...(session.workflow?.name && { name: session.workflow.name }),
+        ...(session.workflow?.schedule && {
+          schedule: session.workflow.schedule,
+        }),
+        ...(session.workflow?.viewport && {
+          viewport: session.workflow.viewport,
+        }),
+      }
+    : null;
+  session.updated_at = new Date().toISOString();
+
+  const lastUserMessage = messages
+    .filter(msg => msg.role === 'user' && msg.type === 'MESSAGE')
+    .pop();
+  const version =
+    versionLabel === null
+      ? null
+      : recordWorkflowVersion(
+          session,
+          versionLabel ||
+            (lastUserMessage
+              ? `"${lastUserMessage.content}"`
+              : 'Workflow updated')
+        );
+
+  await getSessionStore().saveSession(session);
+  syncSchedule(session);
+
+  if (version) sendVersions(ws, session);
+  sendUndoState(ws, session);
+  sendSchedule(ws, session);
+};
+
+const sendUndoState = (
+  ws: WebSocket,
+  session: Session,
+  reply?: Partial<Message>
+) => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      role: 'assistant',
+      type: 'UNDO_STATE',
+      content: '',
+      undo_labels: getUndoLabels(session),
+      redo_labels: getRedoLabels(session),
+      timestamp: new Date().toISOString(),
+      ...reply,
+    })
+  );
+};
+
+// Only complete workflows run, so an incomplete one has no next runs yet
+const sendSchedule = (ws: WebSocket, session: Session) => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  const schedule = getWorkflowSchedule(session.workflow);
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      role: 'assistant',
+      type: 'SCHEDULE',
+      content: describeSchedule(schedule),
+      schedule,
+      next_runs: session.workflow?.workflow_complete
+        ? getNextRuns(schedule).map(run => run.toISOString())
+        : [],
+      timestamp: new Date().toISOString(),
+    })
+  );
+};
+
+const sendVersions = (ws: WebSocket, session: Session, responseTo?: string) => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: responseTo,
+      role: 'assistant',
+      type: 'VERSIONS',
+      content: `${session.versions.length} versions`,
+      versions: session.versions.map(summarizeVersion),
+      timestamp: new Date().toISOString(),
+    })
+  );
+};
+
+// Latest workflow state in a conversation
+const getLatestWorkflowMessage = (conversationHistory: Message[]) =>
+  conversationHistory.filter(msg => msg.nodes && msg.connections).pop();
+
+// Question the latest assistant reply is waiting on, if any
+const getPendingQuestion = (conversationHistory: Message[]) =>
+  conversationHistory
+    .filter(msg => msg.role === 'assistant' && msg.type === 'MESSAGE')
+    .pop()?.question;
+
+// Credentials never leave the server unmasked
+const toClientMessage = (message: Message): Message =>
+  message.nodes
+    ? { ...message, nodes: message.nodes.map(maskNodeSecrets) }
+    : message;
+
+// Mask a user message that answers a credential question, so the plain-text
+// value never reaches the logs or the stored transcript
+const redactSecretAnswer = (
+  conversationHistory: Message[],
+  message: Message
+): Message => {
+  if (message.type !== 'MESSAGE') return message;
+
+  const target = message.answer || getPendingQuestion(conversationHistory);
+  if (!target) return message;
+
+  const node = getLatestWorkflowMessage(conversationHistory)?.nodes?.find(
+    n => n.id === target.node_id
+  );
+  const answersSecret =
+    !!node?.data_requirements?.missing_fields.includes(target.field) &&
+    isSecretField(node, target.field);
+  if (!answersSecret) return message;
+
+  return {
+    ...message,
+    content: SECRET_MASK,
+    ...(message.answer && {
+      answer: { ...message.answer, value: SECRET_MASK },
+    }),
+  };
+};
+
+// Mask credentials the extractor picked out of a free-text answer, which
+// redactSecretAnswer cannot know about before the message is processed
+const redactExtractedSecrets = (message: Message, response: Message) => {
+  const secrets = (response.nodes || []).flatMap(node => {
+    const revealed = revealNodeSecrets(node);
+    return getSecretFields(node)
+      .filter(field => node.provenance?.[field]?.message_id === message.id)
+      .map(field => revealed.config?.[field])
+      .filter((value): value is string => typeof value === 'string');
+  });
+
+  return secrets.length > 0
+    ? { ...message, content: redactSecrets(message.content, secrets) }
+    : message;
+};
+
+// Connections that answered the last protocol-level ping
+const aliveConnections = new WeakSet<WebSocket>();
+
+// Terminate connections that stop answering pings, so half-open sockets do
+// not linger after a client drops off the network
+export const startHeartbeat = (wss: WebSocketServer, intervalMs = 30000) => {
+  const timer = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!aliveConnections.has(ws)) {
+        console.log('💔 Terminating unresponsive WebSocket connection');
+        ws.terminate();
+        return;
+      }
+      aliveConnections.delete(ws);
+      ws.ping();
+    });
+  }, intervalMs);
+
+  wss.on('close', () => clearInterval(timer));
+};
+
+// Stream a scheduled run to every connection on its session, and refresh
+// their next run times once it has finished
+export const broadcastScheduledRun =
+  (wss: WebSocketServer) => (sessionId: string, run: PipelineRun) => {
+    wss.clients.forEach(ws => {
+      connectionSessions.get(ws)?.then(
+        session => {
+          if (session.id !== sessionId || ws.readyState !== WebSocket.OPEN) {
+            return;
+          }
+          ws.send(
+            JSON.stringify({
+              id: generateId(),
+              role: 'assistant',
+              type: 'RUN_STATUS',
+              content: `Scheduled run ${run.status}`,
+              run,
+              timestamp: new Date().toISOString(),
+            })
+          );
+          if (run.status !== 'running') sendSchedule(ws, session);
+        },
+        () => undefined
+      );
+    });
+  };
 
 export const handleWebSocketConnection = (ws: WebSocket) => {
   console.log('🔌 New WebSocket connection established');
 
+  aliveConnections.add(ws);
+  ws.on('pong', () => aliveConnections.add(ws));
+
   ws.on('message', async (message: string) => {
     try {
       const parsedMessage: Message = JSON.parse(message);
 
-      // All messages go through the same handler
-      await handleMessage(ws, parsedMessage);
+      // All messages go through the same handler. Chat messages rewrite the
+      // transcript, so they are processed one at a time per connection.
+      if (
+        parsedMessage.type === 'MESSAGE' ||
+        parsedMessage.type === 'IMPORT_WORKFLOW' ||
+        parsedMessage.type === 'GENERATE_CODE' ||
+        parsedMessage.type === 'NAME_VERSION' ||
+        parsedMessage.type === 'RESTORE_VERSION' ||
+        parsedMessage.type === 'UNDO' ||
+        parsedMessage.type === 'REDO' ||
+        parsedMessage.type === 'UPDATE_NODE_FIELD' ||
+        parsedMessage.type === 'GRAPH_EDIT' ||
+        parsedMessage.type === 'UPDATE_LAYOUT' ||
+        parsedMessage.type === 'UPDATE_COLUMN_MAPPING' ||
+        parsedMessage.type === 'SET_SCHEDULE' ||
+        parsedMessage.type === 'TEST_CONNECTION'
+      ) {
+        await enqueueChatMessage(ws, () => handleMessage(ws, parsedMessage));
+      } else {
+        await handleMessage(ws, parsedMessage);
+      }
     } catch (error) {
       console.error('Error processing message:', error);
       ws.send(
@@ -79,8 +544,8 @@ export const handleWebSocketConnection = (ws: WebSocket) => {
 
   ws.on('close', () => {
     console.log('🔌 WebSocket connection closed');
-    // Clean up conversation history when connection closes
-    conversationHistories.delete(ws);
+    // The session stays in storage so the client can resume it
+    connectionSessions.delete(ws);
   });
 
   ws.on('error', error => {
@@ -90,12 +555,34 @@ export const handleWebSocketConnection = (ws: WebSocket) => {
 
 const handleMessage = async (ws: WebSocket, message: Message) => {
   try {
-    console.log(
-      '🔍 Processing message type:',
-      message.type,
-      'with content:',
-      message.content
-    );
+    // Application-level heartbeat from the client
+    if (message.type === 'PING') {
+      ws.send(
+        JSON.stringify({
+          id: generateId(),
+          response_to: message.id,
+          role: 'assistant',
+          type: 'PONG',
+          content: '',
+          timestamp: new Date().toISOString(),
+        })
+      );
+      return;
+    }
+
+    // Must be handled before anything awaits the connection's session
+    if (message.type === 'RESUME_SESSION') {
+      await handleResumeSession(ws, message);
+      return;
+    }
+
+    // Get the conversation history for this connection's session
+    let conversationHistory = (await getConnectionSession(ws)).messages;
+    const redactedMessage = redactSecretAnswer(conversationHistory, message);
+
+    // Only the type and id; free-text answers can hold secrets that are
+    // redacted only once the answer has been processed
+    console.log('🔍 Processing message type:', message.type, message.id);
 
     // Handle GET_NODE_DATA event
     if (message.type === 'GET_NODE_DATA') {
@@ -107,8 +594,172 @@ const handleMessage = async (ws: WebSocket, message: Message) => {
       return;
     }
 
-    // Get or create conversation history for this WebSocket connection
-    let conversationHistory = conversationHistories.get(ws) || [];
+    // Handle RUN_WORKFLOW event
+    if (message.type === 'RUN_WORKFLOW') {
+      console.log('🚀 Handling RUN_WORKFLOW request');
+      await handleRunWorkflow(ws, message);
+      return;
+    }
+
+    // Handle REVEAL_FIELD event
+    if (message.type === 'REVEAL_FIELD') {
+      console.log(
+        '🔑 Handling REVEAL_FIELD request for node:',
+        message.node_id,
+        'field:',
+        message.field
+      );
+      await handleRevealField(ws, message);
+      return;
+    }
+
+    // Handle TEST_CONNECTION event
+    if (message.type === 'TEST_CONNECTION') {
+      console.log(
+        '🔌 Handling TEST_CONNECTION request for node:',
+        message.node_id
+      );
+      await handleTestConnection(ws, message);
+      return;
+    }
+
+    // Handle INFER_SCHEMA event
+    if (message.type === 'INFER_SCHEMA') {
+      console.log(
+        '🧬 Handling INFER_SCHEMA request for node:',
+        message.node_id
+      );
+      await handleInferSchema(ws, message);
+      return;
+    }
+
+    // Handle PREVIEW_DATA event
+    if (message.type === 'PREVIEW_DATA') {
+      console.log(
+        '👀 Handling PREVIEW_DATA request for node:',
+        message.node_id
+      );
+      await handlePreviewData(ws, message);
+      return;
+    }
+
+    // Handle EXPORT_WORKFLOW event
+    if (message.type === 'EXPORT_WORKFLOW') {
+      console.log('📤 Handling EXPORT_WORKFLOW request');
+      await handleExportWorkflow(ws, message);
+      return;
+    }
+
+    // Handle GENERATE_CODE event
+    if (message.type === 'GENERATE_CODE') {
+      console.log('🐍 Handling GENERATE_CODE request for', message.code_target);
+      await handleGenerateCode(ws, message);
+      return;
+    }
+
+    // Handle version history events
+    if (message.type === 'LIST_VERSIONS') {
+      sendVersions(ws, await getConnectionSession(ws), message.id);
+      return;
+    }
+    if (message.type === 'NAME_VERSION') {
+      console.log('🏷️ Handling NAME_VERSION request for', message.version_id);
+      await handleNameVersion(ws, message);
+      return;
+    }
+    if (message.type === 'DIFF_VERSIONS') {
+      console.log(
+        '🔀 Handling DIFF_VERSIONS request for',
+        message.version_id,
+        'and',
+        message.compare_to || 'latest'
+      );
+      await handleDiffVersions(ws, message);
+      return;
+    }
+    if (message.type === 'RESTORE_VERSION') {
+      console.log(
+        '↩️ Handling RESTORE_VERSION request for',
+        message.version_id
+      );
+      await handleRestoreVersion(ws, message);
+      return;
+    }
+
+    // Handle UPDATE_NODE_FIELD event
+    if (message.type === 'UPDATE_NODE_FIELD') {
+      console.log(
+        '✏️ Handling UPDATE_NODE_FIELD request for node:',
+        message.answer?.node_id,
+        'field:',
+        message.answer?.field
+      );
+      await handleUpdateNodeField(ws, message);
+      return;
+    }
+
+    // Handle GRAPH_EDIT event
+    if (message.type === 'GRAPH_EDIT') {
+      console.log(
+        '🧩 Handling GRAPH_EDIT request:',
+        message.graph_edit?.action
+      );
+      await handleGraphEdit(ws, message);
+      return;
+    }
+
+    // Handle UPDATE_COLUMN_MAPPING event
+    if (message.type === 'UPDATE_COLUMN_MAPPING') {
+      console.log(
+        '🗺️ Handling UPDATE_COLUMN_MAPPING request for node:',
+        message.node_id
+      );
+      await handleUpdateColumnMapping(ws, message);
+      return;
+    }
+
+    // Handle UPDATE_LAYOUT event
+    if (message.type === 'UPDATE_LAYOUT') {
+      await handleUpdateLayout(ws, message);
+      return;
+    }
+
+    // Handle UNDO / REDO events
+    if (message.type === 'UNDO' || message.type === 'REDO') {
+      console.log(`⏪ Handling ${message.type} request`);
+      await handleUndoRedo(ws, message);
+      return;
+    }
+
+    // Handle IMPORT_WORKFLOW event
+    if (message.type === 'IMPORT_WORKFLOW') {
+      console.log('📥 Handling IMPORT_WORKFLOW request');
+      await handleImportWorkflow(ws, message);
+      return;
+    }
+
+    // Handle SET_SCHEDULE event
+    if (message.type === 'SET_SCHEDULE') {
+      console.log('⏰ Handling SET_SCHEDULE request');
+      await handleSetSchedule(ws, message);
+      return;
+    }
+
+    // Schedule changes asked for in the chat ("schedule it every weekday at
+    // 6am UTC") are answered here, before they could be taken for a new
+    // workflow request
+    const scheduleRequest =
+      message.type === 'MESSAGE' && !message.answer
+        ? parseScheduleRequest(
+            redactedMessage.content,
+            !!getPendingQuestion(conversationHistory)
+          )
+        : undefined;
+    if (scheduleRequest) {
+      console.log('⏰ Handling schedule request from the chat');
+      await handleSetSchedule(ws, redactedMessage, scheduleRequest);
+      return;
+    }
 
     // Send processing status
     ws.send(
@@ -122,18 +773,30 @@ const handleMessage = async (ws: WebSocket, message: Message) => {
       })
     );
 
-    // If this is a new workflow request, clear history
+    // If this is a new workflow request, clear history. Only free text can
+    // start one, and only before a workflow exists: answers (typed or picked
+    // from options such as "shopify") belong to the workflow being built.
+    const content = redactedMessage.content.toLowerCase();
+    const canStartNewWorkflow =
+      message.type === 'MESSAGE' &&
+      !message.answer &&
+      !getPendingQuestion(conversationHistory) &&
+      !getLatestWorkflowMessage(conversationHistory)?.nodes?.length;
     const isNewWorkflow =
-      conversationHistory.length === 0 ||
-      message.content.toLowerCase().includes('shopify') ||
-      message.content.toLowerCase().includes('snowflake') ||
-      message.content.toLowerCase().includes('connect') ||
-      message.content.toLowerCase().includes('pipeline') ||
-      message.content.toLowerCase().includes('workflow');
+      canStartNewWorkflow &&
+      (content.includes('shopify') ||
+        content.includes('snowflake') ||
+        content.includes('connect') ||
+        content.includes('pipeline') ||
+        content.includes('workflow'));
 
     if (isNewWorkflow && conversationHistory.length > 0) {
       console.log('🔄 Starting new workflow - clearing conversation history');
       conversationHistory = [];
+      // Forget the previous workflow's name, schedule and versions too
+      const session = await getConnectionSession(ws);
+      session.workflow = null;
+      session.versions = [];
     }
 
     console.log(
@@ -141,8 +804,10 @@ const handleMessage = async (ws: WebSocket, message: Message) => {
     );
 
     // Process the message with multi-model approach
+    // Sessions saved before run requests were left out of the transcript
+    // may still hold them
     const filteredHistory = conversationHistory.filter(
-      msg => msg.type !== 'GET_NODE_DATA'
+      msg => msg.type !== 'GET_NODE_DATA' && msg.type !== 'RUN_WORKFLOW'
     ) as any[];
     const response = await processMessage(
       filteredHistory,
@@ -150,21 +815,36 @@ const handleMessage = async (ws: WebSocket, message: Message) => {
       async (thought: string) => {
         // No longer sending thoughts to client
         console.log('💭 AI thought:', thought);
+      },
+      (delta: string) => {
+        // Stream reply tokens into the client's pending assistant message
+        if (ws.readyState !== WebSocket.OPEN) return;
+        ws.send(
+          JSON.stringify({
+            id: generateId(),
+            response_to: message.id,
+            role: 'assistant',
+            type: 'MESSAGE_DELTA',
+            content: delta,
+            timestamp: new Date().toISOString(),
+          })
+        );
       }
     );
 
     // Update conversation history in memory
-    const updatedConversation = [...conversationHistory, message, response];
-    conversationHistories.set(ws, updatedConversation);
+    const updatedConversation = [
+      ...conversationHistory,
+      redactExtractedSecrets(redactedMessage, response),
+      response,
+    ];
+    await saveConversation(ws, updatedConversation);
     console.log(
       `💾 Updated conversation history (${updatedConversation.length} messages)`
     );
 
-    // Add final delay before sending result
-    await delay(800);
-
     // Send the response
-    ws.send(JSON.stringify(response));
+    ws.send(JSON.stringify(toClientMessage(response)));
 
     // Log the workflow state being sent
     if (response.nodes && response.connections) {
@@ -212,12 +892,10 @@ const handleGetNodeData = async (ws: WebSocket, message: Message) => {
     }
 
     // Get conversation history to find the node data
-    const conversationHistory = conversationHistories.get(ws) || [];
+    const conversationHistory = (await getConnectionSession(ws)).messages;
 
     // Find the latest workflow state
-    const latestWorkflowMessage = conversationHistory
-      .filter(msg => msg.nodes && msg.connections)
-      .pop();
+    const latestWorkflowMessage = getLatestWorkflowMessage(conversationHistory);
 
     if (!latestWorkflowMessage || !latestWorkflowMessage.nodes) {
       ws.send(
@@ -247,18 +925,27 @@ const handleGetNodeData = async (ws: WebSocket, message: Message) => {
       return;
     }
 
-    // Extract filled values from the node's data requirements
+    // Extract filled values from the node's data requirements. Sources and
+    // destinations can also declare their schema, which is optional.
     const filledValues: Record<string, string> = {};
+    const maskedNode = maskNodeSecrets(node);
+    const drawerFields = [
+      ...(node.data_requirements?.required_fields || []),
+      ...(node.type === 'transform' ? [] : [DECLARED_SCHEMA_FIELD.name]),
+    ];
 
-    if (node.data_requirements?.required_fields) {
-      node.data_requirements.required_fields.forEach(field => {
-        const isProvided =
-          node.data_requirements?.provided_fields.includes(field);
-        filledValues[field] = isProvided
-          ? node.config?.[field] || 'Filled'
-          : 'Not filled';
-      });
-    }
+    drawerFields.forEach(field => {
+      const value = maskedNode.config?.[field];
+      const isProvided =
+        node.data_requirements?.provided_fields.includes(field) ||
+        value !== undefined;
+      // Column mappings and declared schemas are stored as JSON values
+      filledValues[field] = !isProvided
+        ? 'Not filled'
+        : value && typeof value === 'object'
+          ? JSON.stringify(value, null, 2)
+          : value || 'Filled';
+    });
 
     // Send the node data response
     ws.send(
@@ -270,6 +957,12 @@ const handleGetNodeData = async (ws: WebSocket, message: Message) => {
         node_title: node.name,
         node_status: node.status,
         filled_values: filledValues,
+        secret_fields: getSecretFields(node),
+        // Lets the drawer edit each field with the chat's widget for it
+        field_questions: Object.fromEntries(
+          drawerFields.map(field => [field, getFieldQuestion(node, field)])
+        ),
+        validation_errors: node.validation_errors,
         timestamp: new Date().toISOString(),
       })
     );
@@ -288,3 +981,786 @@ const handleGetNodeData = async (ws: WebSocket, message: Message) => {
     );
   }
 };
+
+// Bind the connection to a stored session, or start a new one, and send the
+// client everything it needs to rebuild the chat and canvas
+const handleResumeSession = async (ws: WebSocket, message: Message) => {
+  const loading = (async () => {
+    const stored = message.session_id
+      ? await getSessionStore().getSession(message.session_id)
+      : null;
+    return stored || createSession();
+  })();
+  connectionSessions.set(ws, loading);
+
+  let session: Session;
+  try {
+    session = await loading;
+  } catch (error) {
+    // Fall back to a fresh session rather than leaving the connection stuck
+    console.error('❌ Error loading session:', error);
+    session = createSession();
+    connectionSessions.set(ws, Promise.resolve(session));
+  }
+
+  const resumed = session.messages.length > 0;
+  console.log(
+    resumed
+      ? `📂 Resumed session ${session.id} (${session.messages.length} messages)`
+      : `🆕 Started session ${session.id}`
+  );
+
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'SESSION_STATE',
+      content: resumed ? 'Session resumed' : 'New session started',
+      session_id: session.id,
+      messages: session.messages.map(toClientMessage),
+      versions: session.versions.map(summarizeVersion),
+      undo_labels: getUndoLabels(session),
+      redo_labels: getRedoLabels(session),
+      ...(session.workflow && {
+        nodes: session.workflow.nodes.map(maskNodeSecrets),
+        connections: session.workflow.connections,
+        workflow_complete: session.workflow.workflow_complete,
+        viewport: session.workflow.viewport || null,
+      }),
+      timestamp: new Date().toISOString(),
+    })
+  );
+  sendSchedule(ws, session);
+};
+
+// Decrypt a single secret field on explicit user request
+const handleRevealField = async (ws: WebSocket, message: Message) => {
+  const sendError = (content: string) =>
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'ERROR',
+        content,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+  const conversationHistory = (await getConnectionSession(ws)).messages;
+  const node = getLatestWorkflowMessage(conversationHistory)?.nodes?.find(
+    n => n.id === message.node_id
+  );
+  const value = message.field ? node?.config?.[message.field] : undefined;
+
+  if (!node || !message.field || value === undefined) {
+    sendError('Field value not found');
+    return;
+  }
+
+  try {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'FIELD_VALUE',
+        content: '',
+        node_id: node.id,
+        field: message.field,
+        field_value: decryptSecret(String(value)),
+        timestamp: new Date().toISOString(),
+      })
+    );
+    console.log(`🔑 Revealed field ${message.field} for node: ${node.name}`);
+  } catch (error) {
+    console.error('❌ Error revealing field:', error);
+    sendError(
+      error instanceof Error ? error.message : 'Failed to reveal field value'
+    );
+  }
+};
+
+// Work out the columns flowing into and out of a node, reading sample data
+// where it has to. Nothing is recorded; the drawer asks again when needed.
+const handleInferSchema = async (ws: WebSocket, message: Message) => {
+  const { messages } = await getConnectionSession(ws);
+  const latestWorkflowMessage = getLatestWorkflowMessage(messages);
+  const schemas: NodeSchemas = latestWorkflowMessage?.nodes
+    ? await inferNodeSchemas(
+        {
+          nodes: latestWorkflowMessage.nodes,
+          connections: latestWorkflowMessage.connections || [],
+        },
+        message.node_id || ''
+      )
+    : {
+        node_id: message.node_id || '',
+        errors: ['No workflow data available'],
+      };
+
+  console.log(
+    `🧬 Schema for ${message.node_id}: ${schemas.input?.columns.length ?? '-'} in, ${schemas.output?.columns.length ?? '-'} out${
+      schemas.errors.length > 0 ? ` (${schemas.errors.join('; ')})` : ''
+    }`
+  );
+
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'SCHEMA',
+      content: schemas.errors.join('\n'),
+      node_id: schemas.node_id,
+      schemas,
+      timestamp: new Date().toISOString(),
+    })
+  );
+};
+
+// Read a few rows through the workflow up to the node; nothing is written
+const handlePreviewData = async (ws: WebSocket, message: Message) => {
+  const { messages } = await getConnectionSession(ws);
+  const latestWorkflowMessage = getLatestWorkflowMessage(messages);
+  const preview: NodePreview = latestWorkflowMessage?.nodes
+    ? await previewNodeData(
+        {
+          nodes: latestWorkflowMessage.nodes,
+          connections: latestWorkflowMessage.connections || [],
+        },
+        message.node_id || '',
+        message.limit
+      )
+    : {
+        node_id: message.node_id || '',
+        limit: message.limit || DEFAULT_PREVIEW_ROWS,
+        errors: ['No workflow data available'],
+      };
+
+  console.log(
+    `👀 Preview for ${message.node_id}: ${preview.input?.rows.length ?? '-'} in, ${preview.output?.rows.length ?? '-'} out${
+      preview.errors.length > 0 ? ` (${preview.errors.join('; ')})` : ''
+    }`
+  );
+
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'DATA_PREVIEW',
+      content: preview.errors.join('\n'),
+      node_id: preview.node_id,
+      preview,
+      timestamp: new Date().toISOString(),
+    })
+  );
+};
+
+// Try the node's connection and record the outcome on the node, so a failed
+// test shows as an error on the canvas until the node is changed or retested
+const handleTestConnection = async (ws: WebSocket, message: Message) => {
+  const { messages } = await getConnectionSession(ws);
+  const latestWorkflowMessage = getLatestWorkflowMessage(messages);
+  const node = latestWorkflowMessage?.nodes?.find(
+    n => n.id === message.node_id
+  );
+
+  const result: ConnectionTestResult = node
+    ? await testNodeConnection(node)
+    : {
+        node_id: message.node_id || '',
+        ok: false,
+        latency_ms: 0,
+        message: 'Node not found',
+        tested_at: new Date().toISOString(),
+      };
+
+  console.log(
+    `🔌 Connection test for ${node?.name || message.node_id}: ${result.ok ? 'ok' : 'failed'} (${result.latency_ms}ms) - ${result.message}`
+  );
+
+  const response: Message = {
+    id: generateId(),
+    response_to: message.id,
+    role: 'assistant',
+    type: 'CONNECTION_TEST_RESULT',
+    content: result.message,
+    node_id: result.node_id,
+    connection_test: result,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (node && node.type !== 'transform' && latestWorkflowMessage) {
+    const testedNode = { ...node, connection_test: result };
+    updateNodeStatus(testedNode);
+
+    // Stored as the latest workflow state, so later answers build on it
+    response.nodes = latestWorkflowMessage.nodes!.map(n =>
+      n.id === node.id ? testedNode : n
+    );
+    response.connections = latestWorkflowMessage.connections;
+    response.workflow_complete = latestWorkflowMessage.workflow_complete;
+
+    // A test result is not a change to undo or a new version
+    await saveConversation(ws, [...messages, response], null);
+  }
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(toClientMessage(response)));
+  }
+};
+
+// Send the session's workflow as a spec file, without credentials
+const handleExportWorkflow = async (ws: WebSocket, message: Message) => {
+  const { workflow } = await getConnectionSession(ws);
+  if (!workflow) {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'ERROR',
+        content: 'No workflow available to export',
+        spec_errors: ['There is no workflow to export yet'],
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  const format: WorkflowSpecFormat =
+    message.spec_format === 'yaml' ? 'yaml' : 'json';
+  const spec = exportWorkflowSpec(workflow);
+  const fileName = `${
+    spec.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'workflow'
+  }.workflow.${format}`;
+
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'WORKFLOW_SPEC',
+      content: `Exported ${spec.name}`,
+      spec: serializeWorkflowSpec(spec, format),
+      spec_format: format,
+      file_name: fileName,
+      timestamp: new Date().toISOString(),
+    })
+  );
+  console.log(`📤 Exported workflow spec ${fileName}`);
+};
+
+const CODE_TARGET_LABELS: Record<CodegenTarget, string> = {
+  airflow: 'an Airflow DAG',
+  dagster: 'a Dagster job',
+};
+
+// Answer with the completed workflow as orchestrator code; the request and
+// the code are kept in the transcript like any other chat turn
+const handleGenerateCode = async (ws: WebSocket, message: Message) => {
+  const target = message.code_target;
+  const { workflow } = await getConnectionSession(ws);
+
+  let generated;
+  try {
+    if (!target || !CODEGEN_TARGETS.includes(target)) {
+      throw new Error(`Choose a code target: ${CODEGEN_TARGETS.join(' or ')}`);
+    }
+    if (!workflow) throw new Error('There is no workflow to generate code for');
+    generated = generateWorkflowCode(target, workflow);
+  } catch (error) {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'ERROR',
+        content: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  const request: Message = {
+    id: message.id,
+    role: 'user',
+    type: 'MESSAGE',
+    content: `Generate ${CODE_TARGET_LABELS[target]}`,
+    timestamp: message.timestamp,
+  };
+  const response: Message = {
+    id: generateId(),
+    response_to: message.id,
+    role: 'assistant',
+    type: 'MESSAGE',
+    message_type: 'code',
+    content: generated.code,
+    code_target: target,
+    code_language: generated.language,
+    file_name: generated.file_name,
+    timestamp: new Date().toISOString(),
+  };
+
+  const { messages } = await getConnectionSession(ws);
+  await saveConversation(ws, [...messages, request, response]);
+  console.log(`🐍 Generated ${generated.file_name}`);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(response));
+  }
+};
+
+// Replace the session's conversation with a workflow rebuilt from a spec.
+// The client gets the new transcript and canvas in one message.
+const handleImportWorkflow = async (ws: WebSocket, message: Message) => {
+  const result = importWorkflowSpec(message.spec || '');
+  if (!result.valid) {
+    console.log(
+      `📥 Rejected workflow spec with ${result.errors.length} error(s)`
+    );
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'ERROR',
+        content: 'The workflow spec is invalid',
+        spec_errors: result.errors,
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  const { workflow } = result;
+  const name = workflow.name || getDefaultWorkflowName(workflow.nodes);
+  const request: Message = {
+    id: message.id,
+    role: 'user',
+    type: 'MESSAGE',
+    content: `Import workflow spec "${name}"`,
+    timestamp: message.timestamp,
+  };
+  const response = describeImportedWorkflow(workflow, name, message.id);
+
+  // saveConversation keeps the name and schedule of the current snapshot
+  const session = await getConnectionSession(ws);
+  session.workflow = workflow;
+  await saveConversation(ws, [request, response], `Imported ${name}`);
+  console.log(
+    `📥 Imported workflow "${name}" (${workflow.nodes.length} nodes)`
+  );
+
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'WORKFLOW_IMPORTED',
+      content: `Imported ${name}`,
+      session_id: session.id,
+      messages: [request, toClientMessage(response)],
+      nodes: response.nodes!.map(maskNodeSecrets),
+      connections: response.connections,
+      workflow_complete: response.workflow_complete,
+      viewport: workflow.viewport || null,
+      timestamp: new Date().toISOString(),
+    })
+  );
+};
+
+// Change when the workflow runs, from the schedule panel (SET_SCHEDULE) or a
+// chat message asking for it. Either way the change is a chat turn, and a
+// new workflow version.
+const handleSetSchedule = async (
+  ws: WebSocket,
+  message: Message,
+  result: WorkflowScheduleResult = message.schedule !== undefined
+    ? validateSchedule(message.schedule)
+    : parseScheduleText(message.schedule_text ?? message.content)
+) => {
+  const session = await getConnectionSession(ws);
+  if (!result.valid || !session.workflow) {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'ERROR',
+        content: !result.valid
+          ? result.error
+          : 'There is no workflow to schedule yet - describe the workflow first',
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  const schedule = result.value;
+  const description = describeSchedule(schedule);
+  const timezone = schedule.mode === 'cron' ? schedule.timezone : 'UTC';
+  const nextRuns = getNextRuns(schedule);
+  const request: Message =
+    message.type === 'MESSAGE'
+      ? message
+      : {
+          id: message.id,
+          role: 'user',
+          type: 'MESSAGE',
+          content: message.content || `Set the schedule: ${description}`,
+          timestamp: message.timestamp,
+        };
+  const response: Message = {
+    id: generateId(),
+    response_to: message.id,
+    role: 'assistant',
+    type: 'MESSAGE',
+    message_type: 'markdown',
+    content:
+      schedule.mode === 'manual'
+        ? '⏰ The workflow now runs only when you start it.'
+        : `⏰ ${description}.
+
+Next runs:
+${nextRuns.map(run => `- ${formatRunTime(run, timezone)}`).join('\n')}${
+            session.workflow.workflow_complete
+              ? ''
+              : '\n\nScheduled runs start once every step is configured.'
+          }`,
+    timestamp: new Date().toISOString(),
+  };
+
+  // saveConversation carries the schedule over into the new snapshot
+  session.workflow.schedule = schedule;
+  await saveConversation(
+    ws,
+    [...session.messages, request, response],
+    description
+  );
+  console.log(`⏰ ${description}`);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(response));
+  }
+};
+
+const sendVersionError = (ws: WebSocket, message: Message, content: string) =>
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'ERROR',
+      content,
+      timestamp: new Date().toISOString(),
+    })
+  );
+
+const versionTitle = (version: { number: number; name?: string }) =>
+  version.name
+    ? `version ${version.number} "${version.name}"`
+    : `version ${version.number}`;
+
+// Give a version a name (an empty name removes it)
+const handleNameVersion = async (ws: WebSocket, message: Message) => {
+  const session = await getConnectionSession(ws);
+  const version = findVersion(session, message.version_id);
+  if (!version) {
+    sendVersionError(ws, message, 'Version not found');
+    return;
+  }
+
+  nameVersion(version, message.version_name || '');
+  await getSessionStore().saveSession(session);
+  sendVersions(ws, session, message.id);
+};
+
+// Compare two versions; the canvas highlights what changed between them
+const handleDiffVersions = async (ws: WebSocket, message: Message) => {
+  const session = await getConnectionSession(ws);
+  const from = findVersion(session, message.version_id);
+  const to = message.compare_to
+    ? findVersion(session, message.compare_to)
+    : session.versions[session.versions.length - 1];
+  if (!from || !to) {
+    sendVersionError(ws, message, 'Version not found');
+    return;
+  }
+
+  const diff = diffVersions(from, to);
+  ws.send(
+    JSON.stringify({
+      id: generateId(),
+      response_to: message.id,
+      role: 'assistant',
+      type: 'VERSION_DIFF',
+      content: `Changes from ${versionTitle(from)} to ${versionTitle(to)}`,
+      version_diff: diff,
+      timestamp: new Date().toISOString(),
+    })
+  );
+};
+
+// Bring back an earlier version as the current workflow. The restore is a
+// chat turn and becomes a new version itself, so it can be undone the same way.
+const handleRestoreVersion = async (ws: WebSocket, message: Message) => {
+  const session = await getConnectionSession(ws);
+  const version = findVersion(session, message.version_id);
+  if (!version) {
+    sendVersionError(ws, message, 'Version not found');
+    return;
+  }
+
+  const title = versionTitle(version);
+  const request: Message = {
+    id: message.id,
+    role: 'user',
+    type: 'MESSAGE',
+    content: `Restore ${title}`,
+    timestamp: message.timestamp,
+  };
+  const response = describeRestoredWorkflow(
+    version.workflow,
+    title,
+    message.id
+  );
+
+  // saveConversation keeps the version's name and schedule
+  session.workflow = JSON.parse(JSON.stringify(version.workflow));
+  await saveConversation(
+    ws,
+    [...session.messages, request, response],
+    `Restored ${title}`
+  );
+  console.log(`↩️ Restored ${title}`);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(toClientMessage(response)));
+  }
+};
+
+// A field edited or cleared in the node drawer. The edit and the assistant's
+// acknowledgement join the transcript like a chat answer, and the drawer is
+// refreshed with the node's new values.
+const handleUpdateNodeField = async (ws: WebSocket, message: Message) => {
+  const { messages } = await getConnectionSession(ws);
+  const { request, response } = applyFieldEdit(messages, {
+    ...message,
+    type: 'MESSAGE' as const,
+  });
+
+  await saveConversation(ws, [...messages, request, response]);
+  console.log(`✏️ ${request.content}`);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(toClientMessage(response)));
+    await handleGetNodeData(ws, {
+      ...message,
+      node_id: message.answer!.node_id,
+    });
+  }
+};
+
+// A step or connection added or removed on the canvas. Like a drawer edit,
+// it joins the transcript so the assistant picks up from the new graph.
+const handleGraphEdit = async (ws: WebSocket, message: Message) => {
+  if (!message.graph_edit) {
+    throw new Error('Missing workflow edit');
+  }
+
+  const { messages } = await getConnectionSession(ws);
+  const { request, response } = applyGraphEdit(
+    messages,
+    { ...message, type: 'MESSAGE' as const },
+    message.graph_edit
+  );
+
+  await saveConversation(ws, [...messages, request, response]);
+  console.log(`🧩 ${request.content}`);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(toClientMessage(response)));
+  }
+};
+
+// A column mapping built in the drawer. Like a field edit, it joins the
+// transcript and the drawer is refreshed with the new configuration.
+const handleUpdateColumnMapping = async (ws: WebSocket, message: Message) => {
+  if (!message.node_id) {
+    throw new Error('Node ID is required');
+  }
+
+  const { messages } = await getConnectionSession(ws);
+  const { request, response } = applyColumnMappingEdit(
+    messages,
+    { ...message, type: 'MESSAGE' as const },
+    message.node_id,
+    message.column_mapping
+  );
+
+  await saveConversation(ws, [...messages, request, response]);
+  console.log(`🗺️ ${request.content}`);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(toClientMessage(response)));
+    await handleGetNodeData(ws, message);
+  }
+};
+
+// Nodes dragged, or the canvas panned and zoomed. The arrangement is saved
+// with the workflow without adding to the conversation, the undo history or
+// the versions.
+const handleUpdateLayout = async (ws: WebSocket, message: Message) => {
+  const change = {
+    node_positions: message.node_positions,
+    viewport: message.viewport,
+  };
+  const errors = validateLayoutChange(change);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const session = await getConnectionSession(ws);
+  applyLayoutChange(session, change);
+  session.updated_at = new Date().toISOString();
+  await getSessionStore().saveSession(session);
+};
+
+// Take back the last chat turn that changed the workflow, or bring back the
+// one taken back most recently. The reply carries the rewound conversation.
+const handleUndoRedo = async (ws: WebSocket, message: Message) => {
+  const session = await getConnectionSession(ws);
+  const change =
+    message.type === 'UNDO' ? undoLastTurn(session) : redoLastTurn(session);
+  if (!change) {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        response_to: message.id,
+        role: 'assistant',
+        type: 'ERROR',
+        content:
+          message.type === 'UNDO' ? 'Nothing to undo' : 'Nothing to redo',
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  const action = message.type === 'UNDO' ? 'Undid' : 'Redid';
+  await saveConversation(
+    ws,
+    change.messages,
+    `${action} ${change.label}`,
+    change.redoStack
+  );
+  console.log(`⏪ ${action} ${change.label}`);
+
+  sendUndoState(ws, session, {
+    response_to: message.id,
+    content: `${action} ${change.label}`,
+    messages: session.messages.map(toClientMessage),
+    nodes: (session.workflow?.nodes || []).map(maskNodeSecrets),
+    connections: session.workflow?.connections || [],
+    workflow_complete: !!session.workflow?.workflow_complete,
+  });
+};
+
+const handleRunWorkflow = async (ws: WebSocket, message: Message) => {
+  const session = await getConnectionSession(ws);
+  const conversationHistory = session.messages;
+
+  // Always run the server's copy of the workflow, not what the client sent
+  const latestWorkflowMessage = getLatestWorkflowMessage(conversationHistory);
+
+  if (!latestWorkflowMessage?.nodes || !latestWorkflowMessage.connections) {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        role: 'assistant',
+        type: 'ERROR',
+        content: 'No workflow available to run',
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  if (!latestWorkflowMessage.workflow_complete) {
+    ws.send(
+      JSON.stringify({
+        id: generateId(),
+        role: 'assistant',
+        type: 'ERROR',
+        content: 'Finish configuring every node before running the workflow',
+        timestamp: new Date().toISOString(),
+      })
+    );
+    return;
+  }
+
+  const run = await runPipeline(
+    {
+      nodes: latestWorkflowMessage.nodes,
+      connections: latestWorkflowMessage.connections,
+    },
+    // Kept in the workflow's run history as well as streamed to the client
+    recordRun(session.id, update => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      ws.send(
+        JSON.stringify({
+          id: generateId(),
+          response_to: message.id,
+          role: 'assistant',
+          type: 'RUN_STATUS',
+          content: `Run ${update.status}`,
+          run: update,
+          timestamp: new Date().toISOString(),
+        })
+      );
+    })
+  );
+
+  console.log(`🏁 Workflow run ${run.id} finished with status: ${run.status}`);
+
+  // Summarize the run in the transcript
+  const summary: Message = {
+    id: generateId(),
+    response_to: message.id,
+    role: 'assistant',
+    type: 'MESSAGE',
+    message_type: 'markdown',
+    content:
+      run.status === 'succeeded'
+        ? `✅ Workflow run completed successfully.
+
+${run.node_runs
+  .map(state => {
+    const node = latestWorkflowMessage.nodes!.find(n => n.id === state.node_id);
+    return `- **${node?.name || state.node_id}**: ${state.rows_read ?? 0} rows read, ${state.rows_written ?? 0} rows written`;
+  })
+  .join('\n')}`
+        : `❌ Workflow run failed: ${run.error}`,
+    timestamp: new Date().toISOString(),
+  };
+
+  // Chat may have moved on while the run was executing. The run itself is
+  // not queued, so the chat stays usable, but the summary is added in turn
+  // with chat messages so neither overwrites the other. The RUN_WORKFLOW
+  // request is not chat, so only the summary is kept.
+  await enqueueChatMessage(ws, async () => {
+    const { messages } = await getConnectionSession(ws);
+    await saveConversation(ws, [...messages, summary]);
+  });
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(summary));
+  }
+};
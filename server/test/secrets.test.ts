@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { DataFlowNode } from '../src/services/aiService';
+import {
+  SECRET_MASK,
+  decryptSecret,
+  encryptSecret,
+  getSecretFields,
+  isEncryptedSecret,
+  isSecretField,
+  maskNodeSecrets,
+  redactSecrets,
+  revealNodeSecrets,
+  stripSecrets,
+} from '../src/services/secrets';
+
+// Read on first use, so setting it here is early enough
+process.env.SECRETS_ENCRYPTION_KEY = 'test-encryption-key';
+
+const postgresNode = (config: Record<string, any>): DataFlowNode =>
+  ({
+    id: 'node_1',
+    name: 'Orders DB',
+    type: 'source',
+    connector: 'postgres',
+    config,
+  }) as DataFlowNode;
+
+describe('encryptSecret', () => {
+  test('round-trips through decryptSecret', () => {
+    const encrypted = encryptSecret('hunter2');
+    assert.ok(isEncryptedSecret(encrypted));
+    assert.ok(!encrypted.includes('hunter2'));
+    assert.equal(decryptSecret(encrypted), 'hunter2');
+  });
+
+  test('uses a fresh IV for every value', () => {
+    assert.notEqual(encryptSecret('hunter2'), encryptSecret('hunter2'));
+  });
+
+  test('leaves encrypted values alone', () => {
+    const encrypted = encryptSecret('hunter2');
+    assert.equal(encryptSecret(encrypted), encrypted);
+  });
+
+  test('passes plain text through decryptSecret', () => {
+    assert.equal(decryptSecret('not encrypted'), 'not encrypted');
+  });
+
+  test('refuses a tampered value', () => {
+    const encrypted = encryptSecret('hunter2');
+    const payload = Buffer.from(encrypted.slice('enc:v1:'.length), 'base64');
+    payload[payload.length - 1] ^= 1;
+    assert.throws(
+      () => decryptSecret(`enc:v1:${payload.toString('base64')}`),
+      /Unable to decrypt/
+    );
+  });
+});
+
+describe('secret fields', () => {
+  test('come from the connector schema, then from the field name', () => {
+    const node = postgresNode({ host: 'db', password: 'x', api_token: 'y' });
+    assert.deepEqual(getSecretFields(node), ['password', 'api_token']);
+    assert.equal(isSecretField(node, 'host'), false);
+    assert.equal(
+      isSecretField({ ...node, connector: undefined }, 'db_password'),
+      true
+    );
+  });
+
+  test('are masked for the client and revealed for execution', () => {
+    const node = postgresNode({ host: 'db', password: encryptSecret('x') });
+    assert.deepEqual(maskNodeSecrets(node).config, {
+      host: 'db',
+      password: SECRET_MASK,
+    });
+    assert.deepEqual(revealNodeSecrets(node).config, {
+      host: 'db',
+      password: 'x',
+    });
+    // The original node keeps its encrypted value
+    assert.ok(isEncryptedSecret(node.config!.password));
+  });
+
+  test('are removed from exported nodes', () => {
+    const node = postgresNode({ host: 'db', password: encryptSecret('x') });
+    assert.deepEqual(stripSecrets(node).config, { host: 'db' });
+  });
+});
+
+describe('redactSecrets', () => {
+  test('masks every occurrence of each secret', () => {
+    assert.equal(
+      redactSecrets('postgres://app:pw@db/pw', ['pw']),
+      `postgres://app:${SECRET_MASK}@db/${SECRET_MASK}`
+    );
+  });
+
+  test('ignores empty secrets', () => {
+    assert.equal(redactSecrets('nothing to hide', ['']), 'nothing to hide');
+  });
+});
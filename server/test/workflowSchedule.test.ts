@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  describeSchedule,
+  getNextRuns,
+  parseCron,
+  parseScheduleRequest,
+  parseScheduleText,
+  validateSchedule,
+  type WorkflowSchedule,
+} from '../src/services/workflowSchedule';
+
+const NOW = new Date('2026-10-19T10:07:00Z');
+
+const cron = (expression: string, timezone = 'UTC'): WorkflowSchedule => ({
+  mode: 'cron',
+  cron: expression,
+  timezone,
+});
+
+// Dates of the next runs, which is all the day field tests care about
+const nextDays = (expression: string, count = 5) =>
+  getNextRuns(cron(expression), NOW, count).map(run =>
+    run.toISOString().slice(0, 10)
+  );
+
+describe('parseCron', () => {
+  test('expands ranges, steps, names and shorthands', () => {
+    const parsed = parseCron('*/15 6-8 1,15 jan-mar mon-fri');
+    assert.deepEqual(parsed.minutes.values, [0, 15, 30, 45]);
+    assert.deepEqual(parsed.hours.values, [6, 7, 8]);
+    assert.deepEqual(parsed.days.values, [1, 15]);
+    assert.deepEqual(parsed.months.values, [1, 2, 3]);
+    assert.deepEqual(parsed.weekdays.values, [1, 2, 3, 4, 5]);
+    assert.deepEqual(parseCron('@daily').hours.values, [0]);
+  });
+
+  test('reads 7 as Sunday', () => {
+    assert.deepEqual(parseCron('0 0 * * 7').weekdays.values, [0]);
+  });
+
+  test('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('* * *'), /needs five fields/);
+    assert.throws(() => parseCron('61 * * * *'), /minute 61 is outside 0-59/);
+    assert.throws(() => parseCron('*/0 * * * *'), /invalid step/);
+  });
+});
+
+describe('getNextRuns', () => {
+  test('matches either day field when both are lists or ranges', () => {
+    // The 1st and 15th, plus every Monday
+    assert.deepEqual(nextDays('0 6 1,15 * 1'), [
+      '2026-10-26',
+      '2026-11-01',
+      '2026-11-02',
+      '2026-11-09',
+      '2026-11-15',
+    ]);
+  });
+
+  test('treats a starred day of month as unrestricted', () => {
+    // Only Mondays that fall on the 1st, 11th, 21st or 31st
+    assert.deepEqual(nextDays('0 6 */10 * 1', 3), [
+      '2026-12-21',
+      '2027-01-11',
+      '2027-02-01',
+    ]);
+  });
+
+  test('reads cron times in the schedule timezone', () => {
+    const runs = getNextRuns(cron('30 18 * * *', 'Europe/Berlin'), NOW, 2);
+    assert.deepEqual(
+      runs.map(run => run.toISOString()),
+      ['2026-10-19T16:30:00.000Z', '2026-10-20T16:30:00.000Z']
+    );
+  });
+
+  test('counts intervals from their start', () => {
+    const runs = getNextRuns(
+      {
+        mode: 'interval',
+        every_minutes: 15,
+        starts_at: '2026-10-19T10:00:00.000Z',
+      },
+      NOW
+    );
+    assert.deepEqual(
+      runs.map(run => run.toISOString()),
+      [
+        '2026-10-19T10:15:00.000Z',
+        '2026-10-19T10:30:00.000Z',
+        '2026-10-19T10:45:00.000Z',
+      ]
+    );
+  });
+
+  test('never runs a manual workflow', () => {
+    assert.deepEqual(getNextRuns({ mode: 'manual' }, NOW), []);
+  });
+});
+
+describe('parseScheduleText', () => {
+  const parse = (text: string) => parseScheduleText(text, NOW);
+
+  test('turns days and times into cron', () => {
+    assert.deepEqual(parse('every weekday at 6am UTC'), {
+      valid: true,
+      value: cron('0 6 * * 1-5'),
+    });
+    assert.deepEqual(parse('daily at 18:30 Europe/Berlin'), {
+      valid: true,
+      value: cron('30 18 * * *', 'Europe/Berlin'),
+    });
+    assert.deepEqual(parse('hourly'), {
+      valid: true,
+      value: cron('0 * * * *'),
+    });
+  });
+
+  test('lines intervals up with the clock', () => {
+    assert.deepEqual(parse('every 15 minutes'), {
+      valid: true,
+      value: {
+        mode: 'interval',
+        every_minutes: 15,
+        starts_at: '2026-10-19T10:00:00.000Z',
+      },
+    });
+    assert.deepEqual(parse('every minute'), {
+      valid: true,
+      value: cron('* * * * *'),
+    });
+  });
+
+  test('rejects a zero interval', () => {
+    assert.deepEqual(parse('every 0 minutes'), {
+      valid: false,
+      error: 'Intervals must be at least 1 minute',
+    });
+    assert.deepEqual(parse('every 0 hours'), {
+      valid: false,
+      error: 'Intervals must be at least 1 minute',
+    });
+  });
+
+  test('rejects intervals longer than a week', () => {
+    const result = parse('every 200 hours');
+    assert.equal(result.valid, false);
+  });
+
+  test('accepts cron expressions and manual runs', () => {
+    assert.deepEqual(parse('0 6 * * 1-5'), {
+      valid: true,
+      value: cron('0 6 * * 1-5'),
+    });
+    assert.deepEqual(parse('run it manually'), {
+      valid: true,
+      value: { mode: 'manual' },
+    });
+  });
+
+  test('explains text it cannot read', () => {
+    const result = parse('tomorrow-ish');
+    assert.equal(result.valid, false);
+    assert.match(!result.valid ? result.error : '', /could not work out/);
+  });
+});
+
+describe('parseScheduleRequest', () => {
+  test('ignores messages that are not about the schedule', () => {
+    assert.equal(
+      parseScheduleRequest('my table is orders', false, NOW),
+      undefined
+    );
+  });
+
+  test('takes bare phrases as requests only when nothing is asked', () => {
+    assert.deepEqual(parseScheduleRequest('daily', false, NOW), {
+      valid: true,
+      value: cron('0 0 * * *'),
+    });
+    assert.equal(parseScheduleRequest('daily', true, NOW), undefined);
+    assert.equal(parseScheduleRequest('every hour', true, NOW), undefined);
+  });
+
+  test('takes phrases with a scheduling verb while a question is pending', () => {
+    assert.deepEqual(parseScheduleRequest('schedule it hourly', true, NOW), {
+      valid: true,
+      value: cron('0 * * * *'),
+    });
+    assert.deepEqual(parseScheduleRequest('run it daily at 6am', true, NOW), {
+      valid: true,
+      value: cron('0 6 * * *'),
+    });
+  });
+});
+
+describe('validateSchedule', () => {
+  test('treats null and cron strings as shorthands', () => {
+    assert.deepEqual(validateSchedule(null, NOW), {
+      valid: true,
+      value: { mode: 'manual' },
+    });
+    assert.deepEqual(validateSchedule('0 6 * * 1-5', NOW), {
+      valid: true,
+      value: cron('0 6 * * 1-5'),
+    });
+  });
+
+  test('rejects intervals outside one minute to one week', () => {
+    for (const every_minutes of [0, 1.5, 7 * 24 * 60 + 1]) {
+      const result = validateSchedule({ mode: 'interval', every_minutes }, NOW);
+      assert.equal(result.valid, false);
+    }
+  });
+});
+
+describe('describeSchedule', () => {
+  test('reads common schedules as sentences', () => {
+    assert.equal(
+      describeSchedule(cron('0 6 * * 1-5')),
+      'Runs every weekday at 06:00 (UTC)'
+    );
+    assert.equal(
+      describeSchedule({ mode: 'manual' }),
+      'Runs only when started'
+    );
+    assert.equal(
+      describeSchedule({
+        mode: 'interval',
+        every_minutes: 120,
+        starts_at: NOW.toISOString(),
+      }),
+      'Runs every 2 hours'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { DataFlowNode } from '../src/services/aiService';
+import type { Session } from '../src/services/storage';
+import {
+  findUndoPoint,
+  getRedoLabels,
+  getUndoLabels,
+  redoLastTurn,
+  undoLastTurn,
+} from '../src/services/workflowUndo';
+import type { Message } from '../src/websocket';
+
+let nextId = 0;
+
+const userMessage = (content: string): Message => ({
+  id: `msg_${++nextId}`,
+  role: 'user',
+  type: 'MESSAGE',
+  content,
+  timestamp: '2026-10-19T10:00:00.000Z',
+});
+
+// An assistant reply; with node names it carries that workflow state
+const reply = (
+  nodeNames?: string[],
+  type: Message['type'] = 'MESSAGE'
+): Message => ({
+  id: `msg_${++nextId}`,
+  role: 'assistant',
+  type,
+  content: 'Done',
+  timestamp: '2026-10-19T10:00:00.000Z',
+  ...(nodeNames && {
+    nodes: nodeNames.map(
+      name => ({ id: name, name, type: 'source' }) as DataFlowNode
+    ),
+    connections: [],
+  }),
+});
+
+const sessionWith = (
+  messages: Message[],
+  redoStack: Message[][] = []
+): Session => ({
+  id: 'session_1',
+  created_at: '2026-10-19T10:00:00.000Z',
+  updated_at: '2026-10-19T10:00:00.000Z',
+  messages,
+  workflow: null,
+  versions: [],
+  redo_stack: redoStack,
+});
+
+// Two turns that each change the workflow, then one that only asks for code
+const conversation = () => [
+  userMessage('connect shopify to snowflake'),
+  reply(['shopify']),
+  userMessage('orders table'),
+  reply(['shopify', 'snowflake']),
+  userMessage('generate an airflow dag'),
+  reply(),
+];
+
+describe('findUndoPoint', () => {
+  test('starts at the user message of the last change', () => {
+    assert.equal(findUndoPoint(conversation()), 2);
+  });
+
+  test('has nothing to undo before the workflow changed twice', () => {
+    assert.equal(findUndoPoint([]), -1);
+    assert.equal(findUndoPoint(conversation().slice(0, 2)), -1);
+  });
+
+  test('takes back turns that left the workflow as it was', () => {
+    const messages = [
+      ...conversation().slice(0, 4),
+      userMessage('what is a DAG?'),
+      reply(['shopify', 'snowflake']),
+    ];
+    assert.equal(findUndoPoint(messages), 2);
+  });
+
+  test('does not stop at connection test results', () => {
+    const messages = [
+      ...conversation().slice(0, 4),
+      reply(['shopify', 'snowflake', 'tested'], 'CONNECTION_TEST_RESULT'),
+    ];
+    assert.equal(findUndoPoint(messages), 2);
+  });
+});
+
+describe('undo and redo', () => {
+  test('undo moves the last turn onto the redo stack', () => {
+    const messages = conversation();
+    const undone = undoLastTurn(sessionWith(messages));
+
+    assert.ok(undone);
+    assert.deepEqual(undone.messages, messages.slice(0, 2));
+    assert.deepEqual(undone.turn, messages.slice(2));
+    assert.equal(undone.label, '"orders table"');
+    assert.deepEqual(undone.redoStack, [messages.slice(2)]);
+  });
+
+  test('redo brings back the most recently undone turn', () => {
+    const messages = conversation();
+    const undone = undoLastTurn(sessionWith(messages))!;
+    const redone = redoLastTurn(
+      sessionWith(undone.messages, [[userMessage('older')], undone.turn])
+    );
+
+    assert.ok(redone);
+    assert.deepEqual(redone.messages, messages);
+    assert.equal(redone.label, '"orders table"');
+    assert.equal(redone.redoStack.length, 1);
+  });
+
+  test('returns null when there is nothing to undo or redo', () => {
+    assert.equal(undoLastTurn(sessionWith(conversation().slice(0, 2))), null);
+    assert.equal(redoLastTurn(sessionWith(conversation())), null);
+  });
+
+  test('labels turns oldest first', () => {
+    const messages = [
+      ...conversation().slice(0, 4),
+      userMessage('add a filter'),
+      reply(['shopify', 'filter', 'snowflake']),
+    ];
+    const session = sessionWith(messages, [[userMessage('drop nulls')]]);
+
+    assert.deepEqual(getUndoLabels(session), [
+      '"orders table"',
+      '"add a filter"',
+    ]);
+    assert.deepEqual(getRedoLabels(session), ['"drop nulls"']);
+  });
+});